@@ -0,0 +1,296 @@
+import { readFile } from 'node:fs/promises'
+import { isAbsolute, join, normalize } from 'node:path'
+import { z } from 'zod'
+
+export const AGENTS_FILE = 'AGENTS.md'
+
+/**
+ * How an agent's tool calls that need approval (bash, browser) are handled:
+ * ask the user, run them without asking, or refuse them outright.
+ */
+export const APPROVAL_PROFILES = ['ask', 'auto', 'deny'] as const
+export type ApprovalProfile = typeof APPROVAL_PROFILES[number]
+
+const ModelRefSchema = z.string().regex(/^[^/\s]+\/\S+$/, 'expected a "provider/model" ref')
+
+const PromptFileSchema = z.string().refine(
+  (file) => !isAbsolute(file) && !normalize(file).startsWith('..'),
+  'prompt files must be inside the workspace',
+)
+
+export const AgentConfigSchema = z.object({
+  id: z.string().regex(/^[\w-]+$/, 'agent ids may only contain letters, digits, "_" and "-"'),
+  model: ModelRefSchema,
+  description: z.string().default(''),
+  fallback: z.array(ModelRefSchema).default([]),
+  /** Extended thinking / reasoning budget in tokens. */
+  thinking: z.number().int().positive().optional(),
+  /** Tool names the agent may use; all registered tools when omitted. */
+  tools: z.array(z.string().min(1)).optional(),
+  temperature: z.number().min(0).max(2).optional(),
+  maxOutputTokens: z.number().int().positive().optional(),
+  maxToolTurns: z.number().int().min(1).max(100).default(10),
+  /** Workspace files that make up the system prompt, replacing the global set. */
+  prompts: z.array(PromptFileSchema).min(1).optional(),
+  approval: z.enum(APPROVAL_PROFILES).default('ask'),
+})
+
+export type AgentConfig = z.infer<typeof AgentConfigSchema>
+
+/** An agent section that failed validation. */
+export interface AgentConfigError {
+  agentId: string
+  /** 1-based line of the agent's heading in AGENTS.md. */
+  line: number
+  errors: string[]
+}
+
+type FieldKind = 'string' | 'list' | 'number'
+
+/** "Label: value" lines understood in an agent section, keyed by lower-case label. */
+const FIELDS: Record<string, { key: keyof AgentConfig; kind: FieldKind }> = {
+  'model': { key: 'model', kind: 'string' },
+  'description': { key: 'description', kind: 'string' },
+  'fallback': { key: 'fallback', kind: 'list' },
+  'thinking': { key: 'thinking', kind: 'number' },
+  'tools': { key: 'tools', kind: 'list' },
+  'temperature': { key: 'temperature', kind: 'number' },
+  'max output tokens': { key: 'maxOutputTokens', kind: 'number' },
+  'max tool turns': { key: 'maxToolTurns', kind: 'number' },
+  'prompts': { key: 'prompts', kind: 'list' },
+  'approval': { key: 'approval', kind: 'string' },
+}
+
+const FIELD_LABELS = Object.fromEntries(
+  Object.entries(FIELDS).map(([label, { key }]) => [key, label.replace(/\b\w/g, (c) => c.toUpperCase())]),
+) as Record<string, string>
+
+/** Values that switch an optional field off, e.g. "Thinking: off" or "Tools: none". */
+const OFF_VALUES = new Set(['off', 'none', 'no'])
+
+function convertField(kind: FieldKind, value: string): unknown {
+  if (kind === 'string') return value
+  if (kind === 'list') {
+    if (OFF_VALUES.has(value.toLowerCase())) return []
+    return value.split(',').map((item) => item.trim()).filter(Boolean)
+  }
+  if (OFF_VALUES.has(value.toLowerCase())) return undefined
+  const normalized = value.replace(/_/g, '')
+  // Leave non-numeric values as strings so validation reports them
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : value
+}
+
+/**
+ * Parse AGENTS.md into validated agent configs.
+ *
+ * Each `## id` heading starts an agent section; "Label: value" lines in it
+ * set fields (see FIELDS) and other lines are ignored. Sections with no
+ * recognised fields are plain prose and are skipped. Invalid sections are
+ * reported in `errors` instead of `agents`.
+ */
+export function parseAgentsMd(content: string): { agents: AgentConfig[]; errors: AgentConfigError[] } {
+  const agents: AgentConfig[] = []
+  const errors: AgentConfigError[] = []
+
+  let current: { id: string; line: number; fields: Record<string, unknown>; seen: boolean } | null = null
+
+  const finish = () => {
+    if (!current?.seen) return
+    const parsed = AgentConfigSchema.safeParse({ id: current.id, ...current.fields })
+    if (parsed.success) {
+      agents.push(parsed.data)
+    } else {
+      errors.push({
+        agentId: current.id,
+        line: current.line,
+        errors: parsed.error.issues.map((issue) => {
+          const field = FIELD_LABELS[String(issue.path[0])] ?? String(issue.path[0] ?? 'Agent')
+          return `${field}: ${issue.message}`
+        }),
+      })
+    }
+  }
+
+  content.split('\n').forEach((line, idx) => {
+    const headingMatch = line.match(/^##\s+(\S+)/)
+    if (headingMatch) {
+      finish()
+      current = { id: headingMatch[1]!, line: idx + 1, fields: {}, seen: false }
+      return
+    }
+    if (!current) return
+
+    const fieldMatch = line.match(/^([A-Za-z][A-Za-z -]*?):\s*(.+)$/)
+    if (!fieldMatch) return
+    const field = FIELDS[fieldMatch[1]!.toLowerCase().replace(/-/g, ' ')]
+    if (!field) return
+
+    current.seen = true
+    // First occurrence wins, matching how agents were always read
+    if (field.key in current.fields) return
+    current.fields[field.key] = convertField(field.kind, fieldMatch[2]!.trim())
+  })
+  finish()
+
+  return { agents, errors }
+}
+
+/**
+ * Read and parse the workspace AGENTS.md.
+ * A missing file yields no agents and no errors.
+ */
+export async function loadAgentConfigs(
+  workspacePath: string,
+): Promise<{ agents: AgentConfig[]; errors: AgentConfigError[] }> {
+  try {
+    return parseAgentsMd(await readFile(join(workspacePath, AGENTS_FILE), 'utf-8'))
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { agents: [], errors: [] }
+    }
+    throw err
+  }
+}
+
+/**
+ * Load one agent's config. Throws with the validation errors if its
+ * section is invalid, or if it isn't defined.
+ */
+export async function getAgentConfig(workspacePath: string, agentId: string): Promise<AgentConfig> {
+  const { agents, errors } = await loadAgentConfigs(workspacePath)
+
+  const agent = agents.find((a) => a.id === agentId)
+  if (agent) return agent
+
+  const invalid = errors.find((e) => e.agentId === agentId)
+  if (invalid) {
+    throw new Error(`Agent "${agentId}" in ${AGENTS_FILE} is invalid: ${invalid.errors.join('; ')}`)
+  }
+  throw new Error(`No model configured for agent "${agentId}" in ${AGENTS_FILE}`)
+}
+
+/**
+ * Whether an agent may call a tool: it must be in the agent's `Tools:` list
+ * (if one is set), and tools that need approval are off for `Approval: deny`.
+ */
+export function agentAllowsTool(
+  agent: AgentConfig,
+  tool: { name: string; requiresApproval: boolean },
+): boolean {
+  if (agent.tools && !agent.tools.includes(tool.name)) return false
+  return !(tool.requiresApproval && agent.approval === 'deny')
+}
+
+/** Field values to write into an agent section; `null` removes the field's line. */
+export type AgentFieldValues = Partial<Record<Exclude<keyof AgentConfig, 'id'>, unknown>>
+
+const FIELD_ORDER = Object.values(FIELDS).map(({ key }) => key)
+
+function formatFieldLine(key: keyof AgentConfig, value: unknown): string {
+  const text = Array.isArray(value)
+    ? (value.length > 0 ? value.join(', ') : 'none')
+    : String(value)
+  return `${FIELD_LABELS[key]}: ${text}`
+}
+
+/** Field key of a "Label: value" line, or null for prose. */
+function fieldKeyOf(line: string): keyof AgentConfig | null {
+  const match = line.match(/^([A-Za-z][A-Za-z -]*?):\s*(.+)$/)
+  return match ? FIELDS[match[1]!.toLowerCase().replace(/-/g, ' ')]?.key ?? null : null
+}
+
+/**
+ * Line range of an agent's section: its `## id` heading up to the next
+ * `#` or `##` heading. Deeper headings belong to the section.
+ */
+function findAgentSection(lines: string[], agentId: string): { start: number; end: number } | null {
+  const start = lines.findIndex((line) => line.match(/^##\s+(\S+)/)?.[1] === agentId)
+  if (start === -1) return null
+  const next = lines.findIndex((line, idx) => idx > start && /^#{1,2}\s/.test(line))
+  return { start, end: next === -1 ? lines.length : next }
+}
+
+/** Whether AGENTS.md has a section for this agent, valid or not. */
+export function hasAgentSection(content: string, agentId: string): boolean {
+  return findAgentSection(content.split('\n'), agentId) !== null
+}
+
+/** Drop blank lines at the end of a section so sections stay one blank line apart. */
+function trimBlankTail(lines: string[]): string[] {
+  let end = lines.length
+  while (end > 0 && lines[end - 1]!.trim() === '') end--
+  return lines.slice(0, end)
+}
+
+function joinSections(before: string[], section: string[], after: string[]): string {
+  const firstText = after.findIndex((line) => line.trim() !== '')
+  const parts = [
+    trimBlankTail(before),
+    trimBlankTail(section),
+    firstText === -1 ? [] : trimBlankTail(after.slice(firstText)),
+  ]
+  return `${parts.filter((p) => p.length > 0).map((p) => p.join('\n')).join('\n\n')}\n`
+}
+
+/** Append a new `## id` section with the given fields, in the usual field order. */
+export function appendAgentSection(content: string, agentId: string, fields: AgentFieldValues): string {
+  const section = [`## ${agentId}`]
+  for (const key of FIELD_ORDER) {
+    const value = fields[key as keyof AgentFieldValues]
+    if (value !== undefined && value !== null) section.push(formatFieldLine(key, value))
+  }
+  return joinSections(content.split('\n'), section, [])
+}
+
+/**
+ * Set, replace or remove field lines in an existing agent section. Other
+ * lines of the section (prose, sub-headings) and the rest of the file are
+ * kept as they are. Returns null if the agent has no section.
+ */
+export function updateAgentSection(content: string, agentId: string, fields: AgentFieldValues): string | null {
+  const lines = content.split('\n')
+  const range = findAgentSection(lines, agentId)
+  if (!range) return null
+
+  const section = lines.slice(range.start, range.end)
+  for (const key of FIELD_ORDER) {
+    const value = fields[key as keyof AgentFieldValues]
+    if (value === undefined) continue
+
+    const existing = section.findIndex((line, idx) => idx > 0 && fieldKeyOf(line) === key)
+    if (value === null) {
+      // The parser reads the first occurrence, so drop every copy
+      for (let idx = section.length - 1; idx > 0; idx--) {
+        if (fieldKeyOf(section[idx]!) === key) section.splice(idx, 1)
+      }
+    } else if (existing !== -1) {
+      section[existing] = formatFieldLine(key, value)
+    } else {
+      // New fields go after the last field line, or right under the heading
+      let last = 0
+      section.forEach((line, idx) => { if (idx > 0 && fieldKeyOf(line)) last = idx })
+      section.splice(last + 1, 0, formatFieldLine(key, value))
+    }
+  }
+
+  return joinSections(lines.slice(0, range.start), section, lines.slice(range.end))
+}
+
+/** Copy an agent's whole section under a new id, right after the original. */
+export function duplicateAgentSection(content: string, agentId: string, newId: string): string | null {
+  const lines = content.split('\n')
+  const range = findAgentSection(lines, agentId)
+  if (!range) return null
+
+  const original = trimBlankTail(lines.slice(range.start, range.end))
+  const copy = [`## ${newId}`, ...original.slice(1)]
+  return joinSections([...lines.slice(0, range.start), ...original, ''], copy, lines.slice(range.end))
+}
+
+/** Remove an agent's section, leaving the rest of the file untouched. */
+export function removeAgentSection(content: string, agentId: string): string | null {
+  const lines = content.split('\n')
+  const range = findAgentSection(lines, agentId)
+  if (!range) return null
+  return joinSections(lines.slice(0, range.start), [], lines.slice(range.end))
+}
@@ -0,0 +1,86 @@
+import type { ContentBlock, Message, ToolDefinition } from './providers/types.js'
+import { parseModelRef } from './model-ref.js'
+
+/**
+ * Known context windows by model-name prefix. The first match wins, so more
+ * specific prefixes ("gpt-4o") must come before shorter ones ("gpt-4").
+ */
+const CONTEXT_WINDOWS: Array<[prefix: string, tokens: number]> = [
+  ['claude-', 200_000],
+  ['gpt-4.1', 1_047_576],
+  ['gpt-4o', 128_000],
+  ['gpt-4-turbo', 128_000],
+  ['gpt-4', 8_192],
+  ['gpt-5', 400_000],
+  ['gpt-3.5-turbo', 16_385],
+  ['o1', 200_000],
+  ['o3', 200_000],
+  ['o4', 200_000],
+]
+
+/** Used for models we know nothing about, e.g. local models. */
+export const DEFAULT_CONTEXT_WINDOW = 32_000
+
+/** Rough cost of an image in a prompt, whatever its resolution. */
+const IMAGE_TOKENS = 1_600
+/** Role markers and message framing added by the provider. */
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+/**
+ * Context window, in tokens, for a "provider/model" ref.
+ * `overrides` (config context.windows) may be keyed by the full ref or the
+ * bare model name and takes precedence over the built-in table.
+ */
+export function contextWindowFor(modelRef: string, overrides: Record<string, number> = {}): number {
+  const model = modelRef.includes('/') ? parseModelRef(modelRef).model : modelRef
+  const override = overrides[modelRef] ?? overrides[model]
+  if (override) return override
+
+  const match = CONTEXT_WINDOWS.find(([prefix]) => model.startsWith(prefix))
+  return match ? match[1] : DEFAULT_CONTEXT_WINDOW
+}
+
+/**
+ * Estimate the token count of a string. Uses the ~4 characters per token
+ * rule of thumb, which is close enough for English and code to decide when
+ * to compact without shipping a tokenizer per provider.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+function estimateBlockTokens(block: ContentBlock): number {
+  switch (block.type) {
+    case 'image':
+      return IMAGE_TOKENS
+    case 'document':
+      // Base64 inflates by 4/3; count the decoded size
+      return Math.ceil(((block.data?.length ?? 0) * 3) / 16)
+    case 'tool_use':
+      return estimateTokens(`${block.name ?? ''}${JSON.stringify(block.input ?? {})}`)
+    case 'tool_result':
+      return estimateTokens(block.content ?? '')
+        + (block.attachments ?? []).reduce((sum, a) => sum + estimateBlockTokens(a), 0)
+    default:
+      return estimateTokens(block.text ?? '')
+  }
+}
+
+/** Estimate the prompt size of a full model request. */
+export function estimatePromptTokens(
+  systemPrompt: string,
+  messages: Message[],
+  tools: ToolDefinition[] = [],
+): number {
+  let total = estimateTokens(systemPrompt)
+  for (const tool of tools) {
+    total += estimateTokens(`${tool.name}${tool.description}${JSON.stringify(tool.inputSchema)}`)
+  }
+  for (const message of messages) {
+    total += MESSAGE_OVERHEAD_TOKENS
+    total += typeof message.content === 'string'
+      ? estimateTokens(message.content)
+      : message.content.reduce((sum, block) => sum + estimateBlockTokens(block), 0)
+  }
+  return total
+}
@@ -0,0 +1,281 @@
+import type { ChatEvent, ChatParams, ModelProvider } from './providers/types.js'
+import type { Config } from '../config/schema.js'
+import { parseModelRef } from './model-ref.js'
+import type { AgentConfig } from './agent-config.js'
+import { providerErrorEvent } from './providers/errors.js'
+
+export interface ModelCandidate {
+  provider: ModelProvider
+  model: string
+}
+
+export interface RetryPolicy {
+  /** Retries per candidate after the first attempt. */
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures before a provider is taken out of rotation. */
+  failureThreshold: number
+  /** How long an open circuit stays open before one trial request is allowed. */
+  cooldownMs: number
+}
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+interface ProviderHealth {
+  failures: number
+  openedAt: number | null
+}
+
+/**
+ * Tracks provider health across runs. After `failureThreshold` consecutive
+ * failures a provider's circuit opens and it is skipped until the cooldown
+ * elapses; the next request is then a trial that closes or re-opens it.
+ */
+export class CircuitBreaker {
+  private health = new Map<string, ProviderHealth>()
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  state(providerId: string): CircuitState {
+    const entry = this.health.get(providerId)
+    if (!entry || entry.openedAt === null) return 'closed'
+    return this.now() - entry.openedAt >= this.options.cooldownMs ? 'half_open' : 'open'
+  }
+
+  canAttempt(providerId: string): boolean {
+    return this.state(providerId) !== 'open'
+  }
+
+  recordSuccess(providerId: string): void {
+    this.health.delete(providerId)
+  }
+
+  recordFailure(providerId: string): void {
+    const entry = this.health.get(providerId) ?? { failures: 0, openedAt: null }
+    entry.failures += 1
+    // A failed half-open trial re-opens immediately; otherwise open at the threshold.
+    if (entry.openedAt !== null || entry.failures >= this.options.failureThreshold) {
+      entry.openedAt = this.now()
+    }
+    this.health.set(providerId, entry)
+  }
+}
+
+const DEFAULT_PROVIDER_ORDER = ['openai', 'anthropic'] as const
+const DEFAULT_MODEL_BY_PROVIDER: Record<string, string> = {
+  openai: 'gpt-4o-mini',
+  anthropic: 'claude-3-5-haiku-latest',
+}
+
+/**
+ * Build the ordered candidate list for a chain of "provider/model" refs,
+ * skipping refs whose provider is not configured. If none resolve, the
+ * first available provider's default model is used so a gateway with a
+ * single API key still answers.
+ */
+export function resolveModelChain(
+  providers: Map<string, ModelProvider>,
+  refs: string[],
+): { candidates: ModelCandidate[]; missing: string[] } {
+  const candidates: ModelCandidate[] = []
+  const missing: string[] = []
+  const seen = new Set<string>()
+
+  for (const ref of refs) {
+    if (seen.has(ref)) continue
+    seen.add(ref)
+
+    const { provider: providerId, model } = parseModelRef(ref)
+    const provider = providers.get(providerId)
+    if (provider) {
+      candidates.push({ provider, model })
+    } else {
+      missing.push(ref)
+    }
+  }
+
+  if (candidates.length === 0) {
+    const providerId = DEFAULT_PROVIDER_ORDER.find((id) => providers.has(id))
+      ?? (providers.keys().next().value as string | undefined)
+    const model = providerId
+      ? DEFAULT_MODEL_BY_PROVIDER[providerId] ?? providers.get(providerId)!.models?.[0]
+      : undefined
+    if (providerId && model) {
+      candidates.push({ provider: providers.get(providerId)!, model })
+    }
+  }
+
+  return { candidates, missing }
+}
+
+export function candidateRef(candidate: ModelCandidate): string {
+  return `${candidate.provider.id}/${candidate.model}`
+}
+
+function backoffDelay(policy: RetryPolicy, attempt: number): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  // Full jitter in the upper half so concurrent runs don't retry in lockstep
+  return Math.round(exponential * (0.5 + Math.random() / 2))
+}
+
+/** Resolves after `ms`, or as soon as `signal` aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+    const timer = setTimeout(done, ms)
+    signal?.addEventListener('abort', done, { once: true })
+  })
+}
+
+/**
+ * ModelProvider that wraps an ordered failover chain.
+ *
+ * Each call retries transient errors (429/5xx/connection) on the active
+ * candidate with exponential backoff, then moves down the chain, emitting a
+ * provider_switched event. Once output has been streamed to the caller an
+ * error is surfaced as-is, since the partial answer can't be retracted.
+ * The candidate that answered stays active for later tool-use turns.
+ * Aborting `params.signal` cuts a backoff short and ends the call.
+ */
+export class FailoverProvider implements ModelProvider {
+  id = 'failover'
+  private activeIndex = 0
+
+  constructor(
+    private readonly candidates: ModelCandidate[],
+    private readonly retry: RetryPolicy,
+    private readonly breaker: CircuitBreaker,
+    /**
+     * Refs the chain should have started with but whose provider isn't
+     * configured. The first call reports the switch away from them.
+     */
+    private unconfigured: string[] = [],
+  ) {
+    if (candidates.length === 0) {
+      throw new Error('FailoverProvider requires at least one candidate')
+    }
+  }
+
+  /** The candidate currently answering, as a "provider/model" ref. */
+  get activeRef(): string {
+    return candidateRef(this.candidates[this.activeIndex]!)
+  }
+
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
+    const { signal, ...request } = params
+    let lastError: Extract<ChatEvent, { type: 'error' }> | null = null
+    const skipped: string[] = []
+
+    if (this.unconfigured.length > 0) {
+      const reason = `provider not configured for ${this.unconfigured.join(', ')}`
+      yield { type: 'provider_switched', from: this.unconfigured[0]!, to: this.activeRef, reason }
+      this.unconfigured = []
+    }
+
+    for (let idx = this.activeIndex; idx < this.candidates.length; idx++) {
+      const candidate = this.candidates[idx]!
+      const providerId = candidate.provider.id
+
+      if (idx !== this.activeIndex) {
+        const reason = lastError
+          ? lastError.message
+          : `circuit open for "${this.candidates[this.activeIndex]!.provider.id}"`
+        const from = this.activeRef
+        this.activeIndex = idx
+        yield { type: 'provider_switched', from, to: this.activeRef, reason }
+      }
+
+      if (!this.breaker.canAttempt(providerId)) {
+        skipped.push(providerId)
+        continue
+      }
+
+      for (let attempt = 0; attempt <= this.retry.maxRetries; attempt++) {
+        if (attempt > 0) {
+          await sleep(backoffDelay(this.retry, attempt - 1), signal)
+        }
+        if (signal?.aborted) return
+
+        let emitted = false
+        let failure: Extract<ChatEvent, { type: 'error' }> | null = null
+
+        try {
+          for await (const event of candidate.provider.chat({ ...request, model: candidate.model })) {
+            if (event.type === 'error') {
+              failure = event
+              break
+            }
+            if (event.type !== 'final') emitted = true
+            yield event
+          }
+        } catch (err) {
+          failure = providerErrorEvent(err, 'Provider error')
+        }
+
+        if (!failure) {
+          this.breaker.recordSuccess(providerId)
+          return
+        }
+
+        if (emitted) {
+          // Partial output already reached the user — don't replay it elsewhere
+          if (failure.retryable) this.breaker.recordFailure(providerId)
+          yield failure
+          return
+        }
+
+        lastError = failure
+        if (!failure.retryable) break
+      }
+
+      // Only transient failures count against provider health; a request the
+      // provider rejected (bad input, unknown model) still fails over.
+      if (lastError?.retryable) this.breaker.recordFailure(providerId)
+    }
+
+    if (lastError) {
+      yield lastError
+    } else {
+      yield {
+        type: 'error',
+        message: `All providers are temporarily unavailable (circuit open: ${skipped.join(', ')})`,
+      }
+    }
+  }
+}
+
+/**
+ * Build the failover provider for an agent: its AGENTS.md Model, then its
+ * Fallback refs, then the global providers.failover chain.
+ * Throws if no provider can serve the chain. When the agent's own model
+ * can't be served the first call says so with a provider_switched event.
+ */
+export function createAgentProvider(opts: {
+  agent: AgentConfig
+  providers: Map<string, ModelProvider>
+  config: Config
+  breaker: CircuitBreaker
+}): FailoverProvider {
+  const chain = resolveModelChain(opts.providers, [
+    opts.agent.model,
+    ...opts.agent.fallback,
+    ...opts.config.providers.failover,
+  ])
+  if (chain.candidates.length === 0) {
+    throw new Error('No AI providers configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY in .env')
+  }
+
+  const unconfigured = chain.missing[0] === opts.agent.model ? chain.missing : []
+  return new FailoverProvider(chain.candidates, opts.config.providers.retry, opts.breaker, unconfigured)
+}
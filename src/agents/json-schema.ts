@@ -0,0 +1,140 @@
+/**
+ * Minimal JSON Schema validator for structured answers.
+ *
+ * Covers the keywords response schemas use in practice: type, enum, const,
+ * properties, required, additionalProperties, items, min/max items, length
+ * and value bounds, pattern, anyOf/oneOf/allOf and local `$ref`s into
+ * `$defs`/`definitions`. Unknown keywords are ignored rather than rejected.
+ */
+
+export type JsonSchema = Record<string, unknown>
+
+/** Errors are capped so a wildly wrong answer still yields a short repair prompt. */
+const MAX_ERRORS = 20
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number'
+  return typeof value
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === 'number' && actual === 'integer')
+}
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema | null {
+  const match = ref.match(/^#\/(\$defs|definitions)\/(.+)$/)
+  if (!match) return null
+  const defs = root[match[1]!] as Record<string, JsonSchema> | undefined
+  return defs?.[match[2]!] ?? null
+}
+
+function validate(value: unknown, schema: JsonSchema, root: JsonSchema, path: string, errors: string[]): void {
+  if (errors.length >= MAX_ERRORS) return
+  const at = path || '(root)'
+
+  if (typeof schema['$ref'] === 'string') {
+    const target = resolveRef(schema['$ref'], root)
+    if (!target) {
+      errors.push(`${at}: unsupported $ref "${schema['$ref']}"`)
+      return
+    }
+    validate(value, target, root, path, errors)
+  }
+
+  const type = schema['type']
+  if (type !== undefined) {
+    const types = Array.isArray(type) ? type as string[] : [type as string]
+    if (!types.some((t) => matchesType(value, t))) {
+      errors.push(`${at}: expected ${types.join(' or ')}, got ${typeOf(value)}`)
+      return
+    }
+  }
+
+  if ('const' in schema && JSON.stringify(value) !== JSON.stringify(schema['const'])) {
+    errors.push(`${at}: must equal ${JSON.stringify(schema['const'])}`)
+  }
+  if (Array.isArray(schema['enum']) && !schema['enum'].some((v) => JSON.stringify(v) === JSON.stringify(value))) {
+    errors.push(`${at}: must be one of ${schema['enum'].map((v) => JSON.stringify(v)).join(', ')}`)
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema['minLength'] === 'number' && value.length < schema['minLength']) {
+      errors.push(`${at}: must be at least ${schema['minLength']} characters`)
+    }
+    if (typeof schema['maxLength'] === 'number' && value.length > schema['maxLength']) {
+      errors.push(`${at}: must be at most ${schema['maxLength']} characters`)
+    }
+    if (typeof schema['pattern'] === 'string' && !new RegExp(schema['pattern'], 'u').test(value)) {
+      errors.push(`${at}: must match /${schema['pattern']}/`)
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema['minimum'] === 'number' && value < schema['minimum']) {
+      errors.push(`${at}: must be >= ${schema['minimum']}`)
+    }
+    if (typeof schema['maximum'] === 'number' && value > schema['maximum']) {
+      errors.push(`${at}: must be <= ${schema['maximum']}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema['minItems'] === 'number' && value.length < schema['minItems']) {
+      errors.push(`${at}: must have at least ${schema['minItems']} items`)
+    }
+    if (typeof schema['maxItems'] === 'number' && value.length > schema['maxItems']) {
+      errors.push(`${at}: must have at most ${schema['maxItems']} items`)
+    }
+    const items = schema['items']
+    if (items && typeof items === 'object' && !Array.isArray(items)) {
+      value.forEach((item, i) => validate(item, items as JsonSchema, root, `${path}[${i}]`, errors))
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const obj = value as Record<string, unknown>
+    const properties = (schema['properties'] ?? {}) as Record<string, JsonSchema>
+    for (const key of (schema['required'] ?? []) as string[]) {
+      if (!(key in obj)) errors.push(`${path ? `${path}.` : ''}${key}: is required`)
+    }
+    for (const [key, child] of Object.entries(obj)) {
+      const childPath = path ? `${path}.${key}` : key
+      if (properties[key]) {
+        validate(child, properties[key]!, root, childPath, errors)
+      } else if (schema['additionalProperties'] === false) {
+        errors.push(`${childPath}: is not allowed`)
+      } else if (schema['additionalProperties'] && typeof schema['additionalProperties'] === 'object') {
+        validate(child, schema['additionalProperties'] as JsonSchema, root, childPath, errors)
+      }
+    }
+  }
+
+  if (Array.isArray(schema['allOf'])) {
+    for (const sub of schema['allOf'] as JsonSchema[]) validate(value, sub, root, path, errors)
+  }
+  for (const keyword of ['anyOf', 'oneOf'] as const) {
+    const options = schema[keyword]
+    if (!Array.isArray(options)) continue
+    const matching = (options as JsonSchema[]).filter((sub) => {
+      const subErrors: string[] = []
+      validate(value, sub, root, path, subErrors)
+      return subErrors.length === 0
+    }).length
+    if (matching === 0 || (keyword === 'oneOf' && matching > 1)) {
+      errors.push(`${at}: must match ${keyword === 'oneOf' ? 'exactly one' : 'at least one'} of the allowed schemas`)
+    }
+  }
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ * Returns readable errors such as `items[2].price: expected number, got string`.
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = []
+  validate(value, schema, schema, '', errors)
+  return errors
+}
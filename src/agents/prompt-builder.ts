@@ -1,80 +1,65 @@
 import { readFile } from 'node:fs/promises'
 import { join } from 'node:path'
+import { expandPromptIncludes, fillPromptTemplate, type PromptContext } from './prompt-template.js'
 
-const WORKSPACE_FILES = ['AGENTS.md', 'SOUL.md', 'TOOLS.md']
 const SCHEDULER_FILE = 'SCHEDULER.md'
 
-/**
- * Build the system prompt by reading and concatenating workspace markdown files.
- * Missing files are silently skipped.
- */
-export async function buildSystemPrompt(workspacePath: string): Promise<string> {
-  const sections: string[] = []
+/** The global prompt set. SCHEDULER.md is only read for scheduled runs. */
+export const WORKSPACE_FILES = ['AGENTS.md', 'SOUL.md', 'TOOLS.md', SCHEDULER_FILE]
 
-  for (const file of WORKSPACE_FILES) {
-    try {
-      const content = await readFile(join(workspacePath, file), 'utf-8')
-      if (content.trim()) {
-        sections.push(content.trim())
-      }
-    } catch {
-      // File doesn't exist — skip silently
-    }
-  }
+const DEFAULT_CONTEXT: PromptContext = { mode: 'interactive', agentId: 'assistant' }
 
-  return sections.join('\n\n---\n\n')
-}
-
-/**
- * Build a scheduler-specific system prompt.
- * Includes the normal workspace prompt plus optional scheduler-only overrides.
- */
-export async function buildSchedulerSystemPrompt(workspacePath: string): Promise<string> {
-  const basePrompt = await buildSystemPrompt(workspacePath)
+/** Reads a prompt file in `dir` with its includes expanded; null when there is no such file. */
+export type PromptLoader = (dir: string, file: string) => Promise<string | null>
 
+/** Read a prompt file straight from disk; WorkspaceWatcher caches the same. */
+export const loadPromptFile: PromptLoader = async (dir, file) => {
+  let source: string
   try {
-    const schedulerContent = await readFile(join(workspacePath, SCHEDULER_FILE), 'utf-8')
-    const trimmed = schedulerContent.trim()
-    if (!trimmed) return basePrompt
-    if (!basePrompt) return trimmed
-    return `${basePrompt}\n\n---\n\n${trimmed}`
+    source = await readFile(join(dir, file), 'utf-8')
   } catch {
-    return basePrompt
+    return null
   }
+  return expandPromptIncludes(source, file, dir)
 }
 
 /**
- * Parse the model reference from AGENTS.md for a given agent ID.
- * Looks for a line like "Model: anthropic/claude-opus-4-6" under the agent heading.
+ * Build the system prompt from workspace markdown files: an agent's own
+ * `Prompts:` list, or the global AGENTS/SOUL/TOOLS/SCHEDULER set (chats
+ * leave SCHEDULER.md out). Each file is rendered as a template (see
+ * prompt-template.ts) for the run's mode.
+ * A file found in `overrideDir` (a project's prompt directory) is used
+ * instead of the workspace's, with its includes resolved in that directory.
+ * Missing files and files that render empty are silently skipped.
  */
-export async function getAgentModelRef(
+export async function buildSystemPrompt(
   workspacePath: string,
-  agentId: string,
-): Promise<string | null> {
-  try {
-    const content = await readFile(join(workspacePath, 'AGENTS.md'), 'utf-8')
-    const lines = content.split('\n')
+  files?: string[],
+  context: PromptContext = DEFAULT_CONTEXT,
+  overrideDir?: string,
+  load: PromptLoader = loadPromptFile,
+): Promise<string> {
+  const sections: string[] = []
+  const dirs = overrideDir ? [overrideDir, workspacePath] : [workspacePath]
+  files ??= WORKSPACE_FILES.filter((file) => file !== SCHEDULER_FILE || context.mode === 'scheduler')
 
-    let inAgent = false
-    for (const line of lines) {
-      // Match ## agentId heading
-      if (line.match(new RegExp(`^##\\s+${agentId}\\s*$`))) {
-        inAgent = true
-        continue
-      }
-      // Another heading means we've left the agent section
-      if (inAgent && line.match(/^##\s+/)) {
-        break
-      }
-      if (inAgent) {
-        const modelMatch = line.match(/^Model:\s*(.+)$/i)
-        if (modelMatch) {
-          return modelMatch[1].trim()
-        }
-      }
+  for (const file of files) {
+    let found: { expanded: string; dir: string } | null = null
+    for (const dir of dirs) {
+      const expanded = await load(dir, file)
+      // Not in this directory — try the next
+      if (expanded === null) continue
+      found = { expanded, dir }
+      break
+    }
+    // File doesn't exist — skip silently
+    if (!found) continue
+
+    const rendered = fillPromptTemplate(found.expanded, found.dir, context)
+    if (rendered) {
+      sections.push(rendered)
     }
-  } catch {
-    // File doesn't exist
   }
-  return null
+
+  return sections.join('\n\n---\n\n')
 }
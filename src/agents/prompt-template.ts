@@ -0,0 +1,149 @@
+import { readFile } from 'node:fs/promises'
+import { hostname, platform, release } from 'node:os'
+import { isAbsolute, join, relative, resolve } from 'node:path'
+
+/**
+ * Template syntax for workspace prompt files:
+ *
+ *   {{date}}                      runtime variable (see promptVariables)
+ *   {{> CHECKLIST.md}}            include another workspace file
+ *   {{#scheduler}}…{{/scheduler}} kept only in scheduled runs
+ *   {{#interactive}}…{{/interactive}} kept only in chats
+ *
+ * Unknown variables are left as written, so literal braces in prompts survive.
+ */
+
+export type PromptMode = 'interactive' | 'scheduler'
+
+export interface PromptContext {
+  mode: PromptMode
+  agentId: string
+  sessionLabel?: string | null
+  /** Names of the tools offered to the model in this run. */
+  toolNames?: string[]
+  /** The session's project, when it is in one. */
+  projectName?: string | null
+  /** Where tools run by default; the gateway's cwd when omitted. */
+  cwd?: string
+  /** Defaults to the current time; fixed in tests. */
+  now?: Date
+}
+
+/** Includes may nest, but not indefinitely. */
+const MAX_INCLUDE_DEPTH = 5
+
+const INCLUDE = /\{\{>\s*([^}\s]+)\s*\}\}/g
+const SECTION = /\{\{#(scheduler|interactive)\}\}([\s\S]*?)\{\{\/\1\}\}/g
+const VARIABLE = /\{\{\s*([a-zA-Z][\w]*)\s*\}\}/g
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0')
+}
+
+/** Values available as `{{name}}` in prompt files. */
+export function promptVariables(workspacePath: string, context: PromptContext): Record<string, string> {
+  const now = context.now ?? new Date()
+  return {
+    date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+    time: `${pad(now.getHours())}:${pad(now.getMinutes())}`,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    os: `${platform()} ${release()}`,
+    hostname: hostname(),
+    sessionLabel: context.sessionLabel ?? '',
+    agentId: context.agentId,
+    workspacePath,
+    project: context.projectName ?? '',
+    cwd: context.cwd ?? process.cwd(),
+    tools: (context.toolNames ?? []).join(', '),
+    mode: context.mode,
+  }
+}
+
+/** Logs include problems while rendering; checkPromptTemplate collects them instead. */
+type ProblemHandler = (problem: string) => void
+
+const warnProblem: ProblemHandler = (problem) => console.warn(`[prompt] ${problem}`)
+
+/**
+ * Replace `{{> file}}` with the file's (recursively expanded) content.
+ * Missing files, paths outside the workspace and include cycles expand to
+ * nothing (with a warning), so a broken include never fails a run.
+ */
+async function expandIncludes(
+  source: string,
+  workspacePath: string,
+  stack: string[],
+  onProblem: ProblemHandler = warnProblem,
+): Promise<string> {
+  const parts: string[] = []
+  let last = 0
+
+  for (const match of source.matchAll(INCLUDE)) {
+    parts.push(source.slice(last, match.index))
+    last = match.index + match[0].length
+
+    const target = resolve(workspacePath, match[1]!)
+    const rel = relative(resolve(workspacePath), target)
+    if (rel.startsWith('..') || isAbsolute(rel)) {
+      onProblem(`Ignoring include outside the workspace: ${match[1]}`)
+      continue
+    }
+    if (stack.includes(rel) || stack.length >= MAX_INCLUDE_DEPTH) {
+      onProblem(`Ignoring recursive include: ${[...stack, rel].join(' → ')}`)
+      continue
+    }
+
+    let content: string
+    try {
+      content = await readFile(join(workspacePath, rel), 'utf-8')
+    } catch {
+      onProblem(`Ignoring missing include: ${match[1]}`)
+      continue
+    }
+    parts.push((await expandIncludes(content, workspacePath, [...stack, rel], onProblem)).trim())
+  }
+
+  parts.push(source.slice(last))
+  return parts.join('')
+}
+
+/**
+ * First step of rendering a prompt file: expand its includes. This part
+ * doesn't depend on the run, so it can be cached until the files change.
+ */
+export function expandPromptIncludes(source: string, file: string, workspacePath: string): Promise<string> {
+  return expandIncludes(source, workspacePath, [file])
+}
+
+/**
+ * Second step: keep the sections for the current mode of an expanded
+ * template, then substitute variables.
+ */
+export function fillPromptTemplate(expanded: string, workspacePath: string, context: PromptContext): string {
+  const variables = promptVariables(workspacePath, context)
+
+  return expanded
+    .replace(SECTION, (_, mode: string, body: string) => (mode === context.mode ? body : ''))
+    .replace(VARIABLE, (raw, name: string) => variables[name] ?? raw)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * List what would go wrong rendering a prompt file: includes outside the
+ * workspace, missing or recursive includes, and unclosed mode sections.
+ */
+export async function checkPromptTemplate(
+  source: string,
+  file: string,
+  workspacePath: string,
+): Promise<string[]> {
+  const problems: string[] = []
+  const expanded = await expandIncludes(source, workspacePath, [file], (problem) => problems.push(problem))
+
+  const unclosed = expanded.replace(SECTION, '').match(/\{\{[#/](scheduler|interactive)\}\}/g)
+  for (const tag of new Set(unclosed ?? [])) {
+    problems.push(`Unmatched section tag ${tag}`)
+  }
+  return problems
+}
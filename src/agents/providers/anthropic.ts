@@ -1,11 +1,88 @@
 import Anthropic from '@anthropic-ai/sdk'
 import type {
   ChatEvent,
+  ChatParams,
   Message,
   ModelProvider,
   ToolDefinition,
   ContentBlock,
+  StopReason,
 } from './types.js'
+import { providerErrorEvent } from './errors.js'
+
+function toAnthropicImage(block: ContentBlock): Anthropic.ImageBlockParam {
+  return {
+    type: 'image' as const,
+    source: {
+      type: 'base64' as const,
+      media_type: block.mimeType as Anthropic.Base64ImageSource['media_type'],
+      data: block.data ?? '',
+    },
+  }
+}
+
+function toAnthropicDocument(block: ContentBlock): Anthropic.DocumentBlockParam {
+  if (block.mimeType === 'application/pdf') {
+    return {
+      type: 'document' as const,
+      source: { type: 'base64' as const, media_type: 'application/pdf', data: block.data ?? '' },
+      ...(block.name ? { title: block.name } : {}),
+    }
+  }
+  return {
+    type: 'document' as const,
+    source: {
+      type: 'text' as const,
+      media_type: 'text/plain',
+      data: Buffer.from(block.data ?? '', 'base64').toString('utf-8'),
+    },
+    ...(block.name ? { title: block.name } : {}),
+  }
+}
+
+/**
+ * Convert one of our content blocks to Anthropic's block format.
+ */
+function toAnthropicBlock(block: ContentBlock): Anthropic.ContentBlockParam {
+  if (block.type === 'text') {
+    return { type: 'text' as const, text: block.text ?? '' }
+  }
+  if (block.type === 'image') {
+    return toAnthropicImage(block)
+  }
+  if (block.type === 'document') {
+    return toAnthropicDocument(block)
+  }
+  if (block.type === 'thinking') {
+    return {
+      type: 'thinking' as const,
+      thinking: block.text ?? '',
+      signature: block.signature ?? '',
+    }
+  }
+  if (block.type === 'redacted_thinking') {
+    return { type: 'redacted_thinking' as const, data: block.data ?? '' }
+  }
+  if (block.type === 'tool_use') {
+    return {
+      type: 'tool_use' as const,
+      id: block.id ?? '',
+      name: block.name ?? '',
+      input: block.input ?? {},
+    }
+  }
+  if (block.type === 'tool_result') {
+    const images = (block.attachments ?? []).filter((a) => a.type === 'image')
+    return {
+      type: 'tool_result' as const,
+      tool_use_id: block.toolUseId ?? '',
+      content: images.length > 0
+        ? [{ type: 'text' as const, text: block.content ?? '' }, ...images.map(toAnthropicImage)]
+        : block.content ?? '',
+    }
+  }
+  return { type: 'text' as const, text: '' }
+}
 
 /**
  * Convert our Message format to Anthropic's message format.
@@ -16,68 +93,114 @@ function toAnthropicMessages(messages: Message[]): Anthropic.MessageParam[] {
       return { role: msg.role, content: msg.content }
     }
 
-    // Convert content blocks
-    const blocks: Anthropic.ContentBlockParam[] = msg.content.map((block: ContentBlock) => {
-      if (block.type === 'text') {
-        return { type: 'text' as const, text: block.text ?? '' }
-      }
-      if (block.type === 'tool_use') {
-        return {
-          type: 'tool_use' as const,
-          id: block.id ?? '',
-          name: block.name ?? '',
-          input: block.input ?? {},
-        }
-      }
-      if (block.type === 'tool_result') {
-        return {
-          type: 'tool_result' as const,
-          tool_use_id: block.toolUseId ?? '',
-          content: block.content ?? '',
-        }
-      }
-      return { type: 'text' as const, text: '' }
-    })
+    // Thinking without a signature came from another provider (e.g. after a
+    // failover) and would be rejected, so it is dropped.
+    const blocks = msg.content
+      .filter((block) => block.type !== 'thinking' || block.signature)
+      .map(toAnthropicBlock)
 
     return { role: msg.role, content: blocks }
   })
 }
 
+const CACHE_CONTROL: Anthropic.CacheControlEphemeral = { type: 'ephemeral' }
+
 /**
  * Convert our ToolDefinition to Anthropic's tool format.
+ * The last tool carries a cache breakpoint so the whole tool list is cached.
  */
 function toAnthropicTools(tools: ToolDefinition[]): Anthropic.Tool[] {
-  return tools.map((t) => ({
+  return tools.map((t, i) => ({
     name: t.name,
     description: t.description,
     input_schema: t.inputSchema as Anthropic.Tool.InputSchema,
+    ...(i === tools.length - 1 ? { cache_control: CACHE_CONTROL } : {}),
   }))
 }
 
+/**
+ * Put a cache breakpoint on the last block of the conversation so the next
+ * request (the following tool-use turn, or the next chat message) reads the
+ * whole prefix from cache. Thinking blocks and empty text can't carry one.
+ */
+function markCacheBreakpoint(messages: Anthropic.MessageParam[]): void {
+  const last = messages.at(-1)
+  if (!last) return
+
+  if (typeof last.content === 'string') {
+    if (last.content) {
+      last.content = [{ type: 'text', text: last.content, cache_control: CACHE_CONTROL }]
+    }
+    return
+  }
+
+  const block = last.content.at(-1)
+  if (!block || block.type === 'thinking' || block.type === 'redacted_thinking') return
+  if (block.type === 'text' && !block.text) return
+  block.cache_control = CACHE_CONTROL
+}
+
+/** Normalize Anthropic's stop_reason (null while streaming, never on message_stop). */
+function toStopReason(reason: Anthropic.StopReason | null): StopReason {
+  switch (reason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'end_turn'
+    case 'tool_use':
+      return 'tool_use'
+    case 'max_tokens':
+      return 'max_tokens'
+    case 'refusal':
+      return 'content_filter'
+    default:
+      return 'other'
+  }
+}
+
+const DEFAULT_MAX_TOKENS = 8192
+const MIN_THINKING_BUDGET = 1024
+
 export class AnthropicProvider implements ModelProvider {
   id = 'anthropic'
   private client: Anthropic
 
   constructor(apiKey: string) {
-    this.client = new Anthropic({ apiKey })
+    // Retries are owned by the failover policy (agents/failover.ts)
+    this.client = new Anthropic({ apiKey, maxRetries: 0 })
   }
 
-  async *chat(params: {
-    model: string
-    systemPrompt: string
-    messages: Message[]
-    tools: ToolDefinition[]
-  }): AsyncIterable<ChatEvent> {
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
     const anthropicMessages = toAnthropicMessages(params.messages)
     const anthropicTools = toAnthropicTools(params.tools)
+    markCacheBreakpoint(anthropicMessages)
+
+    // Extended thinking needs a budget of at least 1024 tokens and
+    // max_tokens above the budget so there is room left for the answer.
+    const thinkingBudget = params.thinkingBudget
+      ? Math.max(MIN_THINKING_BUDGET, params.thinkingBudget)
+      : 0
 
     try {
+      const maxTokens = params.maxOutputTokens ?? DEFAULT_MAX_TOKENS
       const streamParams: Anthropic.MessageCreateParams = {
         model: params.model,
-        max_tokens: 8192,
-        system: params.systemPrompt,
+        max_tokens: thinkingBudget + maxTokens,
+        // Cache order is tools → system → messages, one breakpoint each
+        ...(params.systemPrompt
+          ? { system: [{ type: 'text' as const, text: params.systemPrompt, cache_control: CACHE_CONTROL }] }
+          : {}),
         messages: anthropicMessages,
         ...(anthropicTools.length > 0 ? { tools: anthropicTools } : {}),
+        ...(thinkingBudget
+          ? { thinking: { type: 'enabled' as const, budget_tokens: thinkingBudget } }
+          : {}),
+        // Extended thinking only runs at the default temperature
+        ...(params.temperature !== undefined && !thinkingBudget
+          ? { temperature: params.temperature }
+          : {}),
+        ...(params.responseSchema
+          ? { output_config: { format: { type: 'json_schema' as const, schema: params.responseSchema } } }
+          : {}),
       }
 
       const stream = this.client.messages.stream(streamParams)
@@ -94,12 +217,21 @@ export class AnthropicProvider implements ModelProvider {
             currentToolCallName = event.content_block.name
             currentToolCallInput = ''
           }
+          if (event.content_block.type === 'redacted_thinking') {
+            yield { type: 'thinking', text: '', redacted: event.content_block.data }
+          }
         }
 
         if (event.type === 'content_block_delta') {
           if (event.delta.type === 'text_delta') {
             yield { type: 'delta', text: event.delta.text }
           }
+          if (event.delta.type === 'thinking_delta') {
+            yield { type: 'thinking', text: event.delta.thinking }
+          }
+          if (event.delta.type === 'signature_delta') {
+            yield { type: 'thinking', text: '', signature: event.delta.signature }
+          }
           if (event.delta.type === 'input_json_delta') {
             currentToolCallInput += event.delta.partial_json
           }
@@ -126,19 +258,21 @@ export class AnthropicProvider implements ModelProvider {
         }
 
         if (event.type === 'message_stop') {
-          const finalMessage = await stream.finalMessage()
+          const { usage, stop_reason } = await stream.finalMessage()
           yield {
             type: 'final',
             usage: {
-              inputTokens: finalMessage.usage.input_tokens,
-              outputTokens: finalMessage.usage.output_tokens,
+              inputTokens: usage.input_tokens,
+              outputTokens: usage.output_tokens,
+              cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+              cacheWriteTokens: usage.cache_creation_input_tokens ?? 0,
             },
+            stopReason: toStopReason(stop_reason),
           }
         }
       }
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'Anthropic API error'
-      yield { type: 'error', message }
+      yield providerErrorEvent(err, 'Anthropic API error')
     }
   }
 }
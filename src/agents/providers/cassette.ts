@@ -0,0 +1,232 @@
+/**
+ * Record-and-replay model providers.
+ *
+ * In `record` mode every real provider is wrapped so each chat() request is
+ * saved with the events it streamed to a cassette file. In `replay` mode the
+ * cassette stands in for the real providers, so whole chat → tool → answer
+ * flows run offline and deterministically, without API keys.
+ */
+
+import { existsSync, readFileSync } from 'node:fs'
+import { mkdir, writeFile } from 'node:fs/promises'
+import { dirname } from 'node:path'
+import type { ChatEvent, ChatParams, ModelProvider } from './types.js'
+
+export const CASSETTE_MODES = ['off', 'record', 'replay'] as const
+export type CassetteMode = (typeof CASSETTE_MODES)[number]
+
+export interface CassetteInteraction {
+  /** Id of the provider that served the request, e.g. "anthropic". */
+  provider: string
+  request: ChatParams
+  events: ChatEvent[]
+}
+
+interface CassetteFile {
+  version: 1
+  interactions: CassetteInteraction[]
+}
+
+/** A replayed request differs from every remaining recording. */
+export class CassetteMismatchError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CassetteMismatchError'
+  }
+}
+
+/** JSON round-trip, so live requests compare like their stored copies (no undefined fields). */
+function normalize<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T
+}
+
+/** The request as recorded: the abort signal isn't part of it. */
+function recordedRequest({ signal: _signal, ...request }: ChatParams): ChatParams {
+  return normalize(request)
+}
+
+interface Difference {
+  path: string
+  recorded: unknown
+  actual: unknown
+}
+
+/** First place two JSON values differ, e.g. `messages[2].content`. */
+function firstDifference(recorded: unknown, actual: unknown, path = ''): Difference | null {
+  if (recorded === actual) return null
+
+  const bothObjects =
+    typeof recorded === 'object' && recorded !== null &&
+    typeof actual === 'object' && actual !== null &&
+    Array.isArray(recorded) === Array.isArray(actual)
+  if (!bothObjects) {
+    return { path: path || '(request)', recorded, actual }
+  }
+
+  if (Array.isArray(recorded)) {
+    const other = actual as unknown[]
+    if (recorded.length !== other.length) {
+      return { path: `${path}.length`, recorded: recorded.length, actual: other.length }
+    }
+    for (let i = 0; i < recorded.length; i++) {
+      const diff = firstDifference(recorded[i], other[i], `${path}[${i}]`)
+      if (diff) return diff
+    }
+    return null
+  }
+
+  const a = recorded as Record<string, unknown>
+  const b = actual as Record<string, unknown>
+  for (const key of [...new Set([...Object.keys(a), ...Object.keys(b)])].sort()) {
+    const diff = firstDifference(a[key], b[key], path ? `${path}.${key}` : key)
+    if (diff) return diff
+  }
+  return null
+}
+
+function preview(value: unknown): string {
+  const text = value === undefined ? 'nothing' : JSON.stringify(value)
+  return text.length > 120 ? `${text.slice(0, 117)}...` : text
+}
+
+/**
+ * Collects interactions and rewrites the cassette file after each one, so a
+ * recording survives the gateway being stopped mid-session.
+ */
+export class CassetteRecorder {
+  private interactions: CassetteInteraction[] = []
+  private writing: Promise<void> = Promise.resolve()
+
+  constructor(readonly path: string) {}
+
+  add(interaction: CassetteInteraction): Promise<void> {
+    this.interactions.push(interaction)
+    const file: CassetteFile = { version: 1, interactions: this.interactions }
+    const json = `${JSON.stringify(file, null, 2)}\n`
+
+    this.writing = this.writing
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true })
+        await writeFile(this.path, json, 'utf-8')
+      })
+      .catch((err) => console.warn('[cassette] Failed to write recording:', (err as Error).message))
+    return this.writing
+  }
+
+  /** Resolves once every recorded interaction is on disk. */
+  flush(): Promise<void> {
+    return this.writing
+  }
+}
+
+/** Passes requests to a real provider and records each completed stream. */
+export class RecordingProvider implements ModelProvider {
+  readonly id: string
+  readonly models?: string[]
+
+  constructor(private inner: ModelProvider, private recorder: CassetteRecorder) {
+    this.id = inner.id
+    this.models = inner.models
+  }
+
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
+    const request = recordedRequest(params)
+    const events: ChatEvent[] = []
+    for await (const event of this.inner.chat(params)) {
+      events.push(event)
+      yield event
+    }
+    // Streams abandoned part-way (aborted runs) are not recorded
+    void this.recorder.add({ provider: this.id, request, events })
+  }
+}
+
+/**
+ * A loaded cassette. Each recording is played at most once; requests are
+ * matched by content rather than order, so concurrent runs replay too.
+ */
+export class Cassette {
+  private played: boolean[]
+
+  constructor(readonly path: string, private interactions: CassetteInteraction[]) {
+    this.played = interactions.map(() => false)
+  }
+
+  /** Read a cassette file. Throws if it is missing or not a cassette. */
+  static load(path: string): Cassette {
+    if (!existsSync(path)) {
+      throw new Error(`Cassette not found: ${path}`)
+    }
+    const file = JSON.parse(readFileSync(path, 'utf-8')) as Partial<CassetteFile>
+    if (file.version !== 1 || !Array.isArray(file.interactions)) {
+      throw new Error(`Not a version 1 cassette: ${path}`)
+    }
+    return new Cassette(path, file.interactions)
+  }
+
+  /** Ids of the providers that served recorded requests. */
+  get providerIds(): string[] {
+    return [...new Set(this.interactions.map((i) => i.provider))]
+  }
+
+  /** Recordings not yet played back. */
+  get unplayed(): number {
+    return this.played.filter((p) => !p).length
+  }
+
+  modelsFor(providerId: string): string[] {
+    return [...new Set(
+      this.interactions.filter((i) => i.provider === providerId).map((i) => i.request.model),
+    )]
+  }
+
+  /**
+   * Take the events of the first unplayed recording of this exact request.
+   * Throws a CassetteMismatchError naming the first differing field otherwise.
+   */
+  take(providerId: string, params: ChatParams): ChatEvent[] {
+    const request = recordedRequest(params)
+    const candidates = this.interactions
+      .map((interaction, index) => ({ interaction, index }))
+      .filter(({ interaction, index }) => !this.played[index] && interaction.provider === providerId)
+
+    for (const { interaction, index } of candidates) {
+      if (!firstDifference(interaction.request, request)) {
+        this.played[index] = true
+        return interaction.events
+      }
+    }
+
+    const next = candidates[0]
+    if (!next) {
+      throw new CassetteMismatchError(
+        `Cassette ${this.path} has no unplayed recording for provider "${providerId}" (model ${params.model})`,
+      )
+    }
+    const diff = firstDifference(next.interaction.request, request)!
+    throw new CassetteMismatchError(
+      `Request to "${providerId}" does not match cassette ${this.path}: ` +
+      `${diff.path} was recorded as ${preview(diff.recorded)} but is now ${preview(diff.actual)}`,
+    )
+  }
+}
+
+/** Serves one provider id's recordings from a cassette. */
+export class ReplayProvider implements ModelProvider {
+  readonly models: string[]
+
+  constructor(readonly id: string, private cassette: Cassette) {
+    this.models = cassette.modelsFor(id)
+  }
+
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
+    for (const event of this.cassette.take(this.id, params)) {
+      yield event
+    }
+  }
+}
+
+/** Replay providers for every provider id recorded in the cassette. */
+export function replayProviders(cassette: Cassette): Map<string, ModelProvider> {
+  return new Map(cassette.providerIds.map((id) => [id, new ReplayProvider(id, cassette)]))
+}
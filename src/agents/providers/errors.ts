@@ -0,0 +1,41 @@
+import type { ChatEvent } from './types.js'
+
+/** HTTP statuses worth retrying: timeouts, rate limits, overload and server errors. */
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429, 500, 502, 503, 504, 529])
+
+/** SDK error class names for failures that never reached the API. */
+const CONNECTION_ERROR_NAMES = new Set(['APIConnectionError', 'APIConnectionTimeoutError'])
+
+function errorStatus(err: unknown): number | undefined {
+  const status = (err as { status?: unknown } | null)?.status
+  if (typeof status === 'number') return status
+
+  // Errors raised mid-stream carry no HTTP status, only the SSE error body.
+  const body = (err as { error?: { error?: { type?: unknown } } } | null)?.error
+  if (body?.error?.type === 'overloaded_error') return 529
+  if (body?.error?.type === 'rate_limit_error') return 429
+  return undefined
+}
+
+/**
+ * Convert an SDK error into an error ChatEvent, preserving the HTTP status
+ * and whether the failure is transient so the failover policy can retry it.
+ */
+export function providerErrorEvent(
+  err: unknown,
+  fallbackMessage: string,
+): Extract<ChatEvent, { type: 'error' }> {
+  const message = err instanceof Error ? err.message : fallbackMessage
+  const status = errorStatus(err)
+  const name = (err as { constructor?: { name?: string } } | null)?.constructor?.name ?? ''
+  const retryable = status !== undefined
+    ? RETRYABLE_STATUS.has(status)
+    : CONNECTION_ERROR_NAMES.has(name)
+
+  return {
+    type: 'error',
+    message,
+    ...(status !== undefined ? { status } : {}),
+    retryable,
+  }
+}
@@ -0,0 +1,39 @@
+import type { ProviderConfig } from '../../config/schema.js'
+import { OpenAIProvider } from './openai.js'
+
+/**
+ * Placeholder key for servers that don't check authentication
+ * (the OpenAI SDK refuses to construct a client without one).
+ */
+const NO_API_KEY = 'not-needed'
+
+/**
+ * Resolve the API key for a configured provider: an inline key wins,
+ * then the named environment variable, then the placeholder.
+ */
+function resolveApiKey(config: ProviderConfig): string {
+  if (config.apiKey) return config.apiKey
+  if (config.apiKeyEnv) {
+    const fromEnv = process.env[config.apiKeyEnv]
+    if (fromEnv) return fromEnv
+  }
+  return NO_API_KEY
+}
+
+/**
+ * Provider for any server that speaks the OpenAI Chat Completions API
+ * (Ollama, llama.cpp server, vLLM, LM Studio, ...).
+ *
+ * Registered from config.providers.openaiCompatible, so a provider with
+ * id "local" makes model refs like "local/llama3" resolvable.
+ */
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  constructor(config: ProviderConfig) {
+    super(resolveApiKey(config), {
+      baseURL: config.baseUrl,
+      headers: config.headers,
+    })
+    this.id = config.id
+    this.models = config.models.length > 0 ? [...config.models] : undefined
+  }
+}
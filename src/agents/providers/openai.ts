@@ -1,11 +1,33 @@
+import { randomUUID } from 'node:crypto'
 import OpenAI from 'openai'
 import type {
   ChatEvent,
+  ChatParams,
   Message,
   ModelProvider,
   ToolDefinition,
   ContentBlock,
+  StopReason,
 } from './types.js'
+import { providerErrorEvent } from './errors.js'
+
+/**
+ * Convert an image or document block to an OpenAI user content part.
+ */
+function toOpenAIPart(block: ContentBlock): OpenAI.ChatCompletionContentPart {
+  const data = block.data ?? ''
+  if (block.type === 'image') {
+    return { type: 'image_url', image_url: { url: `data:${block.mimeType};base64,${data}` } }
+  }
+  if (block.mimeType === 'application/pdf') {
+    return {
+      type: 'file',
+      file: { filename: block.name ?? 'document.pdf', file_data: `data:application/pdf;base64,${data}` },
+    }
+  }
+  const text = Buffer.from(data, 'base64').toString('utf-8')
+  return { type: 'text', text: `File: ${block.name ?? 'attachment'}\n\n${text}` }
+}
 
 /**
  * Convert our Message format to OpenAI's message format.
@@ -23,7 +45,8 @@ function toOpenAIMessages(messages: Message[]): OpenAI.ChatCompletionMessagePara
     const blocks = msg.content as ContentBlock[]
 
     if (msg.role === 'assistant') {
-      // Collect text and tool_use blocks into a single assistant message
+      // Collect text and tool_use blocks into a single assistant message.
+      // Chat Completions doesn't accept reasoning back, so thinking is dropped.
       const textParts: string[] = []
       const toolCalls: OpenAI.ChatCompletionMessageToolCall[] = []
 
@@ -52,7 +75,10 @@ function toOpenAIMessages(messages: Message[]): OpenAI.ChatCompletionMessagePara
     }
 
     if (msg.role === 'user') {
-      // tool_result blocks become separate tool messages
+      // tool_result blocks become separate tool messages. Tool messages only
+      // carry text, so any images they returned follow in a user message.
+      const parts: OpenAI.ChatCompletionContentPart[] = []
+
       for (const block of blocks) {
         if (block.type === 'tool_result') {
           result.push({
@@ -60,11 +86,30 @@ function toOpenAIMessages(messages: Message[]): OpenAI.ChatCompletionMessagePara
             tool_call_id: block.toolUseId ?? '',
             content: block.content ?? '',
           })
+          const images = (block.attachments ?? []).filter((a) => a.type === 'image')
+          if (images.length > 0) {
+            parts.push({ type: 'text', text: `Images returned by tool call ${block.toolUseId ?? ''}:` })
+            parts.push(...images.map(toOpenAIPart))
+          }
         }
         if (block.type === 'text' && block.text) {
-          result.push({ role: 'user', content: block.text })
+          parts.push({ type: 'text', text: block.text })
+        }
+        if (block.type === 'image' || block.type === 'document') {
+          parts.push(toOpenAIPart(block))
         }
       }
+
+      if (parts.length > 0) {
+        // Plain text stays a string for servers without content-part support
+        const textOnly = parts.every((p) => p.type === 'text')
+        result.push({
+          role: 'user',
+          content: textOnly
+            ? parts.map((p) => (p as OpenAI.ChatCompletionContentPartText).text).join('\n\n')
+            : parts,
+        })
+      }
     }
   }
 
@@ -85,20 +130,112 @@ function toOpenAITools(tools: ToolDefinition[]): OpenAI.ChatCompletionTool[] {
   }))
 }
 
+interface PendingToolCall {
+  id: string
+  name: string
+  arguments: string
+}
+
+/**
+ * Which pending call a streamed tool call delta continues. Without an index
+ * it is the call with the same id, or the latest call when the delta has no
+ * id (or that call has none yet); only a new id starts another call.
+ */
+function toolCallIndex(pending: Map<number, PendingToolCall>, delta: { index?: number; id?: string }): number {
+  if (delta.index !== undefined) return delta.index
+  const indexes = [...pending.keys()]
+  const latest = indexes.at(-1)
+  if (latest === undefined) return 0
+  if (!delta.id || !pending.get(latest)!.id) return latest
+  for (const [index, call] of pending) {
+    if (call.id === delta.id) return index
+  }
+  return Math.max(...indexes) + 1
+}
+
+/**
+ * Emit accumulated tool calls in index order and clear the buffer.
+ */
+function* flushToolCalls(pending: Map<number, PendingToolCall>): Generator<ChatEvent> {
+  const ordered = [...pending.entries()].sort(([a], [b]) => a - b)
+  for (const [, tc] of ordered) {
+    let input: Record<string, unknown> = {}
+    try {
+      input = JSON.parse(tc.arguments || '{}') as Record<string, unknown>
+    } catch {
+      // Malformed tool input
+    }
+    yield {
+      type: 'tool_call',
+      name: tc.name,
+      input,
+      callId: tc.id || `call_${randomUUID()}`,
+    }
+  }
+  pending.clear()
+}
+
+/** Normalize a chat completion finish_reason. */
+function toStopReason(reason: string): StopReason {
+  switch (reason) {
+    case 'stop':
+      return 'end_turn'
+    case 'tool_calls':
+    case 'function_call':
+      return 'tool_use'
+    case 'length':
+      return 'max_tokens'
+    case 'content_filter':
+      return 'content_filter'
+    default:
+      return 'other'
+  }
+}
+
+/** OpenAI reasoning model families that accept `reasoning_effort`. */
+const REASONING_MODEL = /^(o\d|gpt-5)/
+
+/** Map a thinking token budget onto OpenAI's coarse reasoning effort levels. */
+function reasoningEffort(budget: number): 'low' | 'medium' | 'high' {
+  if (budget < 4096) return 'low'
+  if (budget < 16_384) return 'medium'
+  return 'high'
+}
+
+/**
+ * Reasoning text on a streamed delta. OpenAI itself doesn't stream it, but
+ * compatible servers do: DeepSeek and vLLM as `reasoning_content`, Ollama and
+ * OpenRouter as `reasoning`.
+ */
+function reasoningText(delta: unknown): string | undefined {
+  const d = delta as { reasoning_content?: unknown; reasoning?: unknown } | undefined
+  const text = d?.reasoning_content ?? d?.reasoning
+  return typeof text === 'string' && text ? text : undefined
+}
+
+export interface OpenAIProviderOptions {
+  /** Override the API base URL (e.g. for OpenAI-compatible servers). */
+  baseURL?: string
+  /** Extra headers sent with every request. */
+  headers?: Record<string, string>
+}
+
 export class OpenAIProvider implements ModelProvider {
   id = 'openai'
+  models?: string[]
   private client: OpenAI
 
-  constructor(apiKey: string) {
-    this.client = new OpenAI({ apiKey })
+  constructor(apiKey: string, options: OpenAIProviderOptions = {}) {
+    // Retries are owned by the failover policy (agents/failover.ts)
+    this.client = new OpenAI({
+      apiKey,
+      maxRetries: 0,
+      ...(options.baseURL ? { baseURL: options.baseURL } : {}),
+      ...(options.headers ? { defaultHeaders: options.headers } : {}),
+    })
   }
 
-  async *chat(params: {
-    model: string
-    systemPrompt: string
-    messages: Message[]
-    tools: ToolDefinition[]
-  }): AsyncIterable<ChatEvent> {
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
     const openaiMessages: OpenAI.ChatCompletionMessageParam[] = [
       { role: 'system', content: params.systemPrompt },
       ...toOpenAIMessages(params.messages),
@@ -112,30 +249,55 @@ export class OpenAIProvider implements ModelProvider {
         stream: true,
         stream_options: { include_usage: true },
         ...(openaiTools.length > 0 ? { tools: openaiTools } : {}),
+        ...(params.thinkingBudget && REASONING_MODEL.test(params.model)
+          ? { reasoning_effort: reasoningEffort(params.thinkingBudget) }
+          : {}),
+        // Reasoning models reject temperature and the legacy max_tokens
+        ...(params.temperature !== undefined && !REASONING_MODEL.test(params.model)
+          ? { temperature: params.temperature }
+          : {}),
+        ...(params.maxOutputTokens
+          ? REASONING_MODEL.test(params.model)
+            ? { max_completion_tokens: params.maxOutputTokens + (params.thinkingBudget ?? 0) }
+            : { max_tokens: params.maxOutputTokens }
+          : {}),
+        // Non-strict: strict mode rejects schemas with optional properties
+        ...(params.responseSchema
+          ? {
+            response_format: {
+              type: 'json_schema' as const,
+              json_schema: { name: 'response', schema: params.responseSchema, strict: false },
+            },
+          }
+          : {}),
       }
 
       const stream = await this.client.chat.completions.create(streamParams)
 
       // Track tool calls being accumulated across chunks
-      const pendingToolCalls = new Map<number, {
-        id: string
-        name: string
-        arguments: string
-      }>()
+      const pendingToolCalls = new Map<number, PendingToolCall>()
+      let sawUsage = false
+      let stopReason: StopReason | undefined
 
       for await (const chunk of stream) {
         const choice = chunk.choices?.[0]
 
+        const reasoning = reasoningText(choice?.delta)
+        if (reasoning) {
+          yield { type: 'thinking', text: reasoning }
+        }
+
         if (choice?.delta?.content) {
           yield { type: 'delta', text: choice.delta.content }
         }
 
-        // Accumulate tool call deltas
+        // Accumulate tool call deltas; some OpenAI-compatible servers omit the index
         if (choice?.delta?.tool_calls) {
           for (const tc of choice.delta.tool_calls) {
-            const existing = pendingToolCalls.get(tc.index)
+            const index = toolCallIndex(pendingToolCalls, tc)
+            const existing = pendingToolCalls.get(index)
             if (!existing) {
-              pendingToolCalls.set(tc.index, {
+              pendingToolCalls.set(index, {
                 id: tc.id ?? '',
                 name: tc.function?.name ?? '',
                 arguments: tc.function?.arguments ?? '',
@@ -148,39 +310,43 @@ export class OpenAIProvider implements ModelProvider {
           }
         }
 
-        // When finish_reason is "tool_calls" or "stop", emit accumulated tool calls
-        if (choice?.finish_reason === 'tool_calls') {
-          for (const [, tc] of pendingToolCalls) {
-            let input: Record<string, unknown> = {}
-            try {
-              input = JSON.parse(tc.arguments || '{}') as Record<string, unknown>
-            } catch {
-              // Malformed tool input
-            }
-            yield {
-              type: 'tool_call',
-              name: tc.name,
-              input,
-              callId: tc.id,
-            }
-          }
-          pendingToolCalls.clear()
+        // Emit accumulated tool calls once the choice finishes. OpenAI reports
+        // "tool_calls", but local servers (e.g. Ollama) may report "stop".
+        if (choice?.finish_reason && pendingToolCalls.size > 0) {
+          yield* flushToolCalls(pendingToolCalls)
+        }
+        if (choice?.finish_reason) {
+          stopReason = toStopReason(choice.finish_reason)
         }
 
         // Usage is in the final chunk (when choices is empty and usage is present)
         if (chunk.usage) {
+          sawUsage = true
+          // OpenAI caches long prompt prefixes automatically; cached tokens
+          // are included in prompt_tokens, so split them out.
+          const cached = chunk.usage.prompt_tokens_details?.cached_tokens ?? 0
           yield {
             type: 'final',
             usage: {
-              inputTokens: chunk.usage.prompt_tokens,
+              inputTokens: chunk.usage.prompt_tokens - cached,
               outputTokens: chunk.usage.completion_tokens,
+              ...(cached > 0 ? { cacheReadTokens: cached } : {}),
             },
+            ...(stopReason ? { stopReason } : {}),
           }
         }
       }
+
+      // Servers that end the stream without a finish_reason or usage chunk
+      // still need to deliver their tool calls and a terminal event.
+      if (pendingToolCalls.size > 0) {
+        yield* flushToolCalls(pendingToolCalls)
+      }
+      if (!sawUsage) {
+        yield { type: 'final', usage: { inputTokens: 0, outputTokens: 0 }, ...(stopReason ? { stopReason } : {}) }
+      }
     } catch (err) {
-      const message = err instanceof Error ? err.message : 'OpenAI API error'
-      yield { type: 'error', message }
+      yield providerErrorEvent(err, 'OpenAI API error')
     }
   }
 }
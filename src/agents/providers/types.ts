@@ -1,17 +1,51 @@
+export interface Usage {
+  /** Uncached input tokens. */
+  inputTokens: number
+  outputTokens: number
+  /** Input tokens served from the provider's prompt cache. */
+  cacheReadTokens?: number
+  /** Input tokens written to the prompt cache (Anthropic bills these at a premium). */
+  cacheWriteTokens?: number
+}
+
+/**
+ * Why a model call ended, normalized across providers. `max_tokens` means
+ * the answer was cut off at the output limit.
+ */
+export type StopReason = 'end_turn' | 'tool_use' | 'max_tokens' | 'content_filter' | 'other'
+
 export type ChatEvent =
   | { type: 'delta'; text: string }
+  /**
+   * Reasoning streamed alongside the answer. Anthropic closes each thinking
+   * block with an event carrying its `signature` (and no text); redacted
+   * blocks arrive whole as `redacted`. Both must be sent back unchanged on
+   * the next tool-use turn.
+   */
+  | { type: 'thinking'; text: string; signature?: string; redacted?: string }
   | { type: 'tool_call'; name: string; input: Record<string, unknown>; callId: string }
-  | { type: 'final'; usage: { inputTokens: number; outputTokens: number } }
-  | { type: 'error'; message: string }
+  | { type: 'final'; usage: Usage; stopReason?: StopReason }
+  | { type: 'provider_switched'; from: string; to: string; reason: string }
+  | { type: 'error'; message: string; status?: number; retryable?: boolean }
 
 export interface ContentBlock {
-  type: 'text' | 'tool_use' | 'tool_result'
+  type: 'text' | 'tool_use' | 'tool_result' | 'thinking' | 'redacted_thinking' | 'image' | 'document'
+  /** Text for text blocks, reasoning for thinking blocks. */
   text?: string
+  /** Thinking block signature. */
+  signature?: string
+  /** Opaque data for redacted_thinking; base64 payload for image and document. */
+  data?: string
+  /** MIME type of an image or document, e.g. "image/png", "application/pdf", "text/plain". */
+  mimeType?: string
   id?: string
+  /** Tool name for tool_use, file name for document. */
   name?: string
   input?: Record<string, unknown>
   toolUseId?: string
   content?: string
+  /** Images returned alongside a tool_result (e.g. browser screenshots). */
+  attachments?: ContentBlock[]
 }
 
 export interface Message {
@@ -25,12 +59,29 @@ export interface ToolDefinition {
   inputSchema: Record<string, unknown> // JSON Schema
 }
 
+export interface ChatParams {
+  model: string
+  systemPrompt: string
+  messages: Message[]
+  tools: ToolDefinition[]
+  /** Token budget for extended thinking / reasoning; omitted or 0 disables it. */
+  thinkingBudget?: number
+  /** Sampling temperature; provider default when omitted. */
+  temperature?: number
+  /** Cap on answer tokens per model call (excluding any thinking budget). */
+  maxOutputTokens?: number
+  /**
+   * JSON Schema the final text answer must follow, enforced with the
+   * provider's native structured-output mode. Tool calls are unaffected.
+   */
+  responseSchema?: Record<string, unknown>
+  /** Stops the call; not part of the request sent to the provider. */
+  signal?: AbortSignal
+}
+
 export interface ModelProvider {
   id: string
-  chat(params: {
-    model: string
-    systemPrompt: string
-    messages: Message[]
-    tools: ToolDefinition[]
-  }): AsyncIterable<ChatEvent>
+  /** Models this provider is known to serve, when configured explicitly. */
+  models?: string[]
+  chat(params: ChatParams): AsyncIterable<ChatEvent>
 }
@@ -4,7 +4,16 @@ import type {
   ModelProvider,
   ToolDefinition,
   ContentBlock,
+  StopReason,
+  Usage,
 } from './providers/types.js'
+import { parseStructuredAnswer, structuredRepairPrompt } from './structured-output.js'
+
+/** Tool output plus images to show the model (e.g. browser screenshots). */
+export interface ToolCallOutput {
+  output: string
+  attachments?: ContentBlock[]
+}
 
 export interface RunnerOptions {
   provider: ModelProvider
@@ -12,16 +21,117 @@ export interface RunnerOptions {
   systemPrompt: string
   messages: Message[]
   tools: ToolDefinition[]
+  /** Extended thinking / reasoning budget in tokens (from AGENTS.md). */
+  thinkingBudget?: number
+  temperature?: number
+  maxOutputTokens?: number
+  /** Model calls allowed before the run is cut off (default 10). */
+  maxToolTurns?: number
+  /**
+   * Extra model calls allowed to finish an answer cut off at the output
+   * token limit (default 3). Continuations don't count as tool turns.
+   */
+  maxContinuations?: number
+  /** Called before each continuation call, numbered from 1. */
+  onContinuation?: (continuation: number) => void
+  /** Stops the run between model calls and tool calls once aborted. */
+  signal?: AbortSignal
+  /** JSON Schema the final answer must match; see ChatParams.responseSchema. */
+  responseSchema?: Record<string, unknown>
+  /**
+   * Called when the final answer failed schema validation and the model is
+   * asked once to correct it. Text streamed so far should be discarded.
+   */
+  onRepair?: (error: string) => void
   onEvent: (event: ChatEvent) => void
+  /**
+   * Called with the usage of every model call, including tool-use turns;
+   * the final event only carries the last call's.
+   */
+  onUsage?: (usage: Usage) => void
   /**
    * Called when the model wants to use a tool.
-   * Must return the tool output as a string.
+   * Must return the tool output as a string, or with image attachments.
    * In Phase 2 (no tools), this won't be called.
    */
-  onToolCall?: (name: string, input: unknown, callId: string) => Promise<string>
+  onToolCall?: (name: string, input: unknown, callId: string) => Promise<string | ToolCallOutput>
+  /**
+   * Called once per model turn that requested tools, with the text written
+   * before the calls, before any of them runs. Awaited, so a transcript
+   * entry for the turn lands ahead of the results.
+   */
+  onToolTurn?: (text: string, calls: Array<{ id: string; name: string; input: Record<string, unknown> }>) => Promise<void> | void
+  /**
+   * Whether a tool may run concurrently with other calls from the same turn.
+   * Defaults to false, i.e. strictly sequential execution.
+   */
+  isParallelSafe?: (name: string) => boolean
+  /** Maximum parallel-safe tool calls in flight at once (default 1). */
+  toolConcurrency?: number
 }
 
-const MAX_TOOL_TURNS = 10
+const DEFAULT_MAX_TOOL_TURNS = 10
+const DEFAULT_MAX_CONTINUATIONS = 3
+
+const CONTINUATION_PROMPT =
+  'Your previous reply was cut off at the output token limit. Continue exactly where it stopped, ' +
+  'without repeating anything and without any preamble.'
+
+interface PendingToolCall {
+  name: string
+  input: Record<string, unknown>
+  callId: string
+}
+
+/**
+ * Run `fn` over `items` with at most `limit` promises in flight,
+ * returning results in input order.
+ */
+async function mapWithLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const idx = next++
+      results[idx] = await fn(items[idx]!)
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+  return results
+}
+
+/**
+ * Execute a turn's tool calls. Consecutive parallel-safe calls run together
+ * (bounded by `limit`), so approval prompts for the whole group reach the
+ * user at once; any other call runs on its own, in model order.
+ */
+async function executeToolCalls(
+  calls: PendingToolCall[],
+  onToolCall: NonNullable<RunnerOptions['onToolCall']>,
+  isParallelSafe: (name: string) => boolean,
+  limit: number,
+): Promise<Array<string | ToolCallOutput>> {
+  const results: Array<string | ToolCallOutput> = []
+  let idx = 0
+
+  while (idx < calls.length) {
+    const group: PendingToolCall[] = [calls[idx]!]
+    if (isParallelSafe(calls[idx]!.name)) {
+      while (idx + group.length < calls.length && isParallelSafe(calls[idx + group.length]!.name)) {
+        group.push(calls[idx + group.length]!)
+      }
+    }
+
+    results.push(...await mapWithLimit(group, limit, (tc) => onToolCall(tc.name, tc.input, tc.callId)))
+    idx += group.length
+  }
+
+  return results
+}
 
 /**
  * Run a single agent turn: call the model, handle tool calls in a loop,
@@ -33,30 +143,78 @@ const MAX_TOOL_TURNS = 10
  * 3. Append assistant tool_call + user tool_result to messages
  * 4. Re-call the model with updated messages
  * 5. Repeat until model emits final/error or max turns reached
+ *
+ * An answer cut off at the output token limit is continued with further
+ * calls; the pieces stream as one answer and end with a single final event.
  */
 export async function runAgentTurn(opts: RunnerOptions): Promise<void> {
-  const { provider, model, systemPrompt, onEvent, onToolCall } = opts
+  const { provider, model, systemPrompt, thinkingBudget, temperature, maxOutputTokens, onEvent, onToolCall } = opts
   const messages = [...opts.messages] // Don't mutate the original
   const tools = opts.tools
+  const maxToolTurns = opts.maxToolTurns ?? DEFAULT_MAX_TOOL_TURNS
+  const maxContinuations = opts.maxContinuations ?? DEFAULT_MAX_CONTINUATIONS
+  let repairAttempted = false
+  let continuations = 0
+  // Answer text from earlier pieces of a continued answer
+  let continuedText = ''
 
-  for (let turn = 0; turn < MAX_TOOL_TURNS; turn++) {
-    const pendingToolCalls: Array<{
-      name: string
-      input: Record<string, unknown>
-      callId: string
-    }> = []
+  // Only calls that lead to tool execution count as turns; repairs and
+  // continuations are bounded separately.
+  for (let turn = 0; turn < maxToolTurns;) {
+    if (opts.signal?.aborted) return
+    const pendingToolCalls: PendingToolCall[] = []
 
     let textAccumulator = ''
-    let finalUsage: { inputTokens: number; outputTokens: number } | null = null
+    let finalUsage: Usage | null = null
+    let stopReason: StopReason | undefined
+
+    // Thinking blocks must be echoed back, signed and in order, ahead of the
+    // tool_use blocks of the same assistant message.
+    const thinkingBlocks: ContentBlock[] = []
+    let openThinking: ContentBlock | null = null
 
-    const stream = provider.chat({ model, systemPrompt, messages, tools })
+    const stream = provider.chat({
+      model,
+      systemPrompt,
+      messages,
+      tools,
+      thinkingBudget,
+      temperature,
+      maxOutputTokens,
+      responseSchema: opts.responseSchema,
+      signal: opts.signal,
+    })
 
     for await (const event of stream) {
+      if (opts.signal?.aborted) return
+
       if (event.type === 'delta') {
         onEvent(event)
         textAccumulator += event.text
       }
 
+      if (event.type === 'thinking') {
+        onEvent(event)
+        if (event.redacted) {
+          thinkingBlocks.push({ type: 'redacted_thinking', data: event.redacted })
+          openThinking = null
+        } else {
+          if (!openThinking) {
+            openThinking = { type: 'thinking', text: '' }
+            thinkingBlocks.push(openThinking)
+          }
+          openThinking.text += event.text
+          if (event.signature) {
+            openThinking.signature = event.signature
+            openThinking = null
+          }
+        }
+      }
+
+      if (event.type === 'provider_switched') {
+        onEvent(event)
+      }
+
       if (event.type === 'tool_call') {
         onEvent(event)
         pendingToolCalls.push({
@@ -71,6 +229,8 @@ export async function runAgentTurn(opts: RunnerOptions): Promise<void> {
         // If tool calls were emitted in this turn, we continue the loop and emit
         // a single final event after the last turn completes.
         finalUsage = event.usage
+        stopReason = event.stopReason
+        opts.onUsage?.(event.usage)
       }
 
       if (event.type === 'error') {
@@ -81,11 +241,38 @@ export async function runAgentTurn(opts: RunnerOptions): Promise<void> {
 
     // If no tool calls were made, this is the terminal turn.
     if (pendingToolCalls.length === 0) {
+      if (stopReason === 'max_tokens' && continuations < maxContinuations) {
+        continuations += 1
+        continuedText += textAccumulator
+        opts.onContinuation?.(continuations)
+        messages.push(
+          { role: 'assistant', content: textAccumulator || '(no answer)' },
+          { role: 'user', content: CONTINUATION_PROMPT },
+        )
+        continue
+      }
+
+      // An answer that breaks the response schema gets one repair attempt
+      if (opts.responseSchema && !repairAttempted) {
+        const fullText = continuedText + textAccumulator
+        const answer = parseStructuredAnswer(fullText, opts.responseSchema)
+        if (!answer.ok) {
+          repairAttempted = true
+          continuedText = ''
+          opts.onRepair?.(answer.error)
+          messages.push(
+            { role: 'assistant', content: textAccumulator || '(no answer)' },
+            { role: 'user', content: structuredRepairPrompt(answer.error) },
+          )
+          continue
+        }
+      }
       if (finalUsage) {
-        onEvent({ type: 'final', usage: finalUsage })
+        onEvent({ type: 'final', usage: finalUsage, ...(stopReason ? { stopReason } : {}) })
       }
       return
     }
+    continuedText = ''
 
     // Process tool calls
     if (!onToolCall) {
@@ -93,8 +280,8 @@ export async function runAgentTurn(opts: RunnerOptions): Promise<void> {
       return
     }
 
-    // Build the assistant message with text + tool_use blocks
-    const assistantBlocks: ContentBlock[] = []
+    // Build the assistant message with thinking + text + tool_use blocks
+    const assistantBlocks: ContentBlock[] = [...thinkingBlocks]
     if (textAccumulator) {
       assistantBlocks.push({ type: 'text', text: textAccumulator })
     }
@@ -107,18 +294,31 @@ export async function runAgentTurn(opts: RunnerOptions): Promise<void> {
       })
     }
     messages.push({ role: 'assistant', content: assistantBlocks })
+    await opts.onToolTurn?.(
+      textAccumulator,
+      pendingToolCalls.map((tc) => ({ id: tc.callId, name: tc.name, input: tc.input })),
+    )
 
-    // Execute each tool call and build tool_result blocks
-    const resultBlocks: ContentBlock[] = []
-    for (const tc of pendingToolCalls) {
-      const output = await onToolCall(tc.name, tc.input, tc.callId)
-      resultBlocks.push({
+    // Execute the tool calls and build tool_result blocks in call order
+    if (opts.signal?.aborted) return
+    const results = await executeToolCalls(
+      pendingToolCalls,
+      onToolCall,
+      opts.isParallelSafe ?? (() => false),
+      Math.max(1, opts.toolConcurrency ?? 1),
+    )
+    const resultBlocks: ContentBlock[] = pendingToolCalls.map((tc, i) => {
+      const result = results[i]!
+      const { output, attachments } = typeof result === 'string' ? { output: result } : result
+      return {
         type: 'tool_result',
         toolUseId: tc.callId,
         content: output,
-      })
-    }
+        ...(attachments && attachments.length > 0 ? { attachments } : {}),
+      }
+    })
     messages.push({ role: 'user', content: resultBlocks })
+    turn++
 
     // If we got a final event after tool calls, the model might want to continue
     // Loop again to let the model process tool results
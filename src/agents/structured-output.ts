@@ -0,0 +1,42 @@
+import { z } from 'zod'
+import { validateJsonSchema, type JsonSchema } from './json-schema.js'
+
+/**
+ * A caller-supplied JSON Schema for the final answer. Providers' native
+ * structured-output modes require an object at the root.
+ */
+export const ResponseSchemaParam = z.record(z.unknown()).refine(
+  (schema) => schema['type'] === 'object',
+  { message: 'response schema must have "type": "object" at the root' },
+)
+
+export type StructuredAnswer =
+  | { ok: true; value: unknown }
+  | { ok: false; error: string }
+
+/**
+ * Parse a final answer as JSON and validate it against the response schema.
+ * A surrounding Markdown code fence is tolerated.
+ */
+export function parseStructuredAnswer(text: string, schema: JsonSchema): StructuredAnswer {
+  const fenced = text.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/)
+  const json = fenced ? fenced[1]! : text.trim()
+
+  let value: unknown
+  try {
+    value = JSON.parse(json)
+  } catch (err) {
+    return { ok: false, error: `not valid JSON (${(err as Error).message})` }
+  }
+
+  const errors = validateJsonSchema(value, schema)
+  return errors.length > 0 ? { ok: false, error: errors.join('; ') } : { ok: true, value }
+}
+
+/** Follow-up message asking the model to fix an answer that failed validation. */
+export function structuredRepairPrompt(error: string): string {
+  return (
+    `Your answer does not match the required JSON schema: ${error}.\n` +
+    'Reply again with only the corrected JSON object, with no other text.'
+  )
+}
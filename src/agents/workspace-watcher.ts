@@ -0,0 +1,197 @@
+import { watch, type FSWatcher } from 'node:fs'
+import { readFile } from 'node:fs/promises'
+import { join, normalize, resolve } from 'node:path'
+import {
+  AGENTS_FILE,
+  parseAgentsMd,
+  type AgentConfig,
+  type AgentConfigError,
+} from './agent-config.js'
+import { WORKSPACE_FILES, loadPromptFile, type PromptLoader } from './prompt-builder.js'
+import { checkPromptTemplate } from './prompt-template.js'
+
+/** Edits usually arrive as several fs events; reload once they settle. */
+const RELOAD_DELAY_MS = 150
+
+export interface AgentsSnapshot {
+  /** Agents served to runs, including stale ones kept from an earlier load. */
+  agents: AgentConfig[]
+  /** Sections of the current AGENTS.md that failed validation. */
+  errors: AgentConfigError[]
+  /** Agents whose current section is invalid and that still run from their last valid version. */
+  stale: string[]
+  /** Problems per prompt file: missing files, bad includes, unmatched sections. */
+  promptErrors: Record<string, string[]>
+  /** AGENTS.md could not be read; every agent comes from the last good load. */
+  readError?: string
+}
+
+/**
+ * Keeps the parsed AGENTS.md, the state of the prompt files and the
+ * expanded prompt files in memory, reloading when workspace markdown
+ * changes (in subdirectories too, where includes often live) and
+ * broadcasting `agents.changed`. A broken edit never takes a working agent
+ * away: an agent whose section stops validating keeps running from its last
+ * valid version until the section is fixed or removed.
+ */
+export class WorkspaceWatcher {
+  private current: AgentsSnapshot = { agents: [], errors: [], stale: [], promptErrors: {} }
+  private watcher: FSWatcher | null = null
+  private reloadTimer: ReturnType<typeof setTimeout> | null = null
+  private reloading: Promise<AgentsSnapshot> | null = null
+  private broadcastEvent: ((event: string, data: unknown) => void) | null = null
+  /** Workspace prompt files with their includes expanded; cleared on any change. */
+  private prompts = new Map<string, Promise<string | null>>()
+
+  constructor(readonly workspacePath: string) {}
+
+  get snapshot(): AgentsSnapshot {
+    return this.current
+  }
+
+  setBroadcast(fn: (event: string, data: unknown) => void): void {
+    this.broadcastEvent = fn
+  }
+
+  /** Load the workspace and watch it for changes. */
+  async start(): Promise<void> {
+    await this.reload()
+    try {
+      this.watcher = watch(this.workspacePath, { recursive: true }, (_event, filename) => {
+        // Includes may name any file, so every change invalidates the prompts
+        this.prompts.clear()
+        if (filename && !filename.toString().endsWith('.md')) return
+        this.scheduleReload()
+      })
+      this.watcher.on('error', (err) => console.warn('[workspace] Watcher failed:', err.message))
+    } catch (err) {
+      console.warn(`[workspace] Cannot watch ${this.workspacePath}:`, (err as Error).message)
+    }
+  }
+
+  stop(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer)
+    this.reloadTimer = null
+    this.watcher?.close()
+    this.watcher = null
+    this.prompts.clear()
+  }
+
+  /**
+   * Re-read AGENTS.md and check the prompt files. Broadcasts
+   * `agents.changed` when the result differs from the previous load.
+   */
+  async reload(): Promise<AgentsSnapshot> {
+    // Serialize reloads so a slow one never overwrites a newer result
+    const previous = this.reloading ?? Promise.resolve(this.current)
+    const next = previous.catch(() => this.current).then(() => this.load())
+    this.reloading = next
+    try {
+      return await next
+    } finally {
+      if (this.reloading === next) this.reloading = null
+    }
+  }
+
+  /**
+   * Load a prompt file for buildSystemPrompt. Files in the workspace are
+   * cached until it changes; others (a project's prompt directory) are read
+   * every time.
+   */
+  loadPrompt: PromptLoader = (dir, file) => {
+    if (!this.watcher || resolve(dir) !== resolve(this.workspacePath)) return loadPromptFile(dir, file)
+    const key = normalize(file)
+    let cached = this.prompts.get(key)
+    if (!cached) {
+      cached = loadPromptFile(dir, file)
+      this.prompts.set(key, cached)
+    }
+    return cached
+  }
+
+  /**
+   * The config an agent runs with. Throws with the validation errors if its
+   * section is invalid and was never valid, or if it isn't defined.
+   */
+  getAgent(agentId: string): AgentConfig {
+    const agent = this.current.agents.find((a) => a.id === agentId)
+    if (agent) return agent
+
+    const invalid = this.current.errors.find((e) => e.agentId === agentId)
+    if (invalid) {
+      throw new Error(`Agent "${agentId}" in ${AGENTS_FILE} is invalid: ${invalid.errors.join('; ')}`)
+    }
+    throw new Error(`No model configured for agent "${agentId}" in ${AGENTS_FILE}`)
+  }
+
+  private scheduleReload(): void {
+    if (this.reloadTimer) clearTimeout(this.reloadTimer)
+    this.reloadTimer = setTimeout(() => {
+      this.reloadTimer = null
+      this.reload().catch((err) => console.warn('[workspace] Reload failed:', (err as Error).message))
+    }, RELOAD_DELAY_MS)
+  }
+
+  private async load(): Promise<AgentsSnapshot> {
+    this.prompts.clear()
+    const last = this.current
+    const next = await this.loadAgents(last)
+    next.promptErrors = await this.checkPrompts(next.agents)
+    this.current = next
+
+    if (JSON.stringify(next) !== JSON.stringify(last)) {
+      if (next.errors.length > 0 || next.readError) {
+        console.warn(`[workspace] ${AGENTS_FILE} has errors; invalid agents keep their last valid version`)
+      }
+      this.broadcastEvent?.('agents.changed', next)
+    }
+    return next
+  }
+
+  private async loadAgents(last: AgentsSnapshot): Promise<AgentsSnapshot> {
+    let content: string
+    try {
+      content = await readFile(join(this.workspacePath, AGENTS_FILE), 'utf-8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        return { ...last, readError: (err as Error).message }
+      }
+      content = ''
+    }
+
+    const { agents, errors } = parseAgentsMd(content)
+    // Keep the last valid version of agents whose section broke
+    const stale = errors
+      .map((e) => last.agents.find((a) => a.id === e.agentId))
+      .filter((a): a is AgentConfig => a !== undefined && !agents.some((b) => b.id === a.id))
+
+    return {
+      agents: [...agents, ...stale],
+      errors,
+      stale: stale.map((a) => a.id),
+      promptErrors: {},
+    }
+  }
+
+  /**
+   * Check the global prompt set and every agent's own files. Missing files
+   * are only reported for agents that name them; the global set is optional.
+   */
+  private async checkPrompts(agents: AgentConfig[]): Promise<Record<string, string[]>> {
+    const named = new Set(agents.flatMap((a) => a.prompts ?? []))
+    const promptErrors: Record<string, string[]> = {}
+
+    for (const file of new Set([...WORKSPACE_FILES, ...named])) {
+      let source: string
+      try {
+        source = await readFile(join(this.workspacePath, file), 'utf-8')
+      } catch {
+        if (named.has(file)) promptErrors[file] = [`file "${file}" not found in the workspace`]
+        continue
+      }
+      const problems = await checkPromptTemplate(source, file, this.workspacePath)
+      if (problems.length > 0) promptErrors[file] = problems
+    }
+    return promptErrors
+  }
+}
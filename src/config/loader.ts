@@ -26,6 +26,18 @@ export function loadConfig(): Config {
     fileConfig.gateway = gateway
   }
 
+  const cassetteModeEnv = process.env['PROJ_JARVIS_CASSETTE_MODE']
+  const cassettePathEnv = process.env['PROJ_JARVIS_CASSETTE_PATH']
+
+  if (cassetteModeEnv || cassettePathEnv) {
+    const providers = (fileConfig.providers ?? {}) as Record<string, unknown>
+    const cassette = (providers.cassette ?? {}) as Record<string, unknown>
+    if (cassetteModeEnv) cassette.mode = cassetteModeEnv
+    if (cassettePathEnv) cassette.path = cassettePathEnv
+    providers.cassette = cassette
+    fileConfig.providers = providers
+  }
+
   return ConfigSchema.parse(fileConfig)
 }
 
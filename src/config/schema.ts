@@ -1,17 +1,139 @@
 import { z } from 'zod'
 
+/**
+ * An OpenAI-compatible endpoint (Ollama, llama.cpp, vLLM, ...) registered
+ * as a model provider under its own id, e.g. "local" for "local/llama3".
+ */
+export const ProviderConfigSchema = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'Provider id must be lowercase alphanumeric'),
+  baseUrl: z.string().url(),
+  apiKey: z.string().optional(),
+  apiKeyEnv: z.string().optional(),
+  headers: z.record(z.string()).default({}),
+  models: z.array(z.string()).default([]),
+})
+
+export type ProviderConfig = z.infer<typeof ProviderConfigSchema>
+
+/**
+ * Model prices in USD per million tokens. Cache prices default to the
+ * input price when omitted.
+ */
+export const ModelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cacheRead: z.number().min(0).optional(),
+  cacheWrite: z.number().min(0).optional(),
+})
+
+export type ModelPrice = z.infer<typeof ModelPriceSchema>
+
+/**
+ * When sessions are purged. Age is measured from a session's last activity;
+ * `maxCount` keeps only the most recently active sessions.
+ */
+export const RetentionRuleSchema = z.object({
+  maxAgeDays: z.number().positive().optional(),
+  maxCount: z.number().int().min(1).optional(),
+})
+
+export type RetentionRule = z.infer<typeof RetentionRuleSchema>
+
 export const ConfigSchema = z.object({
   gateway: z.object({
     port: z.number().default(18789),
     host: z.string().default('127.0.0.1'),
+    /** Session events kept so clients that open a session or reconnect mid-run can catch up (chat.resume). */
+    replay: z.object({
+      maxEvents: z.number().int().min(1).default(2000),
+      /** Kept this long after the session's last run ends. */
+      retainMs: z.number().int().min(0).default(60_000),
+    }).default({}),
   }).default({}),
   agents: z.object({
     default: z.string().default('assistant'),
     workspacePath: z.string().optional(),
+    /** Extra model calls used to finish an answer cut off at the output token limit. */
+    maxContinuations: z.number().int().min(0).default(3),
+    delegation: z.object({
+      /** Nesting limit for the delegate tool; 0 disables delegation. */
+      maxDepth: z.number().int().min(0).default(2),
+      /** Tokens (input + output) one delegated run may spend across its model calls. */
+      tokenBudget: z.number().int().positive().default(200_000),
+    }).default({}),
+  }).default({}),
+  providers: z.object({
+    openaiCompatible: z.array(ProviderConfigSchema).default([]),
+    /** "provider/model" refs tried, in order, after an agent's own model and fallbacks. */
+    failover: z.array(z.string()).default([]),
+    retry: z.object({
+      maxRetries: z.number().int().min(0).default(2),
+      baseDelayMs: z.number().int().min(0).default(1_000),
+      maxDelayMs: z.number().int().min(0).default(15_000),
+    }).default({}),
+    circuitBreaker: z.object({
+      failureThreshold: z.number().int().min(1).default(3),
+      cooldownMs: z.number().int().min(0).default(60_000),
+    }).default({}),
+    /**
+     * Record every model request and response to a cassette file, or serve
+     * model calls from one instead of the real providers.
+     */
+    cassette: z.object({
+      mode: z.enum(['off', 'record', 'replay']).default('off'),
+      /** Cassette file; defaults to cassette.json in the data directory. */
+      path: z.string().optional(),
+    }).default({}),
   }).default({}),
   tools: z.object({
     timeout: z.number().default(120_000),
     maxOutputBytes: z.number().default(100_000),
+    /** Parallel-safe tool calls from one model turn that may run at once. */
+    maxConcurrency: z.number().int().min(1).default(4),
+    /** How tool output is stored in session transcripts and replayed on later turns. */
+    transcript: z.object({
+      /** `omit` stores only bash output's exit code and size; `full` stores the output (secrets filtered). */
+      bashOutput: z.enum(['full', 'omit']).default('omit'),
+      /** Longer output keeps its first two thirds and last third of this many characters. */
+      maxChars: z.number().int().min(200).default(16_000),
+      /** Regular expressions whose matches are stored as [REDACTED]. */
+      redact: z.array(z.string().refine((pattern) => {
+        try {
+          new RegExp(pattern)
+          return true
+        } catch {
+          return false
+        }
+      }, 'invalid regular expression')).default([]),
+    }).default({}),
+  }).default({}),
+  context: z.object({
+    /** Context window overrides in tokens, keyed by "provider/model" or bare model name. */
+    windows: z.record(z.number().int().positive()).default({}),
+    /** Compact a session once its prompt reaches this fraction of the window. */
+    compactAt: z.number().min(0.1).max(1).default(0.75),
+    /** User/assistant messages kept verbatim when compacting. */
+    keepRecentMessages: z.number().int().min(2).default(8),
+  }).default({}),
+  sessions: z.object({
+    /** Model-written session titles and summaries, shown in the sidebar and indexed into memory. */
+    summaries: z.object({
+      enabled: z.boolean().default(false),
+      /** "provider/model" to ask, ideally a small fast one; the session agent's models are the fallback. */
+      model: z.string().optional(),
+      /** Write a new title and summary once the conversation has this many more messages. */
+      refreshEvery: z.number().int().min(2).default(10),
+    }).default({}),
+  }).default({}),
+  usage: z.object({
+    /** Price overrides, keyed by "provider/model" or bare model name. */
+    prices: z.record(ModelPriceSchema).default({}),
+    /** Spend caps in USD per calendar month (UTC); new runs are refused once reached. */
+    budgets: z.object({
+      monthly: z.number().positive().optional(),
+      /** Per-agent caps, keyed by agent id. */
+      agents: z.record(z.number().positive()).default({}),
+    }).default({}),
   }).default({}),
   memory: z.object({
     enabled: z.boolean().default(true),
@@ -21,6 +143,31 @@ export const ConfigSchema = z.object({
     auditLog: z.boolean().default(true),
     secretsFilter: z.boolean().default(true),
   }).default({}),
+  /** What the retention janitor deletes. Nothing is deleted until a limit is set. */
+  retention: z.object({
+    /** Minutes between janitor passes; 0 stops the janitor (retention.report still works). */
+    intervalMinutes: z.number().int().min(0).default(360),
+    sessions: z.object({
+      /** Sessions started from the UI or the API. */
+      interactive: RetentionRuleSchema.default({}),
+      /** Sessions created by scheduled job runs. */
+      scheduled: RetentionRuleSchema.default({}),
+      /** Per-agent rules, keyed by agent id; they replace the two above for that agent's sessions. */
+      agents: z.record(RetentionRuleSchema).default({}),
+    }).default({}),
+    jobRuns: z.object({
+      maxAgeDays: z.number().positive().optional(),
+      /** Most recent finished runs kept for each job. */
+      maxPerJob: z.number().int().min(1).optional(),
+    }).default({}),
+    auditLog: z.object({
+      maxAgeDays: z.number().positive().optional(),
+    }).default({}),
+    embeddingCache: z.object({
+      maxAgeDays: z.number().positive().optional(),
+      maxEntries: z.number().int().min(0).optional(),
+    }).default({}),
+  }).default({}),
 })
 
 export type Config = z.infer<typeof ConfigSchema>
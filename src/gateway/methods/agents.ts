@@ -1,80 +1,262 @@
-import { readFile } from 'node:fs/promises'
+import { readFile, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
-import type { MethodHandler } from './types.js'
+import { z } from 'zod'
+import type { MethodContext, MethodHandler } from './types.js'
+import { RpcError } from './registry.js'
+import {
+  AGENTS_FILE,
+  AgentConfigSchema,
+  appendAgentSection,
+  duplicateAgentSection,
+  hasAgentSection,
+  parseAgentsMd,
+  removeAgentSection,
+  updateAgentSection,
+  type AgentConfig,
+  type AgentFieldValues,
+} from '../../agents/agent-config.js'
+import { parseModelRef } from '../../agents/model-ref.js'
+import { WORKSPACE_FILES } from '../../agents/prompt-builder.js'
 
-interface AgentInfo {
-  id: string
-  model: string
-  description: string
-}
+// Each field is written as one "Label: value" line; ranges and enums are
+// checked by AgentConfigSchema once the edited file is parsed
+const SingleLine = z.string().regex(/^[^\r\n]*$/, 'must be a single line')
+const ListItem = z.string().regex(/^[^\r\n,]+$/, 'must not contain commas or line breaks')
+
+const AgentFields = z.object({
+  model: SingleLine.min(1),
+  description: SingleLine,
+  fallback: z.array(ListItem),
+  thinking: z.number(),
+  tools: z.array(ListItem),
+  temperature: z.number(),
+  maxOutputTokens: z.number(),
+  maxToolTurns: z.number(),
+  prompts: z.array(ListItem).min(1),
+  approval: SingleLine,
+})
+
+const AgentId = AgentConfigSchema.shape.id
+
+const CreateParams = AgentFields.partial().extend({
+  id: AgentId,
+  model: AgentFields.shape.model,
+})
+
+const UpdateParams = z.object({
+  id: z.string(),
+  /** Fields to set; `null` removes a field so its default applies. */
+  fields: z.object({
+    model: AgentFields.shape.model.optional(),
+    description: AgentFields.shape.description.nullish(),
+    fallback: AgentFields.shape.fallback.nullish(),
+    thinking: AgentFields.shape.thinking.nullish(),
+    tools: AgentFields.shape.tools.nullish(),
+    temperature: AgentFields.shape.temperature.nullish(),
+    maxOutputTokens: AgentFields.shape.maxOutputTokens.nullish(),
+    maxToolTurns: AgentFields.shape.maxToolTurns.nullish(),
+    prompts: AgentFields.shape.prompts.nullish(),
+    approval: AgentFields.shape.approval.nullish(),
+  }),
+})
+
+const DuplicateParams = z.object({
+  id: z.string(),
+  newId: AgentId,
+})
+
+const DeleteParams = z.object({
+  id: z.string(),
+})
 
 /**
- * Parse AGENTS.md to extract agent definitions.
- * Looks for ## headings with Model: and Description: lines below.
+ * agents.list — return the agents served from workspace/AGENTS.md, plus any
+ * sections that failed validation, with readable errors. Reads the cache
+ * kept current by the workspace watcher.
  */
-async function parseAgentsMd(workspacePath: string): Promise<AgentInfo[]> {
-  try {
-    const content = await readFile(join(workspacePath, 'AGENTS.md'), 'utf-8')
-    const lines = content.split('\n')
-    const agents: AgentInfo[] = []
-
-    let current: Partial<AgentInfo> | null = null
-
-    for (const line of lines) {
-      const headingMatch = line.match(/^##\s+(\S+)/)
-      if (headingMatch) {
-        if (current?.id && current.model) {
-          agents.push({
-            id: current.id,
-            model: current.model,
-            description: current.description ?? '',
-          })
-        }
-        current = { id: headingMatch[1] }
-        continue
+export const agentsList: MethodHandler = async (_params, ctx) => {
+  const { agents: loaded, errors, stale, promptErrors, readError } = ctx.workspaceWatcher.snapshot
+
+  // Checks that need the running gateway. Agents stay usable: unknown
+  // tools are never offered and missing prompt files are skipped.
+  const agents = loaded.map((agent) => {
+    const warnings: string[] = []
+    if (stale.includes(agent.id)) {
+      warnings.push('Running the last valid version; the current section is invalid')
+    }
+    for (const name of agent.tools ?? []) {
+      if (!ctx.toolRegistry.get(name)) warnings.push(`Tools: unknown tool "${name}"`)
+    }
+    for (const file of agent.prompts ?? WORKSPACE_FILES) {
+      for (const problem of promptErrors[file] ?? []) {
+        warnings.push(`Prompts: ${problem}`)
       }
+    }
+    return warnings.length > 0 ? { ...agent, warnings } : agent
+  })
 
-      if (current) {
-        const modelMatch = line.match(/^Model:\s*(.+)$/i)
-        if (modelMatch) {
-          current.model = modelMatch[1].trim()
-        }
-        const descMatch = line.match(/^Description:\s*(.+)$/i)
-        if (descMatch) {
-          current.description = descMatch[1].trim()
-        }
+  // Fallback: always return at least the default agent
+  if (agents.length === 0 && errors.length === 0 && !readError) {
+    agents.push(AgentConfigSchema.parse({
+      id: ctx.config.agents.default,
+      model: 'anthropic/claude-opus-4-6',
+      description: 'Default assistant',
+    }))
+  }
+
+  // Models each configured provider can serve, for the agent form
+  const providers = [...ctx.providers.values()].map((provider) => {
+    const models = new Set(provider.models ?? [])
+    for (const agent of loaded) {
+      for (const ref of [agent.model, ...agent.fallback]) {
+        const { provider: providerId, model } = parseModelRef(ref)
+        if (providerId === provider.id) models.add(model)
+      }
+    }
+    return { id: provider.id, models: [...models] }
+  })
+
+  return readError ? { agents, errors, providers, readError } : { agents, errors, providers }
+}
+
+// AGENTS.md edits are read-modify-write; run them one at a time
+let editQueue: Promise<unknown> = Promise.resolve()
+
+/**
+ * Apply an edit to AGENTS.md. The edited file must still parse the target
+ * agent without errors, otherwise nothing is written. Returns the agent as
+ * served afterwards, or null when it was removed.
+ */
+function editAgentsMd(
+  ctx: MethodContext,
+  agentId: string,
+  edit: (content: string) => string,
+): Promise<AgentConfig | null> {
+  const run = editQueue.then(async () => {
+    const path = join(ctx.workspacePath, AGENTS_FILE)
+    let content: string
+    try {
+      content = await readFile(path, 'utf-8')
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw new RpcError(-32603, `Failed to read ${AGENTS_FILE}: ${(err as Error).message}`)
       }
+      content = ''
     }
 
-    // Push last agent
-    if (current?.id && current.model) {
-      agents.push({
-        id: current.id,
-        model: current.model,
-        description: current.description ?? '',
-      })
+    const next = edit(content)
+    const { errors } = parseAgentsMd(next)
+    const invalid = errors.find((e) => e.agentId === agentId)
+    if (invalid) {
+      throw new RpcError(-32602, `Invalid agent "${agentId}": ${invalid.errors.join('; ')}`)
     }
 
-    return agents
-  } catch {
-    return []
+    try {
+      await writeFile(path, next, 'utf-8')
+    } catch (err) {
+      throw new RpcError(-32603, `Failed to write ${AGENTS_FILE}: ${(err as Error).message}`)
+    }
+    // Don't wait for the file watcher: the caller gets the new config now
+    const { agents } = await ctx.workspaceWatcher.reload()
+    return agents.find((a) => a.id === agentId) ?? null
+  })
+  editQueue = run.catch(() => {})
+  return run
+}
+
+function auditConfigChange(ctx: MethodContext, details: Record<string, unknown>): void {
+  ctx.auditLogger.append({
+    ts: Date.now(),
+    type: 'config_change',
+    details: { file: AGENTS_FILE, ...details },
+  }).catch(() => {})
+}
+
+/**
+ * agents.create — append a new agent section to AGENTS.md.
+ */
+export const agentsCreate: MethodHandler = async (params, ctx) => {
+  const parsed = CreateParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
   }
+  const { id, ...fields } = parsed.data
+
+  const agent = await editAgentsMd(ctx, id, (content) => {
+    if (hasAgentSection(content, id)) {
+      throw new RpcError(-32602, `Agent "${id}" already exists`)
+    }
+    return appendAgentSection(content, id, fields)
+  })
+
+  auditConfigChange(ctx, { action: 'agents.create', agentId: id, fields })
+  return { agent }
 }
 
 /**
- * agents.list — return all configured agents from workspace/AGENTS.md
+ * agents.update — set or remove fields of an agent. Other lines of its
+ * section (descriptions in prose, notes) are kept.
  */
-export const agentsList: MethodHandler = async (_params, ctx) => {
-  let agents = await parseAgentsMd(ctx.workspacePath)
+export const agentsUpdate: MethodHandler = async (params, ctx) => {
+  const parsed = UpdateParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+  const { id, fields } = parsed.data
 
-  // Fallback: always return at least the default agent
-  if (agents.length === 0) {
-    agents = [{
-      id: ctx.config.agents.default,
-      model: 'anthropic/claude-opus-4-6',
-      description: 'Default assistant',
-    }]
+  const agent = await editAgentsMd(ctx, id, (content) => {
+    const next = updateAgentSection(content, id, fields as AgentFieldValues)
+    if (next === null) throw new RpcError(-32603, `Agent not found: ${id}`)
+    return next
+  })
+
+  auditConfigChange(ctx, { action: 'agents.update', agentId: id, fields })
+  return { agent }
+}
+
+/**
+ * agents.duplicate — copy an agent's section, prose included, under a new id.
+ */
+export const agentsDuplicate: MethodHandler = async (params, ctx) => {
+  const parsed = DuplicateParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+  const { id, newId } = parsed.data
+
+  const agent = await editAgentsMd(ctx, newId, (content) => {
+    if (hasAgentSection(content, newId)) {
+      throw new RpcError(-32602, `Agent "${newId}" already exists`)
+    }
+    const next = duplicateAgentSection(content, id, newId)
+    if (next === null) throw new RpcError(-32603, `Agent not found: ${id}`)
+    return next
+  })
+
+  auditConfigChange(ctx, { action: 'agents.duplicate', agentId: newId, sourceId: id })
+  return { agent }
+}
+
+/**
+ * agents.delete — remove an agent's section. The default agent can't be
+ * deleted, since new sessions use it.
+ */
+export const agentsDelete: MethodHandler = async (params, ctx) => {
+  const parsed = DeleteParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+  const { id } = parsed.data
+  if (id === ctx.config.agents.default) {
+    throw new RpcError(-32602, `Agent "${id}" is the default agent and can't be deleted`)
   }
 
-  return { agents }
+  await editAgentsMd(ctx, id, (content) => {
+    const next = removeAgentSection(content, id)
+    if (next === null) throw new RpcError(-32603, `Agent not found: ${id}`)
+    return next
+  })
+
+  auditConfigChange(ctx, { action: 'agents.delete', agentId: id })
+  return { ok: true }
 }
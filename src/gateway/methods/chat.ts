@@ -1,34 +1,92 @@
 import { randomUUID } from 'node:crypto'
 import { z } from 'zod'
-import type { MethodHandler } from './types.js'
+import type { MethodContext, MethodHandler } from './types.js'
 import { RpcError } from './registry.js'
-import { parseModelRef } from '../../agents/model-ref.js'
-import { buildSystemPrompt, getAgentModelRef } from '../../agents/prompt-builder.js'
+import { buildSystemPrompt } from '../../agents/prompt-builder.js'
+import { agentAllowsTool, type AgentConfig } from '../../agents/agent-config.js'
+import { FailoverProvider, createAgentProvider, resolveModelChain } from '../../agents/failover.js'
 import { runAgentTurn } from '../../agents/runner.js'
-import type { Message } from '../../agents/providers/types.js'
-import type { ModelProvider } from '../../agents/providers/types.js'
-import type { TranscriptEvent } from '../../sessions/transcript.js'
+import { ResponseSchemaParam, parseStructuredAnswer } from '../../agents/structured-output.js'
+import { contextWindowFor, estimatePromptTokens } from '../../agents/context-window.js'
+import type { ContentBlock, Message } from '../../agents/providers/types.js'
+import {
+  liveEvents,
+  toolOutputForTranscript,
+  type TranscriptEvent,
+  type TranscriptToolCall,
+} from '../../sessions/transcript.js'
+import { compactSession, withConversationSummary } from '../../sessions/compaction.js'
+import { countMessages, summarizeSession, summaryDue } from '../../sessions/summaries.js'
+import { pathTo, selectedLeaf, type EventLink, type TranscriptTree } from '../../sessions/branches.js'
+import type { Session } from '../../sessions/session.js'
+import { projectPromptDir } from '../../sessions/projects.js'
+import {
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_TOTAL_BYTES,
+  attachmentBlock,
+  attachmentKind,
+  toolImageBlocks,
+  type AttachmentRef,
+} from '../../sessions/attachments.js'
 import type { ToolContext } from '../../tools/types.js'
 import { filterSecrets } from '../../security/secrets-filter.js'
+import { RunUsage } from '../../usage/tracker.js'
+import { IndexManager } from '../../memory/indexer.js'
+import { indexSession } from '../../memory/session-files.js'
+
+const AttachmentParam = z.object({
+  name: z.string().min(1).max(255),
+  mimeType: z.string().min(1).max(100),
+  data: z.string().min(1), // base64
+})
 
 const SendParams = z.object({
   sessionKey: z.string().uuid(),
-  message: z.string().min(1).max(32_000),
-})
+  message: z.string().max(32_000).default(''),
+  attachments: z.array(AttachmentParam).max(10).default([]),
+  /** JSON Schema the final answer must match; the parsed value is returned as `result`. */
+  responseSchema: ResponseSchemaParam.optional(),
+  /**
+   * Continue from this transcript event instead of the end of the selected
+   * path, starting a new branch; null starts over from the first message.
+   */
+  parentEventId: z.string().min(1).nullable().optional(),
+  /** Answer the user message `parentEventId` again instead of sending a new one. */
+  regenerate: z.boolean().default(false),
+}).refine(
+  (p) => p.regenerate || p.message.trim().length > 0 || p.attachments.length > 0,
+  { message: 'message or attachments required' },
+).refine(
+  (p) => !p.regenerate || (typeof p.parentEventId === 'string' && !p.message.trim() && p.attachments.length === 0),
+  { message: 'regenerate requires parentEventId and takes no message or attachments' },
+)
 
 const HistoryParams = z.object({
   sessionKey: z.string().uuid(),
   limit: z.number().int().min(1).max(500).default(100),
+  /** `nextCursor` of the previous page: return the messages before that event. */
+  before: z.string().min(1).optional(),
 })
 
 const AbortParams = z.object({
   runId: z.string().uuid(),
 })
 
-const FALLBACK_PROVIDER_ORDER = ['openai', 'anthropic'] as const
-const DEFAULT_MODEL_BY_PROVIDER: Record<string, string> = {
-  openai: 'gpt-4o-mini',
-  anthropic: 'claude-3-5-haiku-latest',
+const ResumeParams = z.object({
+  sessionKey: z.string().uuid(),
+  /** `seq` of the last event the client received; omit to replay the runs in flight. */
+  afterSeq: z.number().int().min(0).optional(),
+  /** `epoch` from the client's previous chat.resume. */
+  epoch: z.string().optional(),
+})
+
+/**
+ * Send a run's events to every client viewing the session, numbered for
+ * chat.resume; without a hub (tests, no gateway) only to the caller.
+ */
+function sessionEmitter(ctx: MethodContext, sessionKey: string): (event: string, data: unknown) => void {
+  const hub = ctx.hub
+  return hub ? (event, data) => hub.publish(sessionKey, event, data) : ctx.sendEvent
 }
 
 function summarizeSessionLabel(text: string, maxLen: number = 56): string | null {
@@ -38,50 +96,182 @@ function summarizeSessionLabel(text: string, maxLen: number = 56): string | null
   return `${normalized.slice(0, maxLen - 1).trimEnd()}…`
 }
 
-function resolveProviderAndModel(
-  providers: Map<string, ModelProvider>,
-  requestedProvider: string,
-  requestedModel: string,
-): { provider: ModelProvider; model: string } {
-  const directProvider = providers.get(requestedProvider)
-  if (directProvider) {
-    return {
-      provider: directProvider,
-      model: requestedModel,
+/** Sessions whose title and summary are being written, so overlapping runs ask once. */
+const summarizing = new Set<string>()
+
+/**
+ * Write a new title and summary for a session once enough has been said
+ * since the last (see summaryDue), re-index it, and tell the client. Uses
+ * sessions.summaries.model, then the agent's own chain. Runs after the
+ * answer is stored; failures are logged and retried after the next run.
+ */
+async function refreshSessionSummary(
+  ctx: MethodContext,
+  session: Session,
+  agent: AgentConfig,
+  runId: string,
+): Promise<void> {
+  const settings = ctx.config.sessions.summaries
+  const sessionKey = session.meta.key
+  if (!settings.enabled || summarizing.has(sessionKey)) return
+
+  summarizing.add(sessionKey)
+  try {
+    const events = await session.readEvents()
+    if (!summaryDue(countMessages(events), session.meta.summaryMessageCount, settings.refreshEvery)) return
+
+    const { candidates } = resolveModelChain(ctx.providers, [
+      ...(settings.model ? [settings.model] : []),
+      agent.model,
+      ...agent.fallback,
+      ...ctx.config.providers.failover,
+    ])
+    if (candidates.length === 0) return
+    const provider = new FailoverProvider(candidates, ctx.config.providers.retry, ctx.circuitBreaker)
+    const usage = new RunUsage({ runId, sessionKey, agentId: session.meta.agentId }, ctx.config.usage.prices, ctx.usageTracker)
+
+    const result = await summarizeSession(events, provider, provider.activeRef, (u) => usage.add(provider.activeRef, u))
+    const meta = await ctx.sessionManager.setSummary(sessionKey, result)
+    if (!meta) return
+    if (ctx.memoryDb) {
+      await indexSession(new IndexManager(ctx.memoryDb, ctx.embedder), ctx.sessionManager, session)
     }
+    // Every client's session list shows the new title, whichever session it views
+    const summarized = { sessionKey, label: meta.label, summary: meta.summary }
+    if (ctx.hub) ctx.hub.broadcast('session.summarized', summarized)
+    else ctx.sendEvent('session.summarized', summarized)
+  } catch (err) {
+    console.warn('[chat]', (err as Error).message)
+  } finally {
+    summarizing.delete(sessionKey)
   }
+}
 
-  const prioritizedFallback = FALLBACK_PROVIDER_ORDER.find((id) => providers.has(id))
-  const firstAvailable = providers.keys().next().value as string | undefined
-  const fallbackProviderId = prioritizedFallback ?? firstAvailable
-
-  if (!fallbackProviderId) {
-    throw new RpcError(
-      -32603,
-      `No AI providers configured. Set ANTHROPIC_API_KEY or OPENAI_API_KEY in .env`,
-    )
+/**
+ * Build a user message, placing attachments ahead of the text.
+ * Attachments whose files have gone missing are replaced with a note.
+ */
+async function userMessage(
+  session: Session,
+  text: string,
+  attachments: AttachmentRef[] | undefined,
+): Promise<Message> {
+  if (!attachments || attachments.length === 0) {
+    return { role: 'user', content: text }
   }
 
-  const fallbackProvider = providers.get(fallbackProviderId)!
-  const fallbackModel = DEFAULT_MODEL_BY_PROVIDER[fallbackProviderId] ?? requestedModel
+  const blocks: ContentBlock[] = []
+  for (const ref of attachments) {
+    try {
+      blocks.push(attachmentBlock(ref, await session.readAttachment(ref)))
+    } catch {
+      blocks.push({ type: 'text', text: `[Attachment "${ref.name}" is no longer available]` })
+    }
+  }
+  if (text) {
+    blocks.push({ type: 'text', text })
+  }
+  return { role: 'user', content: blocks }
+}
 
+/** Stored tool result as a tool_result block, with any screenshots it returned. */
+async function toolResultBlock(session: Session, event: TranscriptEvent, callId: string): Promise<ContentBlock> {
+  const attachments: ContentBlock[] = []
+  for (const ref of event.attachments ?? []) {
+    try {
+      attachments.push(attachmentBlock(ref, await session.readAttachment(ref)))
+    } catch {
+      // Missing screenshot — the text result still stands
+    }
+  }
   return {
-    provider: fallbackProvider,
-    model: fallbackModel,
+    type: 'tool_result',
+    toolUseId: callId,
+    content: event.content,
+    ...(attachments.length > 0 ? { attachments } : {}),
+  }
+}
+
+/**
+ * Convert transcript events to Message[] for the model. Tool turns are
+ * replayed as they happened: an assistant message with the turn's text and
+ * tool_use blocks, then a user message with every call's tool_result (calls
+ * whose result was never stored, e.g. in an aborted run, get a note so the
+ * conversation stays well-formed). Tool results from transcripts written
+ * before tool calls were stored have no call id and are skipped.
+ * Events covered by a compaction summary are skipped; the summary itself
+ * goes into the system prompt.
+ */
+async function transcriptToMessages(session: Session, events: TranscriptEvent[]): Promise<Message[]> {
+  const messages: Message[] = []
+  let pendingCalls: TranscriptToolCall[] = []
+  let results = new Map<string, ContentBlock>()
+
+  const flushResults = () => {
+    if (pendingCalls.length === 0) return
+    messages.push({
+      role: 'user',
+      content: pendingCalls.map((call) => results.get(call.id) ?? {
+        type: 'tool_result',
+        toolUseId: call.id,
+        content: '[No result was recorded for this call]',
+      }),
+    })
+    pendingCalls = []
+    results = new Map()
+  }
+
+  for (const e of events) {
+    if (e.role === 'tool_result') {
+      if (e.toolCallId && pendingCalls.some((call) => call.id === e.toolCallId)) {
+        results.set(e.toolCallId, await toolResultBlock(session, e, e.toolCallId))
+      }
+      continue
+    }
+    if (e.role !== 'user' && e.role !== 'assistant' && e.role !== 'tool_use') continue
+
+    flushResults()
+    if (e.role === 'user') {
+      messages.push(await userMessage(session, e.content, e.attachments))
+    } else if (e.role === 'tool_use') {
+      const blocks: ContentBlock[] = e.content ? [{ type: 'text', text: e.content }] : []
+      for (const call of e.toolCalls ?? []) {
+        blocks.push({ type: 'tool_use', id: call.id, name: call.name, input: call.input })
+      }
+      messages.push({ role: 'assistant', content: blocks })
+      pendingCalls = e.toolCalls ?? []
+    } else if (e.content) {
+      messages.push({ role: 'assistant', content: e.content })
+    }
   }
+  flushResults()
+  return messages
 }
 
 /**
- * Convert transcript events to Message[] for the model.
- * Only includes user and assistant roles (tool_result is embedded in the flow).
+ * Order events for display: each compaction summary is moved to the point
+ * in the conversation where it takes over, rather than where it was appended.
  */
-function transcriptToMessages(events: TranscriptEvent[]): Message[] {
-  return events
-    .filter((e) => e.role === 'user' || e.role === 'assistant')
-    .map((e) => ({
-      role: e.role as 'user' | 'assistant',
-      content: e.content,
-    }))
+function historyOrder<E extends { role: string; summarizedEvents?: number }>(events: E[]): E[] {
+  const summariesAt = new Map<number, E[]>()
+  for (const e of events) {
+    if (e.role !== 'summary') continue
+    const at = e.summarizedEvents ?? 0
+    summariesAt.set(at, [...(summariesAt.get(at) ?? []), e])
+  }
+
+  const ordered: E[] = []
+  events.forEach((e, i) => {
+    ordered.push(...(summariesAt.get(i) ?? []))
+    if (e.role !== 'summary') ordered.push(e)
+  })
+  return ordered
+}
+
+/** Ids of the alternatives to an event, oldest first; undefined when it has none. */
+function siblingsOf<E extends EventLink>(tree: TranscriptTree<E>, event: EventLink): string[] | undefined {
+  const siblings = tree.children.get(event.parentId ?? null) ?? []
+  return siblings.length > 1 ? siblings : undefined
 }
 
 /**
@@ -93,7 +283,26 @@ export const chatSend: MethodHandler = async (params, ctx) => {
     throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
   }
 
-  const { sessionKey, message } = parsed.data
+  const { sessionKey, attachments, responseSchema, parentEventId, regenerate } = parsed.data
+  const message = parsed.data.message.trim()
+
+  // Validate attachments before touching the session
+  const files = attachments.map((a) => {
+    if (!attachmentKind(a.mimeType)) {
+      throw new RpcError(-32602, `Unsupported attachment type "${a.mimeType}" (${a.name})`)
+    }
+    const data = Buffer.from(a.data, 'base64')
+    if (data.length === 0 || data.length > MAX_ATTACHMENT_BYTES) {
+      throw new RpcError(
+        -32602,
+        `Attachment "${a.name}" must be between 1 byte and ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`,
+      )
+    }
+    return { name: a.name, mimeType: a.mimeType, data }
+  })
+  if (files.reduce((total, f) => total + f.data.length, 0) > MAX_ATTACHMENTS_TOTAL_BYTES) {
+    throw new RpcError(-32602, `Attachments must add up to at most ${MAX_ATTACHMENTS_TOTAL_BYTES / (1024 * 1024)} MB`)
+  }
 
   // Load session
   const session = await ctx.sessionManager.get(sessionKey)
@@ -101,102 +310,278 @@ export const chatSend: MethodHandler = async (params, ctx) => {
     throw new RpcError(-32603, `Session not found: ${sessionKey}`)
   }
 
+  // The sender sees the run's events along with everyone else viewing the session
+  ctx.hub?.watch(ctx.clientId, sessionKey)
+
+  const overBudget = ctx.usageTracker?.checkBudget(session.meta.agentId)
+  if (overBudget) {
+    throw new RpcError(-32603, overBudget)
+  }
+
+  // A run appends after the session's head, so nothing else may move it until the run ends
+  if (!session.beginRun()) {
+    throw new RpcError(-32603, `A reply is already being generated in session ${sessionKey}`)
+  }
+  try {
+    return await startRun(ctx, session, { sessionKey, message, files, parentEventId, regenerate, responseSchema })
+  } catch (err) {
+    session.endRun()
+    throw err
+  }
+}
+
+interface RunRequest {
+  sessionKey: string
+  message: string
+  files: { name: string; mimeType: string; data: Buffer }[]
+  parentEventId?: string | null
+  regenerate: boolean
+  responseSchema?: z.infer<typeof ResponseSchemaParam>
+}
+
+/** The rest of chat.send, once the session is claimed: store the message and start the run. */
+async function startRun(ctx: MethodContext, session: Session, request: RunRequest): Promise<unknown> {
+  const { sessionKey, message, files, parentEventId, regenerate, responseSchema } = request
+  const emit = sessionEmitter(ctx, sessionKey)
+
+  // Editing or regenerating continues from an earlier event on a new branch
+  if (parentEventId !== undefined) {
+    try {
+      await session.branchFrom(parentEventId)
+    } catch (err) {
+      throw new RpcError(-32602, (err as Error).message)
+    }
+  }
+
   // Read existing transcript for conversation context
   const existingEvents = await session.readEvents()
-  const messages: Message[] = transcriptToMessages(existingEvents)
+  if (regenerate && existingEvents.at(-1)?.role !== 'user') {
+    throw new RpcError(-32602, 'regenerate requires parentEventId to be a user message')
+  }
+  const live = liveEvents(existingEvents)
+  let messages: Message[] = await transcriptToMessages(session, live.events)
+  let summary = live.summary?.content ?? null
   const shouldSetLabel = !existingEvents.some((e) => e.role === 'user')
 
-  // Append user message to transcript
-  const userEvent: TranscriptEvent = {
-    role: 'user',
-    content: message,
-    timestamp: Date.now(),
+  // Store attachments on disk; the transcript only keeps references
+  const attachmentRefs: AttachmentRef[] = []
+  for (const file of files) {
+    attachmentRefs.push(await session.saveAttachment(file))
+  }
+
+  // Append user message to transcript; a regenerated answer reuses the one on the path
+  let stored: { id: string; parentId: string | null } | null = null
+  if (!regenerate) {
+    const userEvent: TranscriptEvent = {
+      role: 'user',
+      content: message,
+      timestamp: Date.now(),
+      ...(attachmentRefs.length > 0 ? { attachments: attachmentRefs } : {}),
+    }
+    stored = { id: await session.appendEvent(userEvent), parentId: existingEvents.at(-1)?.id ?? null }
+    messages.push(await userMessage(session, message, attachmentRefs))
   }
-  await session.appendEvent(userEvent)
-  messages.push({ role: 'user', content: message })
   if (shouldSetLabel) {
-    const label = summarizeSessionLabel(message)
+    const label = summarizeSessionLabel(message || attachmentRefs.map((a) => a.name).join(', '))
     if (label) {
       ctx.sessionManager.setLabel(sessionKey, label).catch(() => {})
     }
   }
 
-  // Resolve provider
+  // Resolve agent settings and provider
   const agentId = session.meta.agentId
-  const modelRefStr = await getAgentModelRef(ctx.workspacePath, agentId)
-  if (!modelRefStr) {
-    throw new RpcError(-32603, `No model configured for agent "${agentId}" in AGENTS.md`)
+  let agent: AgentConfig
+  let provider: FailoverProvider
+  try {
+    agent = ctx.workspaceWatcher.getAgent(agentId)
+    provider = createAgentProvider({
+      agent,
+      providers: ctx.providers,
+      config: ctx.config,
+      breaker: ctx.circuitBreaker,
+    })
+  } catch (err) {
+    throw new RpcError(-32603, (err as Error).message)
   }
 
-  const modelRef = parseModelRef(modelRefStr)
-  const resolved = resolveProviderAndModel(
-    ctx.providers,
-    modelRef.provider,
-    modelRef.model,
-  )
-
-  const systemPrompt = await buildSystemPrompt(ctx.workspacePath)
+  // A project supplies the working directory and may override prompt files
+  const project = session.meta.projectId ? await ctx.sessionManager.getProject(session.meta.projectId) : null
+
+  const tools = ctx.toolRegistry.toDefinitions((tool) => agentAllowsTool(agent, tool))
+  const basePrompt = await buildSystemPrompt(ctx.workspacePath, agent.prompts, {
+    mode: 'interactive',
+    agentId,
+    sessionLabel: session.meta.label,
+    toolNames: tools.map((t) => t.name),
+    projectName: project?.name,
+    cwd: project?.rootDir,
+  }, project ? projectPromptDir(project) : undefined, ctx.workspaceWatcher.loadPrompt)
+
+  // Compact older turns once the prompt nears the model's context window
+  const contextWindow = contextWindowFor(provider.activeRef, ctx.config.context.windows)
+  const promptTokens = estimatePromptTokens(withConversationSummary(basePrompt, summary), messages, tools)
+  if (promptTokens > contextWindow * ctx.config.context.compactAt) {
+    try {
+      const compacted = await compactSession(session, provider, provider.activeRef, {
+        keepRecentMessages: ctx.config.context.keepRecentMessages,
+        maxInputTokens: Math.floor(contextWindow / 2),
+      })
+      if (compacted) {
+        summary = compacted.summary
+        messages = await transcriptToMessages(session, liveEvents(await session.readEvents()).events)
+        emit('chat.compacted', {
+          sessionKey,
+          summarizedMessages: compacted.summarizedMessages,
+          keptMessages: compacted.keptMessages,
+        })
+      }
+    } catch (err) {
+      // Still try the turn; the provider will report if it really doesn't fit
+      console.warn('[chat]', (err as Error).message)
+    }
+  }
+  const systemPrompt = withConversationSummary(basePrompt, summary)
   const runId = randomUUID()
 
   // Track active run for abort support
   const controller = new AbortController()
   ctx.activeRuns.set(runId, controller)
+  ctx.hub?.startRun(sessionKey, runId)
+
+  const runUsage = new RunUsage({ runId, sessionKey, agentId }, ctx.config.usage.prices, ctx.usageTracker)
 
-  // Accumulate assistant text for transcript
+  // Accumulate assistant text and reasoning for transcript. Text written
+  // before tool calls is stored with them, so this holds the current turn's.
   let assistantText = ''
+  let thinkingText = ''
 
   // Build tool context for tool execution
   const toolContext: ToolContext = {
     sessionKey,
     runId,
-    sendEvent: ctx.sendEvent,
-    reportProgress: (message) => ctx.sendEvent('tool.progress', { runId, message }),
+    sendEvent: emit,
+    reportProgress: (message) => emit('tool.progress', { runId, message }),
     config: ctx.config,
+    autoApprove: agent.approval === 'auto',
+    approvalToolsDenied: agent.approval === 'deny',
+    signal: controller.signal,
+    ...(project ? { cwd: project.rootDir } : {}),
   }
 
   // Fire and forget — streaming happens asynchronously via push events
   runAgentTurn({
-    provider: resolved.provider,
-    model: resolved.model,
+    provider,
+    model: provider.activeRef,
     systemPrompt,
     messages,
-    tools: ctx.toolRegistry.toDefinitions(),
+    tools,
+    thinkingBudget: agent.thinking,
+    temperature: agent.temperature,
+    maxOutputTokens: agent.maxOutputTokens,
+    maxToolTurns: agent.maxToolTurns,
+    maxContinuations: ctx.config.agents.maxContinuations,
+    onContinuation: (continuation) => emit('chat.continued', { runId, continuation }),
+    signal: controller.signal,
+    isParallelSafe: (name) => ctx.toolRegistry.isParallelSafe(name),
+    toolConcurrency: ctx.config.tools.maxConcurrency,
+    onUsage: (usage) => runUsage.add(provider.activeRef, usage),
+    responseSchema,
+    onRepair: (error) => {
+      // The client discards the streamed answer and shows the corrected one
+      assistantText = ''
+      emit('chat.repair', { runId, error })
+    },
+    onToolTurn: async (text, calls) => {
+      await session.appendEvent({
+        role: 'tool_use',
+        content: text,
+        timestamp: Date.now(),
+        runId,
+        toolCalls: calls,
+      }).catch(() => {})
+      assistantText = ''
+    },
     onEvent: (event) => {
       // Check if aborted
       if (controller.signal.aborted) return
 
       if (event.type === 'delta') {
         assistantText += event.text
-        ctx.sendEvent('chat.delta', { runId, text: event.text })
+        emit('chat.delta', { runId, text: event.text })
+      }
+      if (event.type === 'thinking' && event.text) {
+        thinkingText += event.text
+        emit('chat.thinking', { runId, text: event.text })
+      }
+      if (event.type === 'provider_switched') {
+        emit('chat.provider_switched', {
+          runId,
+          from: event.from,
+          to: event.to,
+          reason: event.reason,
+        })
       }
       if (event.type === 'final') {
+        const answer = responseSchema ? parseStructuredAnswer(assistantText, responseSchema) : null
+
         // Persist assistant response to transcript
         const assistantEvent: TranscriptEvent = {
           role: 'assistant',
           content: assistantText,
           timestamp: Date.now(),
           runId,
+          model: provider.activeRef,
+          ...(thinkingText ? { thinking: thinkingText } : {}),
+          ...(answer?.ok ? { result: answer.value } : {}),
+          ...(event.stopReason === 'max_tokens' ? { stopReason: event.stopReason } : {}),
         }
         session.appendEvent(assistantEvent).catch(() => {})
         ctx.sessionManager.touch(sessionKey).catch(() => {})
+        // Queued behind the append above, so it sees the answer
+        refreshSessionSummary(ctx, session, agent, runId)
         ctx.activeRuns.delete(runId)
-        ctx.sendEvent('chat.final', { runId, usage: event.usage })
+        emit('chat.final', {
+          runId,
+          usage: event.usage,
+          totalUsage: runUsage.total,
+          costUsd: runUsage.costUsd,
+          model: provider.activeRef,
+          stopReason: event.stopReason,
+          ...(answer?.ok ? { result: answer.value } : {}),
+          ...(answer && !answer.ok ? { resultError: answer.error } : {}),
+        })
       }
       if (event.type === 'error') {
         ctx.activeRuns.delete(runId)
-        ctx.sendEvent('chat.error', { runId, message: event.message })
+        emit('chat.error', { runId, message: event.message })
       }
     },
     onToolCall: async (name, input, callId) => {
+      // Failed calls are stored too, so replay shows the model what went wrong
+      const failed = (message: string) => {
+        session.appendEvent({
+          role: 'tool_result',
+          content: message,
+          timestamp: Date.now(),
+          runId,
+          toolName: name,
+          toolCallId: callId,
+        }).catch(() => {})
+        return message
+      }
+
       const tool = ctx.toolRegistry.get(name)
       if (!tool) {
-        return `Error: Unknown tool "${name}"`
+        return failed(`Error: Unknown tool "${name}"`)
+      }
+      if (!agentAllowsTool(agent, tool)) {
+        return failed(`Error: Tool "${name}" is not enabled for agent "${agentId}"`)
       }
 
       // Validate input
       const validated = tool.inputSchema.safeParse(input)
       if (!validated.success) {
-        return `Error: Invalid input for tool "${name}": ${validated.error.message}`
+        return failed(`Error: Invalid input for tool "${name}": ${validated.error.message}`)
       }
 
       try {
@@ -221,7 +606,7 @@ export const chatSend: MethodHandler = async (params, ctx) => {
 
         // Push attachments (e.g. screenshots) to the client
         if (result.attachments && result.attachments.length > 0) {
-          ctx.sendEvent('tool.attachments', {
+          emit('tool.attachments', {
             runId,
             tool: name,
             attachments: result.attachments,
@@ -236,7 +621,7 @@ export const chatSend: MethodHandler = async (params, ctx) => {
               ? `${filteredOutput.slice(0, maxPreview)}\n\n[output truncated]`
               : filteredOutput
 
-          ctx.sendEvent('chat.tool_result', {
+          emit('chat.tool_result', {
             runId,
             tool: name,
             exitCode: result.exitCode,
@@ -244,22 +629,40 @@ export const chatSend: MethodHandler = async (params, ctx) => {
           })
         }
 
-        // Persist tool result to transcript (with attachment metadata, not data).
-        // For bash, avoid storing raw command output in transcript history.
-        const persistedToolContent = name === 'bash'
-          ? `Bash command executed (exit ${result.exitCode ?? 'unknown'}, output ${filteredOutput.length} chars${result.truncated ? ', truncated' : ''}). Raw output not persisted.`
-          : filteredOutput
+        // Images (e.g. browser screenshots) go back to the model and are
+        // stored with the session so the transcript can reference them.
+        const images = toolImageBlocks(result.attachments)
+        const imageRefs: AttachmentRef[] = []
+        for (const [i, attachment] of (result.attachments ?? []).entries()) {
+          if (attachment.type !== 'image') continue
+          try {
+            imageRefs.push(await session.saveAttachment({
+              name: attachment.name ?? `${name}-${i + 1}.png`,
+              mimeType: attachment.mimeType,
+              data: Buffer.from(attachment.data, 'base64'),
+            }))
+          } catch {
+            // Storage failure shouldn't fail the tool call
+          }
+        }
 
+        // Persist tool result to transcript (with attachment metadata, not data)
         session.appendEvent({
           role: 'tool_result',
-          content: persistedToolContent,
+          content: toolOutputForTranscript(name, filteredOutput, ctx.config.tools.transcript, result),
           timestamp: Date.now(),
           runId,
           toolName: name,
+          toolCallId: callId,
           attachmentCount: result.attachments?.length,
+          ...(imageRefs.length > 0 ? { attachments: imageRefs } : {}),
+          ...(result.childSessionKey ? { childSessionKey: result.childSessionKey } : {}),
+          ...(result.approval ? { approval: result.approval } : {}),
         }).catch(() => {})
 
-        return filteredOutput
+        return images.length > 0
+          ? { output: filteredOutput, attachments: images }
+          : filteredOutput
       } catch (err) {
         const errMsg = err instanceof Error ? err.message : 'Tool execution failed'
 
@@ -271,20 +674,29 @@ export const chatSend: MethodHandler = async (params, ctx) => {
           details: { tool: name, error: errMsg },
         }).catch(() => {})
 
-        return `Error: ${errMsg}`
+        return failed(`Error: ${errMsg}`)
       }
     },
   }).catch((err) => {
     ctx.activeRuns.delete(runId)
     const errMsg = err instanceof Error ? err.message : 'Unknown error'
-    ctx.sendEvent('chat.error', { runId, message: errMsg })
+    emit('chat.error', { runId, message: errMsg })
+  }).finally(() => {
+    ctx.hub?.endRun(sessionKey, runId)
+    // Aborted and failed runs still spent tokens
+    const usageEvent = runUsage.toEvent()
+    if (usageEvent) session.appendEvent(usageEvent).catch(() => {})
+    session.endRun()
   })
 
-  return { runId }
+  return { runId, ...(stored ? { userEvent: stored } : {}) }
 }
 
 /**
- * chat.history — get the last N messages from a session transcript.
+ * chat.history — get the last N messages on the selected branch of a
+ * session transcript, or the N before `before` to page further back.
+ * Messages with alternatives list them in `siblings`. Only the returned
+ * events are read in full; `nextCursor` is null at the start of the branch.
  */
 export const chatHistory: MethodHandler = async (params, ctx) => {
   const parsed = HistoryParams.safeParse(params)
@@ -292,23 +704,49 @@ export const chatHistory: MethodHandler = async (params, ctx) => {
     throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
   }
 
-  const { sessionKey, limit } = parsed.data
+  const { sessionKey, limit, before } = parsed.data
 
   const session = await ctx.sessionManager.get(sessionKey)
   if (!session) {
     throw new RpcError(-32603, `Session not found: ${sessionKey}`)
   }
 
-  const events = await session.readEvents()
-  const messages = events.slice(-limit).map((e) => ({
+  // The selected path, with the alternatives at each branch point
+  const tree = await session.readLinks()
+  const path = pathTo(tree, selectedLeaf(tree, session.meta.selectedBranch))
+  // Where a summary is shown depends on how many events it covers
+  const summaries = await session.readEventsById(path.filter((l) => l.role === 'summary').map((l) => l.id))
+  const covered = new Map(summaries.map((e) => [e.id!, e.summarizedEvents]))
+  const ordered = historyOrder(path.map((link) => ({ ...link, summarizedEvents: covered.get(link.id) })))
+
+  const end = before !== undefined ? ordered.findIndex((link) => link.id === before) : ordered.length
+  if (end === -1) {
+    throw new RpcError(-32602, `Cursor is not on the selected branch: ${before}`)
+  }
+  const start = Math.max(0, end - limit)
+  const events = await session.readEventsById(ordered.slice(start, end).map((link) => link.id))
+  const messages = events.map((e) => ({
+    id: e.id,
+    parentId: e.parentId,
+    siblings: siblingsOf(tree, e),
     role: e.role,
     content: e.content,
     timestamp: e.timestamp,
     runId: e.runId,
     toolName: e.toolName,
+    toolCalls: e.toolCalls,
+    toolCallId: e.toolCallId,
+    model: e.model,
+    thinking: e.thinking,
+    attachments: e.attachments,
+    childSessionKey: e.childSessionKey,
+    usage: e.usage,
+    costUsd: e.costUsd,
+    result: e.result,
+    stopReason: e.stopReason,
   }))
 
-  return { messages }
+  return { messages, nextCursor: start > 0 ? ordered[start]!.id : null }
 }
 
 /**
@@ -330,3 +768,26 @@ export const chatAbort: MethodHandler = async (params, ctx) => {
 
   return { ok: true }
 }
+
+/**
+ * chat.resume — view a session and catch up on it: the events after
+ * `afterSeq`, or without it those of the runs still in flight. With
+ * `complete: false` the events asked for are gone; reload chat.history.
+ */
+export const chatResume: MethodHandler = async (params, ctx) => {
+  const parsed = ResumeParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  const { sessionKey, afterSeq, epoch } = parsed.data
+  if (!(await ctx.sessionManager.get(sessionKey))) {
+    throw new RpcError(-32603, `Session not found: ${sessionKey}`)
+  }
+  if (!ctx.hub) {
+    throw new RpcError(-32603, 'Session sync is not available')
+  }
+
+  ctx.hub.watch(ctx.clientId, sessionKey)
+  return ctx.hub.resume(sessionKey, afterSeq, epoch)
+}
@@ -2,17 +2,24 @@ import { z } from 'zod'
 import type { MethodHandler } from './types.js'
 import { RpcError } from './registry.js'
 
+// A single approvalId, or approvalIds to settle a batch of parallel tool calls at once.
 const ApproveParams = z.object({
-  approvalId: z.string().uuid(),
-})
+  approvalId: z.string().uuid().optional(),
+  approvalIds: z.array(z.string().uuid()).min(1).max(50).optional(),
+}).refine((p) => p.approvalId || p.approvalIds, { message: 'approvalId or approvalIds required' })
 
 const DenyParams = z.object({
-  approvalId: z.string().uuid(),
+  approvalId: z.string().uuid().optional(),
+  approvalIds: z.array(z.string().uuid()).min(1).max(50).optional(),
   reason: z.string().optional(),
-})
+}).refine((p) => p.approvalId || p.approvalIds, { message: 'approvalId or approvalIds required' })
+
+function requestedIds(p: { approvalId?: string; approvalIds?: string[] }): string[] {
+  return [...new Set([...(p.approvalId ? [p.approvalId] : []), ...(p.approvalIds ?? [])])]
+}
 
 /**
- * exec.approve — approve a pending tool execution request.
+ * exec.approve — approve one or more pending tool execution requests.
  */
 export const execApprove: MethodHandler = async (params, ctx) => {
   const parsed = ApproveParams.safeParse(params)
@@ -20,16 +27,19 @@ export const execApprove: MethodHandler = async (params, ctx) => {
     throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
   }
 
-  const ok = ctx.approvalManager.resolve(parsed.data.approvalId)
-  if (!ok) {
+  const ids = requestedIds(parsed.data)
+  const resolved = ids.filter((id) => ctx.approvalManager.resolve(id))
+  if (resolved.length === 0) {
     throw new RpcError(-32602, 'Approval not found or already resolved')
   }
+  // Close the dialog in the other clients viewing the session
+  ctx.hub?.settleApprovals(resolved, true)
 
-  return { ok: true }
+  return { ok: true, resolved: resolved.length }
 }
 
 /**
- * exec.deny — deny a pending tool execution request.
+ * exec.deny — deny one or more pending tool execution requests.
  */
 export const execDeny: MethodHandler = async (params, ctx) => {
   const parsed = DenyParams.safeParse(params)
@@ -37,10 +47,12 @@ export const execDeny: MethodHandler = async (params, ctx) => {
     throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
   }
 
-  const ok = ctx.approvalManager.reject(parsed.data.approvalId, parsed.data.reason)
-  if (!ok) {
+  const ids = requestedIds(parsed.data)
+  const rejected = ids.filter((id) => ctx.approvalManager.reject(id, parsed.data.reason))
+  if (rejected.length === 0) {
     throw new RpcError(-32602, 'Approval not found or already resolved')
   }
+  ctx.hub?.settleApprovals(rejected, false)
 
-  return { ok: true }
+  return { ok: true, resolved: rejected.length }
 }
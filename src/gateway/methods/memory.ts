@@ -2,14 +2,18 @@ import { z } from 'zod'
 import type { MethodHandler } from './types.js'
 import { RpcError } from './registry.js'
 import { hybridSearch } from '../../memory/search.js'
+import { memoryNamespace } from '../../sessions/projects.js'
 
 const SearchParams = z.object({
   query: z.string().min(1).max(2000),
   k: z.number().int().min(1).max(50).default(10),
+  /** Search this project's sessions; without it, sessions outside projects. */
+  projectId: z.string().uuid().optional(),
 })
 
 /**
  * memory.search — search past session transcripts using hybrid keyword + vector search.
+ * Each project's sessions form a namespace of their own.
  */
 export const memorySearch: MethodHandler = async (params, ctx) => {
   const parsed = SearchParams.safeParse(params)
@@ -26,6 +30,7 @@ export const memorySearch: MethodHandler = async (params, ctx) => {
     ctx.embedder ?? null,
     parsed.data.query,
     parsed.data.k,
+    memoryNamespace(parsed.data.projectId),
   )
 
   return {
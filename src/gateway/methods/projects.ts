@@ -0,0 +1,119 @@
+import { stat } from 'node:fs/promises'
+import { isAbsolute } from 'node:path'
+import { z } from 'zod'
+import type { MethodContext, MethodHandler } from './types.js'
+import { RpcError } from './registry.js'
+import { IndexManager } from '../../memory/indexer.js'
+import { indexSession } from '../../memory/session-files.js'
+
+const Name = z.string().trim().min(1).max(80)
+const RootDir = z.string().refine(isAbsolute, 'rootDir must be an absolute path')
+const PromptDir = z.string().min(1).max(1000)
+const AgentId = z.string().min(1)
+
+const CreateParams = z.object({
+  name: Name,
+  rootDir: RootDir,
+  promptDir: PromptDir.optional(),
+  defaultAgentId: AgentId.optional(),
+})
+
+const UpdateParams = z.object({
+  projectId: z.string().uuid(),
+  name: Name.optional(),
+  rootDir: RootDir.optional(),
+  /** `null` removes the override directory or default agent. */
+  promptDir: PromptDir.nullish(),
+  defaultAgentId: AgentId.nullish(),
+})
+
+const DeleteParams = z.object({
+  projectId: z.string().uuid(),
+})
+
+/** Reject a root that isn't an existing directory, or an agent that isn't configured. */
+async function checkProjectFields(
+  ctx: MethodContext,
+  fields: { rootDir?: string; defaultAgentId?: string | null },
+): Promise<void> {
+  if (fields.rootDir !== undefined) {
+    const isDir = await stat(fields.rootDir).then((s) => s.isDirectory(), () => false)
+    if (!isDir) {
+      throw new RpcError(-32602, `Invalid params: not a directory: ${fields.rootDir}`)
+    }
+  }
+  if (fields.defaultAgentId) {
+    try {
+      ctx.workspaceWatcher.getAgent(fields.defaultAgentId)
+    } catch (err) {
+      throw new RpcError(-32602, `Invalid params: ${(err as Error).message}`)
+    }
+  }
+}
+
+/**
+ * projects.list — every project, oldest first.
+ */
+export const projectsList: MethodHandler = async (_params, ctx) => {
+  return { projects: await ctx.sessionManager.listProjects() }
+}
+
+/**
+ * projects.create — create a project. Sessions created in it run bash in
+ * `rootDir`, read prompt files from `promptDir` before the workspace, start
+ * with `defaultAgentId` and keep their memory apart.
+ */
+export const projectsCreate: MethodHandler = async (params, ctx) => {
+  const parsed = CreateParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  await checkProjectFields(ctx, parsed.data)
+  const project = await ctx.sessionManager.createProject(parsed.data)
+  return { project }
+}
+
+/**
+ * projects.update — change a project's name, root, prompt directory or
+ * default agent. Sessions pick the changes up on their next run.
+ */
+export const projectsUpdate: MethodHandler = async (params, ctx) => {
+  const parsed = UpdateParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  const { projectId, ...patch } = parsed.data
+  await checkProjectFields(ctx, patch)
+  const project = await ctx.sessionManager.updateProject(projectId, patch)
+  if (!project) {
+    throw new RpcError(-32603, `Project not found: ${projectId}`)
+  }
+  return { project }
+}
+
+/**
+ * projects.delete — delete a project. Its sessions are kept: they move out
+ * of it, and their memory joins the sessions outside projects.
+ */
+export const projectsDelete: MethodHandler = async (params, ctx) => {
+  const parsed = DeleteParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  const moved = await ctx.sessionManager.deleteProject(parsed.data.projectId)
+  if (!moved) {
+    throw new RpcError(-32603, `Project not found: ${parsed.data.projectId}`)
+  }
+
+  if (ctx.memoryDb) {
+    const index = new IndexManager(ctx.memoryDb, ctx.embedder)
+    for (const key of moved) {
+      const session = await ctx.sessionManager.get(key)
+      if (session) await indexSession(index, ctx.sessionManager, session).catch(() => {})
+    }
+  }
+  return { moved }
+}
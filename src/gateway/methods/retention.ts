@@ -0,0 +1,15 @@
+import type { MethodHandler } from './types.js'
+import { RpcError } from './registry.js'
+
+/**
+ * retention.report — what the retention janitor would purge if it ran now,
+ * without deleting anything.
+ */
+export const retentionReport: MethodHandler = async (_params, ctx) => {
+  if (!ctx.janitor) {
+    throw new RpcError(-32603, 'Retention janitor not available')
+  }
+
+  const report = await ctx.janitor.run({ dryRun: true })
+  return { report }
+}
@@ -1,15 +1,114 @@
 import { z } from 'zod'
 import type { MethodHandler } from './types.js'
 import { RpcError } from './registry.js'
+import { createAgentProvider } from '../../agents/failover.js'
+import { contextWindowFor } from '../../agents/context-window.js'
+import { compactSession } from '../../sessions/compaction.js'
+import { IndexManager } from '../../memory/indexer.js'
+import { memoryTextPath } from '../../memory/session-files.js'
+import {
+  exportBundle,
+  exportFilename,
+  renderHtml,
+  renderMarkdown,
+  type SessionBundle,
+} from '../../sessions/export.js'
+import {
+  forksOnPath,
+  isTree,
+  latestLeaf,
+  pathTo,
+  selectedLeaf,
+  type TranscriptTree,
+} from '../../sessions/branches.js'
 
 const CreateParams = z.object({
   agentId: z.string().optional(),
+  projectId: z.string().uuid().optional(),
+})
+
+const ListParams = z.object({
+  includeArchived: z.boolean().default(false),
+}).default({})
+
+const RenameParams = z.object({
+  sessionKey: z.string().uuid(),
+  label: z.string().trim().min(1).max(120),
+})
+
+const ArchiveParams = z.object({
+  sessionKey: z.string().uuid(),
+  archived: z.boolean().default(true),
+})
+
+const PinParams = z.object({
+  sessionKey: z.string().uuid(),
+  pinned: z.boolean().default(true),
 })
 
 const GetParams = z.object({
   sessionKey: z.string().uuid(),
 })
 
+const CompactParams = z.object({
+  sessionKey: z.string().uuid(),
+  keepRecentMessages: z.number().int().min(2).max(100).optional(),
+})
+
+const BranchesParams = z.object({
+  sessionKey: z.string().uuid(),
+})
+
+const SelectBranchParams = z.object({
+  sessionKey: z.string().uuid(),
+  eventId: z.string().min(1),
+})
+
+const ExportParams = z.object({
+  sessionKey: z.string().uuid(),
+  format: z.enum(['markdown', 'html', 'json']).default('markdown'),
+})
+
+// Bundles come from other machines; attachment ids become file names, so
+// only the shape saveAttachment generates is accepted.
+const BundleAttachment = z.object({
+  id: z.string().regex(/^[0-9a-f-]{36}(\.[a-z0-9]+)?$/),
+  name: z.string(),
+  mimeType: z.string(),
+  size: z.number().int().min(0),
+  data: z.string(),
+})
+
+const ImportParams = z.object({
+  bundle: z.object({
+    format: z.literal('jarvis-session'),
+    version: z.literal(1),
+    exportedAt: z.number(),
+    meta: z.object({
+      key: z.string(),
+      agentId: z.string().min(1),
+      createdAt: z.number(),
+      updatedAt: z.number(),
+      label: z.string().max(120).optional(),
+      customLabel: z.boolean().optional(),
+      summary: z.string().max(1_000).optional(),
+      summaryMessageCount: z.number().int().min(0).optional(),
+      pinned: z.boolean().optional(),
+      archived: z.boolean().optional(),
+      selectedBranch: z.string().optional(),
+    }).passthrough(),
+    // Other event fields are kept as they are
+    events: z.array(z.object({
+      role: z.enum(['user', 'assistant', 'tool_use', 'tool_result', 'summary', 'usage']),
+      content: z.string(),
+      timestamp: z.number(),
+      id: z.string().optional(),
+      parentId: z.string().nullable().optional(),
+    }).passthrough()).refine(isTree, 'events must have unique ids and follow an earlier event'),
+    attachments: z.array(BundleAttachment).default([]),
+  }),
+})
+
 function summarizeLabel(text: string, maxLen: number = 56): string | null {
   const normalized = text.replace(/\s+/g, ' ').trim()
   if (!normalized) return null
@@ -18,7 +117,8 @@ function summarizeLabel(text: string, maxLen: number = 56): string | null {
 }
 
 /**
- * sessions.create — create a new session
+ * sessions.create — create a new session, optionally in a project; without
+ * an agent it gets the project's default agent.
  */
 export const sessionsCreate: MethodHandler = async (params, ctx) => {
   const parsed = CreateParams.safeParse(params)
@@ -26,33 +126,135 @@ export const sessionsCreate: MethodHandler = async (params, ctx) => {
     throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
   }
 
-  const session = await ctx.sessionManager.create(parsed.data.agentId)
+  const { agentId, projectId } = parsed.data
+  const project = projectId ? await ctx.sessionManager.getProject(projectId) : null
+  if (projectId && !project) {
+    throw new RpcError(-32603, `Project not found: ${projectId}`)
+  }
+
+  const session = await ctx.sessionManager.create(agentId ?? project?.defaultAgentId, { projectId: project?.id })
   return { sessionKey: session.meta.key, meta: session.meta }
 }
 
 /**
- * sessions.list — list all sessions
+ * sessions.list — list sessions, pinned first, each with its message count
+ * and a preview of the latest message. Sub-agent sessions are left out;
+ * they are reached from the delegate result in their parent session.
+ * Archived sessions are left out unless `includeArchived` is set.
+ */
+export const sessionsList: MethodHandler = async (params, ctx) => {
+  const parsed = ListParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  // Labels come from the first message when a session has none; the store
+  // keeps it, so no transcript is read here
+  const sessions = (await ctx.sessionManager.list())
+    .filter((listing) => !listing.parentSessionKey && (parsed.data.includeArchived || !listing.archived))
+    .sort((a, b) => Number(b.pinned ?? false) - Number(a.pinned ?? false))
+    .map(({ firstMessage, lastMessage, ...listing }) => {
+      const preview = lastMessage
+        ? { ...lastMessage, content: summarizeLabel(lastMessage.content, 80) ?? '' }
+        : undefined
+      const derived = !listing.label?.trim() && firstMessage ? summarizeLabel(firstMessage) : null
+      if (derived) ctx.sessionManager.setLabel(listing.key, derived).catch(() => {})
+      return { ...listing, ...(derived ? { label: derived } : {}), ...(preview ? { lastMessage: preview } : {}) }
+    })
+
+  return { sessions }
+}
+
+/**
+ * sessions.rename — set a session's label.
  */
-export const sessionsList: MethodHandler = async (_params, ctx) => {
-  const sessions = await ctx.sessionManager.list()
+export const sessionsRename: MethodHandler = async (params, ctx) => {
+  const parsed = RenameParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
 
-  const enriched = await Promise.all(sessions.map(async (meta) => {
-    if (meta.label?.trim()) return meta
+  const meta = await ctx.sessionManager.update(parsed.data.sessionKey, { label: parsed.data.label })
+  if (!meta) {
+    throw new RpcError(-32603, `Session not found: ${parsed.data.sessionKey}`)
+  }
+  return { session: meta }
+}
+
+/**
+ * sessions.archive — hide a session from sessions.list (or bring it back
+ * with `archived: false`). Its transcript and memory are kept.
+ */
+export const sessionsArchive: MethodHandler = async (params, ctx) => {
+  const parsed = ArchiveParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
 
-    const session = await ctx.sessionManager.get(meta.key)
-    if (!session) return meta
+  const meta = await ctx.sessionManager.update(parsed.data.sessionKey, { archived: parsed.data.archived })
+  if (!meta) {
+    throw new RpcError(-32603, `Session not found: ${parsed.data.sessionKey}`)
+  }
+  return { session: meta }
+}
 
-    const events = await session.readEvents()
-    const firstUser = events.find((e) => e.role === 'user' && e.content.trim().length > 0)
-    const derived = firstUser ? summarizeLabel(firstUser.content) : null
+/**
+ * sessions.pin — keep a session at the top of sessions.list (or unpin it).
+ */
+export const sessionsPin: MethodHandler = async (params, ctx) => {
+  const parsed = PinParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
 
-    if (!derived) return meta
+  const meta = await ctx.sessionManager.update(parsed.data.sessionKey, { pinned: parsed.data.pinned })
+  if (!meta) {
+    throw new RpcError(-32603, `Session not found: ${parsed.data.sessionKey}`)
+  }
+  return { session: meta }
+}
 
-    ctx.sessionManager.setLabel(meta.key, derived).catch(() => {})
-    return { ...meta, label: derived }
-  }))
+/**
+ * sessions.duplicate — copy a session, all branches and attachments
+ * included, into a new one.
+ */
+export const sessionsDuplicate: MethodHandler = async (params, ctx) => {
+  const parsed = GetParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
 
-  return { sessions: enriched }
+  const copy = await ctx.sessionManager.duplicate(parsed.data.sessionKey)
+  if (!copy) {
+    throw new RpcError(-32603, `Session not found: ${parsed.data.sessionKey}`)
+  }
+  return { sessionKey: copy.meta.key, meta: copy.meta }
+}
+
+/**
+ * sessions.delete — delete a session for good: transcript, attachments,
+ * the sub-agent sessions it delegated to, and their memory index entries.
+ */
+export const sessionsDelete: MethodHandler = async (params, ctx) => {
+  const parsed = GetParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  const deleted = await ctx.sessionManager.delete(parsed.data.sessionKey)
+  if (!deleted) {
+    throw new RpcError(-32603, `Session not found: ${parsed.data.sessionKey}`)
+  }
+
+  if (ctx.memoryDb) {
+    const index = new IndexManager(ctx.memoryDb, null)
+    for (const key of deleted) {
+      index.remove(memoryTextPath(ctx.sessionManager.sessionsDir, key))
+    }
+  }
+  ctx.scheduler?.detachSessions(deleted)
+  ctx.hub?.forgetSessions(deleted)
+  return { deleted }
 }
 
 /**
@@ -82,3 +284,151 @@ export const sessionsGet: MethodHandler = async (params, ctx) => {
 
   return { session: session.meta, messages }
 }
+
+/**
+ * sessions.compact — summarize older turns of a session now, keeping the
+ * most recent messages verbatim. chat.send does this automatically when a
+ * session nears the model's context window.
+ */
+export const sessionsCompact: MethodHandler = async (params, ctx) => {
+  const parsed = CompactParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  const { sessionKey } = parsed.data
+  const session = await ctx.sessionManager.get(sessionKey)
+  if (!session) {
+    throw new RpcError(-32603, `Session not found: ${sessionKey}`)
+  }
+
+  try {
+    const provider = createAgentProvider({
+      agent: ctx.workspaceWatcher.getAgent(session.meta.agentId),
+      providers: ctx.providers,
+      config: ctx.config,
+      breaker: ctx.circuitBreaker,
+    })
+    const contextWindow = contextWindowFor(provider.activeRef, ctx.config.context.windows)
+    const result = await compactSession(session, provider, provider.activeRef, {
+      keepRecentMessages: parsed.data.keepRecentMessages ?? ctx.config.context.keepRecentMessages,
+      maxInputTokens: Math.floor(contextWindow / 2),
+    })
+    if (!result) {
+      return { compacted: false, summarizedMessages: 0 }
+    }
+    return {
+      compacted: true,
+      summarizedMessages: result.summarizedMessages,
+      keptMessages: result.keptMessages,
+      summary: result.summary,
+    }
+  } catch (err) {
+    throw new RpcError(-32603, (err as Error).message)
+  }
+}
+
+/** Opening text of a branch: its first message with content. */
+function branchPreview(tree: TranscriptTree, id: string): string {
+  const path = pathTo(tree, latestLeaf(tree, id))
+  const shown = path
+    .slice(path.findIndex((e) => e.id === id))
+    .find((e) => (e.role === 'user' || e.role === 'assistant' || e.role === 'tool_use') && e.content.trim())
+  return shown ? summarizeLabel(shown.content, 80) ?? '' : ''
+}
+
+/**
+ * sessions.branches — the points on the selected path where an edited
+ * message or a regenerated reply left alternatives, with a preview of each.
+ */
+export const sessionsBranches: MethodHandler = async (params, ctx) => {
+  const parsed = BranchesParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  const session = await ctx.sessionManager.get(parsed.data.sessionKey)
+  if (!session) {
+    throw new RpcError(-32603, `Session not found: ${parsed.data.sessionKey}`)
+  }
+
+  const tree = await session.readTree()
+  const path = pathTo(tree, selectedLeaf(tree, session.meta.selectedBranch))
+  const forks = forksOnPath(tree, path).map((fork) => ({
+    parentId: fork.parentId,
+    selected: fork.selected,
+    alternatives: fork.siblings.map((id) => ({
+      id,
+      role: tree.byId.get(id)!.role,
+      timestamp: tree.byId.get(id)!.timestamp,
+      preview: branchPreview(tree, id),
+    })),
+  }))
+
+  return { forks }
+}
+
+/**
+ * sessions.selectBranch — make the path through an event the selected one;
+ * it ends at the latest event below it. chat.history and the next chat.send
+ * follow the selection.
+ */
+export const sessionsSelectBranch: MethodHandler = async (params, ctx) => {
+  const parsed = SelectBranchParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  const { sessionKey, eventId } = parsed.data
+  const session = await ctx.sessionManager.get(sessionKey)
+  if (!session) {
+    throw new RpcError(-32603, `Session not found: ${sessionKey}`)
+  }
+
+  try {
+    await session.selectBranch(eventId)
+  } catch (err) {
+    throw new RpcError(-32603, (err as Error).message)
+  }
+  return { sessionKey, selectedBranch: eventId }
+}
+
+/**
+ * sessions.export — a session as readable Markdown or self-contained HTML
+ * (the selected branch, with tool calls, approvals and images), or as a
+ * lossless JSON bundle for sessions.import.
+ */
+export const sessionsExport: MethodHandler = async (params, ctx) => {
+  const parsed = ExportParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  const { sessionKey, format } = parsed.data
+  const session = await ctx.sessionManager.get(sessionKey)
+  if (!session) {
+    throw new RpcError(-32603, `Session not found: ${sessionKey}`)
+  }
+
+  const bundle = await exportBundle(session)
+  const filename = exportFilename(session.meta, format)
+  if (format === 'json') return { format, filename, bundle }
+  return { format, filename, content: format === 'html' ? renderHtml(bundle) : renderMarkdown(bundle) }
+}
+
+/**
+ * sessions.import — restore a bundle from sessions.export as a new session.
+ */
+export const sessionsImport: MethodHandler = async (params, ctx) => {
+  const parsed = ImportParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  try {
+    const session = await ctx.sessionManager.import(parsed.data.bundle as SessionBundle)
+    return { sessionKey: session.meta.key, meta: session.meta }
+  } catch (err) {
+    throw new RpcError(-32603, (err as Error).message)
+  }
+}
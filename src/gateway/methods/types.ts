@@ -1,5 +1,6 @@
 import type { Config } from '../../config/schema.js'
 import type { ModelProvider } from '../../agents/providers/types.js'
+import type { CircuitBreaker } from '../../agents/failover.js'
 import type { SessionManager } from '../../sessions/manager.js'
 import type { ToolRegistry } from '../../tools/registry.js'
 import type { ApprovalManager } from '../../tools/approval.js'
@@ -8,13 +9,19 @@ import type { BrowserSessionManager } from '../../tools/browser-session.js'
 import type { MemoryDb } from '../../memory/db.js'
 import type { EmbeddingProvider } from '../../memory/embeddings.js'
 import type { SchedulerEngine } from '../../scheduler/engine.js'
+import type { UsageTracker } from '../../usage/tracker.js'
+import type { WorkspaceWatcher } from '../../agents/workspace-watcher.js'
+import type { RetentionJanitor } from '../../retention/janitor.js'
+import type { SessionHub } from '../session-hub.js'
 
 export interface MethodContext {
   sendEvent(event: string, data: unknown): void
   config: Config
   token: string
   providers: Map<string, ModelProvider>
+  circuitBreaker: CircuitBreaker
   workspacePath: string
+  workspaceWatcher: WorkspaceWatcher
   sessionManager: SessionManager
   activeRuns: Map<string, AbortController>
   toolRegistry: ToolRegistry
@@ -24,6 +31,12 @@ export interface MethodContext {
   memoryDb: MemoryDb | null
   embedder: EmbeddingProvider | null
   scheduler: SchedulerEngine | null
+  usageTracker: UsageTracker | null
+  janitor: RetentionJanitor | null
+  /** Per-session fan-out to every client viewing a session; null sends run events to the caller only. */
+  hub: SessionHub | null
+  /** The calling connection's id in the hub. */
+  clientId: string
 }
 
 export type MethodHandler = (params: unknown, ctx: MethodContext) => Promise<unknown>
@@ -0,0 +1,59 @@
+import { z } from 'zod'
+import type { MethodHandler } from './types.js'
+import { RpcError } from './registry.js'
+import { USAGE_GROUPS, usageRecordsToCsv } from '../../usage/tracker.js'
+
+const RangeParams = z.object({
+  /** Inclusive start, Unix ms. */
+  from: z.number().int().min(0).optional(),
+  /** Exclusive end, Unix ms. */
+  to: z.number().int().min(0).optional(),
+})
+
+const SummaryParams = RangeParams.extend({
+  groupBy: z.enum(USAGE_GROUPS).default('day'),
+})
+
+const ExportParams = RangeParams.extend({
+  format: z.enum(['json', 'csv']).default('json'),
+})
+
+/**
+ * usage.summary — token and cost totals for a time range, grouped by
+ * session, agent, scheduled job, day or model, plus monthly budget status.
+ */
+export const usageSummary: MethodHandler = async (params, ctx) => {
+  if (!ctx.usageTracker) {
+    throw new RpcError(-32603, 'Usage tracking not available')
+  }
+
+  const parsed = SummaryParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  const { from, to, groupBy } = parsed.data
+  const { totals, groups } = ctx.usageTracker.summary({ from, to }, groupBy)
+  return { groupBy, totals, groups, budgets: ctx.usageTracker.budgetStatus() }
+}
+
+/**
+ * usage.export — every recorded model call in a time range, as JSON
+ * records or CSV text.
+ */
+export const usageExport: MethodHandler = async (params, ctx) => {
+  if (!ctx.usageTracker) {
+    throw new RpcError(-32603, 'Usage tracking not available')
+  }
+
+  const parsed = ExportParams.safeParse(params)
+  if (!parsed.success) {
+    throw new RpcError(-32602, `Invalid params: ${parsed.error.message}`)
+  }
+
+  const { from, to, format } = parsed.data
+  const records = ctx.usageTracker.records({ from, to })
+  return format === 'csv'
+    ? { format, csv: usageRecordsToCsv(records) }
+    : { format, records }
+}
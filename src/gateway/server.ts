@@ -5,6 +5,15 @@ import type { Config } from '../config/schema.js'
 import type { ModelProvider } from '../agents/providers/types.js'
 import { AnthropicProvider } from '../agents/providers/anthropic.js'
 import { OpenAIProvider } from '../agents/providers/openai.js'
+import { OpenAICompatibleProvider } from '../agents/providers/openai-compatible.js'
+import {
+  Cassette,
+  CassetteRecorder,
+  RecordingProvider,
+  replayProviders,
+} from '../agents/providers/cassette.js'
+import { CircuitBreaker } from '../agents/failover.js'
+import { WorkspaceWatcher } from '../agents/workspace-watcher.js'
 import { SessionManager } from '../sessions/manager.js'
 import { getSessionsDir, getAuditLogPath, getDataDir } from '../config/paths.js'
 import { ToolRegistry } from '../tools/registry.js'
@@ -19,25 +28,59 @@ import { IndexManager } from '../memory/indexer.js'
 import { indexSessionTranscripts } from '../memory/session-files.js'
 import { createHttpHandler } from './http-handler.js'
 import { createWsUpgradeHandler } from './ws-handler.js'
+import { SessionHub } from './session-hub.js'
 import { MethodRegistry } from './methods/registry.js'
 import { healthCheck } from './methods/health.js'
-import { agentsList } from './methods/agents.js'
-import { sessionsCreate, sessionsList, sessionsGet } from './methods/sessions.js'
-import { chatSend, chatHistory, chatAbort } from './methods/chat.js'
+import { agentsList, agentsCreate, agentsUpdate, agentsDuplicate, agentsDelete } from './methods/agents.js'
+import {
+  sessionsCreate,
+  sessionsList,
+  sessionsGet,
+  sessionsCompact,
+  sessionsBranches,
+  sessionsSelectBranch,
+  sessionsRename,
+  sessionsArchive,
+  sessionsPin,
+  sessionsDuplicate,
+  sessionsDelete,
+  sessionsExport,
+  sessionsImport,
+} from './methods/sessions.js'
+import { chatSend, chatHistory, chatAbort, chatResume } from './methods/chat.js'
 import { execApprove, execDeny } from './methods/exec.js'
 import { memorySearch } from './methods/memory.js'
 import { SchedulerEngine } from '../scheduler/engine.js'
 import { ScheduleTool } from '../tools/schedule.js'
+import { DelegateTool } from '../tools/delegate.js'
 import { schedulerList, schedulerGet, schedulerRuns } from './methods/scheduler.js'
+import { UsageTracker } from '../usage/tracker.js'
+import { usageSummary, usageExport } from './methods/usage.js'
+import { retentionReport } from './methods/retention.js'
+import { projectsCreate, projectsDelete, projectsList, projectsUpdate } from './methods/projects.js'
+import { RetentionJanitor } from '../retention/janitor.js'
 
 export interface GatewayServer {
   close(): Promise<void>
 }
 
+/** Largest WebSocket message accepted; a chat.send with the most attachments allowed fits. */
+const MAX_PAYLOAD_BYTES = 100 * 1024 * 1024
+
 /**
- * Create provider instances from available API keys.
+ * Create provider instances from available API keys and configured
+ * OpenAI-compatible endpoints, or from a cassette when replaying.
  */
-function createProviders(): Map<string, ModelProvider> {
+function createProviders(config: Config): Map<string, ModelProvider> {
+  const cassette = config.providers.cassette
+  const cassettePath = cassette.path ?? join(getDataDir(), 'cassette.json')
+
+  if (cassette.mode === 'replay') {
+    const replayed = replayProviders(Cassette.load(cassettePath))
+    console.log(`  ✓ Replaying model calls from ${cassettePath} (${[...replayed.keys()].join(', ')})`)
+    return replayed
+  }
+
   const providers = new Map<string, ModelProvider>()
 
   const anthropicKey = process.env['ANTHROPIC_API_KEY']
@@ -52,17 +95,41 @@ function createProviders(): Map<string, ModelProvider> {
     console.log('  ✓ OpenAI provider ready')
   }
 
+  for (const providerConfig of config.providers.openaiCompatible) {
+    if (providers.has(providerConfig.id)) {
+      console.warn(`  ⚠ Skipping provider "${providerConfig.id}" — id already in use`)
+      continue
+    }
+    providers.set(providerConfig.id, new OpenAICompatibleProvider(providerConfig))
+    console.log(`  ✓ Provider "${providerConfig.id}" ready (${providerConfig.baseUrl})`)
+  }
+
   if (providers.size === 0) {
-    console.warn('  ⚠ No AI providers configured — set ANTHROPIC_API_KEY or OPENAI_API_KEY')
+    console.warn(
+      '  ⚠ No AI providers configured — set ANTHROPIC_API_KEY or OPENAI_API_KEY, ' +
+      'or add providers.openaiCompatible to config.json',
+    )
+  }
+
+  if (cassette.mode === 'record') {
+    const recorder = new CassetteRecorder(cassettePath)
+    for (const [id, provider] of providers) {
+      providers.set(id, new RecordingProvider(provider, recorder))
+    }
+    console.log(`  ✓ Recording model calls to ${cassettePath}`)
   }
 
   return providers
 }
 
 export async function startServer(config: Config, token: string): Promise<GatewayServer> {
-  const providers = createProviders()
+  const providers = createProviders(config)
+  // Provider health is shared by interactive chats and scheduled jobs
+  const circuitBreaker = new CircuitBreaker(config.providers.circuitBreaker)
   const sessionManager = new SessionManager(getSessionsDir())
   const activeRuns = new Map<string, AbortController>()
+  // Run events go to every client viewing the session, not just the one that sent the message
+  const hub = new SessionHub(config.gateway.replay)
 
   // Tool infrastructure
   const approvalManager = new ApprovalManager()
@@ -93,7 +160,7 @@ export async function startServer(config: Config, token: string): Promise<Gatewa
 
     // Index existing session transcripts in the background
     const indexManager = new IndexManager(memoryDb, embedder)
-    indexSessionTranscripts(indexManager, getSessionsDir())
+    indexSessionTranscripts(indexManager, sessionManager)
       .then(({ indexed, skipped }) => {
         if (indexed > 0 || skipped > 0) {
           console.log(`  ✓ Memory indexed ${indexed} transcript(s), ${skipped} unchanged`)
@@ -109,47 +176,96 @@ export async function startServer(config: Config, token: string): Promise<Gatewa
     ? resolve(config.agents.workspacePath)
     : resolve('workspace')
 
+  // Agent configs are cached and reloaded when workspace files change
+  const workspaceWatcher = new WorkspaceWatcher(workspacePath)
+  await workspaceWatcher.start()
+  const { agents, errors } = workspaceWatcher.snapshot
+  console.log(`  ✓ Watching workspace: ${agents.length} agent(s)${errors.length > 0 ? `, ${errors.length} invalid` : ''}`)
+
+  // Usage accounting shares memory.db; without it runs are only logged to transcripts
+  const usageTracker = memoryDb ? new UsageTracker(memoryDb, config.usage.budgets) : null
+
   // Scheduler
   let scheduler: SchedulerEngine | null = null
   if (memoryDb) {
     scheduler = new SchedulerEngine({
       db: memoryDb,
       providers,
+      circuitBreaker,
       sessionManager,
       toolRegistry,
       auditLogger,
       config,
       workspacePath,
+      workspaceWatcher,
+      usageTracker,
     })
     toolRegistry.register(new ScheduleTool(scheduler))
     console.log('  ✓ Scheduler engine ready')
   }
 
+  // Retention: purges what config.retention expires, on a timer
+  const janitor = new RetentionJanitor({ sessionManager, auditLogger, config, memoryDb, scheduler, hub })
+
+  toolRegistry.register(new DelegateTool({
+    workspacePath,
+    workspaceWatcher,
+    providers,
+    circuitBreaker,
+    sessionManager,
+    toolRegistry,
+    auditLogger,
+    config,
+    usageTracker,
+  }))
+
   const methods = new MethodRegistry()
   methods.register('health.check', healthCheck)
   methods.register('agents.list', agentsList)
+  methods.register('agents.create', agentsCreate)
+  methods.register('agents.update', agentsUpdate)
+  methods.register('agents.duplicate', agentsDuplicate)
+  methods.register('agents.delete', agentsDelete)
   methods.register('sessions.create', sessionsCreate)
   methods.register('sessions.list', sessionsList)
   methods.register('sessions.get', sessionsGet)
+  methods.register('sessions.compact', sessionsCompact)
+  methods.register('sessions.branches', sessionsBranches)
+  methods.register('sessions.selectBranch', sessionsSelectBranch)
+  methods.register('sessions.rename', sessionsRename)
+  methods.register('sessions.archive', sessionsArchive)
+  methods.register('sessions.pin', sessionsPin)
+  methods.register('sessions.duplicate', sessionsDuplicate)
+  methods.register('sessions.delete', sessionsDelete)
+  methods.register('sessions.export', sessionsExport)
+  methods.register('sessions.import', sessionsImport)
+  methods.register('projects.list', projectsList)
+  methods.register('projects.create', projectsCreate)
+  methods.register('projects.update', projectsUpdate)
+  methods.register('projects.delete', projectsDelete)
   methods.register('chat.send', chatSend)
   methods.register('chat.history', chatHistory)
   methods.register('chat.abort', chatAbort)
+  methods.register('chat.resume', chatResume)
   methods.register('exec.approve', execApprove)
   methods.register('exec.deny', execDeny)
   methods.register('memory.search', memorySearch)
   methods.register('scheduler.list', schedulerList)
   methods.register('scheduler.get', schedulerGet)
   methods.register('scheduler.runs', schedulerRuns)
+  methods.register('usage.summary', usageSummary)
+  methods.register('usage.export', usageExport)
+  methods.register('retention.report', retentionReport)
 
   const httpHandler = createHttpHandler(config)
   const server = createServer(httpHandler)
 
-  const wss = new WebSocketServer({ noServer: true })
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES })
   const upgradeHandler = createWsUpgradeHandler({
     wss, methods, config, token,
-    providers, workspacePath, sessionManager, activeRuns,
+    providers, circuitBreaker, workspacePath, workspaceWatcher, sessionManager, activeRuns,
     toolRegistry, approvalManager, auditLogger, browserSessionManager,
-    memoryDb, embedder, scheduler,
+    memoryDb, embedder, scheduler, usageTracker, janitor, hub,
   })
 
   server.on('upgrade', upgradeHandler)
@@ -158,18 +274,16 @@ export async function startServer(config: Config, token: string): Promise<Gatewa
     server.listen(config.gateway.port, config.gateway.host, () => resolve())
   })
 
+  // Authenticated clients only
+  const broadcast = (event: string, data: unknown) => hub.broadcast(event, data)
+  workspaceWatcher.setBroadcast(broadcast)
+
   // Start scheduler and wire broadcast to WSS
   if (scheduler) {
-    scheduler.setBroadcast((event: string, data: unknown) => {
-      const msg = JSON.stringify({ event, data })
-      for (const client of wss.clients) {
-        if (client.readyState === client.OPEN) {
-          client.send(msg)
-        }
-      }
-    })
+    scheduler.setBroadcast(broadcast)
     scheduler.start()
   }
+  janitor.start()
 
   console.log(`Listening on ws://${config.gateway.host}:${config.gateway.port}`)
 
@@ -185,6 +299,8 @@ export async function startServer(config: Config, token: string): Promise<Gatewa
       if (scheduler) {
         scheduler.stop()
       }
+      janitor.stop()
+      workspaceWatcher.stop()
 
       // Close browser sessions
       await browserSessionManager.closeAll()
@@ -193,6 +309,7 @@ export async function startServer(config: Config, token: string): Promise<Gatewa
       if (memoryDb) {
         try { memoryDb.close() } catch { /* best effort */ }
       }
+      await sessionManager.close().catch(() => {})
 
       return new Promise<void>((resolve, reject) => {
         wss.close(() => {
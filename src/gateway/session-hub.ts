@@ -0,0 +1,200 @@
+import { randomUUID } from 'node:crypto'
+
+/** A push frame. Session events also carry their session key and sequence number. */
+export interface EventFrame {
+  event: string
+  data: unknown
+  sessionKey?: string
+  seq?: number
+}
+
+/** A session event as kept for replay. */
+export interface SequencedEvent {
+  seq: number
+  event: string
+  data: unknown
+}
+
+export interface ReplayOptions {
+  /** Events kept per session for replay; older ones are dropped first. */
+  maxEvents: number
+  /** How long a session's events are kept once its last run has ended. */
+  retainMs: number
+}
+
+/** What chat.resume hands back to a client catching up on a session. */
+export interface ResumeResult {
+  /** Changes when the gateway restarts; sequence numbers start over with it. */
+  epoch: string
+  /** Sequence number of the session's latest event. */
+  seq: number
+  /** Runs still in flight. */
+  runs: string[]
+  events: SequencedEvent[]
+  /** False when events the client asked for are no longer kept; reload chat.history instead. */
+  complete: boolean
+}
+
+interface Client {
+  send(frame: EventFrame): void
+  /** The session whose events the client receives. */
+  sessionKey: string | null
+}
+
+interface Channel {
+  events: SequencedEvent[]
+  /** Events up to this sequence number are no longer kept. */
+  floor: number
+  /** In-flight runs, with the sequence number before each one's first event. */
+  runs: Map<string, number>
+  expiry: ReturnType<typeof setTimeout> | null
+}
+
+/**
+ * Fans run events out to every authenticated client viewing a session.
+ * Each session numbers its events; those of in-flight runs (and of runs
+ * that ended less than `retainMs` ago) are kept so a client that opens the
+ * session or reconnects mid-run can replay what it missed. Approvals are
+ * tracked to their session so every client's dialog closes once one of
+ * them answers.
+ */
+export class SessionHub {
+  readonly epoch = randomUUID()
+  private clients = new Map<string, Client>()
+  private channels = new Map<string, Channel>()
+  /** Latest sequence number per session; outlives the replay buffer, not the session (see forgetSessions). */
+  private seqs = new Map<string, number>()
+  /** Pending approval id → session key. */
+  private approvals = new Map<string, string>()
+
+  constructor(private readonly options: ReplayOptions) {}
+
+  /** Register an authenticated connection. */
+  addClient(clientId: string, send: (frame: EventFrame) => void): void {
+    this.clients.set(clientId, { send, sessionKey: null })
+  }
+
+  removeClient(clientId: string): void {
+    this.clients.delete(clientId)
+  }
+
+  /** Send the client a session's events from now on, instead of the session it viewed before. */
+  watch(clientId: string, sessionKey: string): void {
+    const client = this.clients.get(clientId)
+    if (client) client.sessionKey = sessionKey
+  }
+
+  /** Start keeping a run's events for replay. */
+  startRun(sessionKey: string, runId: string): void {
+    const channel = this.channel(sessionKey)
+    if (channel.expiry) {
+      clearTimeout(channel.expiry)
+      channel.expiry = null
+    }
+    channel.runs.set(runId, this.seqs.get(sessionKey) ?? 0)
+  }
+
+  /** The run has ended; its events are dropped `retainMs` after the session's last run ends. */
+  endRun(sessionKey: string, runId: string): void {
+    const channel = this.channels.get(sessionKey)
+    if (channel?.runs.delete(runId)) this.expireIdle(sessionKey, channel)
+  }
+
+  /** Number a session event, keep it for replay and send it to the clients viewing the session. */
+  publish(sessionKey: string, event: string, data: unknown): void {
+    const channel = this.channel(sessionKey)
+    const seq = (this.seqs.get(sessionKey) ?? 0) + 1
+    this.seqs.set(sessionKey, seq)
+
+    channel.events.push({ seq, event, data })
+    if (channel.events.length > this.options.maxEvents) {
+      channel.floor = channel.events.shift()!.seq
+    }
+    if (event === 'exec.approval_request') {
+      this.approvals.set((data as { approvalId: string }).approvalId, sessionKey)
+    }
+    this.expireIdle(sessionKey, channel)
+
+    const frame: EventFrame = { event, data, sessionKey, seq }
+    for (const client of this.clients.values()) {
+      if (client.sessionKey === sessionKey) client.send(frame)
+    }
+  }
+
+  /** Tell the clients viewing each approval's session that it was answered. */
+  settleApprovals(approvalIds: string[], approved: boolean): void {
+    const bySession = new Map<string, string[]>()
+    for (const id of approvalIds) {
+      const sessionKey = this.approvals.get(id)
+      if (sessionKey === undefined) continue
+      this.approvals.delete(id)
+      bySession.set(sessionKey, [...(bySession.get(sessionKey) ?? []), id])
+    }
+    for (const [sessionKey, ids] of bySession) {
+      this.publish(sessionKey, 'exec.approval_resolved', { approvalIds: ids, approved })
+    }
+  }
+
+  /**
+   * The session's events after `afterSeq`, or without it those of the runs
+   * still in flight. `epoch` is the one from the client's previous resume;
+   * events from before a restart can't be replayed.
+   */
+  resume(sessionKey: string, afterSeq?: number, epoch?: string): ResumeResult {
+    const seq = this.seqs.get(sessionKey) ?? 0
+    const channel = this.channels.get(sessionKey)
+    const runs = [...(channel?.runs.keys() ?? [])]
+    const result = { epoch: this.epoch, seq, runs }
+
+    if (afterSeq === undefined) {
+      if (!channel || runs.length === 0) return { ...result, events: [], complete: true }
+      const from = Math.min(...channel.runs.values())
+      return { ...result, events: channel.events.filter((e) => e.seq > from), complete: from >= channel.floor }
+    }
+
+    if ((epoch !== undefined && epoch !== this.epoch) || afterSeq > seq) {
+      return { ...result, events: [], complete: false }
+    }
+    if (!channel) return { ...result, events: [], complete: afterSeq === seq }
+    return { ...result, events: channel.events.filter((e) => e.seq > afterSeq), complete: afterSeq >= channel.floor }
+  }
+
+  /** Drop everything kept for sessions that were deleted. */
+  forgetSessions(sessionKeys: string[]): void {
+    for (const key of sessionKeys) {
+      const expiry = this.channels.get(key)?.expiry
+      if (expiry) clearTimeout(expiry)
+      this.drop(key)
+      this.seqs.delete(key)
+    }
+  }
+
+  /** Send an event to every authenticated client, whatever session it views. */
+  broadcast(event: string, data: unknown): void {
+    for (const client of this.clients.values()) client.send({ event, data })
+  }
+
+  private channel(sessionKey: string): Channel {
+    let channel = this.channels.get(sessionKey)
+    if (!channel) {
+      channel = { events: [], floor: this.seqs.get(sessionKey) ?? 0, runs: new Map(), expiry: null }
+      this.channels.set(sessionKey, channel)
+    }
+    return channel
+  }
+
+  /** Drop the events of a session with no run in flight once `retainMs` has passed without new ones. */
+  private expireIdle(sessionKey: string, channel: Channel): void {
+    if (channel.runs.size > 0) return
+    if (channel.expiry) clearTimeout(channel.expiry)
+    channel.expiry = setTimeout(() => this.drop(sessionKey), this.options.retainMs)
+    channel.expiry.unref()
+  }
+
+  private drop(sessionKey: string): void {
+    this.channels.delete(sessionKey)
+    for (const [id, key] of this.approvals) {
+      if (key === sessionKey) this.approvals.delete(id)
+    }
+  }
+}
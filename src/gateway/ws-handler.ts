@@ -1,8 +1,10 @@
+import { randomUUID } from 'node:crypto'
 import type { IncomingMessage } from 'node:http'
 import type { Duplex } from 'node:stream'
 import type { WebSocket, WebSocketServer } from 'ws'
 import type { Config } from '../config/schema.js'
 import type { ModelProvider } from '../agents/providers/types.js'
+import type { CircuitBreaker } from '../agents/failover.js'
 import type { SessionManager } from '../sessions/manager.js'
 import type { ToolRegistry } from '../tools/registry.js'
 import type { ApprovalManager } from '../tools/approval.js'
@@ -11,6 +13,10 @@ import type { BrowserSessionManager } from '../tools/browser-session.js'
 import type { MemoryDb } from '../memory/db.js'
 import type { EmbeddingProvider } from '../memory/embeddings.js'
 import type { SchedulerEngine } from '../scheduler/engine.js'
+import type { UsageTracker } from '../usage/tracker.js'
+import type { WorkspaceWatcher } from '../agents/workspace-watcher.js'
+import type { RetentionJanitor } from '../retention/janitor.js'
+import type { SessionHub } from './session-hub.js'
 import type { MethodContext } from './methods/types.js'
 import { MethodRegistry, RpcError } from './methods/registry.js'
 import { verifyToken } from './auth.js'
@@ -41,7 +47,9 @@ export interface WsHandlerDeps {
   config: Config
   token: string
   providers: Map<string, ModelProvider>
+  circuitBreaker: CircuitBreaker
   workspacePath: string
+  workspaceWatcher: WorkspaceWatcher
   sessionManager: SessionManager
   activeRuns: Map<string, AbortController>
   toolRegistry: ToolRegistry
@@ -51,6 +59,9 @@ export interface WsHandlerDeps {
   memoryDb: MemoryDb | null
   embedder: EmbeddingProvider | null
   scheduler: SchedulerEngine | null
+  usageTracker: UsageTracker | null
+  janitor: RetentionJanitor | null
+  hub: SessionHub
 }
 
 export function createWsUpgradeHandler(deps: WsHandlerDeps) {
@@ -72,6 +83,7 @@ export function createWsUpgradeHandler(deps: WsHandlerDeps) {
 
 function handleConnection(ws: WebSocket, deps: WsHandlerDeps): void {
   let authenticated = false
+  const clientId = randomUUID()
 
   const sendJson = (data: unknown) => {
     if (ws.readyState === ws.OPEN) {
@@ -107,6 +119,7 @@ function handleConnection(ws: WebSocket, deps: WsHandlerDeps): void {
       }
 
       authenticated = true
+      deps.hub.addClient(clientId, sendJson)
       sendJson({ type: 'auth', ok: true })
       return
     }
@@ -129,7 +142,9 @@ function handleConnection(ws: WebSocket, deps: WsHandlerDeps): void {
       config: deps.config,
       token: deps.token,
       providers: deps.providers,
+      circuitBreaker: deps.circuitBreaker,
       workspacePath: deps.workspacePath,
+      workspaceWatcher: deps.workspaceWatcher,
       sessionManager: deps.sessionManager,
       activeRuns: deps.activeRuns,
       toolRegistry: deps.toolRegistry,
@@ -139,6 +154,10 @@ function handleConnection(ws: WebSocket, deps: WsHandlerDeps): void {
       memoryDb: deps.memoryDb,
       embedder: deps.embedder,
       scheduler: deps.scheduler,
+      usageTracker: deps.usageTracker,
+      janitor: deps.janitor,
+      hub: deps.hub,
+      clientId,
     }
 
     try {
@@ -154,6 +173,10 @@ function handleConnection(ws: WebSocket, deps: WsHandlerDeps): void {
     }
   })
 
+  ws.on('close', () => {
+    deps.hub.removeClient(clientId)
+  })
+
   ws.on('error', (err) => {
     console.error('[ws] Connection error:', err.message)
   })
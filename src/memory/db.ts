@@ -5,7 +5,7 @@
 
 import { DatabaseSync } from 'node:sqlite'
 import { createRequire } from 'node:module'
-import { ALL_MIGRATIONS } from './schema.js'
+import { ALL_COLUMN_MIGRATIONS, ALL_MIGRATIONS } from './schema.js'
 
 const require = createRequire(import.meta.url)
 
@@ -45,11 +45,19 @@ export function openMemoryDb(dbPath: string): MemoryDb {
   // Performance pragmas
   db.exec('PRAGMA journal_mode=WAL')
   db.exec('PRAGMA foreign_keys=ON')
+  // Purged chunks, runs and cache entries are zeroed on disk
+  db.exec('PRAGMA secure_delete=ON')
 
   // Run migrations
   for (const migration of ALL_MIGRATIONS) {
     db.exec(migration)
   }
+  for (const { table, column, definition } of ALL_COLUMN_MIGRATIONS) {
+    const columns = db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>
+    if (!columns.some((c) => c.name === column)) {
+      db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+    }
+  }
 
   return db as MemoryDb
 }
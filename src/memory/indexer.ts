@@ -46,10 +46,11 @@ export class IndexManager {
   ) {}
 
   /**
-   * Sync a list of files into the index.
-   * Only re-indexes files that have changed (by SHA-256 hash).
+   * Sync a list of files into the index, under `namespace` (see
+   * memoryNamespace). Only re-indexes files that have changed (by SHA-256
+   * hash); an unchanged file indexed under another namespace is moved.
    */
-  async sync(filePaths: string[]): Promise<{ indexed: number; skipped: number }> {
+  async sync(filePaths: string[], namespace = ''): Promise<{ indexed: number; skipped: number }> {
     let indexed = 0
     let skipped = 0
 
@@ -65,10 +66,13 @@ export class IndexManager {
 
       // Check if already indexed with same hash
       const existing = this.db.prepare(
-        'SELECT hash FROM files WHERE path = ?',
-      ).get(filePath) as { hash: string } | undefined
+        'SELECT hash, namespace FROM files WHERE path = ?',
+      ).get(filePath) as { hash: string; namespace: string } | undefined
 
       if (existing?.hash === hash) {
+        if (existing.namespace !== namespace) {
+          this.db.prepare('UPDATE files SET namespace = ? WHERE path = ?').run(namespace, filePath)
+        }
         skipped++
         continue
       }
@@ -85,8 +89,8 @@ export class IndexManager {
 
       // Insert file record
       this.db.prepare(
-        'INSERT INTO files (path, hash, indexed_at) VALUES (?, ?, ?)',
-      ).run(filePath, hash, Date.now())
+        'INSERT INTO files (path, hash, indexed_at, namespace) VALUES (?, ?, ?, ?)',
+      ).run(filePath, hash, Date.now(), namespace)
 
       // Upsert chunks with embeddings
       await this.upsertChunks(filePath, chunks)
@@ -96,6 +100,50 @@ export class IndexManager {
     return { indexed, skipped }
   }
 
+  /**
+   * Drop a file and its chunks from the index, e.g. when its session is deleted.
+   */
+  remove(filePath: string): void {
+    this.db.prepare('DELETE FROM chunks WHERE file_path = ?').run(filePath)
+    this.db.prepare('DELETE FROM files WHERE path = ?').run(filePath)
+  }
+
+  /** Paths of every indexed file. */
+  indexedPaths(): string[] {
+    const rows = this.db.prepare('SELECT path FROM files').all() as Array<{ path: string }>
+    return rows.map((row) => row.path)
+  }
+
+  /**
+   * Drop cached embeddings created before `olderThan` (Unix ms) or beyond
+   * the newest `maxEntries`. Indexed chunks keep their own copies, so this
+   * only costs re-embedding text seen again. Returns how many were (or,
+   * with `dryRun`, would be) dropped.
+   */
+  pruneEmbeddingCache(
+    limits: { olderThan?: number; maxEntries?: number },
+    opts: { dryRun?: boolean } = {},
+  ): number {
+    const where: string[] = []
+    const params: number[] = []
+    if (limits.olderThan !== undefined) {
+      where.push('created_at < ?')
+      params.push(limits.olderThan)
+    }
+    if (limits.maxEntries !== undefined) {
+      where.push('hash NOT IN (SELECT hash FROM embedding_cache ORDER BY created_at DESC LIMIT ?)')
+      params.push(limits.maxEntries)
+    }
+    if (where.length === 0) return 0
+
+    const filter = where.join(' OR ')
+    if (opts.dryRun) {
+      const row = this.db.prepare(`SELECT COUNT(*) AS n FROM embedding_cache WHERE ${filter}`).get(...params) as { n: number }
+      return row.n
+    }
+    return this.db.prepare(`DELETE FROM embedding_cache WHERE ${filter}`).run(...params).changes
+  }
+
   /**
    * Insert chunks for a file, computing embeddings where possible.
    * Uses the embedding cache to avoid redundant API calls.
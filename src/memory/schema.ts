@@ -4,13 +4,16 @@
  * Keyword search uses a simple word-matching approach (no FTS5 in node:sqlite).
  */
 
-import { SCHEDULER_MIGRATIONS } from '../scheduler/schema.js'
+import { SCHEDULER_COLUMNS, SCHEDULER_MIGRATIONS } from '../scheduler/schema.js'
+import { USAGE_MIGRATIONS } from '../usage/schema.js'
 
+/** `namespace` keeps each project's memory apart; '' holds sessions outside projects. */
 export const CREATE_FILES_TABLE = `
   CREATE TABLE IF NOT EXISTS files (
     path       TEXT PRIMARY KEY,
     hash       TEXT NOT NULL,
-    indexed_at INTEGER NOT NULL
+    indexed_at INTEGER NOT NULL,
+    namespace  TEXT NOT NULL DEFAULT ''
   )
 `
 
@@ -42,4 +45,24 @@ export const ALL_MIGRATIONS: string[] = [
   CREATE_EMBEDDING_CACHE_TABLE,
   CREATE_CHUNKS_INDEX,
   ...SCHEDULER_MIGRATIONS,
+  ...USAGE_MIGRATIONS,
+]
+
+/**
+ * A column added to an existing table. `CREATE TABLE IF NOT EXISTS` leaves
+ * older databases untouched, so these are applied with ALTER TABLE when missing.
+ */
+export interface ColumnMigration {
+  table: string
+  column: string
+  definition: string
+}
+
+export const MEMORY_COLUMNS: ColumnMigration[] = [
+  { table: 'files', column: 'namespace', definition: "TEXT NOT NULL DEFAULT ''" },
+]
+
+export const ALL_COLUMN_MIGRATIONS: ColumnMigration[] = [
+  ...MEMORY_COLUMNS,
+  ...SCHEDULER_COLUMNS,
 ]
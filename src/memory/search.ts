@@ -31,11 +31,22 @@ function extractKeywords(query: string): string[] {
     .filter((w) => w.length >= 3 && !STOP_WORDS.has(w))
 }
 
+/** SQL condition (and its parameter) limiting chunks to one namespace; empty for all. */
+function namespaceFilter(namespace: string | undefined): { sql: string; params: string[] } {
+  if (namespace === undefined) return { sql: '', params: [] }
+  return { sql: 'AND file_path IN (SELECT path FROM files WHERE namespace = ?)', params: [namespace] }
+}
+
 /**
  * Keyword search using LIKE patterns on chunk content.
  * Returns chunks ranked by number of keyword matches (more matches = higher rank).
  */
-function keywordSearch(db: MemoryDb, query: string, limit: number): Array<{ id: number; filePath: string; content: string; matchCount: number }> {
+function keywordSearch(
+  db: MemoryDb,
+  query: string,
+  limit: number,
+  namespace?: string,
+): Array<{ id: number; filePath: string; content: string; matchCount: number }> {
   const keywords = extractKeywords(query)
   if (keywords.length === 0) return []
 
@@ -43,15 +54,16 @@ function keywordSearch(db: MemoryDb, query: string, limit: number): Array<{ id:
   // We build OR conditions: content LIKE '%kw1%' OR content LIKE '%kw2%'
   const conditions = keywords.map(() => 'LOWER(content) LIKE ?').join(' OR ')
   const params = keywords.map((kw) => `%${kw}%`)
+  const scope = namespaceFilter(namespace)
 
   const sql = `
     SELECT id, file_path, content
     FROM chunks
-    WHERE ${conditions}
+    WHERE (${conditions}) ${scope.sql}
     LIMIT 200
   `
 
-  const rows = db.prepare(sql).all(...params) as Array<{
+  const rows = db.prepare(sql).all(...params, ...scope.params) as Array<{
     id: number
     file_path: string
     content: string
@@ -75,17 +87,23 @@ function keywordSearch(db: MemoryDb, query: string, limit: number): Array<{ id:
 /**
  * Vector search using sqlite-vec's vec_distance_cosine function.
  */
-function vectorSearch(db: MemoryDb, queryEmbedding: Buffer, limit: number): Array<{ id: number; filePath: string; content: string; distance: number }> {
+function vectorSearch(
+  db: MemoryDb,
+  queryEmbedding: Buffer,
+  limit: number,
+  namespace?: string,
+): Array<{ id: number; filePath: string; content: string; distance: number }> {
   try {
+    const scope = namespaceFilter(namespace)
     const sql = `
       SELECT c.id, c.file_path, c.content,
              vec_distance_cosine(c.embedding, ?) as dist
       FROM chunks c
-      WHERE c.embedding IS NOT NULL
+      WHERE c.embedding IS NOT NULL ${scope.sql}
       ORDER BY dist ASC
       LIMIT ?
     `
-    const rows = db.prepare(sql).all(queryEmbedding, limit) as Array<{
+    const rows = db.prepare(sql).all(queryEmbedding, ...scope.params, limit) as Array<{
       id: number
       file_path: string
       content: string
@@ -105,6 +123,7 @@ function vectorSearch(db: MemoryDb, queryEmbedding: Buffer, limit: number): Arra
 
 /**
  * Hybrid keyword + vector search with Reciprocal Rank Fusion (RRF).
+ * With `namespace`, only files indexed under it are searched.
  *
  * RRF score for document d = Σ 1 / (k + rank_i(d))  where k = 60
  */
@@ -113,12 +132,13 @@ export async function hybridSearch(
   embedder: EmbeddingProvider | null,
   query: string,
   k: number = 10,
+  namespace?: string,
 ): Promise<SearchResult[]> {
   const RRF_K = 60
   const FETCH_LIMIT = 50
 
   // 1. Keyword search
-  const kwResults = keywordSearch(db, query, FETCH_LIMIT)
+  const kwResults = keywordSearch(db, query, FETCH_LIMIT, namespace)
 
   // 2. Vector search (if embedder available)
   let vecResults: Array<{ id: number; filePath: string; content: string; distance: number }> = []
@@ -127,7 +147,7 @@ export async function hybridSearch(
       const [queryVec] = await embedder.embed([query])
       if (queryVec) {
         const queryBlob = float32ToBlob(queryVec)
-        vecResults = vectorSearch(db, queryBlob, FETCH_LIMIT)
+        vecResults = vectorSearch(db, queryBlob, FETCH_LIMIT, namespace)
       }
     } catch {
       // Embedding failed — fall back to keyword only
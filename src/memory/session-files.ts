@@ -1,79 +1,97 @@
-import { readdir, readFile } from 'node:fs/promises'
+import { writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
 import type { IndexManager } from './indexer.js'
-
-interface TranscriptEvent {
-  role: string
-  content: string
-  timestamp: number
-}
+import type { SessionManager } from '../sessions/manager.js'
+import type { Session, SessionMeta } from '../sessions/session.js'
+import type { TranscriptEvent } from '../sessions/transcript.js'
+import { memoryNamespace } from '../sessions/projects.js'
 
 /**
- * Convert a JSONL transcript file to plain text suitable for indexing.
+ * Convert transcript events to plain text suitable for indexing, headed by
+ * the session's title and summary when it has a generated one.
  */
-function transcriptToText(jsonlContent: string): string {
-  const lines = jsonlContent.split('\n').filter(Boolean)
+function transcriptToText(meta: SessionMeta, events: TranscriptEvent[]): string {
   const parts: string[] = []
 
-  for (const line of lines) {
-    try {
-      const event = JSON.parse(line) as TranscriptEvent
-      if (event.role === 'user' || event.role === 'assistant') {
-        const ts = new Date(event.timestamp).toISOString()
-        parts.push(`[${event.role}] ${ts}\n${event.content}`)
-      }
-    } catch {
-      // Skip malformed lines
+  if (meta.summary) {
+    parts.push(`[session summary] ${meta.label ?? ''}\n${meta.summary}`)
+  }
+
+  for (const event of events) {
+    if (event.role === 'user' || event.role === 'assistant') {
+      const ts = new Date(event.timestamp).toISOString()
+      parts.push(`[${event.role}] ${ts}\n${event.content}`)
+    } else if (event.role === 'tool_use' && event.content) {
+      // Text the assistant wrote before calling tools
+      const ts = new Date(event.timestamp).toISOString()
+      parts.push(`[assistant] ${ts}\n${event.content}`)
     }
   }
 
   return parts.join('\n\n')
 }
 
+/** The plain-text companion a session's transcript is indexed from. */
+export function memoryTextPath(sessionsDir: string, sessionKey: string): string {
+  return join(sessionsDir, `${sessionKey}.memory.txt`)
+}
+
 /**
- * Prepare transcript files for indexing by converting JSONL to plain text temp files.
- * Returns the list of file paths that can be passed to IndexManager.sync().
- *
- * Instead of writing temp files, we write the plain-text versions alongside the JSONL
- * files with a .txt extension, and pass those to sync().
+ * Write a session's transcript (every branch) as plain text next to the
+ * session store. Returns the file's path, or null if there is no text.
+ */
+async function writeMemoryText(sessionsDir: string, session: Session): Promise<string | null> {
+  const text = transcriptToText(session.meta, (await session.readTree()).events)
+  if (text.trim().length === 0) return null
+  const txtPath = memoryTextPath(sessionsDir, session.meta.key)
+  await writeFile(txtPath, text, 'utf-8')
+  return txtPath
+}
+
+/**
+ * Write each session's memory text and pass those files to
+ * IndexManager.sync() under the session's project namespace; unchanged
+ * text is skipped.
  */
 export async function indexSessionTranscripts(
   indexManager: IndexManager,
-  sessionsDir: string,
+  sessionManager: SessionManager,
 ): Promise<{ indexed: number; skipped: number }> {
-  let files: string[]
-  try {
-    const entries = await readdir(sessionsDir)
-    files = entries.filter((f) => f.endsWith('.jsonl'))
-  } catch {
-    return { indexed: 0, skipped: 0 }
-  }
-
-  if (files.length === 0) return { indexed: 0, skipped: 0 }
-
-  // We index the JSONL files directly — the indexer will read them,
-  // but we need to convert JSONL → plain text first.
-  // We'll create .txt companion files for indexing.
-  const { writeFile } = await import('node:fs/promises')
-  const txtPaths: string[] = []
+  const listings = await sessionManager.list()
+  if (listings.length === 0) return { indexed: 0, skipped: 0 }
 
-  for (const file of files) {
-    const jsonlPath = join(sessionsDir, file)
-    const txtPath = jsonlPath.replace('.jsonl', '.memory.txt')
+  const byNamespace = new Map<string, string[]>()
 
+  for (const { key, projectId } of listings) {
     try {
-      const content = await readFile(jsonlPath, 'utf-8')
-      const text = transcriptToText(content)
-      if (text.trim().length > 0) {
-        await writeFile(txtPath, text, 'utf-8')
-        txtPaths.push(txtPath)
-      }
+      const session = await sessionManager.get(key)
+      if (!session) continue
+      const txtPath = await writeMemoryText(sessionManager.sessionsDir, session)
+      if (!txtPath) continue
+      const namespace = memoryNamespace(projectId)
+      byNamespace.set(namespace, [...byNamespace.get(namespace) ?? [], txtPath])
     } catch {
-      // Skip files that can't be read
+      // Skip sessions that can't be read
     }
   }
 
-  if (txtPaths.length === 0) return { indexed: 0, skipped: 0 }
+  const totals = { indexed: 0, skipped: 0 }
+  for (const [namespace, txtPaths] of byNamespace) {
+    const result = await indexManager.sync(txtPaths, namespace)
+    totals.indexed += result.indexed
+    totals.skipped += result.skipped
+  }
+  return totals
+}
 
-  return indexManager.sync(txtPaths)
+/** Re-index one session, e.g. after its summary or project changed. */
+export async function indexSession(
+  indexManager: IndexManager,
+  sessionManager: SessionManager,
+  session: Session,
+): Promise<{ indexed: number; skipped: number }> {
+  const txtPath = await writeMemoryText(sessionManager.sessionsDir, session)
+  return txtPath
+    ? indexManager.sync([txtPath], memoryNamespace(session.meta.projectId))
+    : { indexed: 0, skipped: 0 }
 }
@@ -0,0 +1,205 @@
+import { readdir } from 'node:fs/promises'
+import { basename, dirname, join } from 'node:path'
+import type { Config } from '../config/schema.js'
+import type { SessionManager } from '../sessions/manager.js'
+import type { AuditLogger } from '../security/audit.js'
+import type { MemoryDb } from '../memory/db.js'
+import type { SchedulerEngine } from '../scheduler/engine.js'
+import type { SessionHub } from '../gateway/session-hub.js'
+import { IndexManager } from '../memory/indexer.js'
+import { memoryTextPath } from '../memory/session-files.js'
+import { shred } from '../security/shred.js'
+import { DAY_MS, expiredSessions, type ExpiredSession } from './policy.js'
+
+export interface JanitorDeps {
+  sessionManager: SessionManager
+  auditLogger: AuditLogger
+  config: Config
+  /** Without memory.db there are no job runs, index entries or embeddings to purge. */
+  memoryDb?: MemoryDb | null
+  scheduler?: SchedulerEngine | null
+  hub?: SessionHub | null
+}
+
+/** What one janitor pass purged, or with `dryRun` would purge. */
+export interface RetentionReport {
+  dryRun: boolean
+  ranAt: number // Unix ms
+  /** Expired sessions; each is deleted with its sub-agent sessions. */
+  sessions: Array<ExpiredSession & { subSessions: number }>
+  jobRuns: number
+  auditEntries: number
+  embeddingCache: number
+  /** Memory text files and index entries whose session no longer exists. */
+  orphanedMemoryFiles: number
+}
+
+/** Delay before the first pass, so it stays off the startup path. */
+const FIRST_PASS_DELAY_MS = 60_000
+
+const MEMORY_TEXT_SUFFIX = '.memory.txt'
+
+/**
+ * Enforces config.retention: deletes expired sessions through the
+ * SessionManager (transcript, attachments, memory text, sub-agent sessions),
+ * drops them from the memory index, job runs and the session hub, and ages
+ * out job runs, audit log entries and cached embeddings. Every purge is
+ * audited.
+ */
+export class RetentionJanitor {
+  private timer: ReturnType<typeof setTimeout> | null = null
+  /** Passes run one at a time, so a report never races a purge. */
+  private pending: Promise<unknown> = Promise.resolve()
+
+  constructor(private readonly deps: JanitorDeps) {}
+
+  /** Run a pass shortly after startup, then every `retention.intervalMinutes`. */
+  start(): void {
+    this.stop()
+    const minutes = this.deps.config.retention.intervalMinutes
+    if (minutes === 0) return
+
+    const pass = () => {
+      this.run()
+        .then(logReport)
+        .catch((err) => console.warn('[retention] Janitor pass failed:', (err as Error).message))
+        .finally(() => {
+          if (this.timer) this.timer = setTimeout(pass, minutes * 60_000)
+        })
+    }
+    this.timer = setTimeout(pass, FIRST_PASS_DELAY_MS)
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  /** Apply the retention rules now, or with `dryRun` only report what they select. */
+  run(opts: { dryRun?: boolean } = {}): Promise<RetentionReport> {
+    const result = this.pending.then(() => this.pass(opts.dryRun ?? false))
+    this.pending = result.catch(() => {})
+    return result
+  }
+
+  private async pass(dryRun: boolean): Promise<RetentionReport> {
+    const { sessionManager, auditLogger, scheduler, memoryDb, hub } = this.deps
+    const retention = this.deps.config.retention
+    const now = Date.now()
+    const before = (days: number | undefined) => days === undefined ? undefined : now - days * DAY_MS
+    const index = memoryDb ? new IndexManager(memoryDb, null) : null
+
+    const listings = await sessionManager.list()
+    const expired = expiredSessions(listings, retention.sessions, now, scheduler?.runSessionKeys() ?? new Set())
+
+    const children = new Map<string, string[]>()
+    for (const { key, parentSessionKey } of listings) {
+      if (parentSessionKey) children.set(parentSessionKey, [...children.get(parentSessionKey) ?? [], key])
+    }
+    const descendants = (key: string): number =>
+      (children.get(key) ?? []).reduce((n, child) => n + 1 + descendants(child), 0)
+
+    const report: RetentionReport = {
+      dryRun,
+      ranAt: now,
+      sessions: expired.map((session) => ({ ...session, subSessions: descendants(session.key) })),
+      jobRuns: 0,
+      auditEntries: 0,
+      embeddingCache: 0,
+      orphanedMemoryFiles: 0,
+    }
+
+    if (!dryRun) {
+      for (const session of expired) {
+        const deleted = await sessionManager.delete(session.key)
+        if (!deleted) continue // Deleted since the listing
+        for (const key of deleted) index?.remove(memoryTextPath(sessionManager.sessionsDir, key))
+        scheduler?.detachSessions(deleted)
+        hub?.forgetSessions(deleted)
+        await auditLogger.append({
+          ts: Date.now(),
+          type: 'retention_purge',
+          sessionKey: session.key,
+          details: {
+            target: 'session',
+            agentId: session.agentId,
+            kind: session.kind,
+            reason: session.reason,
+            lastActiveAt: session.lastActiveAt,
+            deleted,
+          },
+        })
+      }
+    }
+
+    const orphans = await this.orphanedMemoryFiles(index)
+    report.orphanedMemoryFiles = orphans.length
+    if (!dryRun) {
+      for (const path of orphans) {
+        await shred(path)
+        index?.remove(path)
+      }
+    }
+
+    report.jobRuns = scheduler?.pruneRuns(
+      { olderThan: before(retention.jobRuns.maxAgeDays), maxPerJob: retention.jobRuns.maxPerJob },
+      { dryRun },
+    ) ?? 0
+    report.embeddingCache = index?.pruneEmbeddingCache(
+      { olderThan: before(retention.embeddingCache.maxAgeDays), maxEntries: retention.embeddingCache.maxEntries },
+      { dryRun },
+    ) ?? 0
+    const auditCutoff = before(retention.auditLog.maxAgeDays)
+    if (auditCutoff !== undefined) {
+      report.auditEntries = await auditLogger.prune(auditCutoff, { dryRun })
+    }
+
+    const { jobRuns, auditEntries, embeddingCache, orphanedMemoryFiles } = report
+    if (!dryRun && jobRuns + auditEntries + embeddingCache + orphanedMemoryFiles > 0) {
+      // Written after the audit prune, so it outlives it
+      await auditLogger.append({
+        ts: Date.now(),
+        type: 'retention_purge',
+        details: { target: 'records', jobRuns, auditEntries, embeddingCache, orphanedMemoryFiles },
+      })
+    }
+    return report
+  }
+
+  /**
+   * Memory text files on disk, and index entries for them, whose session is
+   * gone, e.g. after a delete that failed halfway. Listed fresh, so sessions
+   * deleted earlier in the pass are counted as gone.
+   */
+  private async orphanedMemoryFiles(index: IndexManager | null): Promise<string[]> {
+    const { sessionsDir } = this.deps.sessionManager
+    const existing = new Set((await this.deps.sessionManager.list()).map((listing) => listing.key))
+
+    let names: string[] = []
+    try {
+      names = await readdir(sessionsDir)
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    }
+    const paths = new Set([
+      ...names.map((name) => join(sessionsDir, name)),
+      ...(index?.indexedPaths() ?? []).filter((path) => dirname(path) === sessionsDir),
+    ])
+
+    return [...paths].filter((path) =>
+      path.endsWith(MEMORY_TEXT_SUFFIX) && !existing.has(basename(path, MEMORY_TEXT_SUFFIX)))
+  }
+}
+
+function logReport(report: RetentionReport): void {
+  const parts = [
+    [report.sessions.reduce((n, s) => n + 1 + s.subSessions, 0), 'session(s)'],
+    [report.jobRuns, 'job run(s)'],
+    [report.auditEntries, 'audit log line(s)'],
+    [report.embeddingCache, 'cached embedding(s)'],
+    [report.orphanedMemoryFiles, 'orphaned memory file(s)'],
+  ].filter(([count]) => (count as number) > 0)
+  if (parts.length > 0) {
+    console.log(`[retention] Purged ${parts.map(([count, what]) => `${count} ${what}`).join(', ')}`)
+  }
+}
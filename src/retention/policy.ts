@@ -0,0 +1,80 @@
+import type { Config, RetentionRule } from '../config/schema.js'
+import type { SessionListing } from '../sessions/store.js'
+
+export type SessionKind = 'interactive' | 'scheduled'
+
+/** A session the retention rules select, and the limit that selected it. */
+export interface ExpiredSession {
+  key: string
+  agentId: string
+  label?: string
+  kind: SessionKind
+  lastActiveAt: number // Unix ms
+  reason: 'age' | 'count'
+}
+
+export const DAY_MS = 86_400_000
+
+/**
+ * When a session was last written to. A run appends its messages before it
+ * touches the meta, so a session in use is never older than its last message.
+ */
+export function lastActivity(listing: SessionListing): number {
+  return Math.max(listing.updatedAt, listing.lastMessage?.timestamp ?? 0)
+}
+
+/**
+ * Scheduled sessions carry their job id; ones created before that was
+ * recorded are recognized by a job run that points at them.
+ */
+export function sessionKind(listing: SessionListing, runSessionKeys: Set<string>): SessionKind {
+  return listing.jobId || runSessionKeys.has(listing.key) ? 'scheduled' : 'interactive'
+}
+
+/**
+ * Pick the sessions the rules expire, oldest first. Pinned sessions are
+ * never picked and sub-agent sessions go with their parent, so neither
+ * counts toward `maxCount`. A session whose agent has its own rule is
+ * counted among that agent's sessions; the rest among sessions of their kind.
+ */
+export function expiredSessions(
+  listings: SessionListing[],
+  rules: Config['retention']['sessions'],
+  now: number,
+  runSessionKeys: Set<string>,
+): ExpiredSession[] {
+  const groups = new Map<string, { rule: RetentionRule; members: SessionListing[] }>()
+  for (const listing of listings) {
+    if (listing.pinned || listing.parentSessionKey) continue
+    const agentRule = rules.agents[listing.agentId]
+    const kind = sessionKind(listing, runSessionKeys)
+    const groupKey = agentRule ? `agent:${listing.agentId}` : kind
+    let group = groups.get(groupKey)
+    if (!group) {
+      group = { rule: agentRule ?? rules[kind], members: [] }
+      groups.set(groupKey, group)
+    }
+    group.members.push(listing)
+  }
+
+  const expired: ExpiredSession[] = []
+  for (const { rule, members } of groups.values()) {
+    members.sort((a, b) => lastActivity(b) - lastActivity(a))
+    members.forEach((listing, rank) => {
+      const lastActiveAt = lastActivity(listing)
+      const reason = rule.maxAgeDays !== undefined && lastActiveAt < now - rule.maxAgeDays * DAY_MS
+        ? 'age'
+        : rule.maxCount !== undefined && rank >= rule.maxCount ? 'count' : null
+      if (!reason) return
+      expired.push({
+        key: listing.key,
+        agentId: listing.agentId,
+        ...(listing.label ? { label: listing.label } : {}),
+        kind: sessionKind(listing, runSessionKeys),
+        lastActiveAt,
+        reason,
+      })
+    })
+  }
+  return expired.sort((a, b) => a.lastActiveAt - b.lastActiveAt)
+}
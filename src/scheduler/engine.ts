@@ -1,6 +1,7 @@
 import { randomUUID } from 'node:crypto'
 import type { MemoryDb } from '../memory/db.js'
 import type { ModelProvider } from '../agents/providers/types.js'
+import type { CircuitBreaker } from '../agents/failover.js'
 import type { Message } from '../agents/providers/types.js'
 import type { ToolDefinition } from '../agents/providers/types.js'
 import type { SessionManager } from '../sessions/manager.js'
@@ -8,11 +9,18 @@ import type { ToolRegistry } from '../tools/registry.js'
 import type { AuditLogger } from '../security/audit.js'
 import type { Config } from '../config/schema.js'
 import type { ToolContext } from '../tools/types.js'
+import type { Session } from '../sessions/session.js'
+import type { WorkspaceWatcher } from '../agents/workspace-watcher.js'
 import { getNextRun, isValidCron } from './cron.js'
 import { runAgentTurn } from '../agents/runner.js'
-import { buildSchedulerSystemPrompt, getAgentModelRef } from '../agents/prompt-builder.js'
-import { parseModelRef } from '../agents/model-ref.js'
+import { parseStructuredAnswer, type StructuredAnswer } from '../agents/structured-output.js'
+import { buildSystemPrompt } from '../agents/prompt-builder.js'
+import { agentAllowsTool, getAgentConfig } from '../agents/agent-config.js'
+import { createAgentProvider } from '../agents/failover.js'
 import { filterSecrets } from '../security/secrets-filter.js'
+import { toolImageBlocks } from '../sessions/attachments.js'
+import { toolOutputForTranscript, type TranscriptEvent } from '../sessions/transcript.js'
+import { RunUsage, formatUsage, type UsageTracker } from '../usage/tracker.js'
 
 // ── Types ──
 
@@ -28,6 +36,8 @@ export interface ScheduledJob {
   lastRunAt: number | null
   lastRunStatus: string | null
   lastRunSummary: string | null
+  /** JSON Schema each run's answer must match, or null for free-form output. */
+  responseSchema: Record<string, unknown> | null
 }
 
 export interface JobRun {
@@ -39,24 +49,23 @@ export interface JobRun {
   summary: string | null
   sessionKey: string | null
   error: string | null
+  /** Parsed answer of a successful run of a job with a response schema. */
+  result: unknown | null
 }
 
 export interface SchedulerDeps {
   db: MemoryDb
   providers: Map<string, ModelProvider>
+  circuitBreaker: CircuitBreaker
   sessionManager: SessionManager
   toolRegistry: ToolRegistry
   auditLogger: AuditLogger
   config: Config
   workspacePath: string
-}
-
-// ── Provider/model resolution (mirrors chat.ts logic) ──
-
-const FALLBACK_PROVIDER_ORDER = ['openai', 'anthropic'] as const
-const DEFAULT_MODEL_BY_PROVIDER: Record<string, string> = {
-  openai: 'gpt-4o-mini',
-  anthropic: 'claude-3-5-haiku-latest',
+  /** Cached agent configs; without it (in tests) AGENTS.md is read for every run. */
+  workspaceWatcher?: WorkspaceWatcher | null
+  /** Records token usage and enforces budget caps; optional in tests. */
+  usageTracker?: UsageTracker | null
 }
 
 const SCHEDULER_RUNTIME_PREAMBLE = [
@@ -73,28 +82,6 @@ const SCHEDULER_RETRY_PROMPT =
   'Scheduler auto-approval notice: approvals are already granted. ' +
   'Execute required tools now and return final output. Do not ask for approval.'
 
-function resolveProviderAndModel(
-  providers: Map<string, ModelProvider>,
-  requestedProvider: string,
-  requestedModel: string,
-): { provider: ModelProvider; model: string } | null {
-  const directProvider = providers.get(requestedProvider)
-  if (directProvider) {
-    return { provider: directProvider, model: requestedModel }
-  }
-
-  const prioritizedFallback = FALLBACK_PROVIDER_ORDER.find((id) => providers.has(id))
-  const firstAvailable = providers.keys().next().value as string | undefined
-  const fallbackProviderId = prioritizedFallback ?? firstAvailable
-
-  if (!fallbackProviderId) return null
-
-  const fallbackProvider = providers.get(fallbackProviderId)!
-  const fallbackModel = DEFAULT_MODEL_BY_PROVIDER[fallbackProviderId] ?? requestedModel
-
-  return { provider: fallbackProvider, model: fallbackModel }
-}
-
 function schedulerToolDefinitions(defs: ToolDefinition[]): ToolDefinition[] {
   return defs.map((def) => {
     if (def.name === 'browser') {
@@ -145,6 +132,7 @@ interface JobRow {
   last_run_at: number | null
   last_run_status: string | null
   last_run_summary: string | null
+  response_schema: string | null
 }
 
 interface RunRow {
@@ -156,6 +144,7 @@ interface RunRow {
   summary: string | null
   session_key: string | null
   error: string | null
+  result: string | null
 }
 
 function rowToJob(row: JobRow): ScheduledJob {
@@ -171,6 +160,7 @@ function rowToJob(row: JobRow): ScheduledJob {
     lastRunAt: row.last_run_at,
     lastRunStatus: row.last_run_status,
     lastRunSummary: row.last_run_summary,
+    responseSchema: row.response_schema ? JSON.parse(row.response_schema) as Record<string, unknown> : null,
   }
 }
 
@@ -184,6 +174,7 @@ function rowToRun(row: RunRow): JobRun {
     summary: row.summary,
     sessionKey: row.session_key,
     error: row.error,
+    result: row.result !== null ? JSON.parse(row.result) as unknown : null,
   }
 }
 
@@ -290,11 +281,22 @@ export class SchedulerEngine {
     ).run(runId, job.id, now, 'running')
 
     let sessionKey: string | null = null
+    let session: Session | null = null
+    let runUsage: RunUsage | null = null
 
     try {
+      const overBudget = this.deps.usageTracker?.checkBudget(job.agentId)
+      if (overBudget) throw new Error(overBudget)
+
       // Create a new session for this job
-      const session = await this.deps.sessionManager.create(job.agentId)
+      session = await this.deps.sessionManager.create(job.agentId, { job: { jobId: job.id, runId } })
       sessionKey = session.meta.key
+      runUsage = new RunUsage(
+        { runId, sessionKey, agentId: job.agentId, jobId: job.id },
+        this.deps.config.usage.prices,
+        this.deps.usageTracker ?? null,
+      )
+      const jobUsage = runUsage
 
       // Update run with session key
       this.deps.db.prepare(
@@ -302,28 +304,28 @@ export class SchedulerEngine {
       ).run(sessionKey, runId)
 
       // Resolve provider and model
-      const modelRefStr = await getAgentModelRef(this.deps.workspacePath, job.agentId)
-      if (!modelRefStr) {
-        throw new Error(`No model configured for agent "${job.agentId}" in AGENTS.md`)
-      }
+      const agent = this.deps.workspaceWatcher?.getAgent(job.agentId)
+        ?? await getAgentConfig(this.deps.workspacePath, job.agentId)
+      const provider = createAgentProvider({
+        agent,
+        providers: this.deps.providers,
+        config: this.deps.config,
+        breaker: this.deps.circuitBreaker,
+      })
 
-      const modelRef = parseModelRef(modelRefStr)
-      const resolved = resolveProviderAndModel(
-        this.deps.providers,
-        modelRef.provider,
-        modelRef.model,
+      const tools = schedulerToolDefinitions(
+        this.deps.toolRegistry.toDefinitions((tool) => agentAllowsTool(agent, tool)),
       )
-
-      if (!resolved) {
-        throw new Error('No AI providers configured')
-      }
-
-      const baseSystemPrompt = await buildSchedulerSystemPrompt(this.deps.workspacePath)
+      const baseSystemPrompt = await buildSystemPrompt(this.deps.workspacePath, agent.prompts, {
+        mode: 'scheduler',
+        agentId: job.agentId,
+        sessionLabel: job.name,
+        toolNames: tools.map((t) => t.name),
+      }, undefined, this.deps.workspaceWatcher?.loadPrompt)
       const systemPrompt = baseSystemPrompt
         ? `${SCHEDULER_RUNTIME_PREAMBLE}\n\n---\n\n${baseSystemPrompt}`
         : SCHEDULER_RUNTIME_PREAMBLE
       const messages: Message[] = [{ role: 'user', content: job.prompt }]
-      const tools = schedulerToolDefinitions(this.deps.toolRegistry.toDefinitions())
 
       // Append user message to session transcript
       await session.appendEvent({
@@ -340,33 +342,95 @@ export class SchedulerEngine {
         reportProgress: () => {},     // No WS client for scheduled runs
         config: this.deps.config,
         autoApprove: true,
+        approvalToolsDenied: agent.approval === 'deny',
+        scheduled: true,
       }
 
-      const runTurn = async (turnMessages: Message[]): Promise<{ text: string; toolCalls: number }> => {
+      // Closures below can't see the narrowed `let`
+      const jobSession = session
+      const runTurn = async (
+        turnMessages: Message[],
+      ): Promise<{ text: string; answerText: string; toolCalls: number; truncated: boolean }> => {
         let text = ''
+        // Text before tool calls is stored with them; the answer event holds the rest
+        let answerStart = 0
         let toolCalls = 0
+        let truncated = false
+        let error: string | null = null
 
         await runAgentTurn({
-          provider: resolved.provider,
-          model: resolved.model,
+          provider,
+          model: provider.activeRef,
           systemPrompt,
           messages: turnMessages,
           tools,
+          thinkingBudget: agent.thinking,
+          temperature: agent.temperature,
+          maxOutputTokens: agent.maxOutputTokens,
+          maxToolTurns: agent.maxToolTurns,
+          maxContinuations: this.deps.config.agents.maxContinuations,
+          isParallelSafe: (name) => this.deps.toolRegistry.isParallelSafe(name),
+          toolConcurrency: this.deps.config.tools.maxConcurrency,
+          onUsage: (usage) => jobUsage.add(provider.activeRef, usage),
+          responseSchema: job.responseSchema ?? undefined,
+          onRepair: () => {
+            text = ''
+            answerStart = 0
+          },
           onEvent: (event) => {
             if (event.type === 'delta') {
               text += event.text
             }
-            // Ignore final/error — we handle them after runAgentTurn resolves
+            if (event.type === 'provider_switched') {
+              console.warn(
+                `[scheduler] Job "${job.name}" switched from ${event.from} to ${event.to}: ${event.reason}`,
+              )
+            }
+            if (event.type === 'final') {
+              truncated = event.stopReason === 'max_tokens'
+            }
+            if (event.type === 'error') {
+              error = event.message
+            }
+          },
+          onToolTurn: async (turnText, calls) => {
+            await jobSession.appendEvent({
+              role: 'tool_use',
+              content: turnText,
+              timestamp: Date.now(),
+              runId,
+              toolCalls: calls,
+            }).catch(() => {})
+            answerStart = text.length
           },
-          onToolCall: async (name, input, _callId) => {
+          onToolCall: async (name, input, callId) => {
             toolCalls += 1
 
+            const recordResult = (content: string, extra: Partial<TranscriptEvent> = {}) => {
+              jobSession.appendEvent({
+                role: 'tool_result',
+                content,
+                timestamp: Date.now(),
+                runId,
+                toolName: name,
+                toolCallId: callId,
+                ...extra,
+              }).catch(() => {})
+            }
+            const failed = (message: string) => {
+              recordResult(message)
+              return message
+            }
+
             const tool = this.deps.toolRegistry.get(name)
-            if (!tool) return `Error: Unknown tool "${name}"`
+            if (!tool) return failed(`Error: Unknown tool "${name}"`)
+            if (!agentAllowsTool(agent, tool)) {
+              return failed(`Error: Tool "${name}" is not enabled for agent "${job.agentId}"`)
+            }
 
             const validated = tool.inputSchema.safeParse(input)
             if (!validated.success) {
-              return `Error: Invalid input for tool "${name}": ${validated.error.message}`
+              return failed(`Error: Invalid input for tool "${name}": ${validated.error.message}`)
             }
 
             try {
@@ -386,21 +450,38 @@ export class SchedulerEngine {
                 },
               }).catch(() => {})
 
-              return filtered
+              recordResult(
+                toolOutputForTranscript(name, filtered, this.deps.config.tools.transcript, result),
+                result.childSessionKey ? { childSessionKey: result.childSessionKey } : {},
+              )
+
+              // Let the model see screenshots it asked for
+              const images = toolImageBlocks(result.attachments)
+              return images.length > 0 ? { output: filtered, attachments: images } : filtered
             } catch (err) {
-              return `Error: ${err instanceof Error ? err.message : 'Tool execution failed'}`
+              return failed(`Error: ${err instanceof Error ? err.message : 'Tool execution failed'}`)
             }
           },
         })
 
-        return { text, toolCalls }
+        // A provider failure with no usable output fails the run instead of
+        // recording an empty success.
+        if (error && !text) {
+          throw new Error(error)
+        }
+
+        return { text, answerText: text.slice(answerStart), toolCalls, truncated }
       }
 
       let turnResult = await runTurn(messages)
       let assistantText = turnResult.text
+      // Like the runner, only the final answer is checked, not text written before tool calls
+      const checkAnswer = (): StructuredAnswer | null =>
+        job.responseSchema ? parseStructuredAnswer(turnResult.answerText, job.responseSchema) : null
+      let answer = checkAnswer()
 
       // If the model still asks for approval despite scheduler pre-approval, retry once with a hard nudge.
-      if (turnResult.toolCalls === 0 && looksLikeApprovalRequest(assistantText)) {
+      if (turnResult.toolCalls === 0 && !answer?.ok && looksLikeApprovalRequest(assistantText)) {
         const retryMessages: Message[] = [
           ...messages,
           { role: 'assistant', content: assistantText },
@@ -408,25 +489,36 @@ export class SchedulerEngine {
         ]
         turnResult = await runTurn(retryMessages)
         assistantText = turnResult.text
+        answer = checkAnswer()
       }
 
       // Persist assistant response to session transcript
-      if (assistantText) {
+      if (turnResult.answerText) {
         await session.appendEvent({
           role: 'assistant',
-          content: assistantText,
+          content: turnResult.answerText,
           timestamp: Date.now(),
           runId,
+          model: provider.activeRef,
+          ...(answer?.ok ? { result: answer.value } : {}),
+          ...(turnResult.truncated ? { stopReason: 'max_tokens' as const } : {}),
         })
       }
 
+      // The runner already asked for one repair; the transcript keeps the bad answer
+      if (answer && !answer.ok) {
+        throw new Error(`Answer does not match the response schema: ${answer.error}`)
+      }
+
       // Success — update records
-      const summary = assistantText || '(no output)'
+      const summary = turnResult.truncated
+        ? `${assistantText}\n\n[Output truncated at the token limit]`
+        : assistantText || '(no output)'
       const finishedAt = Date.now()
 
       this.deps.db.prepare(
-        'UPDATE job_runs SET status = ?, finished_at = ?, summary = ? WHERE id = ?',
-      ).run('success', finishedAt, summary, runId)
+        'UPDATE job_runs SET status = ?, finished_at = ?, summary = ?, result = ? WHERE id = ?',
+      ).run('success', finishedAt, summary, answer?.ok ? JSON.stringify(answer.value) : null, runId)
 
       this.deps.db.prepare(
         'UPDATE scheduled_jobs SET last_run_at = ?, last_run_status = ?, last_run_summary = ? WHERE id = ?',
@@ -441,10 +533,11 @@ export class SchedulerEngine {
           sessionKey,
           status: 'success',
           summary,
+          ...(answer?.ok ? { result: answer.value } : {}),
         })
       }
 
-      console.log(`[scheduler] Job "${job.name}" completed successfully`)
+      console.log(`[scheduler] Job "${job.name}" completed successfully (${formatUsage(jobUsage.total, jobUsage.costUsd)})`)
     } catch (err) {
       const errMsg = err instanceof Error ? err.message : 'Unknown error'
       const finishedAt = Date.now()
@@ -470,6 +563,10 @@ export class SchedulerEngine {
 
       console.warn(`[scheduler] Job "${job.name}" failed:`, errMsg)
     } finally {
+      const usageEvent = runUsage?.toEvent()
+      if (session && usageEvent) {
+        await session.appendEvent(usageEvent).catch(() => {})
+      }
       this.activeExecutions.delete(job.id)
       // Re-schedule for next occurrence
       this.scheduleJob(job)
@@ -483,6 +580,7 @@ export class SchedulerEngine {
     cronExpression: string
     prompt: string
     agentId?: string
+    responseSchema?: Record<string, unknown> | null
   }): ScheduledJob {
     if (!isValidCron(params.cronExpression)) {
       throw new Error(`Invalid cron expression: "${params.cronExpression}"`)
@@ -492,9 +590,18 @@ export class SchedulerEngine {
     const now = Date.now()
 
     this.deps.db.prepare(
-      `INSERT INTO scheduled_jobs (id, name, cron_expression, prompt, agent_id, enabled, created_at, updated_at)
-       VALUES (?, ?, ?, ?, ?, 1, ?, ?)`,
-    ).run(id, params.name, params.cronExpression, params.prompt, params.agentId ?? 'assistant', now, now)
+      `INSERT INTO scheduled_jobs (id, name, cron_expression, prompt, agent_id, enabled, created_at, updated_at, response_schema)
+       VALUES (?, ?, ?, ?, ?, 1, ?, ?, ?)`,
+    ).run(
+      id,
+      params.name,
+      params.cronExpression,
+      params.prompt,
+      params.agentId ?? 'assistant',
+      now,
+      now,
+      params.responseSchema ? JSON.stringify(params.responseSchema) : null,
+    )
 
     const job: ScheduledJob = {
       id,
@@ -508,6 +615,7 @@ export class SchedulerEngine {
       lastRunAt: null,
       lastRunStatus: null,
       lastRunSummary: null,
+      responseSchema: params.responseSchema ?? null,
     }
 
     if (this.running) {
@@ -539,6 +647,8 @@ export class SchedulerEngine {
     prompt?: string
     agentId?: string
     enabled?: boolean
+    /** null removes the schema. */
+    responseSchema?: Record<string, unknown> | null
   }): ScheduledJob | null {
     const existing = this.get(id)
     if (!existing) return null
@@ -553,13 +663,23 @@ export class SchedulerEngine {
       prompt: params.prompt ?? existing.prompt,
       agentId: params.agentId ?? existing.agentId,
       enabled: params.enabled ?? existing.enabled,
+      responseSchema: params.responseSchema !== undefined ? params.responseSchema : existing.responseSchema,
     }
 
     this.deps.db.prepare(
       `UPDATE scheduled_jobs
-       SET name = ?, cron_expression = ?, prompt = ?, agent_id = ?, enabled = ?, updated_at = ?
+       SET name = ?, cron_expression = ?, prompt = ?, agent_id = ?, enabled = ?, response_schema = ?, updated_at = ?
        WHERE id = ?`,
-    ).run(updated.name, updated.cronExpression, updated.prompt, updated.agentId, updated.enabled ? 1 : 0, Date.now(), id)
+    ).run(
+      updated.name,
+      updated.cronExpression,
+      updated.prompt,
+      updated.agentId,
+      updated.enabled ? 1 : 0,
+      updated.responseSchema ? JSON.stringify(updated.responseSchema) : null,
+      Date.now(),
+      id,
+    )
 
     const job = this.get(id)!
 
@@ -596,6 +716,54 @@ export class SchedulerEngine {
     return rows.map(rowToRun)
   }
 
+  /**
+   * Delete finished runs started before `olderThan` (Unix ms) or beyond the
+   * newest `maxPerJob` of their job. Returns how many were (or, with
+   * `dryRun`, would be) deleted. Their sessions are left to session retention.
+   */
+  pruneRuns(
+    limits: { olderThan?: number; maxPerJob?: number },
+    opts: { dryRun?: boolean } = {},
+  ): number {
+    const where: string[] = []
+    const params: number[] = []
+    if (limits.olderThan !== undefined) {
+      where.push('started_at < ?')
+      params.push(limits.olderThan)
+    }
+    if (limits.maxPerJob !== undefined) {
+      where.push(`id NOT IN (
+        SELECT id FROM (
+          SELECT id, ROW_NUMBER() OVER (PARTITION BY job_id ORDER BY started_at DESC) AS n
+          FROM job_runs WHERE status != 'running'
+        ) WHERE n <= ?
+      )`)
+      params.push(limits.maxPerJob)
+    }
+    if (where.length === 0) return 0
+
+    const filter = `status != 'running' AND (${where.join(' OR ')})`
+    if (opts.dryRun) {
+      const row = this.deps.db.prepare(`SELECT COUNT(*) AS n FROM job_runs WHERE ${filter}`).get(...params) as { n: number }
+      return row.n
+    }
+    return this.deps.db.prepare(`DELETE FROM job_runs WHERE ${filter}`).run(...params).changes
+  }
+
+  /** Keys of every session a recorded run wrote to. */
+  runSessionKeys(): Set<string> {
+    const rows = this.deps.db.prepare(
+      'SELECT DISTINCT session_key FROM job_runs WHERE session_key IS NOT NULL',
+    ).all() as Array<{ session_key: string }>
+    return new Set(rows.map((row) => row.session_key))
+  }
+
+  /** Unlink runs from sessions that were deleted, keeping the run records. */
+  detachSessions(sessionKeys: string[]): void {
+    const stmt = this.deps.db.prepare('UPDATE job_runs SET session_key = NULL WHERE session_key = ?')
+    for (const key of sessionKeys) stmt.run(key)
+  }
+
   /** Expose the timers map size for testing. */
   get activeTimerCount(): number {
     return this.timers.size
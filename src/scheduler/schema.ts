@@ -3,6 +3,8 @@
  * Uses the same memory.db database opened by openMemoryDb().
  */
 
+import type { ColumnMigration } from '../memory/schema.js'
+
 export const CREATE_SCHEDULED_JOBS_TABLE = `
   CREATE TABLE IF NOT EXISTS scheduled_jobs (
     id              TEXT PRIMARY KEY,
@@ -15,7 +17,8 @@ export const CREATE_SCHEDULED_JOBS_TABLE = `
     updated_at      INTEGER NOT NULL,
     last_run_at     INTEGER,
     last_run_status TEXT,
-    last_run_summary TEXT
+    last_run_summary TEXT,
+    response_schema TEXT
   )
 `
 
@@ -28,7 +31,8 @@ export const CREATE_JOB_RUNS_TABLE = `
     status      TEXT NOT NULL DEFAULT 'running',
     summary     TEXT,
     session_key TEXT,
-    error       TEXT
+    error       TEXT,
+    result      TEXT
   )
 `
 
@@ -41,3 +45,9 @@ export const SCHEDULER_MIGRATIONS: string[] = [
   CREATE_JOB_RUNS_TABLE,
   CREATE_JOB_RUNS_INDEX,
 ]
+
+/** Columns added after the tables were first created. */
+export const SCHEDULER_COLUMNS: ColumnMigration[] = [
+  { table: 'scheduled_jobs', column: 'response_schema', definition: 'TEXT' },
+  { table: 'job_runs', column: 'result', definition: 'TEXT' },
+]
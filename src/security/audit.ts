@@ -1,14 +1,18 @@
-import { appendFile } from 'node:fs/promises'
+import { appendFile, readFile, rename, writeFile } from 'node:fs/promises'
 import { filterSecrets } from './secrets-filter.js'
+import { shred } from './shred.js'
 
 export interface AuditEvent {
   ts: number // Unix ms
-  type: 'auth' | 'tool_exec' | 'tool_denied' | 'config_change' | 'scheduler_run'
+  type: 'auth' | 'tool_exec' | 'tool_denied' | 'config_change' | 'scheduler_run' | 'retention_purge'
   sessionKey?: string
   details: Record<string, unknown>
 }
 
 export class AuditLogger {
+  /** Appends and prunes run one at a time, so a prune never drops a new line. */
+  private pending: Promise<unknown> = Promise.resolve()
+
   constructor(
     private readonly logPath: string,
     private readonly enabled: boolean,
@@ -35,10 +39,54 @@ export class AuditLogger {
 
     const line = JSON.stringify(sanitized) + '\n'
 
-    try {
-      await appendFile(this.logPath, line, 'utf-8')
-    } catch {
-      // Best effort — don't crash the server if audit log write fails
-    }
+    await this.serialized(async () => {
+      try {
+        await appendFile(this.logPath, line, 'utf-8')
+      } catch {
+        // Best effort — don't crash the server if audit log write fails
+      }
+    })
+  }
+
+  /**
+   * Remove entries written before `olderThan` (Unix ms) and return how many
+   * there were. The kept entries go to a new file and the old one is
+   * shredded. With `dryRun`, only counts. Runs even when logging is
+   * disabled, so an old log can still be aged out.
+   */
+  async prune(olderThan: number, opts: { dryRun?: boolean } = {}): Promise<number> {
+    return this.serialized(async () => {
+      let text: string
+      try {
+        text = await readFile(this.logPath, 'utf-8')
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return 0
+        throw err
+      }
+
+      const lines = text.split('\n').filter((line) => line.trim())
+      const kept = lines.filter((line) => {
+        try {
+          return (JSON.parse(line) as AuditEvent).ts >= olderThan
+        } catch {
+          return true // Keep lines we can't read rather than guess their age
+        }
+      })
+
+      const removed = lines.length - kept.length
+      if (removed === 0 || opts.dryRun) return removed
+
+      const tmpPath = `${this.logPath}.tmp`
+      await writeFile(tmpPath, kept.map((line) => line + '\n').join(''), 'utf-8')
+      await shred(this.logPath)
+      await rename(tmpPath, this.logPath)
+      return removed
+    })
+  }
+
+  private serialized<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(work)
+    this.pending = result.catch(() => {})
+    return result
   }
 }
@@ -0,0 +1,45 @@
+import { lstat, open, readdir, rm, unlink } from 'node:fs/promises'
+import { join } from 'node:path'
+
+/** Bytes of zeros written per call when overwriting a file. */
+const SHRED_CHUNK_BYTES = 64 * 1024
+
+/**
+ * Overwrite a file with zeros, flush it, then unlink it; directories are
+ * shredded file by file and removed. A missing path is not an error.
+ *
+ * On copy-on-write or journaling filesystems and SSDs old blocks can survive
+ * an overwrite, so this narrows what is left behind rather than guaranteeing
+ * it is gone.
+ */
+export async function shred(path: string): Promise<void> {
+  let stats
+  try {
+    stats = await lstat(path)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return
+    throw err
+  }
+
+  if (stats.isDirectory()) {
+    for (const name of await readdir(path)) {
+      await shred(join(path, name))
+    }
+    await rm(path, { recursive: true, force: true })
+    return
+  }
+
+  if (stats.isFile() && stats.size > 0) {
+    const handle = await open(path, 'r+')
+    try {
+      const zeros = Buffer.alloc(Math.min(SHRED_CHUNK_BYTES, stats.size))
+      for (let offset = 0; offset < stats.size; offset += zeros.length) {
+        await handle.write(zeros, 0, Math.min(zeros.length, stats.size - offset), offset)
+      }
+      await handle.datasync()
+    } finally {
+      await handle.close()
+    }
+  }
+  await unlink(path)
+}
@@ -0,0 +1,78 @@
+import { randomUUID } from 'node:crypto'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { extname, join } from 'node:path'
+import type { ContentBlock } from '../agents/providers/types.js'
+import type { ToolAttachment } from '../tools/types.js'
+
+/** Metadata for a file stored alongside a session transcript. */
+export interface AttachmentRef {
+  id: string
+  name: string
+  mimeType: string
+  size: number // bytes
+}
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+/**
+ * All attachments of one message together. They travel base64-encoded,
+ * a third larger, and the request has to fit the gateway's WebSocket
+ * payload limit.
+ */
+export const MAX_ATTACHMENTS_TOTAL_BYTES = 50 * 1024 * 1024
+
+const IMAGE_MIME_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp'])
+const TEXT_MIME_TYPES = new Set(['application/json', 'application/xml', 'application/x-yaml'])
+
+/**
+ * Classify a MIME type into the block kind models accept, or null if the
+ * type is unsupported.
+ */
+export function attachmentKind(mimeType: string): 'image' | 'pdf' | 'text' | null {
+  if (IMAGE_MIME_TYPES.has(mimeType)) return 'image'
+  if (mimeType === 'application/pdf') return 'pdf'
+  if (mimeType.startsWith('text/') || TEXT_MIME_TYPES.has(mimeType)) return 'text'
+  return null
+}
+
+/**
+ * Write an attachment into the session's attachments directory.
+ * Files are stored under a generated id so user-supplied names never touch the path.
+ */
+export async function saveAttachment(
+  dir: string,
+  file: { name: string; mimeType: string; data: Buffer },
+): Promise<AttachmentRef> {
+  const id = `${randomUUID()}${extname(file.name).toLowerCase().replace(/[^.a-z0-9]/g, '')}`
+  await mkdir(dir, { recursive: true })
+  await writeFile(join(dir, id), file.data)
+  return { id, name: file.name, mimeType: file.mimeType, size: file.data.length }
+}
+
+/**
+ * Read a stored attachment's bytes.
+ */
+export async function readAttachment(dir: string, ref: AttachmentRef): Promise<Buffer> {
+  return readFile(join(dir, ref.id))
+}
+
+/**
+ * Build the provider-neutral content block for an attachment.
+ */
+export function attachmentBlock(ref: AttachmentRef, data: Buffer): ContentBlock {
+  const kind = attachmentKind(ref.mimeType)
+  return {
+    type: kind === 'image' ? 'image' : 'document',
+    mimeType: kind === 'text' ? 'text/plain' : ref.mimeType,
+    data: data.toString('base64'),
+    name: ref.name,
+  }
+}
+
+/**
+ * Image blocks for the images a tool returned, so the model can see them.
+ */
+export function toolImageBlocks(attachments: ToolAttachment[] | undefined): ContentBlock[] {
+  return (attachments ?? [])
+    .filter((a) => a.type === 'image' && attachmentKind(a.mimeType) === 'image')
+    .map((a) => ({ type: 'image', mimeType: a.mimeType, data: a.data }))
+}
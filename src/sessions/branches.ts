@@ -0,0 +1,122 @@
+import type { TranscriptEvent } from './transcript.js'
+
+/**
+ * Transcripts are trees. Every event names the event it follows
+ * (`parentId`), so editing an earlier message or regenerating a reply adds a
+ * branch beside the old one instead of overwriting it. Events written before
+ * branching existed carry no ids: each gets `line-<n>` and follows the line
+ * before it, which reads an old transcript as a single branch.
+ */
+export interface TranscriptTree<E extends EventLink = TranscriptEvent> {
+  /** Events in file order, each with `id` and `parentId` set. */
+  events: E[]
+  byId: Map<string, E>
+  /** Child ids in the order they were written; roots are under null. */
+  children: Map<string | null, string[]>
+  /** Position of each event in the file, later is newer. */
+  order: Map<string, number>
+}
+
+/**
+ * What the tree needs of an event. The store can build a tree from these
+ * alone, without reading event contents.
+ */
+export interface EventLink {
+  id?: string
+  parentId?: string | null
+}
+
+/** One point on a path where the conversation has more than one continuation. */
+export interface BranchFork {
+  /** Event the alternatives follow; null when they are first messages. */
+  parentId: string | null
+  /** Ids of the alternatives, oldest first. */
+  siblings: string[]
+  /** The alternative on the current path. */
+  selected: string
+}
+
+export function buildTree<E extends EventLink>(raw: E[]): TranscriptTree<E> {
+  const tree: TranscriptTree<E> = { events: [], byId: new Map(), children: new Map(), order: new Map() }
+  let previous: string | null = null
+
+  raw.forEach((event, i) => {
+    const id = event.id ?? `line-${i}`
+    const parentId = event.parentId !== undefined ? event.parentId : previous
+    const normalized = { ...event, id, parentId }
+
+    tree.events.push(normalized)
+    tree.byId.set(id, normalized)
+    tree.order.set(id, i)
+    const siblings = tree.children.get(parentId)
+    if (siblings) siblings.push(id)
+    else tree.children.set(parentId, [id])
+    previous = id
+  })
+  return tree
+}
+
+/**
+ * Whether every id is unique and every parent is null or an earlier event,
+ * i.e. the events form a tree. Imported bundles must pass this.
+ */
+export function isTree<E extends EventLink>(raw: E[]): boolean {
+  const seen = new Set<string>()
+  for (const event of buildTree(raw).events) {
+    if (seen.has(event.id!)) return false
+    if (event.parentId !== null && !seen.has(event.parentId!)) return false
+    seen.add(event.id!)
+  }
+  return true
+}
+
+/** The most recently written event at or below `id`; always a leaf. */
+export function latestLeaf<E extends EventLink>(tree: TranscriptTree<E>, id: string): string {
+  let latest = id
+  const stack = [id]
+  // A bad row could link back up the tree; never walk an event twice
+  const visited = new Set<string>()
+  while (stack.length > 0) {
+    const current = stack.pop()!
+    if (visited.has(current)) continue
+    visited.add(current)
+    if (tree.order.get(current)! > tree.order.get(latest)!) latest = current
+    stack.push(...(tree.children.get(current) ?? []))
+  }
+  return latest
+}
+
+/**
+ * The leaf of the selected path: the latest event under the selected
+ * branch, or the latest event overall when nothing was selected (or the
+ * selection no longer exists).
+ */
+export function selectedLeaf<E extends EventLink>(tree: TranscriptTree<E>, selectedBranch?: string): string | null {
+  if (selectedBranch && tree.byId.has(selectedBranch)) return latestLeaf(tree, selectedBranch)
+  return tree.events.at(-1)?.id ?? null
+}
+
+/** Events from the root down to `leafId`, inclusive; empty for null. */
+export function pathTo<E extends EventLink>(tree: TranscriptTree<E>, leafId: string | null): E[] {
+  const path: E[] = []
+  const visited = new Set<string>()
+  let current = leafId ? tree.byId.get(leafId) : undefined
+  while (current && !visited.has(current.id!)) {
+    visited.add(current.id!)
+    path.push(current)
+    current = current.parentId ? tree.byId.get(current.parentId) : undefined
+  }
+  return path.reverse()
+}
+
+/** The alternatives available along a path, in path order. */
+export function forksOnPath<E extends EventLink>(tree: TranscriptTree<E>, path: E[]): BranchFork[] {
+  const forks: BranchFork[] = []
+  for (const event of path) {
+    const siblings = tree.children.get(event.parentId ?? null) ?? []
+    if (siblings.length > 1) {
+      forks.push({ parentId: event.parentId ?? null, siblings, selected: event.id! })
+    }
+  }
+  return forks
+}
@@ -0,0 +1,126 @@
+import type { ModelProvider } from '../agents/providers/types.js'
+import { estimateTokens } from '../agents/context-window.js'
+import type { Session } from './session.js'
+import type { TranscriptEvent } from './transcript.js'
+
+export interface CompactionOptions {
+  /** User/assistant messages kept verbatim after the summary. */
+  keepRecentMessages: number
+  /** Upper bound on the transcript text sent to the summarizer. */
+  maxInputTokens?: number
+}
+
+export interface CompactionResult {
+  summary: string
+  /** User/assistant messages folded into the summary by this compaction. */
+  summarizedMessages: number
+  keptMessages: number
+}
+
+const SUMMARIZER_PROMPT = `You compact conversation history for an AI assistant.
+Summarize the conversation below so the assistant can continue it without the original messages.
+Keep: the user's goals and preferences, decisions made, facts learned, names, paths, commands and their outcomes, and any open tasks or unanswered questions.
+Drop: pleasantries, repetition and intermediate reasoning.
+Write concise prose or bullet points in the third person. Do not add anything that was not in the conversation.`
+
+/** Tool output beyond this is cut when rendering the transcript for the summarizer. */
+const MAX_TOOL_RESULT_CHARS = 2_000
+
+function renderEvent(event: TranscriptEvent): string {
+  const files = event.attachments?.length
+    ? `\n[attachments: ${event.attachments.map((a) => a.name).join(', ')}]`
+    : ''
+  if (event.role === 'tool_result') {
+    const content = event.content.length > MAX_TOOL_RESULT_CHARS
+      ? `${event.content.slice(0, MAX_TOOL_RESULT_CHARS)}\n[output truncated]`
+      : event.content
+    return `[tool result: ${event.toolName ?? 'unknown'}]\n${content}${files}`
+  }
+  if (event.role === 'tool_use') {
+    const calls = (event.toolCalls ?? []).map((c) => `${c.name}(${JSON.stringify(c.input)})`).join(', ')
+    const text = event.content ? `${event.content}\n` : ''
+    return `[assistant]\n${text}[tool calls: ${calls}]`
+  }
+  return `[${event.role}]\n${event.content}${files}`
+}
+
+/**
+ * Summarize all but the most recent turns of a session and append the
+ * summary as a `summary` transcript event. The kept part always starts at
+ * a user message so the replayed conversation stays well-formed.
+ * Returns null when there is not enough history to compact.
+ */
+export async function compactSession(
+  session: Session,
+  provider: ModelProvider,
+  model: string,
+  options: CompactionOptions,
+): Promise<CompactionResult | null> {
+  const events = await session.readEvents()
+
+  let previous: TranscriptEvent | null = null
+  for (const event of events) {
+    if (event.role === 'summary') previous = event
+  }
+  const start = previous?.summarizedEvents ?? 0
+
+  // Indices (into the full file) of the messages still replayed to the model
+  const messageIdx: number[] = []
+  for (let i = start; i < events.length; i++) {
+    const role = events[i]!.role
+    if (role === 'user' || role === 'assistant') messageIdx.push(i)
+  }
+  if (messageIdx.length <= options.keepRecentMessages) return null
+
+  let cut = messageIdx.length - options.keepRecentMessages
+  while (cut > 0 && events[messageIdx[cut]!]!.role !== 'user') cut--
+  if (cut === 0) return null
+  const splitIdx = messageIdx[cut]!
+
+  let transcript = events
+    .slice(start, splitIdx)
+    .filter((e) => e.role !== 'summary' && e.role !== 'usage')
+    .map(renderEvent)
+    .join('\n\n')
+  if (options.maxInputTokens && estimateTokens(transcript) > options.maxInputTokens) {
+    transcript = `[earlier messages omitted]\n\n${transcript.slice(-options.maxInputTokens * 4)}`
+  }
+  if (previous) {
+    transcript = `Summary of the conversation before this point:\n${previous.content}\n\n${transcript}`
+  }
+
+  let summary = ''
+  for await (const event of provider.chat({
+    model,
+    systemPrompt: SUMMARIZER_PROMPT,
+    messages: [{ role: 'user', content: transcript }],
+    tools: [],
+  })) {
+    if (event.type === 'delta') summary += event.text
+    if (event.type === 'error') throw new Error(`Compaction failed: ${event.message}`)
+  }
+  summary = summary.trim()
+  if (!summary) {
+    throw new Error('Compaction failed: the model returned an empty summary')
+  }
+
+  await session.appendEvent({
+    role: 'summary',
+    content: summary,
+    timestamp: Date.now(),
+    model,
+    summarizedEvents: splitIdx,
+  })
+
+  return {
+    summary,
+    summarizedMessages: cut,
+    keptMessages: messageIdx.length - cut,
+  }
+}
+
+/** Append a compaction summary to the system prompt so the model sees it as background. */
+export function withConversationSummary(systemPrompt: string, summary: string | null): string {
+  if (!summary) return systemPrompt
+  return `${systemPrompt}\n\n---\n\n# Earlier Conversation (summarized)\n\n${summary}`
+}
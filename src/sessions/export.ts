@@ -0,0 +1,278 @@
+import type { Session, SessionMeta } from './session.js'
+import type { TranscriptEvent } from './transcript.js'
+import { attachmentKind, type AttachmentRef } from './attachments.js'
+import { buildTree, pathTo, selectedLeaf } from './branches.js'
+
+/** An attachment's metadata with its bytes, base64-encoded. */
+export interface BundledAttachment extends AttachmentRef {
+  data: string
+}
+
+/**
+ * A whole session in one JSON document: meta, every event of every branch
+ * in file order, and the attachments those events reference. Importing a
+ * bundle restores the session exactly, under a new key.
+ */
+export interface SessionBundle {
+  format: 'jarvis-session'
+  version: 1
+  exportedAt: number // Unix ms
+  meta: SessionMeta
+  events: TranscriptEvent[]
+  attachments: BundledAttachment[]
+}
+
+export type ExportFormat = 'markdown' | 'html' | 'json'
+
+/**
+ * Collect a session into a bundle. Attachments whose files are gone are
+ * left out; their refs stay on the events.
+ */
+export async function exportBundle(session: Session): Promise<SessionBundle> {
+  const { events } = await session.readTree()
+
+  const refs = new Map<string, AttachmentRef>()
+  for (const event of events) {
+    for (const ref of event.attachments ?? []) refs.set(ref.id, ref)
+  }
+
+  const attachments: BundledAttachment[] = []
+  for (const ref of refs.values()) {
+    try {
+      const data = await session.readAttachment(ref)
+      attachments.push({ ...ref, data: data.toString('base64') })
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    }
+  }
+
+  return {
+    format: 'jarvis-session',
+    version: 1,
+    exportedAt: Date.now(),
+    meta: { ...session.meta },
+    events,
+    attachments,
+  }
+}
+
+/** File name for an export: the session label made path-safe, or its short key. */
+export function exportFilename(meta: SessionMeta, format: ExportFormat): string {
+  const base = (meta.label ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || `session-${meta.key.slice(0, 8)}`
+  const ext = format === 'markdown' ? 'md' : format === 'html' ? 'html' : 'jarvis.json'
+  return `${base}.${ext}`
+}
+
+/**
+ * Render the selected branch of a bundle as Markdown. Images are inlined as
+ * data URIs so the file stands alone; other attachments are listed by name.
+ */
+export function renderMarkdown(bundle: SessionBundle): string {
+  const { meta, events, totals } = readable(bundle)
+  const images = imagesById(bundle)
+  const out: string[] = [`# ${titleOf(meta)}`, '', ...headerLines(bundle).map((line) => `- ${line}`), '']
+
+  const files = (event: TranscriptEvent) => (event.attachments ?? []).map((ref) => {
+    const image = images.get(ref.id)
+    return image
+      ? `![${ref.name}](data:${image.mimeType};base64,${image.data})`
+      : `*Attachment: ${ref.name} (${ref.mimeType}, ${formatBytes(ref.size)})*`
+  })
+
+  for (const event of events) {
+    if (event.role === 'usage') continue
+    if (event.role === 'summary') {
+      out.push(...quote(`**Summary of earlier messages:** ${event.content}`), '')
+      continue
+    }
+
+    if (event.role === 'tool_result') {
+      const approval = event.approval ? ` (${event.approval} by user)` : ''
+      out.push(`#### Result: ${event.toolName ?? 'tool'}${approval}`, '', fence(event.content), '')
+      if (event.childSessionKey) out.push(`*Sub-agent transcript: session \`${event.childSessionKey}\`*`, '')
+      const attached = files(event)
+      if (attached.length > 0) out.push(...attached, '')
+      continue
+    }
+
+    out.push(`### ${speaker(event, meta)} · ${formatTime(event.timestamp)}`, '')
+    if (event.thinking) {
+      out.push('<details><summary>Thinking</summary>', '', event.thinking, '', '</details>', '')
+    }
+    if (event.content) out.push(event.content, '')
+    for (const call of event.toolCalls ?? []) {
+      out.push(`**Tool call:** \`${call.name}\``, '', fence(JSON.stringify(call.input, null, 2), 'json'), '')
+    }
+    const attached = files(event)
+    if (attached.length > 0) out.push(...attached, '')
+  }
+
+  if (totals) out.push('---', '', `*${totals}*`, '')
+  return out.join('\n')
+}
+
+/**
+ * Render the selected branch of a bundle as a single HTML page with its
+ * styles and images inline, so it can be attached to a bug report as is.
+ */
+export function renderHtml(bundle: SessionBundle): string {
+  const { meta, events, totals } = readable(bundle)
+  const images = imagesById(bundle)
+  const body: string[] = []
+
+  const files = (event: TranscriptEvent) => (event.attachments ?? []).map((ref) => {
+    const image = images.get(ref.id)
+    return image
+      ? `<img src="data:${escapeHtml(image.mimeType)};base64,${image.data}" alt="${escapeHtml(ref.name)}">`
+      : `<p class="file">Attachment: ${escapeHtml(ref.name)} (${escapeHtml(ref.mimeType)}, ${formatBytes(ref.size)})</p>`
+  }).join('\n')
+
+  for (const event of events) {
+    if (event.role === 'usage') continue
+    if (event.role === 'summary') {
+      body.push(`<aside class="summary"><strong>Summary of earlier messages</strong><div class="text">${escapeHtml(event.content)}</div></aside>`)
+      continue
+    }
+
+    if (event.role === 'tool_result') {
+      const approval = event.approval
+        ? ` <span class="badge ${event.approval}">${event.approval} by user</span>`
+        : ''
+      const child = event.childSessionKey
+        ? `<p class="file">Sub-agent transcript: session <code>${escapeHtml(event.childSessionKey)}</code></p>`
+        : ''
+      body.push(
+        `<section class="event tool-result"><header>Result: ${escapeHtml(event.toolName ?? 'tool')}${approval}</header>` +
+        `<pre>${escapeHtml(event.content)}</pre>${child}${files(event)}</section>`,
+      )
+      continue
+    }
+
+    const thinking = event.thinking
+      ? `<details><summary>Thinking</summary><div class="text">${escapeHtml(event.thinking)}</div></details>`
+      : ''
+    const content = event.content ? `<div class="text">${escapeHtml(event.content)}</div>` : ''
+    const calls = (event.toolCalls ?? []).map((call) =>
+      `<div class="tool-call">Tool call: <code>${escapeHtml(call.name)}</code><pre>${escapeHtml(JSON.stringify(call.input, null, 2))}</pre></div>`,
+    ).join('')
+    body.push(
+      `<section class="event ${event.role === 'user' ? 'user' : 'assistant'}">` +
+      `<header>${escapeHtml(speaker(event, meta))} · ${escapeHtml(formatTime(event.timestamp))}</header>` +
+      `${thinking}${content}${calls}${files(event)}</section>`,
+    )
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(titleOf(meta))}</title>
+<style>
+body { font: 14px/1.5 system-ui, sans-serif; max-width: 860px; margin: 24px auto; padding: 0 16px; color: #222; }
+.meta { color: #666; font-size: 12px; margin: 0 0 16px; padding: 0; list-style: none; }
+.event, .summary { border: 1px solid #ddd; border-radius: 8px; padding: 10px 14px; margin: 10px 0; }
+.event.user { background: #eef4ff; }
+.event.tool-result { background: #f7f7f7; font-size: 13px; }
+.summary { background: #fffbe6; }
+header { font-size: 12px; font-weight: 600; color: #555; margin-bottom: 6px; }
+.text { white-space: pre-wrap; }
+pre { background: #f0f0f0; padding: 8px; border-radius: 6px; overflow-x: auto; white-space: pre-wrap; }
+.tool-call { margin-top: 8px; }
+.badge { font-weight: normal; padding: 1px 6px; border-radius: 4px; }
+.badge.approved { background: #dff5e1; color: #1d6b2a; }
+.badge.denied { background: #fde2e2; color: #9b1c1c; }
+img { max-width: 100%; border: 1px solid #ddd; border-radius: 4px; margin-top: 8px; }
+.file, footer { color: #666; font-size: 12px; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(titleOf(meta))}</h1>
+<ul class="meta">${headerLines(bundle).map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>
+${body.join('\n')}
+${totals ? `<footer>${escapeHtml(totals)}</footer>` : ''}
+</body>
+</html>
+`
+}
+
+/** The selected branch of a bundle, plus a token and cost total for its runs. */
+function readable(bundle: SessionBundle): { meta: SessionMeta; events: TranscriptEvent[]; totals: string | null } {
+  const tree = buildTree(bundle.events)
+  const events = pathTo(tree, selectedLeaf(tree, bundle.meta.selectedBranch))
+
+  let inputTokens = 0
+  let outputTokens = 0
+  let costUsd = 0
+  let runs = 0
+  for (const event of events) {
+    if (event.role !== 'usage' || !event.usage) continue
+    runs++
+    inputTokens += event.usage.inputTokens + (event.usage.cacheReadTokens ?? 0) + (event.usage.cacheWriteTokens ?? 0)
+    outputTokens += event.usage.outputTokens
+    costUsd += event.costUsd ?? 0
+  }
+  const totals = runs > 0
+    ? `${runs} run${runs === 1 ? '' : 's'}: ${inputTokens} input tokens, ${outputTokens} output tokens` +
+      (costUsd > 0 ? `, $${costUsd.toFixed(4)}` : '')
+    : null
+
+  return { meta: bundle.meta, events, totals }
+}
+
+function imagesById(bundle: SessionBundle): Map<string, BundledAttachment> {
+  return new Map(bundle.attachments
+    .filter((a) => attachmentKind(a.mimeType) === 'image')
+    .map((a) => [a.id, a]))
+}
+
+function titleOf(meta: SessionMeta): string {
+  return meta.label?.trim() || `Session ${meta.key.slice(0, 8)}`
+}
+
+function headerLines(bundle: SessionBundle): string[] {
+  return [
+    `Agent: ${bundle.meta.agentId}`,
+    `Session: ${bundle.meta.key}`,
+    `Created: ${formatTime(bundle.meta.createdAt)}`,
+    `Exported: ${formatTime(bundle.exportedAt)}`,
+  ]
+}
+
+function speaker(event: TranscriptEvent, meta: SessionMeta): string {
+  if (event.role === 'user') return 'User'
+  const name = `Assistant (${meta.agentId})`
+  return event.model ? `${name} · ${event.model}` : name
+}
+
+function formatTime(ts: number): string {
+  return new Date(ts).toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC')
+}
+
+function formatBytes(size: number): string {
+  if (size < 1024) return `${size} B`
+  if (size < 1024 * 1024) return `${(size / 1024).toFixed(1)} KB`
+  return `${(size / (1024 * 1024)).toFixed(1)} MB`
+}
+
+/** A fenced code block whose fence is longer than any backtick run inside it. */
+function fence(text: string, lang: string = ''): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length))
+  const marks = '`'.repeat(longest + 1)
+  return `${marks}${lang}\n${text}\n${marks}`
+}
+
+function quote(text: string): string[] {
+  return text.split('\n').map((line) => `> ${line}`)
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -1,109 +1,405 @@
 import { randomUUID } from 'node:crypto'
-import { readFile, writeFile, readdir } from 'node:fs/promises'
+import { cp, mkdir, readFile, readdir, rename, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
 import { Session, type SessionMeta } from './session.js'
+import { TranscriptStore, type SessionListing } from './store.js'
+import { readEvents } from './transcript.js'
+import { buildTree } from './branches.js'
+import type { SessionBundle } from './export.js'
+import type { SessionSummary } from './summaries.js'
+import type { Project } from './projects.js'
+import { shred } from '../security/shred.js'
+
+export interface CreateSessionOptions {
+  parent?: { sessionKey: string; runId: string }
+  job?: { jobId: string; runId: string }
+  projectId?: string
+}
+
+/** What a project is created from; the rest is filled in. */
+export type ProjectFields = Pick<Project, 'name' | 'rootDir' | 'promptDir' | 'defaultAgentId'>
 
 export class SessionManager {
-  constructor(private readonly sessionsDir: string) {}
+  /**
+   * One Session per key, so a run's appends and other requests' reads of the
+   * same session go through one queue and agree on where the path ends.
+   */
+  private readonly open = new Map<string, Session>()
+  /** sessions.db, opened on first use once any JSONL sessions are migrated. */
+  private store: Promise<TranscriptStore> | null = null
+
+  constructor(readonly sessionsDir: string) {}
 
   /**
-   * Create a new session. Writes the meta file immediately.
+   * Create a new session. Writes its meta immediately.
+   * `parent` links a sub-agent session to the run that delegated to it, and
+   * puts it in the parent's project; `job` marks a session created by a
+   * scheduled job run; `projectId` puts the session in a project.
    */
-  async create(agentId?: string): Promise<Session> {
-    const key = randomUUID()
+  async create(agentId?: string, opts: CreateSessionOptions = {}): Promise<Session> {
+    const { parent, job } = opts
+    const store = await this.db()
     const now = Date.now()
+    const projectId = opts.projectId ?? (parent ? store.getMeta(parent.sessionKey)?.projectId : undefined)
 
     const meta: SessionMeta = {
-      key,
+      key: randomUUID(),
       agentId: agentId ?? 'assistant',
       createdAt: now,
       updatedAt: now,
+      ...(parent ? { parentSessionKey: parent.sessionKey, parentRunId: parent.runId } : {}),
+      ...(job ? { jobId: job.jobId, jobRunId: job.runId } : {}),
+      ...(projectId ? { projectId } : {}),
     }
 
-    const metaPath = join(this.sessionsDir, `${key}.meta.json`)
-    await writeFile(metaPath, JSON.stringify(meta, null, 2), 'utf-8')
-
-    return new Session(meta, this.sessionsDir)
+    store.saveMeta(meta)
+    return this.opened(meta, store)
   }
 
   /**
    * Get a session by key. Returns null if not found.
    */
   async get(key: string): Promise<Session | null> {
-    const metaPath = join(this.sessionsDir, `${key}.meta.json`)
+    const cached = this.open.get(key)
+    if (cached) return cached
 
+    const store = await this.db()
+    const meta = store.getMeta(key)
+    if (!meta) return null
+    // Another request may have opened it while the store was opening
+    return this.open.get(key) ?? this.opened(meta, store)
+  }
+
+  /**
+   * List all sessions, sorted by createdAt descending (newest first), with
+   * message counts and the latest message. No transcript is read.
+   */
+  async list(): Promise<SessionListing[]> {
+    return (await this.db()).list()
+  }
+
+  /**
+   * Update the updatedAt timestamp on a session's meta.
+   */
+  async touch(key: string): Promise<void> {
     try {
-      const raw = await readFile(metaPath, 'utf-8')
-      const meta = JSON.parse(raw) as SessionMeta
-      return new Session(meta, this.sessionsDir)
-    } catch (err) {
-      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
-        return null
-      }
-      throw err
+      const session = await this.get(key)
+      if (!session) return
+      session.meta.updatedAt = Date.now()
+      const store = await this.db()
+      store.saveMeta(session.meta)
+    } catch {
+      // Best effort — a missed timestamp only affects sorting
     }
   }
 
   /**
-   * List all sessions, sorted by createdAt descending (newest first).
+   * Set a human-friendly session label.
    */
-  async list(): Promise<SessionMeta[]> {
+  async setLabel(key: string, label: string): Promise<void> {
+    const trimmed = label.trim()
+    if (!trimmed) return
+
     try {
-      const files = await readdir(this.sessionsDir)
-      const metaFiles = files.filter((f) => f.endsWith('.meta.json'))
-
-      const sessions: SessionMeta[] = []
-      for (const file of metaFiles) {
-        try {
-          const raw = await readFile(join(this.sessionsDir, file), 'utf-8')
-          sessions.push(JSON.parse(raw) as SessionMeta)
-        } catch {
-          // Skip corrupted meta files
-        }
-      }
+      const session = await this.get(key)
+      if (!session) return
+      Object.assign(session.meta, { label: trimmed.slice(0, 120), updatedAt: Date.now() })
+      const store = await this.db()
+      store.saveMeta(session.meta)
+    } catch {
+      // Best effort — the label is derived again on the next listing
+    }
+  }
+
+  /**
+   * Change a session's label, archived or pinned flag. `false` clears a flag.
+   * A label given here is the user's own and outlasts generated titles.
+   * Returns the updated meta, or null if the session doesn't exist.
+   */
+  async update(
+    key: string,
+    patch: { label?: string; archived?: boolean; pinned?: boolean },
+  ): Promise<SessionMeta | null> {
+    const session = await this.get(key)
+    if (!session) return null
+
+    const meta = session.meta
+    if (patch.label !== undefined) {
+      meta.label = patch.label.trim().slice(0, 120)
+      meta.customLabel = true
+    }
+    for (const flag of ['archived', 'pinned'] as const) {
+      if (patch[flag] === true) meta[flag] = true
+      if (patch[flag] === false) delete meta[flag]
+    }
+    meta.updatedAt = Date.now()
+    const store = await this.db()
+    store.saveMeta(meta)
+    return meta
+  }
+
+  /**
+   * Store a generated title and summary. The title becomes the label unless
+   * the user has named the session. Returns the updated meta, or null if
+   * the session doesn't exist.
+   */
+  async setSummary(key: string, result: SessionSummary): Promise<SessionMeta | null> {
+    const session = await this.get(key)
+    if (!session) return null
+
+    const meta = session.meta
+    if (!meta.customLabel) meta.label = result.title
+    meta.summary = result.summary
+    meta.summaryMessageCount = result.messageCount
+    const store = await this.db()
+    store.saveMeta(meta)
+    return meta
+  }
+
+  /**
+   * Copy a session's transcript (every branch), attachments and selection
+   * into a new session. Returns null if the source doesn't exist.
+   */
+  async duplicate(key: string): Promise<Session | null> {
+    const source = await this.get(key)
+    if (!source) return null
 
-      return sessions.sort((a, b) => b.createdAt - a.createdAt)
+    // Waits for pending appends, so the copy has them
+    const { events } = await source.readTree()
+    const now = Date.now()
+    const meta: SessionMeta = {
+      key: randomUUID(),
+      agentId: source.meta.agentId,
+      createdAt: now,
+      updatedAt: now,
+      ...(source.meta.label ? { label: `${source.meta.label} (copy)`.slice(0, 120) } : {}),
+      ...(source.meta.customLabel ? { customLabel: true } : {}),
+      ...(source.meta.summary
+        ? { summary: source.meta.summary, summaryMessageCount: source.meta.summaryMessageCount }
+        : {}),
+      ...(source.meta.selectedBranch ? { selectedBranch: source.meta.selectedBranch } : {}),
+      ...(source.meta.projectId ? { projectId: source.meta.projectId } : {}),
+    }
+
+    const store = await this.db()
+    store.insertSession(meta, events)
+    const copy = this.opened(meta, store)
+    try {
+      await cp(source.attachmentsDir, copy.attachmentsDir, { recursive: true })
     } catch (err) {
-      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
-        return []
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    }
+    return copy
+  }
+
+  /**
+   * Restore an exported bundle as a new session: its events (every branch),
+   * attachments, label, flags and selection. A sub-agent session comes back
+   * as a top-level one, since its parent isn't part of the bundle, and a
+   * session from a project outside any, since projects are local.
+   */
+  async import(bundle: SessionBundle): Promise<Session> {
+    const { label, customLabel, summary, summaryMessageCount, pinned, archived, selectedBranch, createdAt } = bundle.meta
+    const meta: SessionMeta = {
+      key: randomUUID(),
+      agentId: bundle.meta.agentId,
+      createdAt,
+      updatedAt: Date.now(),
+      ...(label ? { label } : {}),
+      ...(customLabel ? { customLabel } : {}),
+      ...(summary ? { summary, summaryMessageCount } : {}),
+      ...(pinned ? { pinned } : {}),
+      ...(archived ? { archived } : {}),
+      ...(selectedBranch ? { selectedBranch } : {}),
+    }
+
+    const store = await this.db()
+    const session = new Session(meta, store, this.sessionsDir)
+    if (bundle.attachments.length > 0) {
+      await mkdir(session.attachmentsDir, { recursive: true })
+      for (const { data, ...ref } of bundle.attachments) {
+        await writeFile(join(session.attachmentsDir, ref.id), Buffer.from(data, 'base64'))
       }
-      throw err
     }
+
+    // Bundles of transcripts that predate event ids get them here
+    store.insertSession(meta, buildTree(bundle.events).events)
+    this.open.set(meta.key, session)
+    return session
   }
 
   /**
-   * Update the updatedAt timestamp on a session's meta file.
+   * Delete a session's transcript, attachments, memory text, meta and
+   * migration backup, and the sub-agent sessions it delegated to. Files are overwritten before
+   * removal and the store zeroes deleted rows. Returns the deleted keys, or
+   * null if the session doesn't exist.
    */
-  async touch(key: string): Promise<void> {
-    const metaPath = join(this.sessionsDir, `${key}.meta.json`)
+  async delete(key: string): Promise<string[] | null> {
+    const session = await this.get(key)
+    if (!session) return null
 
-    try {
-      const raw = await readFile(metaPath, 'utf-8')
-      const meta = JSON.parse(raw) as SessionMeta
-      meta.updatedAt = Date.now()
-      await writeFile(metaPath, JSON.stringify(meta, null, 2), 'utf-8')
-    } catch {
-      // Best effort — don't throw if meta file is missing
+    const store = await this.db()
+    const deleted = [key]
+    for (const child of store.childKeys(key)) {
+      deleted.push(...(await this.delete(child)) ?? [])
     }
+
+    await shred(join(this.sessionsDir, `${key}.memory.txt`))
+    await shred(session.attachmentsDir)
+    for (const name of [`${key}.meta.json`, `${key}.jsonl`]) {
+      await shred(join(this.sessionsDir, MIGRATED_DIR, name))
+    }
+    // The store row last, so a delete that failed halfway can be retried
+    store.delete(key)
+    this.open.delete(key)
+    return deleted
+  }
+
+  /** Create a project. */
+  async createProject(fields: ProjectFields): Promise<Project> {
+    const store = await this.db()
+    const now = Date.now()
+    const project: Project = {
+      id: randomUUID(),
+      name: fields.name,
+      rootDir: fields.rootDir,
+      ...(fields.promptDir ? { promptDir: fields.promptDir } : {}),
+      ...(fields.defaultAgentId ? { defaultAgentId: fields.defaultAgentId } : {}),
+      createdAt: now,
+      updatedAt: now,
+    }
+    store.saveProject(project)
+    return project
+  }
+
+  async getProject(id: string): Promise<Project | null> {
+    return (await this.db()).getProject(id)
+  }
+
+  /** Every project, oldest first. */
+  async listProjects(): Promise<Project[]> {
+    return (await this.db()).listProjects()
   }
 
   /**
-   * Set a human-friendly session label.
+   * Change a project's fields; `null` removes an optional one. Returns the
+   * updated project, or null if it doesn't exist.
    */
-  async setLabel(key: string, label: string): Promise<void> {
-    const trimmed = label.trim()
-    if (!trimmed) return
+  async updateProject(
+    id: string,
+    patch: Partial<Pick<Project, 'name' | 'rootDir'>> & { promptDir?: string | null; defaultAgentId?: string | null },
+  ): Promise<Project | null> {
+    const store = await this.db()
+    const project = store.getProject(id)
+    if (!project) return null
 
-    const metaPath = join(this.sessionsDir, `${key}.meta.json`)
+    if (patch.name !== undefined) project.name = patch.name
+    if (patch.rootDir !== undefined) project.rootDir = patch.rootDir
+    for (const field of ['promptDir', 'defaultAgentId'] as const) {
+      const value = patch[field]
+      if (value) project[field] = value
+      if (value === null) delete project[field]
+    }
+    project.updatedAt = Date.now()
+    store.saveProject(project)
+    return project
+  }
+
+  /**
+   * Delete a project. Its sessions are kept and move out of it. Returns the
+   * keys of the moved sessions, or null if the project doesn't exist.
+   */
+  async deleteProject(id: string): Promise<string[] | null> {
+    const store = await this.db()
+    if (!store.getProject(id)) return null
+
+    const moved: string[] = []
+    for (const listing of store.list()) {
+      if (listing.projectId !== id) continue
+      const session = await this.get(listing.key)
+      if (!session) continue
+      delete session.meta.projectId
+      store.saveMeta(session.meta)
+      moved.push(listing.key)
+    }
+    store.deleteProject(id)
+    return moved
+  }
+
+  /** Close sessions.db. */
+  async close(): Promise<void> {
+    const store = this.store
+    this.store = null
+    this.open.clear()
+    if (store) (await store).close()
+  }
+
+  private opened(meta: SessionMeta, store: TranscriptStore): Session {
+    const session = new Session(meta, store, this.sessionsDir)
+    this.open.set(meta.key, session)
+    return session
+  }
+
+  private db(): Promise<TranscriptStore> {
+    this.store ??= (async () => {
+      await mkdir(this.sessionsDir, { recursive: true })
+      const store = TranscriptStore.open(join(this.sessionsDir, 'sessions.db'))
+      await migrateJsonlSessions(this.sessionsDir, store)
+      return store
+    })().catch((err) => {
+      this.store = null
+      throw err
+    })
+    return this.store
+  }
+}
+
+/** Where migrated JSONL sessions are kept as a backup until the session is deleted. */
+const MIGRATED_DIR = 'migrated'
 
+/**
+ * Move sessions stored the old way (`<key>.meta.json` with a `<key>.jsonl`
+ * transcript) into the store. Runs whenever the store opens, but only finds
+ * work once: once the store holds a session's meta and exactly the events
+ * of its transcript, the files are moved to `migrated/` as a backup (shredded
+ * when the session is deleted or expires). A session that fails to migrate
+ * is left in place and retried on the next start.
+ */
+async function migrateJsonlSessions(sessionsDir: string, store: TranscriptStore): Promise<number> {
+  const metaFiles = (await readdir(sessionsDir)).filter((f) => f.endsWith('.meta.json'))
+  if (metaFiles.length === 0) return 0
+
+  const migratedDir = join(sessionsDir, MIGRATED_DIR)
+  await mkdir(migratedDir, { recursive: true })
+
+  let migrated = 0
+  for (const file of metaFiles) {
+    const key = file.slice(0, -'.meta.json'.length)
+    const transcript = `${key}.jsonl`
     try {
-      const raw = await readFile(metaPath, 'utf-8')
-      const meta = JSON.parse(raw) as SessionMeta
-      meta.label = trimmed.slice(0, 120)
-      meta.updatedAt = Date.now()
-      await writeFile(metaPath, JSON.stringify(meta, null, 2), 'utf-8')
-    } catch {
-      // Best effort — don't throw if meta file is missing
+      // Lines written before branching get their implicit ids made explicit
+      const { events } = buildTree(await readEvents(join(sessionsDir, transcript)))
+      if (!store.getMeta(key)) {
+        const meta = JSON.parse(await readFile(join(sessionsDir, file), 'utf-8')) as SessionMeta
+        store.insertSession({ ...meta, key }, events)
+        migrated++
+      }
+      const stored = store.eventsById(key, events.map((e) => e.id!))
+      if (stored.length !== events.length || stored.some((e, i) => JSON.stringify(e) !== JSON.stringify(events[i]))) {
+        throw new Error('sessions.db does not hold the same events')
+      }
+      for (const name of [file, transcript]) {
+        await rename(join(sessionsDir, name), join(migratedDir, name)).catch((err) => {
+          if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+        })
+      }
+    } catch (err) {
+      console.warn(`[sessions] Could not migrate ${file}:`, (err as Error).message)
     }
   }
+
+  if (migrated > 0) {
+    console.log(`  ✓ Migrated ${migrated} JSONL session(s) to sessions.db`)
+  }
+  return migrated
 }
@@ -0,0 +1,34 @@
+import { resolve } from 'node:path'
+
+/**
+ * A group of sessions that share a working directory, optional prompt
+ * overrides, a default agent and a memory namespace of their own.
+ */
+export interface Project {
+  id: string
+  name: string
+  /** Absolute directory the bash tool runs in for the project's sessions. */
+  rootDir: string
+  /**
+   * Directory of prompt files (SOUL.md, TOOLS.md, …) that replace the
+   * workspace's files of the same name; relative paths are under rootDir.
+   */
+  promptDir?: string
+  /** Agent for sessions created in the project without one. */
+  defaultAgentId?: string
+  createdAt: number // Unix ms
+  updatedAt: number
+}
+
+/** Memory namespace of sessions outside any project. */
+export const GLOBAL_NAMESPACE = ''
+
+/** The memory namespace a session's transcript is indexed under. */
+export function memoryNamespace(projectId: string | undefined): string {
+  return projectId ? `project:${projectId}` : GLOBAL_NAMESPACE
+}
+
+/** Absolute path of a project's prompt override directory, if it has one. */
+export function projectPromptDir(project: Project): string | undefined {
+  return project.promptDir ? resolve(project.rootDir, project.promptDir) : undefined
+}
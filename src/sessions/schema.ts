@@ -0,0 +1,67 @@
+/**
+ * SQL table definitions for session storage.
+ * Lives in its own sessions.db next to the attachment directories, so
+ * sessions work even when the memory database can't be opened.
+ */
+
+/**
+ * One row per session. `meta` holds the SessionMeta JSON; the other columns
+ * are copies kept for sorting, child lookups and listing without reading
+ * any events.
+ */
+export const CREATE_SESSIONS_TABLE = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    key                TEXT PRIMARY KEY,
+    meta               TEXT NOT NULL,
+    parent_session_key TEXT,
+    created_at         INTEGER NOT NULL,
+    updated_at         INTEGER NOT NULL,
+    message_count      INTEGER NOT NULL DEFAULT 0,
+    first_message      TEXT,
+    last_message       TEXT,
+    last_message_role  TEXT,
+    last_message_at    INTEGER
+  )
+`
+
+/**
+ * One row per transcript event, in the order written (`seq`). `data` is the
+ * full event JSON; id, parent and role are columns so the tree of a session
+ * can be walked without parsing it.
+ */
+export const CREATE_EVENTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS events (
+    session_key TEXT NOT NULL REFERENCES sessions(key) ON DELETE CASCADE,
+    seq         INTEGER NOT NULL,
+    id          TEXT NOT NULL,
+    parent_id   TEXT,
+    role        TEXT NOT NULL,
+    data        TEXT NOT NULL,
+    PRIMARY KEY (session_key, seq)
+  )
+`
+
+export const CREATE_EVENTS_ID_INDEX = `
+  CREATE UNIQUE INDEX IF NOT EXISTS idx_events_session_id ON events(session_key, id)
+`
+
+export const CREATE_SESSIONS_PARENT_INDEX = `
+  CREATE INDEX IF NOT EXISTS idx_sessions_parent ON sessions(parent_session_key)
+`
+
+/** One row per project; `data` holds the Project JSON. */
+export const CREATE_PROJECTS_TABLE = `
+  CREATE TABLE IF NOT EXISTS projects (
+    id         TEXT PRIMARY KEY,
+    data       TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  )
+`
+
+export const SESSION_MIGRATIONS: string[] = [
+  CREATE_SESSIONS_TABLE,
+  CREATE_EVENTS_TABLE,
+  CREATE_EVENTS_ID_INDEX,
+  CREATE_SESSIONS_PARENT_INDEX,
+  CREATE_PROJECTS_TABLE,
+]
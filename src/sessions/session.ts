@@ -1,9 +1,19 @@
+import { randomUUID } from 'node:crypto'
 import { join } from 'node:path'
+import type { TranscriptEvent } from './transcript.js'
+import type { StoredLink, TranscriptStore } from './store.js'
 import {
-  appendEvent,
-  readEvents,
-  type TranscriptEvent,
-} from './transcript.js'
+  readAttachment,
+  saveAttachment,
+  type AttachmentRef,
+} from './attachments.js'
+import {
+  buildTree,
+  latestLeaf,
+  pathTo,
+  selectedLeaf,
+  type TranscriptTree,
+} from './branches.js'
 
 export interface SessionMeta {
   key: string
@@ -11,22 +21,171 @@ export interface SessionMeta {
   createdAt: number // Unix ms
   updatedAt: number
   label?: string
+  /** Set when the user named the session; generated titles then leave the label alone. */
+  customLabel?: boolean
+  /** Model-written paragraph describing the conversation (see summaries.ts). */
+  summary?: string
+  /** User/assistant messages on the path when the summary was written. */
+  summaryMessageCount?: number
+  /** Set on sub-agent sessions created by the delegate tool. */
+  parentSessionKey?: string
+  parentRunId?: string
+  /** Project the session belongs to; sub-agent sessions join their parent's. */
+  projectId?: string
+  /** Set on sessions created by a scheduled job run. */
+  jobId?: string
+  jobRunId?: string
+  /** Hidden from sessions.list unless archived sessions are asked for. */
+  archived?: boolean
+  /** Listed before unpinned sessions. */
+  pinned?: boolean
+  /**
+   * Event whose latest descendant ends the selected path. Absent selects the
+   * latest event; set when a new branch is started or picked.
+   */
+  selectedBranch?: string
 }
 
+/**
+ * A session's transcript, read and written along one path of its tree (see
+ * branches.ts). The path starts as the selected branch; `branchFrom` moves
+ * it to continue from an earlier event, and appends always extend it.
+ * Events live in the TranscriptStore; attachments are files next to it.
+ */
 export class Session {
   readonly meta: SessionMeta
-  readonly transcriptPath: string
+  readonly attachmentsDir: string
+  private readonly store: TranscriptStore
+  /** Last event of this session's path; undefined until the transcript is read. */
+  private head: string | null | undefined
+  /** Events that already have a child, so the next child starts a branch. */
+  private parents = new Set<string | null>()
+  /** Appends and reads run one at a time, so each sees the head the last append left. */
+  private writes: Promise<unknown> = Promise.resolve()
+  /** Set while a chat run writes to the session (see beginRun). */
+  private running = false
 
-  constructor(meta: SessionMeta, sessionsDir: string) {
+  constructor(meta: SessionMeta, store: TranscriptStore, sessionsDir: string) {
     this.meta = meta
-    this.transcriptPath = join(sessionsDir, `${meta.key}.jsonl`)
+    this.store = store
+    this.attachmentsDir = join(sessionsDir, `${meta.key}.attachments`)
+  }
+
+  /**
+   * Append an event after the current head and return its id. An event that
+   * starts a new branch becomes the session's selected branch.
+   */
+  async appendEvent(event: TranscriptEvent): Promise<string> {
+    return this.enqueue(async () => {
+      await this.load()
+      const parentId = this.head ?? null
+      const id = randomUUID()
+      this.store.append(this.meta.key, { ...event, id, parentId })
+
+      if (this.parents.has(parentId)) this.saveSelection(id)
+      this.parents.add(parentId)
+      this.head = id
+      return id
+    })
   }
 
-  async appendEvent(event: TranscriptEvent): Promise<void> {
-    await appendEvent(this.transcriptPath, event)
+  /**
+   * Continue from an earlier event (null: from the start) instead of the
+   * current head. Nothing changes on disk until the next append.
+   */
+  async branchFrom(eventId: string | null): Promise<void> {
+    await this.enqueue(async () => {
+      await this.load()
+      if (eventId !== null && !this.store.hasEvent(this.meta.key, eventId)) {
+        throw new Error(`Event not found: ${eventId}`)
+      }
+      this.head = eventId
+    })
   }
 
+  /**
+   * Select the path through `eventId`, ending at its latest descendant, for
+   * this session object and for later reads of the session.
+   */
+  async selectBranch(eventId: string): Promise<void> {
+    if (this.running) throw new Error('A reply is being generated; select a branch once it ends')
+    await this.enqueue(async () => {
+      await this.load()
+      const tree = buildTree(this.store.links(this.meta.key))
+      if (!tree.byId.has(eventId)) {
+        throw new Error(`Event not found: ${eventId}`)
+      }
+      this.saveSelection(eventId)
+      this.head = latestLeaf(tree, eventId)
+    })
+  }
+
+  /**
+   * Claim the session for a run; false while another run holds it. The
+   * run's events follow the head, so until endRun nothing else may move it:
+   * a second chat.send is refused and so is selectBranch.
+   */
+  beginRun(): boolean {
+    if (this.running) return false
+    this.running = true
+    return true
+  }
+
+  endRun(): void {
+    this.running = false
+  }
+
+  /** Events on this session's path, from the first message to the head. */
   async readEvents(): Promise<TranscriptEvent[]> {
-    return readEvents(this.transcriptPath)
+    return this.enqueue(async () => {
+      const tree = buildTree(this.store.links(this.meta.key))
+      const leaf = this.head !== undefined ? this.head : selectedLeaf(tree, this.meta.selectedBranch)
+      return this.store.eventsById(this.meta.key, pathTo(tree, leaf).map((link) => link.id))
+    })
+  }
+
+  /** Every event of every branch. */
+  async readTree(): Promise<TranscriptTree> {
+    return this.enqueue(async () => buildTree(this.store.events(this.meta.key)))
+  }
+
+  /**
+   * The shape of the tree without event contents, for callers that only
+   * need part of a path (see readEventsById).
+   */
+  async readLinks(): Promise<TranscriptTree<StoredLink>> {
+    return this.enqueue(async () => buildTree(this.store.links(this.meta.key)))
+  }
+
+  /** Events by id, in the order given; unknown ids are skipped. */
+  async readEventsById(ids: string[]): Promise<TranscriptEvent[]> {
+    return this.enqueue(async () => this.store.eventsById(this.meta.key, ids))
+  }
+
+  async saveAttachment(file: { name: string; mimeType: string; data: Buffer }): Promise<AttachmentRef> {
+    return saveAttachment(this.attachmentsDir, file)
+  }
+
+  async readAttachment(ref: AttachmentRef): Promise<Buffer> {
+    return readAttachment(this.attachmentsDir, ref)
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const next = this.writes.then(task)
+    this.writes = next.catch(() => {})
+    return next
+  }
+
+  /** Read the transcript once to find the head; later appends keep it current. */
+  private async load(): Promise<void> {
+    if (this.head !== undefined) return
+    const tree = buildTree(this.store.links(this.meta.key))
+    this.parents = new Set(tree.children.keys())
+    this.head = selectedLeaf(tree, this.meta.selectedBranch)
+  }
+
+  private saveSelection(eventId: string): void {
+    this.meta.selectedBranch = eventId
+    this.store.saveMeta(this.meta)
   }
 }
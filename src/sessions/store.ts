@@ -0,0 +1,225 @@
+import { DatabaseSync } from 'node:sqlite'
+import type { SessionMeta } from './session.js'
+import type { Project } from './projects.js'
+import type { TranscriptEvent } from './transcript.js'
+import { SESSION_MIGRATIONS } from './schema.js'
+
+/** A session as sessions.list shows it: meta plus counts kept as events are appended. */
+export interface SessionListing extends SessionMeta {
+  /** User and assistant messages across all branches. */
+  messageCount: number
+  /** Text of the first user message, for deriving a label. */
+  firstMessage?: string
+  /** The most recent user or assistant message. */
+  lastMessage?: { role: 'user' | 'assistant'; content: string; timestamp: number }
+}
+
+/** An event's place in its session's tree, read without its contents. */
+export interface StoredLink {
+  id: string
+  parentId: string | null
+  role: TranscriptEvent['role']
+}
+
+interface SessionRow {
+  meta: string
+  message_count: number
+  first_message: string | null
+  last_message: string | null
+  last_message_role: string | null
+  last_message_at: number | null
+}
+
+interface LinkRow {
+  id: string
+  parent_id: string | null
+  role: string
+}
+
+/** Longest message text kept in the listing columns. */
+const LISTING_TEXT_CHARS = 200
+
+/** Most ids bound into one IN (…) query. */
+const IDS_PER_QUERY = 500
+
+function rowToListing(row: SessionRow): SessionListing {
+  return {
+    ...JSON.parse(row.meta) as SessionMeta,
+    messageCount: row.message_count,
+    ...(row.first_message !== null ? { firstMessage: row.first_message } : {}),
+    ...(row.last_message !== null
+      ? {
+          lastMessage: {
+            role: row.last_message_role as 'user' | 'assistant',
+            content: row.last_message,
+            timestamp: row.last_message_at ?? 0,
+          },
+        }
+      : {}),
+  }
+}
+
+/**
+ * Sessions and their transcript events in SQLite. Events are stored in the
+ * order they were written, with id and parent as indexed columns, so a
+ * session's tree and any slice of a path can be read without loading every
+ * event. Callers serialize appends per session (see Session).
+ */
+export class TranscriptStore {
+  private constructor(private readonly db: DatabaseSync) {}
+
+  /** Open (or create) the store at `dbPath` and apply migrations. */
+  static open(dbPath: string): TranscriptStore {
+    const db = new DatabaseSync(dbPath)
+    db.exec('PRAGMA journal_mode=WAL')
+    db.exec('PRAGMA foreign_keys=ON')
+    // Deleted sessions are zeroed on disk, not just unlinked from the b-tree
+    db.exec('PRAGMA secure_delete=ON')
+    for (const migration of SESSION_MIGRATIONS) {
+      db.exec(migration)
+    }
+    return new TranscriptStore(db)
+  }
+
+  /** Add a session, or overwrite the meta of an existing one. */
+  saveMeta(meta: SessionMeta): void {
+    this.db.prepare(
+      `INSERT INTO sessions (key, meta, parent_session_key, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET
+         meta = excluded.meta,
+         parent_session_key = excluded.parent_session_key,
+         created_at = excluded.created_at,
+         updated_at = excluded.updated_at`,
+    ).run(meta.key, JSON.stringify(meta), meta.parentSessionKey ?? null, meta.createdAt, meta.updatedAt)
+  }
+
+  getMeta(key: string): SessionMeta | null {
+    const row = this.db.prepare('SELECT meta FROM sessions WHERE key = ?').get(key) as { meta: string } | undefined
+    return row ? JSON.parse(row.meta) as SessionMeta : null
+  }
+
+  /** Every session, newest first, without reading any events. */
+  list(): SessionListing[] {
+    const rows = this.db.prepare(
+      `SELECT meta, message_count, first_message, last_message, last_message_role, last_message_at
+       FROM sessions ORDER BY created_at DESC`,
+    ).all() as unknown as SessionRow[]
+    return rows.map(rowToListing)
+  }
+
+  /** Keys of the sub-agent sessions a session delegated to. */
+  childKeys(key: string): string[] {
+    const rows = this.db.prepare('SELECT key FROM sessions WHERE parent_session_key = ?').all(key) as Array<{ key: string }>
+    return rows.map((row) => row.key)
+  }
+
+  /** Delete a session and its events. */
+  delete(key: string): void {
+    this.db.prepare('DELETE FROM sessions WHERE key = ?').run(key)
+  }
+
+  /** Append an event (with its id and parentId set) after the session's last one. */
+  append(key: string, event: TranscriptEvent): void {
+    this.transaction(() => this.insert(key, event))
+  }
+
+  /**
+   * Add a session with all of its events at once, e.g. a copy, an import or
+   * a migrated JSONL transcript. Events must already carry ids.
+   */
+  insertSession(meta: SessionMeta, events: TranscriptEvent[]): void {
+    this.transaction(() => {
+      this.saveMeta(meta)
+      for (const event of events) this.insert(meta.key, event)
+    })
+  }
+
+  /** Every event of every branch, in the order written. */
+  events(key: string): TranscriptEvent[] {
+    const rows = this.db.prepare('SELECT data FROM events WHERE session_key = ? ORDER BY seq').all(key) as Array<{ data: string }>
+    return rows.map((row) => JSON.parse(row.data) as TranscriptEvent)
+  }
+
+  /** The tree structure of a session, in the order written. */
+  links(key: string): StoredLink[] {
+    const rows = this.db.prepare(
+      'SELECT id, parent_id, role FROM events WHERE session_key = ? ORDER BY seq',
+    ).all(key) as unknown as LinkRow[]
+    return rows.map((row) => ({ id: row.id, parentId: row.parent_id, role: row.role as TranscriptEvent['role'] }))
+  }
+
+  /** The events with the given ids, in the order the ids are given. */
+  eventsById(key: string, ids: string[]): TranscriptEvent[] {
+    const byId = new Map<string, TranscriptEvent>()
+    for (let i = 0; i < ids.length; i += IDS_PER_QUERY) {
+      const batch = ids.slice(i, i + IDS_PER_QUERY)
+      const rows = this.db.prepare(
+        `SELECT id, data FROM events WHERE session_key = ? AND id IN (${batch.map(() => '?').join(', ')})`,
+      ).all(key, ...batch) as Array<{ id: string; data: string }>
+      for (const row of rows) byId.set(row.id, JSON.parse(row.data) as TranscriptEvent)
+    }
+    return ids.flatMap((id) => byId.get(id) ?? [])
+  }
+
+  hasEvent(key: string, id: string): boolean {
+    return this.db.prepare('SELECT 1 FROM events WHERE session_key = ? AND id = ?').get(key, id) !== undefined
+  }
+
+  /** Add a project, or overwrite an existing one. */
+  saveProject(project: Project): void {
+    this.db.prepare(
+      `INSERT INTO projects (id, data, created_at) VALUES (?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET data = excluded.data`,
+    ).run(project.id, JSON.stringify(project), project.createdAt)
+  }
+
+  getProject(id: string): Project | null {
+    const row = this.db.prepare('SELECT data FROM projects WHERE id = ?').get(id) as { data: string } | undefined
+    return row ? JSON.parse(row.data) as Project : null
+  }
+
+  /** Every project, oldest first. */
+  listProjects(): Project[] {
+    const rows = this.db.prepare('SELECT data FROM projects ORDER BY created_at').all() as Array<{ data: string }>
+    return rows.map((row) => JSON.parse(row.data) as Project)
+  }
+
+  deleteProject(id: string): void {
+    this.db.prepare('DELETE FROM projects WHERE id = ?').run(id)
+  }
+
+  close(): void {
+    this.db.close()
+  }
+
+  private insert(key: string, event: TranscriptEvent): void {
+    this.db.prepare(
+      `INSERT INTO events (session_key, seq, id, parent_id, role, data)
+       SELECT ?, COALESCE(MAX(seq), -1) + 1, ?, ?, ?, ? FROM events WHERE session_key = ?`,
+    ).run(key, event.id!, event.parentId ?? null, event.role, JSON.stringify(event), key)
+
+    if (event.role !== 'user' && event.role !== 'assistant') return
+    const text = event.content.slice(0, LISTING_TEXT_CHARS)
+    this.db.prepare(
+      `UPDATE sessions SET
+         message_count = message_count + 1,
+         first_message = CASE WHEN first_message IS NULL AND ? = 'user' AND ? <> '' THEN ? ELSE first_message END,
+         last_message = ?,
+         last_message_role = ?,
+         last_message_at = ?
+       WHERE key = ?`,
+    ).run(event.role, text.trim(), text, text, event.role, event.timestamp, key)
+  }
+
+  private transaction(work: () => void): void {
+    this.db.exec('BEGIN')
+    try {
+      work()
+      this.db.exec('COMMIT')
+    } catch (err) {
+      this.db.exec('ROLLBACK')
+      throw err
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import type { ModelProvider, Usage } from '../agents/providers/types.js'
+import { parseStructuredAnswer } from '../agents/structured-output.js'
+import type { TranscriptEvent } from './transcript.js'
+
+/** A generated session title and summary. */
+export interface SessionSummary {
+  title: string
+  summary: string
+  /** User/assistant messages on the path when it was written. */
+  messageCount: number
+}
+
+const SUMMARY_SCHEMA = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1 },
+    summary: { type: 'string', minLength: 1 },
+  },
+  required: ['title', 'summary'],
+  additionalProperties: false,
+}
+
+const SUMMARIZER_PROMPT = `You name and describe conversations for a chat history list.
+Reply with only a JSON object: {"title": "...", "summary": "..."}.
+title: 3 to 8 words saying what the conversation is about, without quotes or a trailing period.
+summary: one paragraph of 2 to 4 sentences covering what the user wanted, what was found or decided, and anything left open.
+Write both in the language of the conversation and add nothing that is not in it.`
+
+/** Transcript text beyond this keeps its start and its most recent part. */
+const MAX_INPUT_CHARS = 24_000
+
+const MAX_TITLE_CHARS = 80
+const MAX_SUMMARY_CHARS = 1_000
+
+/** User and assistant messages in a list of path events. */
+export function countMessages(events: TranscriptEvent[]): number {
+  return events.filter((e) => e.role === 'user' || e.role === 'assistant').length
+}
+
+/**
+ * Whether a session's title and summary are due: after its first exchange,
+ * then each time `refreshEvery` more messages have been added (or the
+ * selected branch has moved that far from the summarized one).
+ */
+export function summaryDue(
+  messageCount: number,
+  summarizedCount: number | undefined,
+  refreshEvery: number,
+): boolean {
+  if (summarizedCount === undefined) return messageCount >= 2
+  return Math.abs(messageCount - summarizedCount) >= refreshEvery
+}
+
+/**
+ * Ask the model for a short title and a one-paragraph summary of a
+ * session's path. Only the conversation text is sent: tool output and
+ * attachments are left out. Throws if the model fails or its answer isn't
+ * the expected JSON.
+ */
+export async function summarizeSession(
+  events: TranscriptEvent[],
+  provider: ModelProvider,
+  model: string,
+  onUsage?: (usage: Usage) => void,
+): Promise<SessionSummary> {
+  let transcript = events
+    .filter((e) => (e.role === 'user' || e.role === 'assistant' || e.role === 'tool_use') && e.content.trim())
+    .map((e) => `[${e.role === 'user' ? 'user' : 'assistant'}]\n${e.content}`)
+    .join('\n\n')
+  if (transcript.length > MAX_INPUT_CHARS) {
+    const head = transcript.slice(0, MAX_INPUT_CHARS / 4)
+    transcript = `${head}\n\n[…]\n\n${transcript.slice(-(MAX_INPUT_CHARS - head.length))}`
+  }
+
+  let text = ''
+  for await (const event of provider.chat({
+    model,
+    systemPrompt: SUMMARIZER_PROMPT,
+    messages: [{ role: 'user', content: transcript }],
+    tools: [],
+    responseSchema: SUMMARY_SCHEMA,
+  })) {
+    if (event.type === 'delta') text += event.text
+    if (event.type === 'final') onUsage?.(event.usage)
+    if (event.type === 'error') throw new Error(`Session summary failed: ${event.message}`)
+  }
+
+  const answer = parseStructuredAnswer(text, SUMMARY_SCHEMA)
+  if (!answer.ok) {
+    throw new Error(`Session summary failed: ${answer.error}`)
+  }
+  const { title, summary } = answer.value as { title: string; summary: string }
+  const cleanTitle = title.replace(/\s+/g, ' ').trim().replace(/^["'“]+|["'”.]+$/g, '').slice(0, MAX_TITLE_CHARS)
+  const cleanSummary = summary.replace(/\s+/g, ' ').trim().slice(0, MAX_SUMMARY_CHARS)
+  if (!cleanTitle || !cleanSummary) {
+    throw new Error('Session summary failed: the model returned an empty title or summary')
+  }
+
+  return { title: cleanTitle, summary: cleanSummary, messageCount: countMessages(events) }
+}
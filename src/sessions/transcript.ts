@@ -1,26 +1,113 @@
-import { appendFile, readFile } from 'node:fs/promises'
+import { readFile } from 'node:fs/promises'
+import type { AttachmentRef } from './attachments.js'
+import type { StopReason, Usage } from '../agents/providers/types.js'
+import type { Config } from '../config/schema.js'
+
+/** One tool call the model made, as stored on a tool_use event. */
+export interface TranscriptToolCall {
+  id: string
+  name: string
+  input: Record<string, unknown>
+}
 
 export interface TranscriptEvent {
-  role: 'user' | 'assistant' | 'tool_result'
+  /**
+   * A run that uses tools is stored as it happened: a `tool_use` event per
+   * model turn that called tools (`content` is the text written before the
+   * calls), a `tool_result` per call, and an `assistant` event with the
+   * final turn's text.
+   */
+  role: 'user' | 'assistant' | 'tool_use' | 'tool_result' | 'summary' | 'usage'
   content: string
   timestamp: number // Unix ms
+  /** Set by Session.appendEvent; older transcripts have none (see branches.ts). */
+  id?: string
+  /** Event this one follows; null for the first event of a branch at the root. */
+  parentId?: string | null
   runId?: string
   toolName?: string
+  /** For tool_use events: the calls made in that turn. */
+  toolCalls?: TranscriptToolCall[]
+  /** For tool_result events: id of the call this result answers. */
+  toolCallId?: string
   attachmentCount?: number
+  /** Files sent with a user message or returned by a tool, stored in the session's attachments dir. */
+  attachments?: AttachmentRef[]
+  /** "provider/model" that produced an assistant event. */
+  model?: string
+  /** Reasoning behind an assistant event, kept out of `content` so it is never replayed as answer text. */
+  thinking?: string
+  /** For assistant events: set to "max_tokens" when the answer was still cut off after every continuation. */
+  stopReason?: StopReason
+  /** For assistant events of structured-output runs: the parsed answer, when it matched the schema. */
+  result?: unknown
+  /** For delegate tool results: the session holding the sub-agent's transcript. */
+  childSessionKey?: string
+  /** For tool results: the user's answer when the tool asked for approval. */
+  approval?: 'approved' | 'denied'
+  /** For summary events: how many leading transcript events the summary replaces. */
+  summarizedEvents?: number
+  /** For usage events: token totals of the run's model calls. */
+  usage?: Usage
+  /** For usage events: priced cost in USD, absent when the model has no known price. */
+  costUsd?: number
+}
+
+/**
+ * Split a transcript into the latest compaction summary and the events that
+ * follow it. Events covered by the summary stay in the file for history but
+ * are no longer replayed to the model.
+ */
+export function liveEvents(events: TranscriptEvent[]): {
+  summary: TranscriptEvent | null
+  events: TranscriptEvent[]
+} {
+  let summary: TranscriptEvent | null = null
+  for (const event of events) {
+    if (event.role === 'summary') summary = event
+  }
+  const covered = summary?.summarizedEvents ?? 0
+  return {
+    summary,
+    events: events.slice(covered).filter((e) => e.role !== 'summary'),
+  }
 }
 
+export type ToolOutputPolicy = Config['tools']['transcript']
+
 /**
- * Append a transcript event to a JSONL file.
- * Creates the file if it doesn't exist.
+ * Tool output as it is stored in the transcript and replayed on later turns.
+ * Callers filter secrets first; this applies the configured policy: bash
+ * output can be left out entirely, `redact` patterns are masked, and long
+ * output keeps its head and tail.
  */
-export async function appendEvent(filePath: string, event: TranscriptEvent): Promise<void> {
-  const line = JSON.stringify(event) + '\n'
-  await appendFile(filePath, line, 'utf-8')
+export function toolOutputForTranscript(
+  toolName: string,
+  output: string,
+  policy: ToolOutputPolicy,
+  meta: { exitCode?: number; truncated?: boolean } = {},
+): string {
+  if (toolName === 'bash' && policy.bashOutput === 'omit') {
+    return `Bash command executed (exit ${meta.exitCode ?? 'unknown'}, output ${output.length} chars${meta.truncated ? ', truncated' : ''}). Raw output not persisted.`
+  }
+
+  let stored = output
+  for (const pattern of policy.redact) {
+    stored = stored.replace(new RegExp(pattern, 'g'), '[REDACTED]')
+  }
+
+  if (stored.length > policy.maxChars) {
+    const head = Math.floor(policy.maxChars * 2 / 3)
+    const tail = policy.maxChars - head
+    const omitted = stored.length - head - tail
+    stored = `${stored.slice(0, head)}\n[… ${omitted} characters not stored …]\n${stored.slice(-tail)}`
+  }
+  return stored
 }
 
 /**
- * Read all transcript events from a JSONL file.
- * Returns [] if the file doesn't exist.
+ * Read all transcript events from a JSONL file, the format sessions were
+ * stored in before sessions.db. Returns [] if the file doesn't exist.
  */
 export async function readEvents(filePath: string): Promise<TranscriptEvent[]> {
   try {
@@ -1,5 +1,6 @@
 import { spawn } from 'node:child_process'
 import { randomUUID } from 'node:crypto'
+import { resolve } from 'node:path'
 import { z } from 'zod'
 import type { ToolDefinition } from '../agents/providers/types.js'
 import type { Config } from '../config/schema.js'
@@ -36,6 +37,8 @@ export class BashTool implements Tool {
   name = 'bash'
   description = 'Run a shell command on the user\'s machine. The user must approve every command before it executes.'
   requiresApproval = true
+  // Commands from one turn often depend on each other (mkdir, then cd or write)
+  parallelSafe = false
   inputSchema = BashInput
 
   constructor(
@@ -56,7 +59,7 @@ export class BashTool implements Tool {
           },
           workingDir: {
             type: 'string',
-            description: 'Working directory for the command (defaults to server cwd)',
+            description: 'Working directory for the command; relative paths start from the project directory (defaults to the project directory, or the server cwd outside projects)',
           },
         },
         required: ['command'],
@@ -71,7 +74,7 @@ export class BashTool implements Tool {
     }
 
     const { command, workingDir } = parsed.data
-    const cwd = workingDir ?? process.cwd()
+    const cwd = resolve(context.cwd ?? process.cwd(), workingDir ?? '.')
 
     // Skip approval for auto-approved contexts (e.g. scheduled jobs)
     if (!context.autoApprove) {
@@ -80,6 +83,7 @@ export class BashTool implements Tool {
       // Push approval request to client
       context.sendEvent('exec.approval_request', {
         approvalId,
+        runId: context.runId,
         toolName: this.name,
         summary: command,
         details: { command, workingDir: cwd },
@@ -93,6 +97,7 @@ export class BashTool implements Tool {
           return {
             output: `Command denied by user${err.message !== 'Denied by user' ? ': ' + err.message : '.'}`,
             exitCode: 1,
+            approval: 'denied',
           }
         }
         throw err
@@ -101,7 +106,8 @@ export class BashTool implements Tool {
 
     // Approved — execute the command
     context.reportProgress(`Running: ${command}`)
-    return this.spawn(command, cwd)
+    const result = await this.spawn(command, cwd)
+    return context.autoApprove ? result : { ...result, approval: 'approved' }
   }
 
   private spawn(command: string, cwd: string): Promise<ToolResult> {
@@ -97,10 +97,15 @@ export class BrowserTool implements Tool {
   description =
     'Control a headless browser: navigate to URLs, click elements, type text, take screenshots, ' +
     'and extract page content. The user must approve every browser session before it executes. ' +
-    'Input is a sequence of actions executed in order.'
+    'Input is a sequence of actions executed in order. Separate calls in the same turn run concurrently, ' +
+    'except calls that reuse the same sessionId, which run one after another in the order given.'
   requiresApproval = true
+  parallelSafe = true
   inputSchema = BrowserInput
 
+  /** Tail of each browser session's queue of calls; see takeTurn(). */
+  private turns = new Map<string, Promise<void>>()
+
   constructor(
     private approvalManager: ApprovalManager,
     private sessionManager: BrowserSessionManager,
@@ -149,7 +154,40 @@ export class BrowserTool implements Tool {
     }
 
     const { actions, sessionId } = parsed.data
+    // Queue up before asking for approval, so calls keep their order however they are answered
+    const turn = sessionId ? this.takeTurn(sessionId) : null
+    try {
+      return await this.run(actions, sessionId, context, turn?.ready)
+    } finally {
+      turn?.done()
+    }
+  }
 
+  /**
+   * Calls that share a browser session drive the same page, so they take
+   * turns in call order: `ready` resolves once every earlier call is done.
+   */
+  private takeTurn(sessionId: string): { ready: Promise<void>; done: () => void } {
+    const ready = this.turns.get(sessionId) ?? Promise.resolve()
+    let done!: () => void
+    const finished = new Promise<void>((resolve) => { done = resolve })
+    const tail = ready.then(() => finished)
+    this.turns.set(sessionId, tail)
+    return {
+      ready,
+      done: () => {
+        done()
+        if (this.turns.get(sessionId) === tail) this.turns.delete(sessionId)
+      },
+    }
+  }
+
+  private async run(
+    actions: BrowserActionType[],
+    sessionId: string | undefined,
+    context: ToolContext,
+    ready: Promise<void> = Promise.resolve(),
+  ): Promise<ToolResult> {
     // Skip approval for auto-approved contexts (e.g. scheduled jobs)
     if (!context.autoApprove) {
       const approvalId = randomUUID()
@@ -157,6 +195,7 @@ export class BrowserTool implements Tool {
       // Push approval request
       context.sendEvent('exec.approval_request', {
         approvalId,
+        runId: context.runId,
         toolName: this.name,
         summary: `${actions.length} browser action(s) — first: ${describeAction(actions[0]!)}`,
         details: { actions: actions.map(describeAction) },
@@ -169,12 +208,15 @@ export class BrowserTool implements Tool {
         if (err instanceof DeniedError) {
           return {
             output: `Browser actions denied by user${err.message !== 'Denied by user' ? ': ' + err.message : '.'}`,
+            approval: 'denied',
           }
         }
         throw err
       }
     }
 
+    await ready
+
     // Get or create browser page
     const { page, sessionId: sid } = await this.sessionManager.getPage(sessionId)
     const attachments: ToolAttachment[] = []
@@ -209,6 +251,7 @@ export class BrowserTool implements Tool {
     return {
       output: summary,
       attachments: attachments.length > 0 ? attachments : undefined,
+      ...(context.autoApprove ? {} : { approval: 'approved' as const }),
     }
   }
 
@@ -0,0 +1,344 @@
+import { z } from 'zod'
+import type { ChatEvent, ChatParams, ModelProvider, ToolDefinition } from '../agents/providers/types.js'
+import type { Config } from '../config/schema.js'
+import type { CircuitBreaker } from '../agents/failover.js'
+import type { SessionManager } from '../sessions/manager.js'
+import type { Session } from '../sessions/session.js'
+import type { AuditLogger } from '../security/audit.js'
+import type { ToolRegistry } from './registry.js'
+import type { Tool, ToolContext, ToolResult } from './types.js'
+import type { WorkspaceWatcher } from '../agents/workspace-watcher.js'
+import { agentAllowsTool, getAgentConfig, type AgentConfig } from '../agents/agent-config.js'
+import { createAgentProvider, type FailoverProvider } from '../agents/failover.js'
+import { buildSystemPrompt } from '../agents/prompt-builder.js'
+import { projectPromptDir } from '../sessions/projects.js'
+import { runAgentTurn, type ToolCallOutput } from '../agents/runner.js'
+import { filterSecrets } from '../security/secrets-filter.js'
+import { toolImageBlocks } from '../sessions/attachments.js'
+import { toolOutputForTranscript } from '../sessions/transcript.js'
+import { RunUsage, type UsageTracker } from '../usage/tracker.js'
+
+const DelegateInput = z.object({
+  agentId: z.string().min(1),
+  task: z.string().min(1),
+})
+
+export interface DelegateToolDeps {
+  workspacePath: string
+  /** Cached agent configs; without it (in tests) AGENTS.md is read for every call. */
+  workspaceWatcher?: WorkspaceWatcher | null
+  providers: Map<string, ModelProvider>
+  circuitBreaker: CircuitBreaker
+  sessionManager: SessionManager
+  toolRegistry: ToolRegistry
+  auditLogger: AuditLogger
+  config: Config
+  usageTracker?: UsageTracker | null
+}
+
+const SUB_AGENT_PREAMBLE = [
+  'You are running as a sub-agent: another agent delegated the task below to you.',
+  'Nobody can answer follow-up questions, so work with what you are given.',
+  'Finish the task and reply with the result only; it is returned verbatim to the delegating agent.',
+].join('\n')
+
+/** agentAllowsTool, with approval-gated tools also off when a caller up the chain has `Approval: deny`. */
+function childAllowsTool(
+  agent: AgentConfig,
+  context: ToolContext,
+  tool: { name: string; requiresApproval: boolean },
+): boolean {
+  return agentAllowsTool(agent, tool) && !(tool.requiresApproval && context.approvalToolsDenied)
+}
+
+/**
+ * Counts tokens across a delegated run's model calls and refuses further
+ * calls once the budget is spent.
+ */
+class BudgetedProvider implements ModelProvider {
+  readonly id: string
+  used = 0
+
+  constructor(private readonly inner: ModelProvider, private readonly budget: number) {
+    this.id = inner.id
+  }
+
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
+    if (this.used >= this.budget) {
+      yield { type: 'error', message: `Token budget of ${this.budget} exhausted` }
+      return
+    }
+    for await (const event of this.inner.chat(params)) {
+      if (event.type === 'final') {
+        const { inputTokens, outputTokens, cacheReadTokens, cacheWriteTokens } = event.usage
+        this.used += inputTokens + outputTokens + (cacheReadTokens ?? 0) + (cacheWriteTokens ?? 0)
+      }
+      yield event
+    }
+  }
+}
+
+/**
+ * Hands a self-contained task to another agent from AGENTS.md. The
+ * sub-agent runs with its own model, prompt files and tools in a child
+ * session linked to the caller's, and its final answer becomes the tool
+ * result. Its tool calls go through the caller's approval flow.
+ */
+export class DelegateTool implements Tool {
+  name = 'delegate'
+  description =
+    'Delegate a self-contained task to another agent defined in AGENTS.md (by its id) and get its final answer back. ' +
+    'The other agent cannot see this conversation, so include everything it needs in the task. ' +
+    'Use it for work that suits another agent\'s model or tools; separate calls in the same turn run concurrently.'
+  requiresApproval = false
+  parallelSafe = true
+  inputSchema = DelegateInput
+
+  constructor(private deps: DelegateToolDeps) {}
+
+  toDefinition(): ToolDefinition {
+    return {
+      name: this.name,
+      description: this.description,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          agentId: {
+            type: 'string',
+            description: 'Id of the agent to delegate to (a "## id" heading in AGENTS.md)',
+          },
+          task: {
+            type: 'string',
+            description: 'Complete, self-contained instructions including any context the agent needs',
+          },
+        },
+        required: ['agentId', 'task'],
+      },
+    }
+  }
+
+  async execute(input: unknown, context: ToolContext): Promise<ToolResult> {
+    const parsed = DelegateInput.safeParse(input)
+    if (!parsed.success) {
+      return { output: `Invalid input: ${parsed.error.message}` }
+    }
+
+    const { agentId, task } = parsed.data
+    const { maxDepth, tokenBudget } = this.deps.config.agents.delegation
+    const depth = (context.delegationDepth ?? 0) + 1
+    if (depth > maxDepth) {
+      return { output: `Error: Delegation depth limit (${maxDepth}) reached; complete the task yourself.` }
+    }
+
+    let agent: AgentConfig
+    let failover: FailoverProvider
+    try {
+      agent = this.deps.workspaceWatcher?.getAgent(agentId)
+        ?? await getAgentConfig(this.deps.workspacePath, agentId)
+      failover = createAgentProvider({
+        agent,
+        providers: this.deps.providers,
+        config: this.deps.config,
+        breaker: this.deps.circuitBreaker,
+      })
+    } catch (err) {
+      return { output: `Error: ${(err as Error).message}` }
+    }
+
+    const overBudget = this.deps.usageTracker?.checkBudget(agentId)
+    if (overBudget) {
+      return { output: `Error: ${overBudget}` }
+    }
+
+    // Joins the parent's project; its cwd comes with the parent's context
+    const session = await this.deps.sessionManager.create(agentId, {
+      parent: { sessionKey: context.sessionKey, runId: context.runId },
+    })
+    const project = session.meta.projectId ? await this.deps.sessionManager.getProject(session.meta.projectId) : null
+    const label = `↳ ${agentId}: ${task.replace(/\s+/g, ' ').slice(0, 80)}`
+    this.deps.sessionManager.setLabel(session.meta.key, label).catch(() => {})
+    await session.appendEvent({ role: 'user', content: task, timestamp: Date.now() })
+
+    // A sub-agent never gets more approval rights than its caller: it skips
+    // prompts only if both may, and a caller's `deny` holds for it too
+    const childContext: ToolContext = {
+      ...context,
+      delegationDepth: depth,
+      autoApprove: !!context.autoApprove && (agent.approval === 'auto' || !!context.scheduled),
+      approvalToolsDenied: !!context.approvalToolsDenied || agent.approval === 'deny',
+      reportProgress: (message) => context.reportProgress(`${agentId}: ${message}`),
+    }
+
+    // The sub-agent may delegate further only while under the depth limit
+    const tools = this.deps.toolRegistry.toDefinitions((tool) =>
+      childAllowsTool(agent, childContext, tool) && (tool.name !== this.name || depth < maxDepth),
+    )
+
+    const basePrompt = await buildSystemPrompt(this.deps.workspacePath, agent.prompts, {
+      mode: context.scheduled ? 'scheduler' : 'interactive',
+      agentId,
+      sessionLabel: label,
+      toolNames: tools.map((t) => t.name),
+      projectName: project?.name,
+      cwd: context.cwd,
+    }, project ? projectPromptDir(project) : undefined, this.deps.workspaceWatcher?.loadPrompt)
+    const systemPrompt = basePrompt ? `${SUB_AGENT_PREAMBLE}\n\n---\n\n${basePrompt}` : SUB_AGENT_PREAMBLE
+
+    // Billed to the sub-agent and its session, under the parent's runId
+    const runUsage = new RunUsage(
+      { runId: context.runId, sessionKey: session.meta.key, agentId },
+      this.deps.config.usage.prices,
+      this.deps.usageTracker ?? null,
+    )
+
+    context.reportProgress(`Delegating to ${agentId}…`)
+
+    let text = ''
+    // Text before tool calls is stored with them; the answer event holds the rest
+    let answerStart = 0
+    let error: string | null = null
+    let truncated = false
+    const model = failover.activeRef
+    await runAgentTurn({
+      provider: new BudgetedProvider(failover, tokenBudget),
+      model,
+      systemPrompt,
+      messages: [{ role: 'user', content: task }],
+      tools,
+      thinkingBudget: agent.thinking,
+      temperature: agent.temperature,
+      maxOutputTokens: agent.maxOutputTokens,
+      maxToolTurns: agent.maxToolTurns,
+      maxContinuations: this.deps.config.agents.maxContinuations,
+      signal: context.signal,
+      isParallelSafe: (name) => this.deps.toolRegistry.isParallelSafe(name),
+      toolConcurrency: this.deps.config.tools.maxConcurrency,
+      onUsage: (usage) => runUsage.add(failover.activeRef, usage),
+      onEvent: (event) => {
+        if (event.type === 'delta') text += event.text
+        if (event.type === 'tool_call') context.reportProgress(`${agentId}: running ${event.name}`)
+        if (event.type === 'final') truncated = event.stopReason === 'max_tokens'
+        if (event.type === 'error') error = event.message
+      },
+      onToolTurn: async (turnText, calls) => {
+        await session.appendEvent({
+          role: 'tool_use',
+          content: turnText,
+          timestamp: Date.now(),
+          runId: context.runId,
+          toolCalls: calls,
+        }).catch(() => {})
+        answerStart = text.length
+      },
+      onToolCall: (name, toolInput, callId) =>
+        this.runChildTool(agent, session, childContext, name, toolInput, callId),
+    })
+
+    const usageEvent = runUsage.toEvent()
+    if (context.signal?.aborted) {
+      if (usageEvent) await session.appendEvent(usageEvent)
+      return { output: 'Error: Delegation aborted', childSessionKey: session.meta.key }
+    }
+
+    if (text.length > answerStart) {
+      await session.appendEvent({
+        role: 'assistant',
+        content: text.slice(answerStart),
+        timestamp: Date.now(),
+        runId: context.runId,
+        model: failover.activeRef,
+        ...(truncated ? { stopReason: 'max_tokens' as const } : {}),
+      })
+    }
+    if (usageEvent) await session.appendEvent(usageEvent)
+
+    if (error) {
+      const output = text
+        ? `${text}\n\n[${agentId} stopped early: ${error}]`
+        : `Error: Agent "${agentId}" failed: ${error}`
+      return { output, childSessionKey: session.meta.key }
+    }
+    if (truncated) {
+      return { output: `${text}\n\n[${agentId}'s answer was truncated at the token limit]`, childSessionKey: session.meta.key }
+    }
+    return { output: text || `(${agentId} returned no answer)`, childSessionKey: session.meta.key }
+  }
+
+  /**
+   * Execute one of the sub-agent's tool calls and record it in the child
+   * transcript.
+   */
+  private async runChildTool(
+    agent: AgentConfig,
+    session: Session,
+    context: ToolContext,
+    name: string,
+    input: unknown,
+    callId: string,
+  ): Promise<string | ToolCallOutput> {
+    const failed = (message: string) => {
+      session.appendEvent({
+        role: 'tool_result',
+        content: message,
+        timestamp: Date.now(),
+        runId: context.runId,
+        toolName: name,
+        toolCallId: callId,
+      }).catch(() => {})
+      return message
+    }
+
+    const tool = this.deps.toolRegistry.get(name)
+    if (!tool) return failed(`Error: Unknown tool "${name}"`)
+    if (!childAllowsTool(agent, context, tool)) {
+      return failed(`Error: Tool "${name}" is not enabled for agent "${agent.id}"`)
+    }
+
+    const validated = tool.inputSchema.safeParse(input)
+    if (!validated.success) {
+      return failed(`Error: Invalid input for tool "${name}": ${validated.error.message}`)
+    }
+
+    try {
+      const result = await tool.execute(validated.data, context)
+      const filtered = filterSecrets(result.output)
+
+      this.deps.auditLogger.append({
+        ts: Date.now(),
+        type: 'tool_exec',
+        sessionKey: session.meta.key,
+        details: {
+          tool: name,
+          delegatedTo: agent.id,
+          parentSessionKey: context.sessionKey,
+          exitCode: result.exitCode,
+          outputLength: filtered.length,
+        },
+      }).catch(() => {})
+
+      // Same retention policy as chat.send
+      session.appendEvent({
+        role: 'tool_result',
+        content: toolOutputForTranscript(name, filtered, this.deps.config.tools.transcript, result),
+        timestamp: Date.now(),
+        runId: context.runId,
+        toolName: name,
+        toolCallId: callId,
+        ...(result.childSessionKey ? { childSessionKey: result.childSessionKey } : {}),
+        ...(result.approval ? { approval: result.approval } : {}),
+      }).catch(() => {})
+
+      const images = toolImageBlocks(result.attachments)
+      return images.length > 0 ? { output: filtered, attachments: images } : filtered
+    } catch (err) {
+      const errMsg = err instanceof Error ? err.message : 'Tool execution failed'
+      this.deps.auditLogger.append({
+        ts: Date.now(),
+        type: 'tool_denied',
+        sessionKey: session.meta.key,
+        details: { tool: name, delegatedTo: agent.id, error: errMsg },
+      }).catch(() => {})
+      return failed(`Error: ${errMsg}`)
+    }
+  }
+}
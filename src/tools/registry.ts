@@ -12,14 +12,25 @@ export class ToolRegistry {
     return this.tools.get(name)
   }
 
+  /**
+   * Whether a tool may run alongside other calls from the same turn.
+   * Unknown tools are treated as unsafe so they run on their own.
+   */
+  isParallelSafe(name: string): boolean {
+    return this.tools.get(name)?.parallelSafe ?? false
+  }
+
   all(): Tool[] {
     return Array.from(this.tools.values())
   }
 
   /**
-   * Convert all tools to ToolDefinition[] for passing to ModelProvider.chat().
+   * Convert all tools (or those matching `filter`) to ToolDefinition[]
+   * for passing to ModelProvider.chat().
    */
-  toDefinitions(): ToolDefinition[] {
-    return this.all().map((t) => t.toDefinition())
+  toDefinitions(filter?: (tool: Tool) => boolean): ToolDefinition[] {
+    return this.all()
+      .filter((t) => !filter || filter(t))
+      .map((t) => t.toDefinition())
   }
 }
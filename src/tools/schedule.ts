@@ -3,6 +3,7 @@ import type { ToolDefinition } from '../agents/providers/types.js'
 import type { Tool, ToolContext, ToolResult } from './types.js'
 import type { SchedulerEngine } from '../scheduler/engine.js'
 import { isValidCron, describeCron, getNextRun } from '../scheduler/cron.js'
+import { ResponseSchemaParam } from '../agents/structured-output.js'
 
 const ScheduleInput = z.object({
   action: z.enum(['create', 'list', 'get', 'update', 'delete']),
@@ -11,6 +12,7 @@ const ScheduleInput = z.object({
   cronExpression: z.string().optional(),
   prompt: z.string().optional(),
   agentId: z.string().optional(),
+  responseSchema: ResponseSchemaParam.nullable().optional(),
   // For get/update/delete:
   id: z.string().optional(),
   // For update:
@@ -22,11 +24,13 @@ export class ScheduleTool implements Tool {
   description =
     'Manage scheduled tasks. Use action "create" to schedule a recurring task with a cron expression and prompt. ' +
     'Use "list" to see all scheduled jobs. Use "get" with an id to see job details and recent run history. ' +
-    'Use "update" with an id to modify a job (name, cronExpression, prompt, agentId, enabled). ' +
+    'Use "update" with an id to modify a job (name, cronExpression, prompt, agentId, enabled, responseSchema). ' +
+    'Give a JSON Schema as responseSchema to have each run return structured JSON instead of free text. ' +
     'Use "delete" with an id to remove a job. ' +
     'Cron format: "minute hour day-of-month month day-of-week" (e.g., "0 8 * * *" for daily at 8am, ' +
     '"0 9 * * 1-5" for weekdays at 9am, "*/30 * * * *" for every 30 minutes).'
   requiresApproval = false
+  parallelSafe = true
   inputSchema = ScheduleInput
 
   constructor(private scheduler: SchedulerEngine) {}
@@ -59,6 +63,11 @@ export class ScheduleTool implements Tool {
             type: 'string',
             description: 'Agent ID to use for execution (optional, defaults to "assistant")',
           },
+          responseSchema: {
+            type: ['object', 'null'],
+            description:
+              'JSON Schema (root "type": "object") that each run\'s answer must match (for create/update; null removes it)',
+          },
           id: {
             type: 'string',
             description: 'Job ID (for get/update/delete)',
@@ -96,6 +105,7 @@ export class ScheduleTool implements Tool {
             cronExpression: parsed.data.cronExpression,
             prompt: parsed.data.prompt,
             agentId: parsed.data.agentId,
+            responseSchema: parsed.data.responseSchema,
           })
 
           const nextRun = getNextRun(job.cronExpression)
@@ -147,7 +157,7 @@ export class ScheduleTool implements Tool {
                   (r) =>
                     `  ${new Date(r.startedAt).toLocaleString()} — ${r.status}${
                       r.summary ? ': ' + r.summary.slice(0, 200) : ''
-                    }`,
+                    }${r.error ? ': ' + r.error.slice(0, 200) : ''}`,
                 )
                 .join('\n')
             : '  No runs yet'
@@ -167,6 +177,7 @@ export class ScheduleTool implements Tool {
             `  Status: ${job.enabled ? 'enabled' : 'disabled'}\n` +
             `  Agent: ${job.agentId}\n` +
             `  Prompt: ${job.prompt}\n` +
+            (job.responseSchema ? `  Response schema: ${JSON.stringify(job.responseSchema)}\n` : '') +
             `  Next run: ${nextRunStr}\n` +
             `  Created: ${new Date(job.createdAt).toLocaleString()}\n` +
             `Recent runs:\n${runsText}`,
@@ -188,6 +199,7 @@ export class ScheduleTool implements Tool {
             prompt: parsed.data.prompt,
             agentId: parsed.data.agentId,
             enabled: parsed.data.enabled,
+            responseSchema: parsed.data.responseSchema,
           })
 
           if (!updated) {
@@ -17,6 +17,16 @@ export interface ToolContext {
   config: Config
   /** When true, skip interactive approval (used by scheduler for unattended execution). */
   autoApprove?: boolean
+  /** Tools that need approval are off: the run's agent, or one that delegated to it, has `Approval: deny`. */
+  approvalToolsDenied?: boolean
+  /** Aborted when the run is cancelled (chat.abort); long-running tools should stop. */
+  signal?: AbortSignal
+  /** Set for unattended scheduled runs; sub-agents render their prompts in scheduler mode. */
+  scheduled?: boolean
+  /** How many delegate calls deep this run is (0 or omitted for a top-level run). */
+  delegationDepth?: number
+  /** Working directory for commands: the session's project root, else the gateway's cwd. */
+  cwd?: string
 }
 
 export interface Tool {
@@ -24,6 +34,8 @@ export interface Tool {
   description: string
   inputSchema: z.ZodSchema
   requiresApproval: boolean
+  /** Whether calls may run concurrently with other parallel-safe calls from the same model turn. */
+  parallelSafe: boolean
   toDefinition(): ToolDefinition
   execute(input: unknown, context: ToolContext): Promise<ToolResult>
 }
@@ -33,6 +45,10 @@ export interface ToolResult {
   exitCode?: number
   truncated?: boolean
   attachments?: ToolAttachment[]
+  /** Session holding a sub-agent's transcript (delegate tool). */
+  childSessionKey?: string
+  /** How the user answered the approval prompt; absent when none was shown. */
+  approval?: 'approved' | 'denied'
 }
 
 export interface ApprovalRequest {
@@ -0,0 +1,78 @@
+import type { Usage } from '../agents/providers/types.js'
+import type { ModelPrice } from '../config/schema.js'
+import { parseModelRef } from '../agents/model-ref.js'
+
+/** Anthropic bills cache reads at 10% and cache writes at 125% of the input price. */
+function anthropic(input: number, output: number): ModelPrice {
+  return { input, output, cacheRead: input * 0.1, cacheWrite: input * 1.25 }
+}
+
+/** OpenAI caches automatically; only reads are billed differently. */
+function openai(input: number, output: number, cacheRead: number): ModelPrice {
+  return { input, output, cacheRead }
+}
+
+/**
+ * Published list prices (USD per million tokens) by model-name prefix. The
+ * first match wins, so more specific prefixes ("gpt-4o-mini") must come
+ * before shorter ones ("gpt-4o").
+ */
+const MODEL_PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  ['claude-opus-4-5', anthropic(5, 25)],
+  ['claude-opus-4-6', anthropic(5, 25)],
+  ['claude-opus-4', anthropic(15, 75)],
+  ['claude-3-opus', anthropic(15, 75)],
+  ['claude-sonnet-4', anthropic(3, 15)],
+  ['claude-3-7-sonnet', anthropic(3, 15)],
+  ['claude-3-5-sonnet', anthropic(3, 15)],
+  ['claude-haiku-4', anthropic(1, 5)],
+  ['claude-3-5-haiku', anthropic(0.8, 4)],
+  ['claude-3-haiku', anthropic(0.25, 1.25)],
+  ['gpt-4.1-nano', openai(0.1, 0.4, 0.025)],
+  ['gpt-4.1-mini', openai(0.4, 1.6, 0.1)],
+  ['gpt-4.1', openai(2, 8, 0.5)],
+  ['gpt-4o-mini', openai(0.15, 0.6, 0.075)],
+  ['gpt-4o', openai(2.5, 10, 1.25)],
+  ['gpt-4-turbo', openai(10, 30, 10)],
+  ['gpt-4', openai(30, 60, 30)],
+  ['gpt-5-nano', openai(0.05, 0.4, 0.005)],
+  ['gpt-5-mini', openai(0.25, 2, 0.025)],
+  ['gpt-5', openai(1.25, 10, 0.125)],
+  ['gpt-3.5-turbo', openai(0.5, 1.5, 0.5)],
+  ['o1-mini', openai(1.1, 4.4, 0.55)],
+  ['o1', openai(15, 60, 7.5)],
+  ['o3-mini', openai(1.1, 4.4, 0.55)],
+  ['o3', openai(2, 8, 0.5)],
+  ['o4-mini', openai(1.1, 4.4, 0.275)],
+]
+
+/**
+ * Price for a "provider/model" ref, or null if unknown (e.g. local models).
+ * `overrides` (config usage.prices) may be keyed by the full ref or the bare
+ * model name and takes precedence over the built-in table.
+ */
+export function priceFor(modelRef: string, overrides: Record<string, ModelPrice> = {}): ModelPrice | null {
+  const model = modelRef.includes('/') ? parseModelRef(modelRef).model : modelRef
+  const override = overrides[modelRef] ?? overrides[model]
+  if (override) return override
+
+  const match = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix))
+  return match ? match[1] : null
+}
+
+/** Cost in USD of one model call, or null if the model has no known price. */
+export function costFor(
+  modelRef: string,
+  usage: Usage,
+  overrides: Record<string, ModelPrice> = {},
+): number | null {
+  const price = priceFor(modelRef, overrides)
+  if (!price) return null
+
+  const perMillion =
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    (usage.cacheReadTokens ?? 0) * (price.cacheRead ?? price.input) +
+    (usage.cacheWriteTokens ?? 0) * (price.cacheWrite ?? price.input)
+  return perMillion / 1_000_000
+}
@@ -0,0 +1,31 @@
+/**
+ * SQL table definitions for usage accounting.
+ * Uses the same memory.db database opened by openMemoryDb().
+ */
+
+/** One row per model call; a run with tool use has several. */
+export const CREATE_USAGE_RECORDS_TABLE = `
+  CREATE TABLE IF NOT EXISTS usage_records (
+    id                 INTEGER PRIMARY KEY AUTOINCREMENT,
+    run_id             TEXT NOT NULL,
+    session_key        TEXT,
+    agent_id           TEXT NOT NULL,
+    job_id             TEXT,
+    model              TEXT NOT NULL,
+    input_tokens       INTEGER NOT NULL,
+    output_tokens      INTEGER NOT NULL,
+    cache_read_tokens  INTEGER NOT NULL DEFAULT 0,
+    cache_write_tokens INTEGER NOT NULL DEFAULT 0,
+    cost_usd           REAL,
+    created_at         INTEGER NOT NULL
+  )
+`
+
+export const CREATE_USAGE_RECORDS_INDEX = `
+  CREATE INDEX IF NOT EXISTS idx_usage_records_created_at ON usage_records(created_at)
+`
+
+export const USAGE_MIGRATIONS: string[] = [
+  CREATE_USAGE_RECORDS_TABLE,
+  CREATE_USAGE_RECORDS_INDEX,
+]
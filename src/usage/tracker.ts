@@ -0,0 +1,347 @@
+import type { MemoryDb } from '../memory/db.js'
+import type { Usage } from '../agents/providers/types.js'
+import type { Config, ModelPrice } from '../config/schema.js'
+import type { TranscriptEvent } from '../sessions/transcript.js'
+import { costFor } from './pricing.js'
+
+// ── Types ──
+
+/** What a run's usage is attributed to. */
+export interface UsageScope {
+  runId: string
+  sessionKey: string | null
+  agentId: string
+  jobId?: string
+}
+
+export interface UsageRecord {
+  id: number
+  runId: string
+  sessionKey: string | null
+  agentId: string
+  jobId: string | null
+  model: string
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  /** Null when the model has no known price. */
+  costUsd: number | null
+  createdAt: number
+}
+
+export const USAGE_GROUPS = ['session', 'agent', 'job', 'day', 'model'] as const
+export type UsageGroupBy = typeof USAGE_GROUPS[number]
+
+export interface UsageTotals {
+  runs: number
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cacheReadTokens: number
+  cacheWriteTokens: number
+  costUsd: number
+  /** Model calls left out of costUsd because their model has no price. */
+  unpricedCalls: number
+}
+
+export interface UsageGroup extends UsageTotals {
+  /** Session key, agent id, job id, model ref or UTC date (YYYY-MM-DD); null for calls outside any job. */
+  key: string | null
+}
+
+export interface UsageRange {
+  /** Inclusive start, Unix ms. */
+  from?: number
+  /** Exclusive end, Unix ms. */
+  to?: number
+}
+
+// ── Row mapper ──
+
+interface UsageRow {
+  id: number
+  run_id: string
+  session_key: string | null
+  agent_id: string
+  job_id: string | null
+  model: string
+  input_tokens: number
+  output_tokens: number
+  cache_read_tokens: number
+  cache_write_tokens: number
+  cost_usd: number | null
+  created_at: number
+}
+
+function rowToRecord(row: UsageRow): UsageRecord {
+  return {
+    id: row.id,
+    runId: row.run_id,
+    sessionKey: row.session_key,
+    agentId: row.agent_id,
+    jobId: row.job_id,
+    model: row.model,
+    inputTokens: row.input_tokens,
+    outputTokens: row.output_tokens,
+    cacheReadTokens: row.cache_read_tokens,
+    cacheWriteTokens: row.cache_write_tokens,
+    costUsd: row.cost_usd,
+    createdAt: row.created_at,
+  }
+}
+
+const GROUP_COLUMNS: Record<UsageGroupBy, string> = {
+  session: 'session_key',
+  agent: 'agent_id',
+  job: 'job_id',
+  day: "strftime('%Y-%m-%d', created_at / 1000, 'unixepoch')",
+  model: 'model',
+}
+
+const TOTALS_SQL = `
+  COUNT(DISTINCT run_id) AS runs,
+  COUNT(*) AS calls,
+  COALESCE(SUM(input_tokens), 0) AS input_tokens,
+  COALESCE(SUM(output_tokens), 0) AS output_tokens,
+  COALESCE(SUM(cache_read_tokens), 0) AS cache_read_tokens,
+  COALESCE(SUM(cache_write_tokens), 0) AS cache_write_tokens,
+  COALESCE(SUM(cost_usd), 0) AS cost_usd,
+  COUNT(*) - COUNT(cost_usd) AS unpriced_calls
+`
+
+function rowToTotals(row: Record<string, unknown>): UsageTotals {
+  return {
+    runs: Number(row['runs']),
+    calls: Number(row['calls']),
+    inputTokens: Number(row['input_tokens']),
+    outputTokens: Number(row['output_tokens']),
+    cacheReadTokens: Number(row['cache_read_tokens']),
+    cacheWriteTokens: Number(row['cache_write_tokens']),
+    costUsd: Number(row['cost_usd']),
+    unpricedCalls: Number(row['unpriced_calls']),
+  }
+}
+
+function rangeWhere(range: UsageRange): { sql: string; params: number[] } {
+  const clauses: string[] = []
+  const params: number[] = []
+  if (range.from !== undefined) {
+    clauses.push('created_at >= ?')
+    params.push(range.from)
+  }
+  if (range.to !== undefined) {
+    clauses.push('created_at < ?')
+    params.push(range.to)
+  }
+  return { sql: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params }
+}
+
+/** Start of the current calendar month (UTC), Unix ms. */
+export function startOfMonth(now: number): number {
+  const date = new Date(now)
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+}
+
+/** Human-readable token counts, e.g. for logs and transcript usage events. */
+export function formatUsage(usage: Usage, costUsd?: number | null): string {
+  const cache = usage.cacheReadTokens || usage.cacheWriteTokens
+    ? `, cache read ${usage.cacheReadTokens ?? 0} / write ${usage.cacheWriteTokens ?? 0}`
+    : ''
+  const cost = costUsd != null ? `, $${costUsd.toFixed(4)}` : ''
+  return `tokens: in ${usage.inputTokens}, out ${usage.outputTokens}${cache}${cost}`
+}
+
+// ── Tracker ──
+
+/**
+ * Stores per-call token usage in memory.db and answers aggregate and
+ * budget queries over it.
+ */
+export class UsageTracker {
+  constructor(
+    private readonly db: MemoryDb,
+    private readonly budgets: Config['usage']['budgets'],
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  record(scope: UsageScope, model: string, usage: Usage, costUsd: number | null): void {
+    this.db.prepare(
+      `INSERT INTO usage_records
+         (run_id, session_key, agent_id, job_id, model, input_tokens, output_tokens,
+          cache_read_tokens, cache_write_tokens, cost_usd, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    ).run(
+      scope.runId,
+      scope.sessionKey,
+      scope.agentId,
+      scope.jobId ?? null,
+      model,
+      usage.inputTokens,
+      usage.outputTokens,
+      usage.cacheReadTokens ?? 0,
+      usage.cacheWriteTokens ?? 0,
+      costUsd,
+      this.now(),
+    )
+  }
+
+  /** Totals over a time range, plus one entry per group sorted by cost. */
+  summary(range: UsageRange, groupBy: UsageGroupBy): { totals: UsageTotals; groups: UsageGroup[] } {
+    const where = rangeWhere(range)
+    const totals = this.db.prepare(
+      `SELECT ${TOTALS_SQL} FROM usage_records ${where.sql}`,
+    ).get(...where.params)!
+
+    const column = GROUP_COLUMNS[groupBy]
+    const order = groupBy === 'day' ? 'group_key ASC' : 'cost_usd DESC, input_tokens + output_tokens DESC'
+    const groups = this.db.prepare(
+      `SELECT ${column} AS group_key, ${TOTALS_SQL} FROM usage_records ${where.sql}
+       GROUP BY group_key ORDER BY ${order}`,
+    ).all(...where.params)
+
+    return {
+      totals: rowToTotals(totals),
+      groups: groups.map((row) => ({ key: row['group_key'] as string | null, ...rowToTotals(row) })),
+    }
+  }
+
+  /** All records in a time range, oldest first. */
+  records(range: UsageRange): UsageRecord[] {
+    const where = rangeWhere(range)
+    const rows = this.db.prepare(
+      `SELECT * FROM usage_records ${where.sql} ORDER BY created_at ASC, id ASC`,
+    ).all(...where.params) as unknown as UsageRow[]
+    return rows.map(rowToRecord)
+  }
+
+  /** Spend in USD since the start of the current month, overall or for one agent. */
+  spentThisMonth(agentId?: string): number {
+    const from = startOfMonth(this.now())
+    const row = agentId === undefined
+      ? this.db.prepare(
+        'SELECT COALESCE(SUM(cost_usd), 0) AS cost FROM usage_records WHERE created_at >= ?',
+      ).get(from)
+      : this.db.prepare(
+        'SELECT COALESCE(SUM(cost_usd), 0) AS cost FROM usage_records WHERE created_at >= ? AND agent_id = ?',
+      ).get(from, agentId)
+    return Number(row?.['cost'] ?? 0)
+  }
+
+  /** Configured caps with this month's spend against them. */
+  budgetStatus(): {
+    monthly: { limitUsd: number; spentUsd: number } | null
+    agents: Array<{ agentId: string; limitUsd: number; spentUsd: number }>
+  } {
+    return {
+      monthly: this.budgets.monthly !== undefined
+        ? { limitUsd: this.budgets.monthly, spentUsd: this.spentThisMonth() }
+        : null,
+      agents: Object.entries(this.budgets.agents).map(([agentId, limitUsd]) => ({
+        agentId,
+        limitUsd,
+        spentUsd: this.spentThisMonth(agentId),
+      })),
+    }
+  }
+
+  /**
+   * Check the monthly caps before starting a run for an agent.
+   * Returns a reason if a cap has been reached, otherwise null.
+   */
+  checkBudget(agentId: string): string | null {
+    const monthly = this.budgets.monthly
+    if (monthly !== undefined) {
+      const spent = this.spentThisMonth()
+      if (spent >= monthly) {
+        return `Monthly budget of $${monthly.toFixed(2)} reached ($${spent.toFixed(2)} spent this month)`
+      }
+    }
+
+    const agentCap = this.budgets.agents[agentId]
+    if (agentCap !== undefined) {
+      const spent = this.spentThisMonth(agentId)
+      if (spent >= agentCap) {
+        return `Monthly budget of $${agentCap.toFixed(2)} for agent "${agentId}" reached ($${spent.toFixed(2)} spent this month)`
+      }
+    }
+
+    return null
+  }
+}
+
+// ── Per-run accumulator ──
+
+/**
+ * Collects the usage of one run. Each model call is priced and recorded as
+ * it completes (so aborted and failed runs are still counted), and the
+ * totals become a `usage` transcript event at the end.
+ */
+export class RunUsage {
+  readonly total: Usage = { inputTokens: 0, outputTokens: 0 }
+  costUsd: number | null = null
+  private lastModel: string | null = null
+
+  constructor(
+    private readonly scope: UsageScope,
+    private readonly prices: Record<string, ModelPrice>,
+    private readonly tracker: UsageTracker | null,
+  ) {}
+
+  add(model: string, usage: Usage): void {
+    const cost = costFor(model, usage, this.prices)
+    try {
+      this.tracker?.record(this.scope, model, usage, cost)
+    } catch (err) {
+      console.warn('[usage] Failed to record usage:', (err as Error).message)
+    }
+
+    this.total.inputTokens += usage.inputTokens
+    this.total.outputTokens += usage.outputTokens
+    if (usage.cacheReadTokens) {
+      this.total.cacheReadTokens = (this.total.cacheReadTokens ?? 0) + usage.cacheReadTokens
+    }
+    if (usage.cacheWriteTokens) {
+      this.total.cacheWriteTokens = (this.total.cacheWriteTokens ?? 0) + usage.cacheWriteTokens
+    }
+    if (cost !== null) this.costUsd = (this.costUsd ?? 0) + cost
+    this.lastModel = model
+  }
+
+  /** Transcript event for the run's totals, or null if no model call completed. */
+  toEvent(): TranscriptEvent | null {
+    if (!this.lastModel) return null
+    return {
+      role: 'usage',
+      content: formatUsage(this.total, this.costUsd),
+      timestamp: Date.now(),
+      runId: this.scope.runId,
+      model: this.lastModel,
+      usage: { ...this.total },
+      ...(this.costUsd !== null ? { costUsd: this.costUsd } : {}),
+    }
+  }
+}
+
+/** Render usage records as CSV, one row per model call. */
+export function usageRecordsToCsv(records: UsageRecord[]): string {
+  const header = [
+    'created_at', 'run_id', 'session_key', 'agent_id', 'job_id', 'model',
+    'input_tokens', 'output_tokens', 'cache_read_tokens', 'cache_write_tokens', 'cost_usd',
+  ]
+  const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+  const lines = records.map((r) => [
+    new Date(r.createdAt).toISOString(),
+    r.runId,
+    r.sessionKey ?? '',
+    r.agentId,
+    r.jobId ?? '',
+    r.model,
+    String(r.inputTokens),
+    String(r.outputTokens),
+    String(r.cacheReadTokens),
+    String(r.cacheWriteTokens),
+    r.costUsd !== null ? r.costUsd.toFixed(6) : '',
+  ].map(escape).join(','))
+  return [header.join(','), ...lines].join('\n') + '\n'
+}
@@ -0,0 +1,179 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  agentAllowsTool,
+  appendAgentSection,
+  duplicateAgentSection,
+  getAgentConfig,
+  parseAgentsMd,
+  removeAgentSection,
+  updateAgentSection,
+} from '../src/agents/agent-config.js'
+
+const AGENTS_MD = [
+  '# Agents',
+  '',
+  'Agents are defined below.',
+  '',
+  '## assistant',
+  'Model: anthropic/claude-opus-4-6',
+  'Description: General helper',
+  'Fallback: openai/gpt-4o, local/llama3',
+  'Thinking: 8_000',
+  '',
+  '## researcher',
+  'Model: openai/gpt-4o',
+  'Tools: browser, schedule',
+  'Temperature: 0.2',
+  'Max Output Tokens: 4096',
+  'Max Tool Turns: 25',
+  'Prompts: RESEARCHER.md, SOUL.md',
+  'Approval: deny',
+  'Thinking: off',
+].join('\n')
+
+describe('parseAgentsMd', () => {
+  it('parses every field of an agent section', () => {
+    const { agents, errors } = parseAgentsMd(AGENTS_MD)
+
+    assert.deepEqual(errors, [])
+    assert.deepEqual(agents, [
+      {
+        id: 'assistant',
+        model: 'anthropic/claude-opus-4-6',
+        description: 'General helper',
+        fallback: ['openai/gpt-4o', 'local/llama3'],
+        thinking: 8000,
+        maxToolTurns: 10,
+        approval: 'ask',
+      },
+      {
+        id: 'researcher',
+        model: 'openai/gpt-4o',
+        description: '',
+        fallback: [],
+        tools: ['browser', 'schedule'],
+        temperature: 0.2,
+        maxOutputTokens: 4096,
+        maxToolTurns: 25,
+        prompts: ['RESEARCHER.md', 'SOUL.md'],
+        approval: 'deny',
+        thinking: undefined,
+      },
+    ])
+  })
+
+  it('reports invalid sections with field-level errors', () => {
+    const { agents, errors } = parseAgentsMd([
+      '## ok',
+      'Model: openai/gpt-4o',
+      '',
+      '## broken',
+      'Description: no model here',
+      'Temperature: warm',
+      'Approval: sometimes',
+      'Prompts: ../secrets.md',
+    ].join('\n'))
+
+    assert.deepEqual(agents.map((a) => a.id), ['ok'])
+    assert.equal(errors.length, 1)
+    assert.equal(errors[0]!.agentId, 'broken')
+    assert.equal(errors[0]!.line, 4)
+    assert.deepEqual(errors[0]!.errors.map((e) => e.split(':')[0]), [
+      'Model',
+      'Temperature',
+      'Prompts',
+      'Approval',
+    ])
+  })
+})
+
+describe('getAgentConfig', () => {
+  it('loads one agent and explains why others are unusable', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'jarvis-agents-'))
+    try {
+      await writeFile(join(dir, 'AGENTS.md'), `${AGENTS_MD}\n\n## bad\nModel: gpt-4o\n`)
+
+      const agent = await getAgentConfig(dir, 'assistant')
+      assert.deepEqual(agent.fallback, ['openai/gpt-4o', 'local/llama3'])
+
+      await assert.rejects(getAgentConfig(dir, 'bad'), /Agent "bad" in AGENTS.md is invalid: Model:/)
+      await assert.rejects(getAgentConfig(dir, 'missing'), /No model configured for agent "missing"/)
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+describe('agentAllowsTool', () => {
+  it('applies the tool list and the deny approval profile', () => {
+    const [assistant, researcher] = parseAgentsMd(AGENTS_MD).agents
+
+    const bash = { name: 'bash', requiresApproval: true }
+    const browser = { name: 'browser', requiresApproval: true }
+    const schedule = { name: 'schedule', requiresApproval: false }
+
+    assert.equal(agentAllowsTool(assistant!, bash), true)
+    assert.equal(agentAllowsTool(researcher!, bash), false)
+    assert.equal(agentAllowsTool(researcher!, browser), false)
+    assert.equal(agentAllowsTool(researcher!, schedule), true)
+  })
+})
+
+describe('editing agent sections', () => {
+  const DOC = [
+    '# Agents',
+    '',
+    'Shared notes.',
+    '',
+    '## assistant',
+    'Model: anthropic/claude-opus-4-6',
+    'Friendly and brief.',
+    'Thinking: 8000',
+    '',
+    '## researcher',
+    'Model: openai/gpt-4o',
+    '',
+  ].join('\n')
+
+  it('appends a section with fields in the usual order', () => {
+    const next = appendAgentSection(DOC, 'writer', { approval: 'auto', model: 'openai/gpt-4o', tools: [] })
+    assert.ok(next.endsWith('## researcher\nModel: openai/gpt-4o\n\n## writer\nModel: openai/gpt-4o\nTools: none\nApproval: auto\n'))
+    assert.deepEqual(parseAgentsMd(next).agents.find((a) => a.id === 'writer')?.tools, [])
+  })
+
+  it('updates fields in place and keeps prose', () => {
+    const next = updateAgentSection(DOC, 'assistant', {
+      model: 'anthropic/claude-sonnet-4-5',
+      thinking: null,
+      fallback: ['openai/gpt-4o'],
+    })
+    assert.equal(next, [
+      '# Agents',
+      '',
+      'Shared notes.',
+      '',
+      '## assistant',
+      'Model: anthropic/claude-sonnet-4-5',
+      'Friendly and brief.',
+      'Fallback: openai/gpt-4o',
+      '',
+      '## researcher',
+      'Model: openai/gpt-4o',
+      '',
+    ].join('\n'))
+    assert.equal(updateAgentSection(DOC, 'missing', {}), null)
+  })
+
+  it('duplicates and removes whole sections', () => {
+    const copied = duplicateAgentSection(DOC, 'assistant', 'helper')!
+    assert.match(copied, /Thinking: 8000\n\n## helper\nModel: anthropic\/claude-opus-4-6\nFriendly and brief\.\nThinking: 8000\n\n## researcher/)
+
+    const removed = removeAgentSection(copied, 'assistant')!
+    assert.ok(removed.startsWith('# Agents\n\nShared notes.\n\n## helper\n'))
+    assert.deepEqual(parseAgentsMd(removed).agents.map((a) => a.id), ['helper', 'researcher'])
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  agentsCreate,
+  agentsDelete,
+  agentsDuplicate,
+  agentsList,
+  agentsUpdate,
+} from '../src/gateway/methods/agents.js'
+import { RpcError } from '../src/gateway/methods/registry.js'
+import type { MethodContext } from '../src/gateway/methods/types.js'
+import { WorkspaceWatcher } from '../src/agents/workspace-watcher.js'
+import { ConfigSchema } from '../src/config/schema.js'
+import { ToolRegistry } from '../src/tools/registry.js'
+import { AuditLogger } from '../src/security/audit.js'
+import type { ModelProvider } from '../src/agents/providers/types.js'
+
+const AGENTS_MD = [
+  '# Agents',
+  '',
+  '## assistant',
+  'Model: anthropic/claude-opus-4-6',
+  'Answers everything.',
+  '',
+].join('\n')
+
+describe('agents RPC methods', () => {
+  let tmpDir: string
+  let auditPath: string
+  let ctx: MethodContext
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-agents-rpc-'))
+    auditPath = join(tmpDir, 'audit.jsonl')
+    await writeFile(join(tmpDir, 'AGENTS.md'), AGENTS_MD)
+    const workspaceWatcher = new WorkspaceWatcher(tmpDir)
+    await workspaceWatcher.reload()
+
+    const local: ModelProvider = { id: 'local', models: ['llama3'], async *chat() {} }
+    // Only the fields the agents methods use
+    ctx = {
+      config: ConfigSchema.parse({}),
+      workspacePath: tmpDir,
+      workspaceWatcher,
+      providers: new Map([['local', local]]),
+      toolRegistry: new ToolRegistry(),
+      auditLogger: new AuditLogger(auditPath, true),
+    } as unknown as MethodContext
+  })
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('creates, updates, duplicates and deletes agents in AGENTS.md', async () => {
+    const created = await agentsCreate({ id: 'coder', model: 'local/llama3', tools: ['bash'] }, ctx) as { agent: { id: string } }
+    assert.equal(created.agent.id, 'coder')
+
+    await agentsUpdate({ id: 'coder', fields: { temperature: 0.2, tools: null } }, ctx)
+    await agentsDuplicate({ id: 'coder', newId: 'reviewer' }, ctx)
+    await agentsDelete({ id: 'coder' }, ctx)
+
+    assert.equal(await readFile(join(tmpDir, 'AGENTS.md'), 'utf-8'), [
+      '# Agents',
+      '',
+      '## assistant',
+      'Model: anthropic/claude-opus-4-6',
+      'Answers everything.',
+      '',
+      '## reviewer',
+      'Model: local/llama3',
+      'Temperature: 0.2',
+      '',
+    ].join('\n'))
+
+    const listed = await agentsList({}, ctx) as { agents: Array<{ id: string }>; providers: unknown }
+    assert.deepEqual(listed.agents.map((a) => a.id), ['assistant', 'reviewer'])
+    assert.deepEqual(listed.providers, [{ id: 'local', models: ['llama3'] }])
+
+    const audit = (await readFile(auditPath, 'utf-8')).trim().split('\n').map((line) => JSON.parse(line))
+    assert.deepEqual(audit.map((e) => [e.type, e.details.action, e.details.agentId]), [
+      ['config_change', 'agents.create', 'coder'],
+      ['config_change', 'agents.update', 'coder'],
+      ['config_change', 'agents.duplicate', 'reviewer'],
+      ['config_change', 'agents.delete', 'coder'],
+    ])
+  })
+
+  it('rejects edits that would leave the agent invalid and writes nothing', async () => {
+    const before = await readFile(join(tmpDir, 'AGENTS.md'), 'utf-8')
+
+    await assert.rejects(
+      agentsUpdate({ id: 'reviewer', fields: { temperature: 5 } }, ctx),
+      (err: RpcError) => err.code === -32602 && /Invalid agent "reviewer": Temperature:/.test(err.message),
+    )
+    await assert.rejects(agentsCreate({ id: 'assistant', model: 'local/llama3' }, ctx), /already exists/)
+    await assert.rejects(agentsCreate({ id: 'x', model: 'local/llama3', description: 'two\nlines' }, ctx), /single line/)
+    await assert.rejects(agentsDelete({ id: 'assistant' }, ctx), /default agent/)
+
+    assert.equal(await readFile(join(tmpDir, 'AGENTS.md'), 'utf-8'), before)
+  })
+})
@@ -0,0 +1,146 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { AnthropicProvider } from '../src/agents/providers/anthropic.js'
+import type { ChatEvent } from '../src/agents/providers/types.js'
+
+/**
+ * Minimal Messages API server that streams a one-line text answer with
+ * prompt-cache usage and records each request body.
+ */
+function startFakeServer(): Promise<{ server: Server; baseUrl: string; requests: Array<Record<string, any>> }> {
+  const requests: Array<Record<string, any>> = []
+  const events: Array<[string, unknown]> = [
+    ['message_start', {
+      type: 'message_start',
+      message: {
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: 'claude-test',
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: {
+          input_tokens: 12,
+          output_tokens: 1,
+          cache_read_input_tokens: 3_000,
+          cache_creation_input_tokens: 150,
+        },
+      },
+    }],
+    ['content_block_start', { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }],
+    ['content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Done.' } }],
+    ['content_block_stop', { type: 'content_block_stop', index: 0 }],
+    ['message_delta', { type: 'message_delta', delta: { stop_reason: 'end_turn', stop_sequence: null }, usage: { output_tokens: 5 } }],
+    ['message_stop', { type: 'message_stop' }],
+  ]
+
+  const server = createServer((req, res) => {
+    let raw = ''
+    req.on('data', (chunk) => { raw += chunk })
+    req.on('end', () => {
+      requests.push(JSON.parse(raw) as Record<string, any>)
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      for (const [name, data] of events) {
+        res.write(`event: ${name}\ndata: ${JSON.stringify(data)}\n\n`)
+      }
+      res.end()
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}`, requests })
+    })
+  })
+}
+
+async function collect(stream: AsyncIterable<ChatEvent>): Promise<ChatEvent[]> {
+  const events: ChatEvent[] = []
+  for await (const event of stream) events.push(event)
+  return events
+}
+
+describe('AnthropicProvider prompt caching', () => {
+  let fake: Awaited<ReturnType<typeof startFakeServer>>
+  let previousBaseUrl: string | undefined
+
+  before(async () => {
+    fake = await startFakeServer()
+    previousBaseUrl = process.env['ANTHROPIC_BASE_URL']
+    process.env['ANTHROPIC_BASE_URL'] = fake.baseUrl
+  })
+
+  after(() => {
+    if (previousBaseUrl === undefined) delete process.env['ANTHROPIC_BASE_URL']
+    else process.env['ANTHROPIC_BASE_URL'] = previousBaseUrl
+    fake.server.close()
+  })
+
+  it('marks system prompt, tools and conversation prefix as cacheable', async () => {
+    const provider = new AnthropicProvider('test-key')
+
+    await collect(provider.chat({
+      model: 'claude-test',
+      systemPrompt: 'You are Jarvis.',
+      messages: [
+        { role: 'user', content: 'List my jobs' },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'schedule', input: {} }] },
+        { role: 'user', content: [{ type: 'tool_result', toolUseId: 'toolu_1', content: 'No jobs' }] },
+      ],
+      tools: [
+        { name: 'bash', description: 'Shell', inputSchema: { type: 'object' } },
+        { name: 'schedule', description: 'Jobs', inputSchema: { type: 'object' } },
+      ],
+    }))
+
+    const body = fake.requests.at(-1)!
+    assert.deepEqual(body.system, [
+      { type: 'text', text: 'You are Jarvis.', cache_control: { type: 'ephemeral' } },
+    ])
+    assert.equal(body.tools[0].cache_control, undefined)
+    assert.deepEqual(body.tools[1].cache_control, { type: 'ephemeral' })
+    assert.equal(body.messages[0].content, 'List my jobs')
+    assert.deepEqual(body.messages[2].content[0].cache_control, { type: 'ephemeral' })
+  })
+
+  it('turns a plain-text last message into a cacheable text block', async () => {
+    const provider = new AnthropicProvider('test-key')
+
+    await collect(provider.chat({
+      model: 'claude-test',
+      systemPrompt: '',
+      messages: [{ role: 'user', content: 'Hello' }],
+      tools: [],
+    }))
+
+    const body = fake.requests.at(-1)!
+    assert.equal(body.system, undefined)
+    assert.deepEqual(body.messages[0].content, [
+      { type: 'text', text: 'Hello', cache_control: { type: 'ephemeral' } },
+    ])
+  })
+
+  it('reports cache read and write tokens and the stop reason in the final event', async () => {
+    const provider = new AnthropicProvider('test-key')
+
+    const events = await collect(provider.chat({
+      model: 'claude-test',
+      systemPrompt: 'system',
+      messages: [{ role: 'user', content: 'Hi' }],
+      tools: [],
+    }))
+
+    assert.deepEqual(events, [
+      { type: 'delta', text: 'Done.' },
+      {
+        type: 'final',
+        usage: { inputTokens: 12, outputTokens: 5, cacheReadTokens: 3_000, cacheWriteTokens: 150 },
+        stopReason: 'end_turn',
+      },
+    ])
+  })
+})
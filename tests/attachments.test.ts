@@ -0,0 +1,84 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm, readdir } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { SessionManager } from '../src/sessions/manager.js'
+import { chatSend } from '../src/gateway/methods/chat.js'
+import { RpcError } from '../src/gateway/methods/registry.js'
+import type { MethodContext } from '../src/gateway/methods/types.js'
+import {
+  attachmentBlock,
+  attachmentKind,
+  toolImageBlocks,
+} from '../src/sessions/attachments.js'
+
+describe('session attachments', () => {
+  let tmpDir: string
+  let manager: SessionManager
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-attach-'))
+    manager = new SessionManager(tmpDir)
+  })
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('stores files under generated ids in the session attachments dir', async () => {
+    const session = await manager.create()
+    const ref = await session.saveAttachment({
+      name: '../../etc/notes.TXT',
+      mimeType: 'text/plain',
+      data: Buffer.from('hello'),
+    })
+
+    assert.equal(ref.name, '../../etc/notes.TXT')
+    assert.equal(ref.size, 5)
+    assert.match(ref.id, /^[0-9a-f-]{36}\.txt$/)
+    assert.deepEqual(await readdir(session.attachmentsDir), [ref.id])
+    assert.equal((await session.readAttachment(ref)).toString(), 'hello')
+  })
+
+  it('converts stored files into image and document blocks', () => {
+    const png = attachmentBlock(
+      { id: 'a.png', name: 'shot.png', mimeType: 'image/png', size: 3 },
+      Buffer.from('png'),
+    )
+    assert.deepEqual(png, { type: 'image', mimeType: 'image/png', data: 'cG5n', name: 'shot.png' })
+
+    const csv = attachmentBlock(
+      { id: 'b.csv', name: 'data.csv', mimeType: 'text/csv', size: 3 },
+      Buffer.from('a,b'),
+    )
+    assert.equal(csv.type, 'document')
+    assert.equal(csv.mimeType, 'text/plain')
+  })
+
+  it('classifies supported MIME types', () => {
+    assert.equal(attachmentKind('image/webp'), 'image')
+    assert.equal(attachmentKind('application/pdf'), 'pdf')
+    assert.equal(attachmentKind('application/json'), 'text')
+    assert.equal(attachmentKind('application/zip'), null)
+  })
+
+  it('refuses messages whose attachments add up to more than the combined limit', async () => {
+    // Each is under the 10 MB limit, together they are over 50 MB
+    const data = Buffer.alloc(9 * 1024 * 1024, 1).toString('base64')
+    const attachments = Array.from({ length: 6 }, (_, i) => ({ name: `${i}.txt`, mimeType: 'text/plain', data }))
+
+    await assert.rejects(
+      chatSend({ sessionKey: '00000000-0000-4000-8000-000000000000', message: '', attachments }, {} as unknown as MethodContext),
+      (err: RpcError) => err.code === -32602 && /add up to at most 50 MB/.test(err.message),
+    )
+  })
+
+  it('keeps only images from tool attachments', () => {
+    const blocks = toolImageBlocks([
+      { type: 'image', mimeType: 'image/png', data: 'AAAA', name: 'screenshot-1.png' },
+      { type: 'file', mimeType: 'application/zip', data: 'BBBB' },
+    ])
+    assert.deepEqual(blocks, [{ type: 'image', mimeType: 'image/png', data: 'AAAA' }])
+  })
+})
@@ -0,0 +1,205 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { buildTree, forksOnPath, isTree, latestLeaf, pathTo, selectedLeaf } from '../src/sessions/branches.js'
+import { SessionManager } from '../src/sessions/manager.js'
+import { chatHistory, chatSend } from '../src/gateway/methods/chat.js'
+import { sessionsBranches, sessionsSelectBranch } from '../src/gateway/methods/sessions.js'
+import type { MethodContext } from '../src/gateway/methods/types.js'
+import { CircuitBreaker } from '../src/agents/failover.js'
+import { ConfigSchema } from '../src/config/schema.js'
+import { ToolRegistry } from '../src/tools/registry.js'
+import { ApprovalManager } from '../src/tools/approval.js'
+import { BrowserSessionManager } from '../src/tools/browser-session.js'
+import { AuditLogger } from '../src/security/audit.js'
+import { WorkspaceWatcher } from '../src/agents/workspace-watcher.js'
+import type { TranscriptEvent } from '../src/sessions/transcript.js'
+import type { ChatEvent, ChatParams, ModelProvider } from '../src/agents/providers/types.js'
+
+/** Answers every call with the next scripted reply. */
+class ScriptedProvider implements ModelProvider {
+  readonly id = 'anthropic'
+  requests: ChatParams[] = []
+  /** Answers wait for this. */
+  gate: Promise<void> = Promise.resolve()
+
+  constructor(private replies: string[]) {}
+
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
+    this.requests.push(structuredClone(params))
+    await this.gate
+    yield { type: 'delta', text: this.replies[this.requests.length - 1] ?? '' }
+    yield { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } }
+  }
+}
+
+function event(role: TranscriptEvent['role'], content: string): TranscriptEvent {
+  return { role, content, timestamp: Date.now() }
+}
+
+describe('transcript branches', () => {
+  let tmpDir: string
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-branches-'))
+  })
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('reads transcripts without ids as a single branch', () => {
+    const tree = buildTree([event('user', 'a'), event('assistant', 'b'), event('user', 'c')])
+
+    assert.deepEqual(tree.events.map((e) => [e.id, e.parentId]), [
+      ['line-0', null],
+      ['line-1', 'line-0'],
+      ['line-2', 'line-1'],
+    ])
+    assert.equal(selectedLeaf(tree), 'line-2')
+    assert.deepEqual(forksOnPath(tree, pathTo(tree, 'line-2')), [])
+  })
+
+  it('stops walking when parent links form a cycle', () => {
+    const events = [
+      { ...event('user', 'a'), id: 'a', parentId: 'b' },
+      { ...event('assistant', 'b'), id: 'b', parentId: 'a' },
+    ]
+    const tree = buildTree(events)
+
+    assert.equal(isTree(events), false)
+    assert.deepEqual(pathTo(tree, 'a').map((e) => e.id), ['b', 'a'])
+    assert.equal(latestLeaf(tree, 'a'), 'b')
+    assert.equal(isTree([event('user', 'a'), { ...event('assistant', 'b'), parentId: 'line-0' }]), true)
+  })
+
+  it('branches from an earlier event and keeps both paths', async () => {
+    const dir = join(tmpDir, 'sessions')
+    await mkdir(dir, { recursive: true })
+    const session = await new SessionManager(dir).create()
+
+    const u1 = await session.appendEvent(event('user', 'hi'))
+    const a1 = await session.appendEvent(event('assistant', 'hello'))
+    const u2 = await session.appendEvent(event('user', 'tell me a joke'))
+    await session.appendEvent(event('assistant', 'no'))
+
+    await session.branchFrom(a1)
+    const edited = await session.appendEvent(event('user', 'tell me a story'))
+    assert.deepEqual((await session.readEvents()).map((e) => e.content), ['hi', 'hello', 'tell me a story'])
+
+    // A fresh manager reads the selection back from the store
+    const reopened = (await new SessionManager(dir).get(session.meta.key))!
+    assert.equal(reopened.meta.selectedBranch, edited)
+    assert.deepEqual((await reopened.readEvents()).map((e) => e.content), ['hi', 'hello', 'tell me a story'])
+
+    const tree = await reopened.readTree()
+    assert.deepEqual(forksOnPath(tree, await reopened.readEvents()), [
+      { parentId: a1, siblings: [u2, edited], selected: edited },
+    ])
+
+    await reopened.selectBranch(u2)
+    assert.deepEqual((await reopened.readEvents()).map((e) => e.content), ['hi', 'hello', 'tell me a joke', 'no'])
+    assert.equal((await new SessionManager(dir).get(session.meta.key))!.meta.selectedBranch, u2)
+    assert.equal((await reopened.readEvents())[0]!.id, u1)
+  })
+
+  it('edits and regenerates through chat.send and flips between the results', async () => {
+    const workspacePath = join(tmpDir, 'workspace')
+    await mkdir(join(workspacePath, 'sessions'), { recursive: true })
+    await writeFile(join(workspacePath, 'AGENTS.md'), '## assistant\nModel: anthropic/claude-test\n')
+
+    const provider = new ScriptedProvider(['Paris.', 'Paris, France.', 'Berlin.', 'Rome.'])
+    const sessionManager = new SessionManager(join(workspacePath, 'sessions'))
+    const session = await sessionManager.create('assistant')
+    const workspaceWatcher = new WorkspaceWatcher(workspacePath)
+    await workspaceWatcher.reload()
+
+    let finished: () => void = () => {}
+    const ctx = {
+      sendEvent: (name: string) => {
+        if (name === 'chat.final') finished()
+      },
+      config: ConfigSchema.parse({ providers: { retry: { maxRetries: 0 } } }),
+      token: 'test',
+      providers: new Map([['anthropic', provider]]),
+      circuitBreaker: new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 }),
+      workspacePath,
+      workspaceWatcher,
+      sessionManager,
+      activeRuns: new Map(),
+      toolRegistry: new ToolRegistry(),
+      approvalManager: new ApprovalManager(),
+      auditLogger: new AuditLogger(join(tmpDir, 'audit.jsonl'), false),
+      browserSessionManager: new BrowserSessionManager(),
+      memoryDb: null,
+      embedder: null,
+      scheduler: null,
+      usageTracker: null,
+      janitor: null,
+      hub: null,
+      clientId: 'test',
+    } satisfies MethodContext
+
+    const send = async (params: Record<string, unknown>) => {
+      const done = new Promise<void>((resolve) => { finished = resolve })
+      const res = await chatSend({ sessionKey: session.meta.key, ...params }, ctx) as {
+        userEvent?: { id: string; parentId: string | null }
+      }
+      await done
+      return res
+    }
+    type History = { messages: Array<{ id: string; role: string; content: string; siblings?: string[] }> }
+    const answers = async () => ((await chatHistory({ sessionKey: session.meta.key }, ctx)) as History)
+      .messages.filter((m) => m.role === 'user' || m.role === 'assistant')
+
+    const first = await send({ message: 'Capital of France?' })
+    assert.equal(first.userEvent?.parentId, null)
+
+    await send({ parentEventId: first.userEvent!.id, regenerate: true })
+    assert.deepEqual(provider.requests[1]!.messages, [{ role: 'user', content: 'Capital of France?' }])
+    let history = await answers()
+    assert.deepEqual(history.map((m) => m.content), ['Capital of France?', 'Paris, France.'])
+    assert.equal(history[1]!.siblings?.length, 2)
+
+    const edited = await send({ message: 'Capital of Germany?', parentEventId: null })
+    assert.deepEqual(provider.requests[2]!.messages, [{ role: 'user', content: 'Capital of Germany?' }])
+    history = await answers()
+    assert.deepEqual(history.map((m) => m.content), ['Capital of Germany?', 'Berlin.'])
+    assert.deepEqual(history[0]!.siblings, [first.userEvent!.id, edited.userEvent!.id])
+
+    const { forks } = await sessionsBranches({ sessionKey: session.meta.key }, ctx) as {
+      forks: Array<{ alternatives: Array<{ preview: string }> }>
+    }
+    assert.deepEqual(forks[0]!.alternatives.map((a) => a.preview), ['Capital of France?', 'Capital of Germany?'])
+
+    await sessionsSelectBranch({ sessionKey: session.meta.key, eventId: first.userEvent!.id }, ctx)
+    assert.deepEqual((await answers()).map((m) => m.content), ['Capital of France?', 'Paris, France.'])
+
+    await assert.rejects(
+      chatSend({ sessionKey: session.meta.key, parentEventId: 'nope', message: 'hi' }, ctx),
+      /Event not found/,
+    )
+
+    // While a run writes, another client can neither start a second one nor move the head
+    let release: () => void = () => {}
+    provider.gate = new Promise((resolve) => { release = resolve })
+    const running = send({ message: 'And Italy?' })
+    while (provider.requests.length < 4) await new Promise((resolve) => setImmediate(resolve))
+    await assert.rejects(
+      chatSend({ sessionKey: session.meta.key, parentEventId: null, message: 'Capital of Spain?' }, ctx),
+      /already being generated/,
+    )
+    await assert.rejects(
+      sessionsSelectBranch({ sessionKey: session.meta.key, eventId: edited.userEvent!.id }, ctx),
+      /being generated/,
+    )
+    release()
+    await running
+    assert.deepEqual(
+      (await answers()).map((m) => m.content),
+      ['Capital of France?', 'Paris, France.', 'And Italy?', 'Rome.'],
+    )
+  })
+})
@@ -135,3 +135,30 @@ describe('BrowserTool', () => {
     assert.ok(result.output.includes('denied'), 'should indicate denial')
   })
 })
+
+describe('BrowserTool sessions', () => {
+  it('runs calls that share a session one after another, in call order', async () => {
+    const log: string[] = []
+    const page = {
+      click: async (selector: string) => {
+        log.push(`start ${selector}`)
+        await new Promise((resolve) => setTimeout(resolve, selector === '#a' ? 20 : 0))
+        log.push(`end ${selector}`)
+      },
+    }
+    const sessions = {
+      getPage: async (sessionId?: string) => ({ page, sessionId: sessionId ?? 'fresh' }),
+    } as unknown as BrowserSessionManager
+    const queued = new BrowserTool(approvalManager, sessions, config)
+    const { ctx } = makeCtx()
+    const click = (selector: string, sessionId?: string) =>
+      queued.execute({ actions: [{ type: 'click', selector }], ...(sessionId ? { sessionId } : {}) }, ctx)
+
+    await Promise.all([click('#a', 's1'), click('#b', 's1')])
+    assert.deepEqual(log, ['start #a', 'end #a', 'start #b', 'end #b'])
+
+    log.length = 0
+    await Promise.all([click('#a'), click('#b')])
+    assert.deepEqual(log, ['start #a', 'start #b', 'end #b', 'end #a'])
+  })
+})
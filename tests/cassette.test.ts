@@ -0,0 +1,185 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { z } from 'zod'
+import {
+  Cassette,
+  CassetteMismatchError,
+  CassetteRecorder,
+  RecordingProvider,
+  replayProviders,
+} from '../src/agents/providers/cassette.js'
+import { runAgentTurn } from '../src/agents/runner.js'
+import { chatSend } from '../src/gateway/methods/chat.js'
+import type { MethodContext } from '../src/gateway/methods/types.js'
+import { CircuitBreaker } from '../src/agents/failover.js'
+import { ConfigSchema } from '../src/config/schema.js'
+import { SessionManager } from '../src/sessions/manager.js'
+import { ToolRegistry } from '../src/tools/registry.js'
+import { ApprovalManager } from '../src/tools/approval.js'
+import { BrowserSessionManager } from '../src/tools/browser-session.js'
+import { AuditLogger } from '../src/security/audit.js'
+import { WorkspaceWatcher } from '../src/agents/workspace-watcher.js'
+import type { Tool } from '../src/tools/types.js'
+import type { ChatEvent, ChatParams, ModelProvider } from '../src/agents/providers/types.js'
+
+/** Stands in for a real API during recording: one scripted response per call. */
+class ScriptedProvider implements ModelProvider {
+  calls = 0
+
+  constructor(readonly id: string, private script: ChatEvent[][]) {}
+
+  async *chat(_params: ChatParams): AsyncIterable<ChatEvent> {
+    for (const event of this.script[this.calls++] ?? []) {
+      yield event
+    }
+  }
+}
+
+const echoTool: Tool = {
+  name: 'echo',
+  description: 'Echo the input',
+  requiresApproval: false,
+  parallelSafe: true,
+  inputSchema: z.object({ text: z.string() }),
+  toDefinition: () => ({ name: 'echo', description: 'Echo the input', inputSchema: { type: 'object' } }),
+  execute: async (input) => ({ output: `echo: ${(input as { text: string }).text}` }),
+}
+
+const TOOL_FLOW: ChatEvent[][] = [
+  [
+    { type: 'tool_call', name: 'echo', input: { text: 'hi' }, callId: 'call-1' },
+    { type: 'final', usage: { inputTokens: 10, outputTokens: 5 } },
+  ],
+  [
+    { type: 'delta', text: 'The echo said hi.' },
+    { type: 'final', usage: { inputTokens: 20, outputTokens: 5 } },
+  ],
+]
+
+describe('cassette providers', () => {
+  let tmpDir: string
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-cassette-'))
+  })
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  async function runTurn(provider: ModelProvider, question: string): Promise<ChatEvent[]> {
+    const events: ChatEvent[] = []
+    await runAgentTurn({
+      provider,
+      model: 'claude-test',
+      systemPrompt: 'system',
+      messages: [{ role: 'user', content: question }],
+      tools: [echoTool.toDefinition()],
+      onEvent: (event) => events.push(event),
+      onToolCall: async () => 'echo: hi',
+    })
+    return events
+  }
+
+  it('records requests and replays them offline', async () => {
+    const path = join(tmpDir, 'runner.json')
+    const recorder = new CassetteRecorder(path)
+    const recorded = await runTurn(new RecordingProvider(new ScriptedProvider('anthropic', TOOL_FLOW), recorder), 'Echo hi')
+    await recorder.flush()
+
+    const cassette = Cassette.load(path)
+    assert.deepEqual(cassette.providerIds, ['anthropic'])
+    assert.equal(cassette.unplayed, 2)
+
+    const replayed = await runTurn(replayProviders(cassette).get('anthropic')!, 'Echo hi')
+    assert.deepEqual(replayed, recorded)
+    assert.equal(cassette.unplayed, 0)
+  })
+
+  it('names the first field that differs from the recording', async () => {
+    const cassette = Cassette.load(join(tmpDir, 'runner.json'))
+    const provider = replayProviders(cassette).get('anthropic')!
+
+    await assert.rejects(
+      async () => {
+        for await (const _ of provider.chat({
+          model: 'claude-test',
+          systemPrompt: 'system',
+          messages: [{ role: 'user', content: 'Echo bye' }],
+          tools: [echoTool.toDefinition()],
+        })) { /* drain */ }
+      },
+      (err: Error) =>
+        err instanceof CassetteMismatchError &&
+        /messages\[0\]\.content was recorded as "Echo hi" but is now "Echo bye"/.test(err.message),
+    )
+  })
+
+  it('replays a chat.send → tool → final flow', async () => {
+    const workspacePath = join(tmpDir, 'workspace')
+    await mkdir(join(workspacePath, 'sessions'), { recursive: true })
+    await writeFile(join(workspacePath, 'AGENTS.md'), '## assistant\nModel: anthropic/claude-test\nTools: echo\n')
+    const cassettePath = join(tmpDir, 'chat.json')
+
+    async function send(providers: Map<string, ModelProvider>): Promise<{ events: string[]; final: unknown }> {
+      const toolRegistry = new ToolRegistry()
+      toolRegistry.register(echoTool)
+      const sessionManager = new SessionManager(join(workspacePath, 'sessions'))
+      const session = await sessionManager.create('assistant')
+      const workspaceWatcher = new WorkspaceWatcher(workspacePath)
+      await workspaceWatcher.reload()
+      const events: string[] = []
+
+      const final = new Promise<unknown>((resolve, reject) => {
+        const ctx = {
+          sendEvent: (event: string, data: unknown) => {
+            events.push(event)
+            if (event === 'chat.final') resolve(data)
+            if (event === 'chat.error') reject(new Error((data as { message: string }).message))
+          },
+          config: ConfigSchema.parse({ providers: { retry: { maxRetries: 0 } } }),
+          token: 'test',
+          providers,
+          circuitBreaker: new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 }),
+          workspacePath,
+          workspaceWatcher,
+          sessionManager,
+          activeRuns: new Map(),
+          toolRegistry,
+          approvalManager: new ApprovalManager(),
+          auditLogger: new AuditLogger(join(tmpDir, 'audit.jsonl'), false),
+          browserSessionManager: new BrowserSessionManager(),
+          memoryDb: null,
+          embedder: null,
+          scheduler: null,
+          usageTracker: null,
+          janitor: null,
+          hub: null,
+          clientId: 'test',
+        } satisfies MethodContext
+        chatSend({ sessionKey: session.meta.key, message: 'Echo hi' }, ctx).catch(reject)
+      })
+      return { events, final: await final }
+    }
+
+    const recorder = new CassetteRecorder(cassettePath)
+    const live = new ScriptedProvider('anthropic', TOOL_FLOW)
+    const recorded = await send(new Map([['anthropic', new RecordingProvider(live, recorder)]]))
+    await recorder.flush()
+
+    // No real provider from here on: only the cassette
+    const cassette = Cassette.load(cassettePath)
+    const replayed = await send(replayProviders(cassette))
+
+    assert.deepEqual(replayed.events, recorded.events)
+    assert.ok(replayed.events.includes('chat.delta'))
+    assert.deepEqual(
+      (replayed.final as { totalUsage: unknown }).totalUsage,
+      { inputTokens: 30, outputTokens: 10 },
+    )
+    assert.equal(cassette.unplayed, 0)
+  })
+})
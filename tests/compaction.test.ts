@@ -0,0 +1,149 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { SessionManager } from '../src/sessions/manager.js'
+import type { Session } from '../src/sessions/session.js'
+import { compactSession, withConversationSummary } from '../src/sessions/compaction.js'
+import { liveEvents } from '../src/sessions/transcript.js'
+import {
+  DEFAULT_CONTEXT_WINDOW,
+  contextWindowFor,
+  estimatePromptTokens,
+} from '../src/agents/context-window.js'
+import type { ChatEvent, ChatParams, ModelProvider } from '../src/agents/providers/types.js'
+
+/** Provider that answers every request with a fixed summary and records the prompts. */
+class SummaryProvider implements ModelProvider {
+  id = 'stub'
+  requests: ChatParams[] = []
+
+  constructor(private reply: string) {}
+
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
+    this.requests.push(params)
+    yield { type: 'delta', text: this.reply }
+    yield { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } }
+  }
+}
+
+async function appendTurns(session: Session, count: number, offset = 0): Promise<void> {
+  for (let i = offset; i < offset + count; i++) {
+    await session.appendEvent({ role: 'user', content: `question ${i}`, timestamp: i })
+    await session.appendEvent({ role: 'tool_result', content: `tool output ${i}`, timestamp: i, toolName: 'bash' })
+    await session.appendEvent({ role: 'assistant', content: `answer ${i}`, timestamp: i })
+  }
+}
+
+describe('contextWindowFor', () => {
+  it('matches model prefixes and honours overrides', () => {
+    assert.equal(contextWindowFor('anthropic/claude-opus-4-6'), 200_000)
+    assert.equal(contextWindowFor('openai/gpt-4o-mini'), 128_000)
+    assert.equal(contextWindowFor('openai/gpt-4'), 8_192)
+    assert.equal(contextWindowFor('local/llama3'), DEFAULT_CONTEXT_WINDOW)
+    assert.equal(contextWindowFor('local/llama3', { llama3: 8_000 }), 8_000)
+    assert.equal(contextWindowFor('local/llama3', { 'local/llama3': 128_000 }), 128_000)
+  })
+})
+
+describe('estimatePromptTokens', () => {
+  it('counts text, tool definitions and images', () => {
+    const text = estimatePromptTokens('x'.repeat(400), [{ role: 'user', content: 'y'.repeat(40) }])
+    assert.equal(text, 100 + 4 + 10)
+
+    const withImage = estimatePromptTokens('', [{
+      role: 'user',
+      content: [{ type: 'image', mimeType: 'image/png', data: 'AAAA' }],
+    }])
+    assert.equal(withImage, 4 + 1_600)
+  })
+})
+
+describe('compactSession', () => {
+  let tmpDir: string
+  let manager: SessionManager
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-compact-'))
+    manager = new SessionManager(tmpDir)
+  })
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('summarizes older turns and keeps recent ones verbatim', async () => {
+    const session = await manager.create()
+    await appendTurns(session, 5)
+    const provider = new SummaryProvider('The user asked five questions.')
+
+    const result = await compactSession(session, provider, 'stub/model', { keepRecentMessages: 4 })
+
+    assert.deepEqual(result, {
+      summary: 'The user asked five questions.',
+      summarizedMessages: 6,
+      keptMessages: 4,
+    })
+
+    const prompt = provider.requests[0]!.messages[0]!.content as string
+    assert.match(prompt, /question 0/)
+    assert.match(prompt, /\[tool result: bash\]\ntool output 2/)
+    assert.doesNotMatch(prompt, /question 3/)
+    assert.deepEqual(provider.requests[0]!.tools, [])
+
+    const live = liveEvents(await session.readEvents())
+    assert.equal(live.summary?.content, 'The user asked five questions.')
+    assert.deepEqual(
+      live.events.map((e) => e.content),
+      ['question 3', 'tool output 3', 'answer 3', 'question 4', 'tool output 4', 'answer 4'],
+    )
+  })
+
+  it('keeps the recent part starting at a user message', async () => {
+    const session = await manager.create()
+    await appendTurns(session, 4)
+
+    // 8 messages, keep 3 -> the cut moves back to "question 2"
+    await compactSession(session, new SummaryProvider('summary'), 'stub/model', { keepRecentMessages: 3 })
+
+    const live = liveEvents(await session.readEvents())
+    assert.equal(live.events[0]?.content, 'question 2')
+  })
+
+  it('folds the previous summary into the next compaction', async () => {
+    const session = await manager.create()
+    await appendTurns(session, 3)
+    await compactSession(session, new SummaryProvider('first summary'), 'stub/model', { keepRecentMessages: 2 })
+    await appendTurns(session, 2, 3)
+
+    const provider = new SummaryProvider('second summary')
+    const result = await compactSession(session, provider, 'stub/model', { keepRecentMessages: 2 })
+
+    assert.equal(result?.summarizedMessages, 4)
+    const prompt = provider.requests[0]!.messages[0]!.content as string
+    assert.match(prompt, /first summary/)
+    assert.match(prompt, /question 2/)
+    assert.doesNotMatch(prompt, /question 0/)
+
+    const live = liveEvents(await session.readEvents())
+    assert.equal(live.summary?.content, 'second summary')
+    assert.deepEqual(live.events.map((e) => e.content), ['question 4', 'tool output 4', 'answer 4'])
+  })
+
+  it('returns null when there is nothing old enough to compact', async () => {
+    const session = await manager.create()
+    await appendTurns(session, 2)
+    const provider = new SummaryProvider('unused')
+
+    assert.equal(await compactSession(session, provider, 'stub/model', { keepRecentMessages: 4 }), null)
+    assert.equal(provider.requests.length, 0)
+  })
+})
+
+describe('withConversationSummary', () => {
+  it('appends the summary as a system prompt section', () => {
+    assert.equal(withConversationSummary('base', null), 'base')
+    assert.match(withConversationSummary('base', 'they like tea'), /^base\n\n---\n\n# Earlier Conversation.*\n\nthey like tea$/s)
+  })
+})
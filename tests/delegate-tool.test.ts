@@ -0,0 +1,233 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { z } from 'zod'
+import { DelegateTool } from '../src/tools/delegate.js'
+import { ToolRegistry } from '../src/tools/registry.js'
+import type { Tool, ToolContext } from '../src/tools/types.js'
+import { SessionManager } from '../src/sessions/manager.js'
+import { AuditLogger } from '../src/security/audit.js'
+import { CircuitBreaker } from '../src/agents/failover.js'
+import { ConfigSchema } from '../src/config/schema.js'
+import type { ChatEvent, ChatParams, ModelProvider } from '../src/agents/providers/types.js'
+
+/** Provider that plays back one scripted response per call and records the requests. */
+class ScriptedProvider implements ModelProvider {
+  id = 'stub'
+  requests: ChatParams[] = []
+
+  constructor(private script: ChatEvent[][]) {}
+
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
+    this.requests.push(params)
+    for (const event of this.script[this.requests.length - 1] ?? []) {
+      yield event
+    }
+  }
+}
+
+const echoTool: Tool = {
+  name: 'echo',
+  description: 'Echo the input',
+  requiresApproval: false,
+  parallelSafe: true,
+  inputSchema: z.object({ text: z.string() }),
+  toDefinition: () => ({ name: 'echo', description: 'Echo the input', inputSchema: { type: 'object' } }),
+  execute: async (input) => ({ output: `echo: ${(input as { text: string }).text}` }),
+}
+
+/** An approval-gated tool that records whether it would have prompted. */
+function gatedTool(calls: Array<boolean | undefined>): Tool {
+  return {
+    name: 'gated',
+    description: 'Needs approval',
+    requiresApproval: true,
+    parallelSafe: false,
+    inputSchema: z.object({}),
+    toDefinition: () => ({ name: 'gated', description: 'Needs approval', inputSchema: { type: 'object' } }),
+    execute: async (_input, context) => {
+      calls.push(context.autoApprove)
+      return { output: 'gated ran' }
+    },
+  }
+}
+
+const AGENTS_MD = [
+  '## assistant',
+  'Model: stub/main',
+  '',
+  '## helper',
+  'Model: stub/helper',
+  'Tools: echo',
+  '',
+  '## runner',
+  'Model: stub/runner',
+  'Approval: auto',
+  'Tools: gated',
+].join('\n')
+
+describe('DelegateTool', () => {
+  let tmpDir: string
+  let sessionManager: SessionManager
+
+  function createTool(provider: ModelProvider, delegation = {}, extraTools: Tool[] = []) {
+    const toolRegistry = new ToolRegistry()
+    toolRegistry.register(echoTool)
+    for (const extra of extraTools) toolRegistry.register(extra)
+    const tool = new DelegateTool({
+      workspacePath: tmpDir,
+      providers: new Map([['stub', provider]]),
+      circuitBreaker: new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 }),
+      sessionManager,
+      toolRegistry,
+      auditLogger: new AuditLogger(join(tmpDir, 'audit.jsonl'), false),
+      config: ConfigSchema.parse({ agents: { delegation }, providers: { retry: { maxRetries: 0 } } }),
+    })
+    toolRegistry.register(tool)
+    return tool
+  }
+
+  function context(overrides: Partial<ToolContext> = {}): ToolContext {
+    return {
+      sessionKey: 'parent-session',
+      runId: 'parent-run',
+      sendEvent: () => {},
+      reportProgress: () => {},
+      config: ConfigSchema.parse({}),
+      ...overrides,
+    }
+  }
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-delegate-'))
+    await mkdir(join(tmpDir, 'sessions'))
+    await writeFile(join(tmpDir, 'AGENTS.md'), AGENTS_MD)
+    sessionManager = new SessionManager(join(tmpDir, 'sessions'))
+  })
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('runs the agent with its own tools and records a linked child session', async () => {
+    const provider = new ScriptedProvider([
+      [
+        { type: 'tool_call', name: 'echo', input: { text: 'hi' }, callId: 'c1' },
+        { type: 'final', usage: { inputTokens: 10, outputTokens: 5 } },
+      ],
+      [
+        { type: 'delta', text: 'The echo said hi.' },
+        { type: 'final', usage: { inputTokens: 20, outputTokens: 5 } },
+      ],
+    ])
+    const progress: string[] = []
+    const tool = createTool(provider)
+
+    const result = await tool.execute(
+      { agentId: 'helper', task: 'Echo hi' },
+      context({ reportProgress: (m) => progress.push(m) }),
+    )
+
+    assert.equal(result.output, 'The echo said hi.')
+    assert.equal(provider.requests[0]!.model, 'helper')
+    assert.deepEqual(provider.requests[0]!.tools?.map((t) => t.name), ['echo'])
+    assert.ok(progress.includes('helper: running echo'), progress.join('\n'))
+
+    const child = await sessionManager.get(result.childSessionKey!)
+    assert.equal(child?.meta.parentSessionKey, 'parent-session')
+    assert.equal(child?.meta.parentRunId, 'parent-run')
+    const events = await child!.readEvents()
+    assert.deepEqual(events.map((e) => e.role), ['user', 'tool_use', 'tool_result', 'assistant', 'usage'])
+    assert.equal(events[1]!.toolCalls?.[0]?.name, 'echo')
+    assert.equal(events[2]!.content, 'echo: hi')
+    assert.equal(events[2]!.toolCallId, events[1]!.toolCalls?.[0]?.id)
+  })
+
+  it('refuses to delegate past the depth limit', async () => {
+    const provider = new ScriptedProvider([])
+    const tool = createTool(provider, { maxDepth: 1 })
+
+    const result = await tool.execute({ agentId: 'helper', task: 'anything' }, context({ delegationDepth: 1 }))
+
+    assert.match(result.output, /depth limit \(1\)/)
+    assert.equal(provider.requests.length, 0)
+  })
+
+  it('only offers the delegate tool while another level is allowed', async () => {
+    const provider = new ScriptedProvider([[
+      { type: 'delta', text: 'done' },
+      { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } },
+    ]])
+    const tool = createTool(provider, { maxDepth: 1 })
+
+    await tool.execute({ agentId: 'assistant', task: 'anything' }, context())
+
+    assert.deepEqual(provider.requests[0]!.tools?.map((t) => t.name), ['echo'])
+  })
+
+  it('never gives a sub-agent more approval rights than its caller', async () => {
+    const callGated = () => new ScriptedProvider([
+      [
+        { type: 'tool_call', name: 'gated', input: {}, callId: 'c1' },
+        { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } },
+      ],
+      [
+        { type: 'delta', text: 'done' },
+        { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } },
+      ],
+    ])
+    const calls: Array<boolean | undefined> = []
+
+    // An `auto` agent still prompts when its caller would have
+    await createTool(callGated(), {}, [gatedTool(calls)]).execute({ agentId: 'runner', task: 'go' }, context())
+    await createTool(callGated(), {}, [gatedTool(calls)])
+      .execute({ agentId: 'runner', task: 'go' }, context({ autoApprove: true }))
+    assert.deepEqual(calls, [false, true])
+
+    // A caller's `deny` holds for the agents it delegates to
+    const provider = callGated()
+    await createTool(provider, {}, [gatedTool(calls)])
+      .execute({ agentId: 'runner', task: 'go' }, context({ autoApprove: true, approvalToolsDenied: true }))
+    assert.deepEqual(provider.requests[0]!.tools, [])
+    assert.equal(calls.length, 2)
+  })
+
+  it('stops the sub-agent once its token budget is spent', async () => {
+    const provider = new ScriptedProvider([
+      [
+        { type: 'tool_call', name: 'echo', input: { text: 'hi' }, callId: 'c1' },
+        { type: 'final', usage: { inputTokens: 80, outputTokens: 30 } },
+      ],
+      [
+        { type: 'delta', text: 'never sent' },
+        { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } },
+      ],
+    ])
+    const tool = createTool(provider, { tokenBudget: 100 })
+
+    const result = await tool.execute({ agentId: 'helper', task: 'Echo hi' }, context())
+
+    assert.match(result.output, /Token budget of 100 exhausted/)
+    assert.equal(provider.requests.length, 1)
+  })
+
+  it('stops when the parent run is aborted', async () => {
+    const controller = new AbortController()
+    const provider: ModelProvider = {
+      id: 'stub',
+      async *chat() {
+        yield { type: 'delta', text: 'partial' }
+        controller.abort()
+        yield { type: 'delta', text: ' more' }
+        yield { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } }
+      },
+    }
+    const tool = createTool(provider)
+
+    const result = await tool.execute({ agentId: 'helper', task: 'Echo hi' }, context({ signal: controller.signal }))
+
+    assert.equal(result.output, 'Error: Delegation aborted')
+  })
+})
@@ -0,0 +1,301 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  CircuitBreaker,
+  FailoverProvider,
+  createAgentProvider,
+  resolveModelChain,
+  type RetryPolicy,
+} from '../src/agents/failover.js'
+import type { ChatEvent, ModelProvider } from '../src/agents/providers/types.js'
+import { AgentConfigSchema } from '../src/agents/agent-config.js'
+import { ConfigSchema } from '../src/config/schema.js'
+
+/** Provider that plays back one scripted response per call. */
+class ScriptedProvider implements ModelProvider {
+  calls: string[] = []
+
+  constructor(public id: string, private script: ChatEvent[][]) {}
+
+  async *chat(params: { model: string }): AsyncIterable<ChatEvent> {
+    this.calls.push(params.model)
+    const events = this.script.shift() ?? [{ type: 'error', message: 'script exhausted' }]
+    for (const event of events) yield event
+  }
+}
+
+const FAST_RETRY: RetryPolicy = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 2 }
+
+const ok = (text: string): ChatEvent[] => [
+  { type: 'delta', text },
+  { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } },
+]
+const overloaded: ChatEvent[] = [{ type: 'error', message: 'Overloaded', status: 529, retryable: true }]
+const badRequest: ChatEvent[] = [{ type: 'error', message: 'Invalid model', status: 400, retryable: false }]
+
+async function collect(stream: AsyncIterable<ChatEvent>): Promise<ChatEvent[]> {
+  const events: ChatEvent[] = []
+  for await (const event of stream) events.push(event)
+  return events
+}
+
+function newBreaker(): CircuitBreaker {
+  return new CircuitBreaker({ failureThreshold: 3, cooldownMs: 60_000 })
+}
+
+const params = { model: 'ignored', systemPrompt: '', messages: [], tools: [] }
+
+describe('FailoverProvider', () => {
+  it('retries transient errors on the same provider', async () => {
+    const primary = new ScriptedProvider('anthropic', [overloaded, ok('hello')])
+    const provider = new FailoverProvider(
+      [{ provider: primary, model: 'claude' }],
+      FAST_RETRY,
+      newBreaker(),
+    )
+
+    const events = await collect(provider.chat(params))
+
+    assert.deepEqual(events, ok('hello'))
+    assert.deepEqual(primary.calls, ['claude', 'claude'])
+  })
+
+  it('switches to the next candidate once retries are exhausted', async () => {
+    const primary = new ScriptedProvider('anthropic', [overloaded, overloaded, overloaded])
+    const backup = new ScriptedProvider('openai', [ok('from backup')])
+    const provider = new FailoverProvider(
+      [{ provider: primary, model: 'claude' }, { provider: backup, model: 'gpt-4o' }],
+      FAST_RETRY,
+      newBreaker(),
+    )
+
+    const events = await collect(provider.chat(params))
+
+    assert.deepEqual(events[0], {
+      type: 'provider_switched',
+      from: 'anthropic/claude',
+      to: 'openai/gpt-4o',
+      reason: 'Overloaded',
+    })
+    assert.deepEqual(events.slice(1), ok('from backup'))
+    assert.equal(primary.calls.length, 3)
+    assert.equal(provider.activeRef, 'openai/gpt-4o')
+  })
+
+  it('fails over immediately on non-retryable errors', async () => {
+    const primary = new ScriptedProvider('anthropic', [badRequest])
+    const backup = new ScriptedProvider('openai', [ok('ok')])
+    const provider = new FailoverProvider(
+      [{ provider: primary, model: 'claude' }, { provider: backup, model: 'gpt-4o' }],
+      FAST_RETRY,
+      newBreaker(),
+    )
+
+    const events = await collect(provider.chat(params))
+
+    assert.equal(primary.calls.length, 1)
+    assert.equal(events[0]?.type, 'provider_switched')
+    assert.deepEqual(events.slice(1), ok('ok'))
+  })
+
+  it('surfaces an error without replaying once output has streamed', async () => {
+    const primary = new ScriptedProvider('anthropic', [[
+      { type: 'delta', text: 'partial' },
+      { type: 'error', message: 'Connection reset', retryable: true },
+    ]])
+    const backup = new ScriptedProvider('openai', [ok('never')])
+    const provider = new FailoverProvider(
+      [{ provider: primary, model: 'claude' }, { provider: backup, model: 'gpt-4o' }],
+      FAST_RETRY,
+      newBreaker(),
+    )
+
+    const events = await collect(provider.chat(params))
+
+    assert.deepEqual(events, [
+      { type: 'delta', text: 'partial' },
+      { type: 'error', message: 'Connection reset', retryable: true },
+    ])
+    assert.equal(backup.calls.length, 0)
+  })
+
+  it('keeps the answering candidate for later turns', async () => {
+    const primary = new ScriptedProvider('anthropic', [badRequest])
+    const backup = new ScriptedProvider('openai', [ok('turn 1'), ok('turn 2')])
+    const provider = new FailoverProvider(
+      [{ provider: primary, model: 'claude' }, { provider: backup, model: 'gpt-4o' }],
+      FAST_RETRY,
+      newBreaker(),
+    )
+
+    await collect(provider.chat(params))
+    const second = await collect(provider.chat(params))
+
+    assert.deepEqual(second, ok('turn 2'))
+    assert.equal(primary.calls.length, 1)
+  })
+
+  it('skips providers whose circuit is open', async () => {
+    const breaker = newBreaker()
+    for (let i = 0; i < 3; i++) breaker.recordFailure('anthropic')
+
+    const primary = new ScriptedProvider('anthropic', [ok('never')])
+    const backup = new ScriptedProvider('openai', [ok('ok')])
+    const provider = new FailoverProvider(
+      [{ provider: primary, model: 'claude' }, { provider: backup, model: 'gpt-4o' }],
+      FAST_RETRY,
+      breaker,
+    )
+
+    const events = await collect(provider.chat(params))
+
+    assert.equal(primary.calls.length, 0)
+    assert.deepEqual(events[0], {
+      type: 'provider_switched',
+      from: 'anthropic/claude',
+      to: 'openai/gpt-4o',
+      reason: 'circuit open for "anthropic"',
+    })
+  })
+
+  it('stops waiting out a backoff once aborted', async () => {
+    const primary = new ScriptedProvider('anthropic', [overloaded, ok('late')])
+    const provider = new FailoverProvider(
+      [{ provider: primary, model: 'claude' }],
+      { maxRetries: 1, baseDelayMs: 60_000, maxDelayMs: 60_000 },
+      newBreaker(),
+    )
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 10)
+
+    const started = Date.now()
+    const events = await collect(provider.chat({ ...params, signal: controller.signal }))
+
+    assert.ok(Date.now() - started < 5_000)
+    assert.deepEqual(events, [])
+    assert.deepEqual(primary.calls, ['claude'])
+  })
+
+  it('reports refs without a configured provider on the first call', async () => {
+    const fallback = new ScriptedProvider('openai', [ok('one'), ok('two')])
+    const provider = new FailoverProvider(
+      [{ provider: fallback, model: 'gpt-4o' }],
+      FAST_RETRY,
+      newBreaker(),
+      ['anthropic/claude-opus-4-6', 'local/llama3'],
+    )
+
+    assert.deepEqual(await collect(provider.chat(params)), [
+      {
+        type: 'provider_switched',
+        from: 'anthropic/claude-opus-4-6',
+        to: 'openai/gpt-4o',
+        reason: 'provider not configured for anthropic/claude-opus-4-6, local/llama3',
+      },
+      ...ok('one'),
+    ])
+    // Only the first call reports it
+    assert.deepEqual(await collect(provider.chat(params)), ok('two'))
+  })
+
+  it('reports an error when every circuit is open', async () => {
+    const breaker = newBreaker()
+    for (let i = 0; i < 3; i++) breaker.recordFailure('anthropic')
+
+    const provider = new FailoverProvider(
+      [{ provider: new ScriptedProvider('anthropic', []), model: 'claude' }],
+      FAST_RETRY,
+      breaker,
+    )
+
+    const events = await collect(provider.chat(params))
+
+    assert.equal(events.length, 1)
+    assert.equal(events[0]?.type, 'error')
+  })
+})
+
+describe('CircuitBreaker', () => {
+  it('opens at the threshold and half-opens after the cooldown', () => {
+    let now = 0
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1_000 }, () => now)
+
+    breaker.recordFailure('openai')
+    assert.equal(breaker.state('openai'), 'closed')
+    breaker.recordFailure('openai')
+    assert.equal(breaker.state('openai'), 'open')
+    assert.equal(breaker.canAttempt('openai'), false)
+
+    now = 1_000
+    assert.equal(breaker.state('openai'), 'half_open')
+
+    // A failed trial re-opens straight away
+    breaker.recordFailure('openai')
+    assert.equal(breaker.state('openai'), 'open')
+
+    now = 2_000
+    breaker.recordSuccess('openai')
+    assert.equal(breaker.state('openai'), 'closed')
+  })
+})
+
+describe('resolveModelChain', () => {
+  it('keeps configured providers in order and reports missing ones', () => {
+    const providers = new Map<string, ModelProvider>([
+      ['openai', new ScriptedProvider('openai', [])],
+      ['local', new ScriptedProvider('local', [])],
+    ])
+
+    const chain = resolveModelChain(providers, [
+      'anthropic/claude-opus-4-6',
+      'local/llama3',
+      'openai/gpt-4o',
+      'local/llama3',
+    ])
+
+    assert.deepEqual(
+      chain.candidates.map((c) => `${c.provider.id}/${c.model}`),
+      ['local/llama3', 'openai/gpt-4o'],
+    )
+    assert.deepEqual(chain.missing, ['anthropic/claude-opus-4-6'])
+  })
+
+  it('falls back to a default model when nothing in the chain is configured', () => {
+    const providers = new Map<string, ModelProvider>([
+      ['openai', new ScriptedProvider('openai', [])],
+    ])
+
+    const chain = resolveModelChain(providers, ['anthropic/claude-opus-4-6'])
+
+    assert.deepEqual(
+      chain.candidates.map((c) => `${c.provider.id}/${c.model}`),
+      ['openai/gpt-4o-mini'],
+    )
+  })
+})
+
+describe('createAgentProvider', () => {
+  it("says so when the agent's own model has no configured provider", async () => {
+    const providers = new Map<string, ModelProvider>([
+      ['openai', new ScriptedProvider('openai', [ok('one'), ok('two')])],
+    ])
+    const provider = createAgentProvider({
+      agent: AgentConfigSchema.parse({ id: 'assistant', model: 'anthropic/claude-opus-4-6', fallback: ['local/llama3'] }),
+      providers,
+      config: ConfigSchema.parse({}),
+      breaker: newBreaker(),
+    })
+
+    assert.deepEqual(await collect(provider.chat(params)), [
+      {
+        type: 'provider_switched',
+        from: 'anthropic/claude-opus-4-6',
+        to: 'openai/gpt-4o-mini',
+        reason: 'provider not configured for anthropic/claude-opus-4-6, local/llama3',
+      },
+      ...ok('one'),
+    ])
+    // Only the first call reports it
+    assert.deepEqual(await collect(provider.chat(params)), ok('two'))
+  })
+})
@@ -1,6 +1,6 @@
 import { describe, it, before, after } from 'node:test'
 import assert from 'node:assert/strict'
-import { mkdtemp, writeFile, rm, mkdir } from 'node:fs/promises'
+import { mkdtemp, writeFile, rm } from 'node:fs/promises'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
 import { openMemoryDb, type MemoryDb } from '../src/memory/db.js'
@@ -8,6 +8,7 @@ import { chunkText, IndexManager } from '../src/memory/indexer.js'
 import { hybridSearch } from '../src/memory/search.js'
 import { float32ToBlob, blobToFloat32 } from '../src/memory/embeddings.js'
 import { indexSessionTranscripts } from '../src/memory/session-files.js'
+import { SessionManager } from '../src/sessions/manager.js'
 
 // ─── chunkText ──────────────────────────────────────────────
 
@@ -102,6 +103,17 @@ describe('openMemoryDb', () => {
     const row = db.prepare('SELECT path FROM files WHERE path = ?').get('/tmp/test.txt') as { path: string }
     assert.equal(row.path, '/tmp/test.txt')
   })
+
+  it('adds columns missing from tables created by older versions', () => {
+    db.close()
+    db = openMemoryDb(join(tmpDir, 'test.db'))
+    db.exec('ALTER TABLE job_runs DROP COLUMN result')
+    db.close()
+
+    db = openMemoryDb(join(tmpDir, 'test.db'))
+    const columns = db.prepare('PRAGMA table_info(job_runs)').all() as Array<{ name: string }>
+    assert.ok(columns.some((c) => c.name === 'result'))
+  })
 })
 
 // ─── IndexManager ──────────────────────────────────────────
@@ -243,40 +255,41 @@ describe('hybridSearch (keyword-only)', () => {
 
 describe('indexSessionTranscripts', () => {
   let tmpDir: string
-  let sessionsDir: string
+  let sessionManager: SessionManager
   let db: MemoryDb
 
   before(async () => {
     tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-sess-'))
-    sessionsDir = join(tmpDir, 'sessions')
-    await mkdir(sessionsDir, { recursive: true })
+    sessionManager = new SessionManager(join(tmpDir, 'sessions'))
     db = openMemoryDb(join(tmpDir, 'test.db'))
   })
 
   after(async () => {
+    await sessionManager.close()
     try { db.close() } catch { /* ok */ }
     await rm(tmpDir, { recursive: true, force: true })
   })
 
-  it('indexes JSONL transcript files', async () => {
-    const transcript = [
-      JSON.stringify({ role: 'user', content: 'How do I deploy to Kubernetes?', timestamp: 1700000000000 }),
-      JSON.stringify({ role: 'assistant', content: 'You can use kubectl apply -f deployment.yaml to deploy resources to your Kubernetes cluster.', timestamp: 1700000001000 }),
-    ].join('\n')
+  it('handles an empty session store', async () => {
+    const indexer = new IndexManager(db, null)
+    const result = await indexSessionTranscripts(indexer, sessionManager)
+    assert.equal(result.indexed, 0)
+    assert.equal(result.skipped, 0)
+  })
 
-    await writeFile(join(sessionsDir, 'session-001.jsonl'), transcript, 'utf-8')
+  it('indexes session transcripts', async () => {
+    const session = await sessionManager.create('assistant')
+    await session.appendEvent({ role: 'user', content: 'How do I deploy to Kubernetes?', timestamp: 1700000000000 })
+    await session.appendEvent({ role: 'assistant', content: 'You can use kubectl apply -f deployment.yaml to deploy resources to your Kubernetes cluster.', timestamp: 1700000001000 })
 
     const indexer = new IndexManager(db, null)
-    const result = await indexSessionTranscripts(indexer, sessionsDir)
+    const result = await indexSessionTranscripts(indexer, sessionManager)
     assert.equal(result.indexed, 1)
   })
 
-  it('skips non-JSONL files', async () => {
-    await writeFile(join(sessionsDir, 'readme.md'), '# Not a transcript', 'utf-8')
-
+  it('skips unchanged transcripts', async () => {
     const indexer = new IndexManager(db, null)
-    const result = await indexSessionTranscripts(indexer, sessionsDir)
-    // session-001 should be skipped (already indexed), readme.md ignored
+    const result = await indexSessionTranscripts(indexer, sessionManager)
     assert.equal(result.indexed, 0)
     assert.equal(result.skipped, 1)
   })
@@ -286,11 +299,4 @@ describe('indexSessionTranscripts', () => {
     assert.ok(results.length >= 1, 'Should find the transcript about Kubernetes')
     assert.ok(results[0]!.content.includes('Kubernetes'))
   })
-
-  it('handles missing sessions directory gracefully', async () => {
-    const indexer = new IndexManager(db, null)
-    const result = await indexSessionTranscripts(indexer, '/no/such/dir')
-    assert.equal(result.indexed, 0)
-    assert.equal(result.skipped, 0)
-  })
 })
@@ -0,0 +1,214 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { OpenAICompatibleProvider } from '../src/agents/providers/openai-compatible.js'
+import { ProviderConfigSchema } from '../src/config/schema.js'
+import { parseModelRef } from '../src/agents/model-ref.js'
+import type { ChatEvent } from '../src/agents/providers/types.js'
+
+/**
+ * Minimal OpenAI-compatible server that streams a canned list of chunks
+ * for every chat completion request and records the requests it received.
+ */
+function startFakeServer(chunks: unknown[]): Promise<{
+  server: Server
+  baseUrl: string
+  requests: Array<{ headers: Record<string, unknown>; body: Record<string, unknown> }>
+}> {
+  const requests: Array<{ headers: Record<string, unknown>; body: Record<string, unknown> }> = []
+
+  const server = createServer((req, res) => {
+    let raw = ''
+    req.on('data', (chunk) => { raw += chunk })
+    req.on('end', () => {
+      requests.push({ headers: req.headers, body: JSON.parse(raw) as Record<string, unknown> })
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      for (const chunk of chunks) {
+        res.write(`data: ${JSON.stringify(chunk)}\n\n`)
+      }
+      res.end('data: [DONE]\n\n')
+    })
+  })
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo
+      resolve({ server, baseUrl: `http://127.0.0.1:${port}/v1`, requests })
+    })
+  })
+}
+
+function chunk(delta: Record<string, unknown>, finishReason: string | null = null) {
+  return {
+    id: 'chatcmpl-1',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'llama3',
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  }
+}
+
+async function collect(stream: AsyncIterable<ChatEvent>): Promise<ChatEvent[]> {
+  const events: ChatEvent[] = []
+  for await (const event of stream) events.push(event)
+  return events
+}
+
+describe('OpenAICompatibleProvider', () => {
+  let fake: Awaited<ReturnType<typeof startFakeServer>>
+
+  before(async () => {
+    // Ollama-style stream: tool call in a single chunk, finish_reason "stop", no usage chunk
+    fake = await startFakeServer([
+      chunk({ role: 'assistant', content: 'Checking.' }),
+      chunk({
+        tool_calls: [{
+          index: 0,
+          id: 'call_abc',
+          type: 'function',
+          function: { name: 'schedule', arguments: '{"action":"list"}' },
+        }],
+      }),
+      chunk({}, 'stop'),
+    ])
+  })
+
+  after(() => {
+    fake.server.close()
+  })
+
+  it('streams text and tool calls from a server that finishes with "stop"', async () => {
+    const provider = new OpenAICompatibleProvider(ProviderConfigSchema.parse({
+      id: 'local',
+      baseUrl: fake.baseUrl,
+      headers: { 'X-Team': 'jarvis' },
+      models: ['llama3'],
+    }))
+
+    const events = await collect(provider.chat({
+      model: 'llama3',
+      systemPrompt: 'system',
+      messages: [{ role: 'user', content: 'List jobs' }],
+      tools: [{ name: 'schedule', description: 'Jobs', inputSchema: { type: 'object' } }],
+    }))
+
+    assert.deepEqual(events, [
+      { type: 'delta', text: 'Checking.' },
+      { type: 'tool_call', name: 'schedule', input: { action: 'list' }, callId: 'call_abc' },
+      { type: 'final', usage: { inputTokens: 0, outputTokens: 0 }, stopReason: 'end_turn' },
+    ])
+
+    const request = fake.requests.at(-1)!
+    assert.equal(request.body.model, 'llama3')
+    assert.equal(request.headers['x-team'], 'jarvis')
+    assert.equal(request.headers['authorization'], 'Bearer not-needed')
+  })
+
+  it('joins tool call deltas that arrive without an index', async () => {
+    const unindexed = await startFakeServer([
+      chunk({ tool_calls: [{ id: 'call_a', type: 'function', function: { name: 'schedule', arguments: '{"act' } }] }),
+      chunk({ tool_calls: [{ function: { arguments: 'ion":"list"}' } }] }),
+      chunk({ tool_calls: [{ id: 'call_b', type: 'function', function: { name: 'echo', arguments: '' } }] }),
+      chunk({ tool_calls: [{ id: 'call_b', function: { arguments: '{"text":"hi"}' } }] }),
+      chunk({}, 'tool_calls'),
+    ])
+    try {
+      const provider = new OpenAICompatibleProvider(ProviderConfigSchema.parse({ id: 'local', baseUrl: unindexed.baseUrl }))
+      const events = await collect(provider.chat({
+        model: 'llama3',
+        systemPrompt: '',
+        messages: [{ role: 'user', content: 'Go' }],
+        tools: [],
+      }))
+
+      assert.deepEqual(events.filter((e) => e.type === 'tool_call'), [
+        { type: 'tool_call', name: 'schedule', input: { action: 'list' }, callId: 'call_a' },
+        { type: 'tool_call', name: 'echo', input: { text: 'hi' }, callId: 'call_b' },
+      ])
+    } finally {
+      unindexed.server.close()
+    }
+  })
+
+  it('uses its configured id and model list', () => {
+    const provider = new OpenAICompatibleProvider(ProviderConfigSchema.parse({
+      id: 'local',
+      baseUrl: fake.baseUrl,
+      models: ['llama3', 'qwen2.5-coder'],
+    }))
+
+    assert.equal(provider.id, 'local')
+    assert.deepEqual(provider.models, ['llama3', 'qwen2.5-coder'])
+    assert.deepEqual(parseModelRef('local/llama3'), { provider: 'local', model: 'llama3' })
+  })
+
+  it('reads the API key from the configured environment variable', async () => {
+    process.env['JARVIS_TEST_LOCAL_KEY'] = 'secret-local-key'
+    try {
+      const provider = new OpenAICompatibleProvider(ProviderConfigSchema.parse({
+        id: 'vllm',
+        baseUrl: fake.baseUrl,
+        apiKeyEnv: 'JARVIS_TEST_LOCAL_KEY',
+      }))
+      await collect(provider.chat({
+        model: 'llama3',
+        systemPrompt: '',
+        messages: [{ role: 'user', content: 'Hi' }],
+        tools: [],
+      }))
+      assert.equal(fake.requests.at(-1)!.headers['authorization'], 'Bearer secret-local-key')
+    } finally {
+      delete process.env['JARVIS_TEST_LOCAL_KEY']
+    }
+  })
+
+  it('sends attachments and tool screenshots as user content parts', async () => {
+    const provider = new OpenAICompatibleProvider(ProviderConfigSchema.parse({
+      id: 'local',
+      baseUrl: fake.baseUrl,
+    }))
+
+    await collect(provider.chat({
+      model: 'llava',
+      systemPrompt: '',
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'image', mimeType: 'image/png', data: 'AAAA' },
+            { type: 'text', text: 'What is this?' },
+          ],
+        },
+        {
+          role: 'assistant',
+          content: [{ type: 'tool_use', id: 'call_1', name: 'browser', input: {} }],
+        },
+        {
+          role: 'user',
+          content: [{
+            type: 'tool_result',
+            toolUseId: 'call_1',
+            content: 'Captured screenshot-1.png',
+            attachments: [{ type: 'image', mimeType: 'image/png', data: 'BBBB' }],
+          }],
+        },
+      ],
+      tools: [],
+    }))
+
+    const messages = fake.requests.at(-1)!.body.messages as Array<Record<string, unknown>>
+    assert.deepEqual(messages[1], {
+      role: 'user',
+      content: [
+        { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+        { type: 'text', text: 'What is this?' },
+      ],
+    })
+    assert.equal(messages[3]?.role, 'tool')
+    assert.deepEqual((messages[4]?.content as unknown[])[1], {
+      type: 'image_url',
+      image_url: { url: 'data:image/png;base64,BBBB' },
+    })
+  })
+})
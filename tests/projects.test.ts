@@ -0,0 +1,181 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, mkdir, realpath, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { projectsCreate, projectsDelete, projectsUpdate } from '../src/gateway/methods/projects.js'
+import { sessionsCreate } from '../src/gateway/methods/sessions.js'
+import { memorySearch } from '../src/gateway/methods/memory.js'
+import { chatSend } from '../src/gateway/methods/chat.js'
+import { RpcError } from '../src/gateway/methods/registry.js'
+import type { MethodContext } from '../src/gateway/methods/types.js'
+import { SessionManager } from '../src/sessions/manager.js'
+import type { Project } from '../src/sessions/projects.js'
+import type { SessionMeta } from '../src/sessions/session.js'
+import { openMemoryDb, type MemoryDb } from '../src/memory/db.js'
+import { IndexManager } from '../src/memory/indexer.js'
+import { indexSessionTranscripts } from '../src/memory/session-files.js'
+import { CircuitBreaker } from '../src/agents/failover.js'
+import { WorkspaceWatcher } from '../src/agents/workspace-watcher.js'
+import { ConfigSchema } from '../src/config/schema.js'
+import { ToolRegistry } from '../src/tools/registry.js'
+import { ApprovalManager } from '../src/tools/approval.js'
+import { BrowserSessionManager } from '../src/tools/browser-session.js'
+import { BashTool } from '../src/tools/bash.js'
+import { AuditLogger } from '../src/security/audit.js'
+import type { ChatEvent, ChatParams, ModelProvider } from '../src/agents/providers/types.js'
+
+class RecordingProvider implements ModelProvider {
+  readonly id = 'anthropic'
+  requests: ChatParams[] = []
+
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
+    this.requests.push(params)
+    yield { type: 'delta', text: 'ok' }
+    yield { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } }
+  }
+}
+
+describe('projects', () => {
+  let tmpDir: string
+  let rootDir: string
+  let workspacePath: string
+  let memoryDb: MemoryDb
+  let sessionManager: SessionManager
+  let provider: RecordingProvider
+  let ctx: MethodContext
+  let finished: () => void = () => {}
+
+  before(async () => {
+    tmpDir = await realpath(await mkdtemp(join(tmpdir(), 'jarvis-projects-')))
+    rootDir = join(tmpDir, 'checkout')
+    workspacePath = join(tmpDir, 'workspace')
+    await mkdir(join(rootDir, 'prompts'), { recursive: true })
+    await mkdir(join(rootDir, 'src'), { recursive: true })
+    await mkdir(workspacePath, { recursive: true })
+    await writeFile(join(workspacePath, 'AGENTS.md'), '## assistant\nModel: anthropic/claude-test\n\n## coder\nModel: anthropic/claude-code-test\n')
+    await writeFile(join(workspacePath, 'SOUL.md'), 'You are a general assistant.')
+    await writeFile(join(workspacePath, 'TOOLS.md'), 'Use tools with care.')
+    await writeFile(join(rootDir, 'prompts', 'SOUL.md'), 'You work on {{project}} in {{cwd}}.')
+
+    memoryDb = openMemoryDb(join(tmpDir, 'memory.db'))
+    sessionManager = new SessionManager(join(workspacePath, 'sessions'))
+    provider = new RecordingProvider()
+    const workspaceWatcher = new WorkspaceWatcher(workspacePath)
+    await workspaceWatcher.reload()
+
+    ctx = {
+      sendEvent: (name: string) => {
+        if (name === 'chat.final') finished()
+      },
+      config: ConfigSchema.parse({ providers: { retry: { maxRetries: 0 } } }),
+      token: 'test',
+      providers: new Map([['anthropic', provider]]),
+      circuitBreaker: new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 }),
+      workspacePath,
+      workspaceWatcher,
+      sessionManager,
+      activeRuns: new Map(),
+      toolRegistry: new ToolRegistry(),
+      approvalManager: new ApprovalManager(),
+      auditLogger: new AuditLogger(join(tmpDir, 'audit.jsonl'), false),
+      browserSessionManager: new BrowserSessionManager(),
+      memoryDb,
+      embedder: null,
+      scheduler: null,
+      usageTracker: null,
+      janitor: null,
+      hub: null,
+      clientId: 'test',
+    } satisfies MethodContext
+  })
+
+  after(async () => {
+    await sessionManager.close()
+    memoryDb.close()
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  const createProject = async (params: unknown) => ((await projectsCreate(params, ctx)) as { project: Project }).project
+  const createSession = async (params: unknown) => ((await sessionsCreate(params, ctx)) as { meta: SessionMeta }).meta
+
+  it('starts sessions with the project default agent and checks project fields', async () => {
+    const project = await createProject({ name: ' Website ', rootDir, promptDir: 'prompts', defaultAgentId: 'coder' })
+    assert.equal(project.name, 'Website')
+
+    const inProject = await createSession({ projectId: project.id })
+    assert.deepEqual([inProject.agentId, inProject.projectId], ['coder', project.id])
+    const chosen = await createSession({ projectId: project.id, agentId: 'assistant' })
+    assert.equal(chosen.agentId, 'assistant')
+    const outside = await createSession({})
+    assert.deepEqual([outside.agentId, outside.projectId], ['assistant', undefined])
+
+    // Sub-agent sessions join their parent's project
+    const child = await sessionManager.create('assistant', { parent: { sessionKey: inProject.key, runId: 'run-1' } })
+    assert.equal(child.meta.projectId, project.id)
+
+    const invalid = (err: RpcError) => err.code === -32602
+    await assert.rejects(projectsCreate({ name: 'x', rootDir: 'relative/dir' }, ctx), invalid)
+    await assert.rejects(projectsCreate({ name: 'x', rootDir: join(tmpDir, 'missing') }, ctx), invalid)
+    await assert.rejects(projectsCreate({ name: 'x', rootDir, defaultAgentId: 'nobody' }, ctx), invalid)
+    await assert.rejects(
+      sessionsCreate({ projectId: '00000000-0000-4000-8000-000000000000' }, ctx),
+      (err: RpcError) => err.code === -32603,
+    )
+
+    const { project: updated } = await projectsUpdate({ projectId: project.id, defaultAgentId: null }, ctx) as { project: Project }
+    assert.equal(updated.defaultAgentId, undefined)
+    assert.equal(updated.promptDir, 'prompts')
+  })
+
+  it('runs project sessions with its prompts and working directory', async () => {
+    const project = await createProject({ name: 'Docs', rootDir, promptDir: 'prompts' })
+    const session = await createSession({ projectId: project.id })
+
+    const done = new Promise<void>((resolve) => { finished = resolve })
+    await chatSend({ sessionKey: session.key, message: 'hello' }, ctx)
+    await done
+
+    const systemPrompt = provider.requests.at(-1)!.systemPrompt
+    assert.ok(systemPrompt.includes(`You work on Docs in ${rootDir}.`))
+    assert.ok(systemPrompt.includes('Use tools with care.'))
+    assert.ok(!systemPrompt.includes('general assistant'))
+
+    const bash = new BashTool(new ApprovalManager(), ctx.config)
+    const toolContext = {
+      sessionKey: session.key,
+      runId: 'run-1',
+      sendEvent: () => {},
+      reportProgress: () => {},
+      config: ctx.config,
+      autoApprove: true,
+      cwd: rootDir,
+    }
+    assert.equal((await bash.execute({ command: 'pwd' }, toolContext)).output.trim(), rootDir)
+    assert.equal((await bash.execute({ command: 'pwd', workingDir: 'src' }, toolContext)).output.trim(), join(rootDir, 'src'))
+  })
+
+  it('keeps each project memory apart until the project is deleted', async () => {
+    const project = await createProject({ name: 'Garden', rootDir })
+    const inProject = await sessionManager.get((await createSession({ projectId: project.id })).key)
+    await inProject!.appendEvent({ role: 'user', content: 'Plant the marigolds by the fence', timestamp: 1 })
+    const outside = await sessionManager.get((await createSession({})).key)
+    await outside!.appendEvent({ role: 'user', content: 'Which marigolds need shade?', timestamp: 2 })
+    await indexSessionTranscripts(new IndexManager(memoryDb, null), sessionManager)
+
+    const search = async (projectId?: string) => {
+      const { results } = await memorySearch({ query: 'marigolds', ...(projectId ? { projectId } : {}) }, ctx) as {
+        results: Array<{ content: string }>
+      }
+      return results.map((r) => r.content.includes('fence') ? 'project' : 'outside').sort()
+    }
+    assert.deepEqual(await search(project.id), ['project'])
+    assert.deepEqual(await search(), ['outside'])
+
+    const { moved } = await projectsDelete({ projectId: project.id }, ctx) as { moved: string[] }
+    assert.deepEqual(moved, [inProject!.meta.key])
+    assert.equal(inProject!.meta.projectId, undefined)
+    assert.equal(await sessionManager.getProject(project.id), null)
+    assert.deepEqual(await search(), ['outside', 'project'])
+  })
+})
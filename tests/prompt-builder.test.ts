@@ -3,7 +3,8 @@ import assert from 'node:assert/strict'
 import { mkdtemp, rm, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
 import { tmpdir } from 'node:os'
-import { buildSchedulerSystemPrompt, buildSystemPrompt } from '../src/agents/prompt-builder.js'
+import { buildSystemPrompt, loadPromptFile } from '../src/agents/prompt-builder.js'
+import type { PromptContext } from '../src/agents/prompt-template.js'
 
 async function withWorkspace(
   files: Record<string, string>,
@@ -35,33 +36,75 @@ describe('prompt-builder', () => {
     )
   })
 
-  it('buildSchedulerSystemPrompt appends SCHEDULER overrides when present', async () => {
+  it('renders SCHEDULER sections only in scheduler mode', async () => {
     await withWorkspace(
       {
-        'AGENTS.md': 'agents',
+        'AGENTS.md': 'agents{{#interactive}} (chat){{/interactive}}',
         'SOUL.md': 'soul',
         'TOOLS.md': 'tools',
-        'SCHEDULER.md': 'scheduler overrides',
+        'SCHEDULER.md': '{{#scheduler}}\nscheduler overrides\n{{/scheduler}}\n',
+      },
+      async (workspacePath) => {
+        const read: string[] = []
+        const chat = await buildSystemPrompt(workspacePath, undefined, undefined, undefined, (dir, file) => {
+          read.push(file)
+          return loadPromptFile(dir, file)
+        })
+        assert.equal(chat, 'agents (chat)\n\n---\n\nsoul\n\n---\n\ntools')
+        // Chats don't even read SCHEDULER.md
+        assert.deepEqual(read, ['AGENTS.md', 'SOUL.md', 'TOOLS.md'])
+
+        const scheduled = await buildSystemPrompt(workspacePath, undefined, { mode: 'scheduler', agentId: 'assistant' })
+        assert.equal(scheduled, 'agents\n\n---\n\nsoul\n\n---\n\ntools\n\n---\n\nscheduler overrides')
+      },
+    )
+  })
+
+  it('substitutes runtime variables and leaves unknown ones intact', async () => {
+    await withWorkspace(
+      {
+        'AGENTS.md': 'Today is {{date}} {{time}}. You are {{ agentId }} in "{{sessionLabel}}" ({{mode}}) with {{tools}}. {{unknown}}',
       },
       async (workspacePath) => {
-        const prompt = await buildSchedulerSystemPrompt(workspacePath)
+        const context: PromptContext = {
+          mode: 'interactive',
+          agentId: 'researcher',
+          sessionLabel: 'Trip plans',
+          toolNames: ['bash', 'browser'],
+          now: new Date(2026, 2, 5, 9, 7),
+        }
+        const prompt = await buildSystemPrompt(workspacePath, ['AGENTS.md'], context)
         assert.equal(
           prompt,
-          'agents\n\n---\n\nsoul\n\n---\n\ntools\n\n---\n\nscheduler overrides',
+          'Today is 2026-03-05 09:07. You are researcher in "Trip plans" (interactive) with bash, browser. {{unknown}}',
         )
       },
     )
   })
 
-  it('buildSchedulerSystemPrompt falls back to base prompt when SCHEDULER is missing', async () => {
+  it('expands includes, ignoring cycles and paths outside the workspace', async () => {
     await withWorkspace(
       {
-        'AGENTS.md': 'agents only',
+        'AGENTS.md': 'intro\n{{> CHECKLIST.md}}\n{{> ../secret.md}}\nend',
+        'CHECKLIST.md': '- check {{agentId}}\n{{> AGENTS.md}}\n',
+      },
+      async (workspacePath) => {
+        const prompt = await buildSystemPrompt(workspacePath, ['AGENTS.md'])
+        assert.equal(prompt, 'intro\n- check assistant\n\nend')
+      },
+    )
+  })
+
+  it('buildSystemPrompt uses an agent\'s own prompt files when given', async () => {
+    await withWorkspace(
+      {
+        'AGENTS.md': 'agents',
+        'SOUL.md': 'soul',
+        'RESEARCHER.md': 'researcher persona',
       },
       async (workspacePath) => {
-        const base = await buildSystemPrompt(workspacePath)
-        const scheduler = await buildSchedulerSystemPrompt(workspacePath)
-        assert.equal(scheduler, base)
+        const prompt = await buildSystemPrompt(workspacePath, ['RESEARCHER.md', 'SOUL.md', 'MISSING.md'])
+        assert.equal(prompt, 'researcher persona\n\n---\n\nsoul')
       },
     )
   })
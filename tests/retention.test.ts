@@ -0,0 +1,177 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { ConfigSchema } from '../src/config/schema.js'
+import { DAY_MS, expiredSessions } from '../src/retention/policy.js'
+import { RetentionJanitor } from '../src/retention/janitor.js'
+import { SessionManager } from '../src/sessions/manager.js'
+import type { SessionListing } from '../src/sessions/store.js'
+import { openMemoryDb, type MemoryDb } from '../src/memory/db.js'
+import { IndexManager } from '../src/memory/indexer.js'
+import { indexSessionTranscripts } from '../src/memory/session-files.js'
+import { SchedulerEngine } from '../src/scheduler/engine.js'
+import { AuditLogger, type AuditEvent } from '../src/security/audit.js'
+import { ToolRegistry } from '../src/tools/registry.js'
+import { CircuitBreaker } from '../src/agents/failover.js'
+
+const NOW = Date.UTC(2026, 0, 31)
+
+function listing(key: string, daysAgo: number, extra: Partial<SessionListing> = {}): SessionListing {
+  const at = NOW - daysAgo * DAY_MS
+  return { key, agentId: 'assistant', createdAt: at, updatedAt: at, messageCount: 0, ...extra }
+}
+
+describe('retention rules', () => {
+  it('expires by age and count, sparing pinned and sub-agent sessions', () => {
+    const { sessions } = ConfigSchema.parse({
+      retention: {
+        sessions: {
+          interactive: { maxAgeDays: 30, maxCount: 2 },
+          scheduled: { maxCount: 1 },
+          agents: { researcher: { maxAgeDays: 7 } },
+        },
+      },
+    }).retention
+    const listings = [
+      listing('recent', 1),
+      // Its latest message counts as activity, not its older meta update
+      listing('active', 40, { lastMessage: { role: 'user', content: 'hi', timestamp: NOW - 2 * DAY_MS } }),
+      listing('third', 3),
+      listing('stale', 45),
+      listing('pinned', 90, { pinned: true }),
+      listing('child', 90, { parentSessionKey: 'stale' }),
+      listing('job-new', 1, { jobId: 'job-1' }),
+      listing('job-old', 2),
+      listing('research', 8, { agentId: 'researcher' }),
+      listing('research-new', 6, { agentId: 'researcher' }),
+    ]
+
+    const expired = expiredSessions(listings, sessions, NOW, new Set(['job-old']))
+    assert.deepEqual(expired.map((s) => [s.key, s.kind, s.reason]), [
+      ['stale', 'interactive', 'age'],
+      ['research', 'interactive', 'age'],
+      ['third', 'interactive', 'count'],
+      ['job-old', 'scheduled', 'count'],
+    ])
+  })
+})
+
+describe('RetentionJanitor', () => {
+  let tmpDir: string
+  let sessionsDir: string
+  let auditPath: string
+  let db: MemoryDb
+  let sessionManager: SessionManager
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-retention-'))
+    sessionsDir = join(tmpDir, 'sessions')
+    auditPath = join(tmpDir, 'audit.jsonl')
+    db = openMemoryDb(join(tmpDir, 'memory.db'))
+    sessionManager = new SessionManager(sessionsDir)
+  })
+
+  after(async () => {
+    await sessionManager.close()
+    try { db.close() } catch { /* ok */ }
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('reports in a dry run, then purges sessions, index entries, runs, audit lines and embeddings', async () => {
+    const config = ConfigSchema.parse({
+      retention: {
+        sessions: { interactive: { maxCount: 1 }, scheduled: { maxCount: 1 } },
+        jobRuns: { maxPerJob: 2 },
+        auditLog: { maxAgeDays: 30 },
+        embeddingCache: { maxEntries: 1 },
+      },
+    })
+    const auditLogger = new AuditLogger(auditPath, true)
+    const scheduler = new SchedulerEngine({
+      db,
+      providers: new Map(),
+      circuitBreaker: new CircuitBreaker({ failureThreshold: 3, cooldownMs: 60_000 }),
+      sessionManager,
+      toolRegistry: new ToolRegistry(),
+      auditLogger,
+      config,
+      workspacePath: tmpDir,
+    })
+    const janitor = new RetentionJanitor({ sessionManager, auditLogger, config, memoryDb: db, scheduler })
+
+    // Message timestamps order the sessions' activity
+    const at = Date.now()
+    const old = await sessionManager.create('assistant')
+    await old.appendEvent({ role: 'user', content: 'remember the okapi', timestamp: at + 1_000 })
+    const child = await sessionManager.create('helper', { parent: { sessionKey: old.meta.key, runId: 'run-1' } })
+    await child.appendEvent({ role: 'assistant', content: 'okapi noted', timestamp: at + 1_000 })
+    const kept = await sessionManager.create('assistant')
+    await kept.appendEvent({ role: 'user', content: 'keep me', timestamp: at + 3_000 })
+    const pinned = await sessionManager.create('assistant')
+    await sessionManager.update(pinned.meta.key, { pinned: true })
+
+    const job = scheduler.create({ name: 'Digest', cronExpression: '0 8 * * *', prompt: 'Summarize' })
+    const jobSessions = []
+    for (const [i, runId] of ['r-old', 'r-new'].entries()) {
+      const session = await sessionManager.create('assistant', { job: { jobId: job.id, runId } })
+      await session.appendEvent({ role: 'assistant', content: `digest ${i}`, timestamp: at + i * 1_000 })
+      jobSessions.push(session)
+    }
+    const insertRun = db.prepare(
+      "INSERT INTO job_runs (id, job_id, started_at, status, session_key) VALUES (?, ?, ?, 'success', ?)",
+    )
+    insertRun.run('r-old', job.id, 2, jobSessions[0]!.meta.key)
+    insertRun.run('r-new', job.id, 3, jobSessions[1]!.meta.key)
+    insertRun.run('r-oldest', job.id, 1, null)
+
+    await indexSessionTranscripts(new IndexManager(db, null), sessionManager)
+    const orphan = join(sessionsDir, '00000000-0000-4000-8000-000000000000.memory.txt')
+    await writeFile(orphan, 'left behind')
+    const insertCache = db.prepare('INSERT INTO embedding_cache (hash, embedding, created_at) VALUES (?, ?, ?)')
+    insertCache.run('a', Buffer.alloc(4), 1)
+    insertCache.run('b', Buffer.alloc(4), 2)
+    await writeFile(auditPath, JSON.stringify({ ts: 1, type: 'auth', details: {} }) + '\n')
+
+    const preview = await janitor.run({ dryRun: true })
+    const summary = (report: typeof preview) => ({
+      sessions: report.sessions.map((s) => [s.key, s.kind, s.subSessions]).sort(),
+      counts: [report.jobRuns, report.auditEntries, report.embeddingCache, report.orphanedMemoryFiles],
+    })
+    const expected = {
+      sessions: [[old.meta.key, 'interactive', 1], [jobSessions[0]!.meta.key, 'scheduled', 0]].sort(),
+      counts: [1, 1, 1, 1],
+    }
+    assert.deepEqual(summary(preview), expected)
+    assert.equal((await sessionManager.list()).length, 6)
+    assert.equal((await readFile(orphan, 'utf-8')), 'left behind')
+
+    const report = await janitor.run()
+    assert.deepEqual(summary(report), expected)
+
+    const left = (await sessionManager.list()).map((s) => s.key).sort()
+    assert.deepEqual(left, [kept.meta.key, pinned.meta.key, jobSessions[1]!.meta.key].sort())
+    const files = await readdir(sessionsDir)
+    assert.ok(!files.some((f) => f.startsWith(old.meta.key) || f.startsWith(child.meta.key) || f.startsWith('00000000')))
+
+    const indexed = new IndexManager(db, null).indexedPaths()
+    assert.ok(!indexed.some((path) => path.includes(old.meta.key) || path.includes(child.meta.key)))
+    const chunks = db.prepare('SELECT content FROM chunks').all() as Array<{ content: string }>
+    assert.ok(!chunks.some((c) => c.content.includes('okapi')))
+
+    const runs = scheduler.getRuns(job.id)
+    assert.deepEqual(runs.map((r) => [r.id, r.sessionKey]), [['r-new', jobSessions[1]!.meta.key], ['r-old', null]])
+    assert.deepEqual((db.prepare('SELECT hash FROM embedding_cache').all() as Array<{ hash: string }>).map((r) => r.hash), ['b'])
+
+    const audit = (await readFile(auditPath, 'utf-8')).trim().split('\n').map((line) => JSON.parse(line) as AuditEvent)
+    assert.ok(audit.every((event) => event.type === 'retention_purge'))
+    assert.deepEqual(audit.map((event) => event.details['target']), ['session', 'session', 'records'])
+    const purgedOld = audit.find((event) => event.sessionKey === old.meta.key)!
+    assert.deepEqual(purgedOld.details['deleted'], [old.meta.key, child.meta.key])
+
+    // Nothing left to purge
+    const again = await janitor.run({ dryRun: true })
+    assert.deepEqual(summary(again), { sessions: [], counts: [0, 0, 0, 0] })
+  })
+})
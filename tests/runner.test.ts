@@ -1,31 +1,29 @@
 import { describe, it } from 'node:test'
 import assert from 'node:assert/strict'
+import { fileURLToPath } from 'node:url'
 import { runAgentTurn } from '../src/agents/runner.js'
+import { Cassette, replayProviders } from '../src/agents/providers/cassette.js'
 import type {
   ChatEvent,
   Message,
   ModelProvider,
-  ToolDefinition,
+  Usage,
 } from '../src/agents/providers/types.js'
 
-class StubProvider implements ModelProvider {
-  id = 'stub'
-  private turnIdx = 0
-
-  constructor(private readonly turns: ChatEvent[][]) {}
-
-  async *chat(_params: {
-    model: string
-    systemPrompt: string
-    messages: Message[]
-    tools: ToolDefinition[]
-  }): AsyncIterable<ChatEvent> {
-    const events = this.turns[this.turnIdx] ?? []
-    this.turnIdx += 1
-    for (const event of events) {
-      yield event
-    }
+const CASSETTE = fileURLToPath(new URL('./fixtures/cassettes/runner.json', import.meta.url))
+
+/** Replays the recorded runner cassette; `seen` collects the messages of each request. */
+function replay(): { provider: ModelProvider; seen: Message[][] } {
+  const recorded = replayProviders(Cassette.load(CASSETTE)).get('anthropic')!
+  const seen: Message[][] = []
+  const provider: ModelProvider = {
+    id: recorded.id,
+    chat: (params) => {
+      seen.push(params.messages)
+      return recorded.chat(params)
+    },
   }
+  return { provider, seen }
 }
 
 function isFinalEvent(event: ChatEvent): event is Extract<ChatEvent, { type: 'final' }> {
@@ -34,20 +32,11 @@ function isFinalEvent(event: ChatEvent): event is Extract<ChatEvent, { type: 'fi
 
 describe('runAgentTurn', () => {
   it('emits a single final event after tool-call continuation completes', async () => {
-    const provider = new StubProvider([
-      [
-        { type: 'delta', text: 'Let me check that.' },
-        { type: 'tool_call', name: 'schedule', input: { action: 'list' }, callId: 'call-1' },
-        { type: 'final', usage: { inputTokens: 10, outputTokens: 4 } },
-      ],
-      [
-        { type: 'delta', text: 'Here is the list of jobs.' },
-        { type: 'final', usage: { inputTokens: 20, outputTokens: 8 } },
-      ],
-    ])
+    const { provider } = replay()
 
     const events: ChatEvent[] = []
     const toolCalls: Array<{ name: string; input: unknown; callId: string }> = []
+    const usages: Usage[] = []
 
     await runAgentTurn({
       provider,
@@ -56,6 +45,7 @@ describe('runAgentTurn', () => {
       messages: [{ role: 'user', content: 'List scheduled jobs' }],
       tools: [{ name: 'schedule', description: 'List scheduler jobs', inputSchema: { type: 'object' } }],
       onEvent: (event) => events.push(event),
+      onUsage: (usage) => usages.push(usage),
       onToolCall: async (name, input, callId) => {
         toolCalls.push({ name, input, callId })
         return 'Scheduled jobs (1): ...'
@@ -74,15 +64,12 @@ describe('runAgentTurn', () => {
     const finals = events.filter(isFinalEvent)
     assert.equal(finals.length, 1)
     assert.deepEqual(finals[0].usage, { inputTokens: 20, outputTokens: 8 })
+    // Every model call is reported for accounting, not just the last
+    assert.deepEqual(usages, [{ inputTokens: 10, outputTokens: 4 }, { inputTokens: 20, outputTokens: 8 }])
   })
 
   it('emits final event for a single-turn response with no tool calls', async () => {
-    const provider = new StubProvider([
-      [
-        { type: 'delta', text: 'Hello there.' },
-        { type: 'final', usage: { inputTokens: 3, outputTokens: 2 } },
-      ],
-    ])
+    const { provider } = replay()
 
     const events: ChatEvent[] = []
 
@@ -100,4 +87,139 @@ describe('runAgentTurn', () => {
     assert.equal(finals.length, 1)
     assert.deepEqual(finals[0].usage, { inputTokens: 3, outputTokens: 2 })
   })
+
+  it('echoes signed thinking blocks ahead of tool calls on the next turn', async () => {
+    const { provider, seen } = replay()
+
+    const events: ChatEvent[] = []
+
+    await runAgentTurn({
+      provider,
+      model: 'test-model',
+      systemPrompt: 'system',
+      messages: [{ role: 'user', content: 'List scheduled jobs' }],
+      tools: [{ name: 'schedule', description: 'List scheduler jobs', inputSchema: { type: 'object' } }],
+      thinkingBudget: 2048,
+      onEvent: (event) => events.push(event),
+      onToolCall: async () => 'Scheduled jobs (0)',
+    })
+
+    assert.equal(events.filter((e) => e.type === 'thinking').length, 4)
+    assert.deepEqual(seen[1]?.[1], {
+      role: 'assistant',
+      content: [
+        { type: 'thinking', text: 'Need the job list. Call schedule.', signature: 'sig-1' },
+        { type: 'redacted_thinking', data: 'opaque' },
+        { type: 'tool_use', id: 'call-1', name: 'schedule', input: { action: 'list' } },
+      ],
+    })
+  })
+
+  it('runs parallel-safe tool calls concurrently and keeps result order', async () => {
+    const { provider, seen } = replay()
+
+    let inFlight = 0
+    let maxInFlight = 0
+    let exclusiveOverlapped = false
+    const started: string[] = []
+
+    await runAgentTurn({
+      provider,
+      model: 'test-model',
+      systemPrompt: 'system',
+      messages: [{ role: 'user', content: 'Go' }],
+      tools: [],
+      isParallelSafe: (name) => name === 'browser',
+      toolConcurrency: 2,
+      onEvent: () => {},
+      onToolCall: async (name, _input, callId) => {
+        started.push(callId)
+        if (name === 'exclusive' && inFlight > 0) exclusiveOverlapped = true
+        inFlight += 1
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        // Later calls finish first to prove results are reordered by call
+        await new Promise((resolve) => setTimeout(resolve, callId === 'c1' ? 20 : 5))
+        inFlight -= 1
+        return `result ${callId}`
+      },
+    })
+
+    assert.equal(maxInFlight, 2)
+    assert.equal(exclusiveOverlapped, false)
+    assert.deepEqual(started, ['c1', 'c2', 'c3', 'c4'])
+
+    const toolResults = seen[1]?.at(-1)?.content as Array<{ toolUseId: string; content: string }>
+    assert.deepEqual(
+      toolResults.map((b) => [b.toolUseId, b.content]),
+      [['c1', 'result c1'], ['c2', 'result c2'], ['c3', 'result c3'], ['c4', 'result c4']],
+    )
+  })
+
+  it('stops after the agent\'s max tool turns', async () => {
+    const { provider, seen } = replay()
+
+    const events: ChatEvent[] = []
+    let toolCalls = 0
+    await runAgentTurn({
+      provider,
+      model: 'test-model',
+      systemPrompt: 'system',
+      messages: [{ role: 'user', content: 'Loop' }],
+      tools: [],
+      maxToolTurns: 2,
+      onEvent: (event) => events.push(event),
+      onToolCall: async () => {
+        toolCalls += 1
+        return 'ok'
+      },
+    })
+
+    assert.equal(toolCalls, 2)
+    assert.equal(seen.length, 2)
+    assert.deepEqual(events.at(-1), { type: 'error', message: 'Maximum tool call turns exceeded' })
+  })
+
+  it('continues an answer cut off at the output limit and ends with one final event', async () => {
+    const { provider, seen } = replay()
+
+    const events: ChatEvent[] = []
+    const continuations: number[] = []
+
+    await runAgentTurn({
+      provider,
+      model: 'test-model',
+      systemPrompt: 'system',
+      messages: [{ role: 'user', content: 'Write a long report' }],
+      tools: [],
+      onContinuation: (n) => continuations.push(n),
+      onEvent: (event) => events.push(event),
+    })
+
+    assert.deepEqual(continuations, [1])
+    assert.deepEqual(seen[1]?.slice(1).map((m) => m.role), ['assistant', 'user'])
+    assert.equal(seen[1]?.[1]?.content, 'Part one, ')
+    assert.deepEqual(events.map((e) => e.type), ['delta', 'delta', 'final'])
+    assert.deepEqual(events.at(-1), { type: 'final', usage: { inputTokens: 8, outputTokens: 20 }, stopReason: 'end_turn' })
+  })
+
+  it('stops continuing after maxContinuations and reports the truncation', async () => {
+    const { provider, seen } = replay()
+
+    const events: ChatEvent[] = []
+
+    await runAgentTurn({
+      provider,
+      model: 'test-model',
+      systemPrompt: 'system',
+      messages: [{ role: 'user', content: 'Write forever' }],
+      tools: [],
+      maxContinuations: 2,
+      onEvent: (event) => events.push(event),
+    })
+
+    assert.equal(seen.length, 3)
+    const final = events.filter(isFinalEvent)
+    assert.equal(final.length, 1)
+    assert.equal(final[0]!.stopReason, 'max_tokens')
+  })
 })
@@ -11,6 +11,7 @@ import type { Config } from '../src/config/schema.js'
 import { SessionManager } from '../src/sessions/manager.js'
 import { ToolRegistry } from '../src/tools/registry.js'
 import { AuditLogger } from '../src/security/audit.js'
+import { CircuitBreaker } from '../src/agents/failover.js'
 
 /** Minimal stub ToolContext for testing (no real session). */
 function stubContext(): ToolContext {
@@ -37,6 +38,7 @@ describe('ScheduleTool', () => {
     const deps: SchedulerDeps = {
       db,
       providers: new Map(),
+      circuitBreaker: new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 }),
       sessionManager: new SessionManager(join(tmpDir, 'sessions')),
       toolRegistry: new ToolRegistry(),
       auditLogger: new AuditLogger(join(tmpDir, 'audit.jsonl'), false),
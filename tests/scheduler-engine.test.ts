@@ -1,14 +1,18 @@
 import { describe, it, before, after } from 'node:test'
 import assert from 'node:assert/strict'
-import { mkdtemp, rm, mkdir } from 'node:fs/promises'
+import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises'
 import { join } from 'node:path'
+import { fileURLToPath } from 'node:url'
 import { tmpdir } from 'node:os'
 import { openMemoryDb, type MemoryDb } from '../src/memory/db.js'
 import { SchedulerEngine, type SchedulerDeps } from '../src/scheduler/engine.js'
-import type { Config } from '../src/config/schema.js'
+import { z } from 'zod'
+import { ConfigSchema, type Config } from '../src/config/schema.js'
 import { SessionManager } from '../src/sessions/manager.js'
 import { ToolRegistry } from '../src/tools/registry.js'
 import { AuditLogger } from '../src/security/audit.js'
+import { CircuitBreaker } from '../src/agents/failover.js'
+import { Cassette, replayProviders } from '../src/agents/providers/cassette.js'
 
 /** Build a minimal SchedulerDeps for testing (no real AI providers). */
 function buildTestDeps(db: MemoryDb, tmpDir: string): SchedulerDeps {
@@ -16,6 +20,7 @@ function buildTestDeps(db: MemoryDb, tmpDir: string): SchedulerDeps {
   return {
     db,
     providers: new Map(), // No real providers for CRUD tests
+    circuitBreaker: new CircuitBreaker({ failureThreshold: 3, cooldownMs: 60_000 }),
     sessionManager: new SessionManager(sessionsDir),
     toolRegistry: new ToolRegistry(),
     auditLogger: new AuditLogger(join(tmpDir, 'audit.jsonl'), false),
@@ -137,6 +142,16 @@ describe('SchedulerEngine CRUD', () => {
     )
     engine.delete(job.id) // Clean up
   })
+
+  it('stores, updates and clears a response schema', () => {
+    const schema = { type: 'object', properties: { ok: { type: 'boolean' } } }
+    const job = engine.create({ name: 'Structured', cronExpression: '0 8 * * *', prompt: 'test', responseSchema: schema })
+    assert.deepEqual(engine.get(job.id)!.responseSchema, schema)
+
+    assert.deepEqual(engine.update(job.id, { name: 'Renamed' })!.responseSchema, schema)
+    assert.equal(engine.update(job.id, { responseSchema: null })!.responseSchema, null)
+    engine.delete(job.id) // Clean up
+  })
 })
 
 describe('SchedulerEngine timer management', () => {
@@ -229,4 +244,70 @@ describe('SchedulerEngine getRuns', () => {
     const runs = engine.getRuns(job.id)
     assert.deepEqual(runs, [])
   })
+
+  it('returns the stored result of structured runs', () => {
+    const job = engine.create({ name: 'With Result', cronExpression: '0 8 * * *', prompt: 'test' })
+    db.prepare(
+      'INSERT INTO job_runs (id, job_id, started_at, status, result) VALUES (?, ?, ?, ?, ?)',
+    ).run('run-1', job.id, Date.now(), 'success', JSON.stringify({ ok: true }))
+
+    const runs = engine.getRuns(job.id)
+    assert.deepEqual(runs.map((r) => r.result), [{ ok: true }])
+  })
+})
+
+const CASSETTE = fileURLToPath(new URL('./fixtures/cassettes/scheduler.json', import.meta.url))
+
+describe('SchedulerEngine structured runs', () => {
+  let tmpDir: string
+  let db: MemoryDb
+  let engine: SchedulerEngine
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-sched-s-'))
+    await mkdir(join(tmpDir, 'sessions'), { recursive: true })
+    await writeFile(join(tmpDir, 'AGENTS.md'), '## assistant\nModel: anthropic/claude-test\n')
+    db = openMemoryDb(join(tmpDir, 'test.db'))
+  })
+
+  after(async () => {
+    engine.stop()
+    try { db.close() } catch { /* ok */ }
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('checks only the final answer of a run that called tools', async () => {
+    const cassette = Cassette.load(CASSETTE)
+    const toolRegistry = new ToolRegistry()
+    toolRegistry.register({
+      name: 'echo',
+      description: 'Echo the input',
+      requiresApproval: false,
+      parallelSafe: true,
+      inputSchema: z.object({ text: z.string() }),
+      toDefinition: () => ({ name: 'echo', description: 'Echo the input', inputSchema: { type: 'object' } }),
+      execute: async (input) => ({ output: (input as { text: string }).text }),
+    })
+    engine = new SchedulerEngine({
+      ...buildTestDeps(db, tmpDir),
+      providers: replayProviders(cassette),
+      toolRegistry,
+      config: ConfigSchema.parse({ providers: { retry: { maxRetries: 0 } } }),
+    })
+    engine.start()
+    const job = engine.create({
+      name: 'Count',
+      cronExpression: '0 8 * * *',
+      prompt: 'How many files?',
+      responseSchema: { type: 'object', properties: { count: { type: 'number' } }, required: ['count'] },
+    })
+
+    // Run it now rather than waiting for the cron time
+    await (engine as unknown as { executeJob(job: unknown): Promise<void> }).executeJob(job)
+
+    const [run] = engine.getRuns(job.id)
+    assert.equal(run!.error, null)
+    assert.deepEqual([run!.status, run!.result], ['success', { count: 2 }])
+    assert.equal(cassette.unplayed, 0)
+  })
 })
@@ -0,0 +1,92 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, mkdir, rm, readdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { SessionManager } from '../src/sessions/manager.js'
+import { chatHistory } from '../src/gateway/methods/chat.js'
+import { RpcError } from '../src/gateway/methods/registry.js'
+import type { MethodContext } from '../src/gateway/methods/types.js'
+
+type Page = { messages: Array<{ id: string; content: string }>; nextCursor: string | null }
+
+describe('SQLite session store', () => {
+  let tmpDir: string
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-store-'))
+  })
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('migrates JSONL sessions into the store and keeps the files as a backup', async () => {
+    const dir = join(tmpDir, 'legacy')
+    await mkdir(dir, { recursive: true })
+    const key = '11111111-1111-4111-8111-111111111111'
+    const writeLegacy = async (reply: string) => {
+      await writeFile(join(dir, `${key}.meta.json`), JSON.stringify({
+        key, agentId: 'assistant', createdAt: 1, updatedAt: 2, label: 'Old chat',
+      }))
+      await writeFile(join(dir, `${key}.jsonl`), [
+        JSON.stringify({ role: 'user', content: 'hello', timestamp: 1 }),
+        JSON.stringify({ role: 'assistant', content: reply, timestamp: 2 }),
+      ].join('\n') + '\n')
+    }
+    await writeLegacy('hi there')
+
+    const manager = new SessionManager(dir)
+    const [listing] = await manager.list()
+    assert.equal(listing?.label, 'Old chat')
+    assert.equal(listing?.messageCount, 2)
+    assert.deepEqual(listing?.lastMessage, { role: 'assistant', content: 'hi there', timestamp: 2 })
+
+    const session = (await manager.get(key))!
+    assert.deepEqual((await session.readEvents()).map((e) => [e.id, e.content]), [
+      ['line-0', 'hello'],
+      ['line-1', 'hi there'],
+    ])
+    // Appends continue the migrated path
+    const next = await session.appendEvent({ role: 'user', content: 'again', timestamp: 3 })
+    assert.deepEqual((await session.readEvents()).map((e) => e.id), ['line-0', 'line-1', next])
+
+    assert.deepEqual((await readdir(join(dir, 'migrated'))).sort(), [`${key}.jsonl`, `${key}.meta.json`])
+    assert.ok(!(await readdir(dir)).some((f) => f.endsWith('.jsonl') || f.endsWith('.meta.json')))
+    await manager.close()
+
+    // A transcript whose events differ from the stored ones is left where it is
+    await writeLegacy('something else')
+    const reopened = new SessionManager(dir)
+    assert.equal((await reopened.list()).length, 1)
+    assert.ok((await readdir(dir)).includes(`${key}.jsonl`))
+
+    // Deleting the session shreds its backup too
+    await reopened.delete(key)
+    assert.deepEqual(await readdir(join(dir, 'migrated')), [])
+    await reopened.close()
+  })
+
+  it('pages chat.history backwards from a cursor', async () => {
+    const sessionManager = new SessionManager(join(tmpDir, 'paged'))
+    const session = await sessionManager.create('assistant')
+    for (let i = 0; i < 5; i++) {
+      await session.appendEvent({ role: i % 2 ? 'assistant' : 'user', content: `m${i}`, timestamp: i })
+    }
+    // Only the field chat.history uses
+    const ctx = { sessionManager } as unknown as MethodContext
+    const page = async (params: Record<string, unknown>) =>
+      await chatHistory({ sessionKey: session.meta.key, ...params }, ctx) as Page
+
+    const latest = await page({ limit: 2 })
+    assert.deepEqual(latest.messages.map((m) => m.content), ['m3', 'm4'])
+    const middle = await page({ limit: 2, before: latest.nextCursor })
+    assert.deepEqual(middle.messages.map((m) => m.content), ['m1', 'm2'])
+    const oldest = await page({ limit: 2, before: middle.nextCursor })
+    assert.deepEqual(oldest.messages.map((m) => m.content), ['m0'])
+    assert.equal(oldest.nextCursor, null)
+
+    await assert.rejects(page({ before: 'not-an-event' }), (err: RpcError) => err.code === -32602)
+    await sessionManager.close()
+  })
+})
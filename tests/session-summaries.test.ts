@@ -0,0 +1,154 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { summarizeSession, summaryDue } from '../src/sessions/summaries.js'
+import { SessionManager } from '../src/sessions/manager.js'
+import { chatSend } from '../src/gateway/methods/chat.js'
+import { sessionsRename } from '../src/gateway/methods/sessions.js'
+import type { MethodContext } from '../src/gateway/methods/types.js'
+import { CircuitBreaker } from '../src/agents/failover.js'
+import { ConfigSchema } from '../src/config/schema.js'
+import { ToolRegistry } from '../src/tools/registry.js'
+import { ApprovalManager } from '../src/tools/approval.js'
+import { BrowserSessionManager } from '../src/tools/browser-session.js'
+import { AuditLogger } from '../src/security/audit.js'
+import { WorkspaceWatcher } from '../src/agents/workspace-watcher.js'
+import { openMemoryDb } from '../src/memory/db.js'
+import { hybridSearch } from '../src/memory/search.js'
+import type { TranscriptEvent } from '../src/sessions/transcript.js'
+import type { ChatEvent, ChatParams, ModelProvider } from '../src/agents/providers/types.js'
+
+/** Answers chats with "ok" and summary requests with the next scripted summary. */
+class ScriptedProvider implements ModelProvider {
+  readonly id = 'anthropic'
+  requests: ChatParams[] = []
+
+  constructor(private summaries: string[]) {}
+
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
+    this.requests.push(structuredClone(params))
+    const text = params.responseSchema
+      ? this.summaries[this.requests.filter((r) => r.responseSchema).length - 1] ?? ''
+      : 'ok'
+    yield { type: 'delta', text }
+    yield { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } }
+  }
+}
+
+function event(role: TranscriptEvent['role'], content: string): TranscriptEvent {
+  return { role, content, timestamp: Date.now() }
+}
+
+describe('session summaries', () => {
+  let tmpDir: string
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-summaries-'))
+  })
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('asks for a title and summary and cleans them up', async () => {
+    const provider = new ScriptedProvider([
+      '```json\n{"title": "\\"Sourdough  starter tips.\\"", "summary": "The user asked how to\\nfeed a starter."}\n```',
+      'not json',
+    ])
+    const events = [event('user', 'How do I feed a starter?'), event('tool_result', 'secret output'), event('assistant', 'Daily.')]
+
+    const result = await summarizeSession(events, provider, 'claude-mini')
+    assert.deepEqual(result, { title: 'Sourdough starter tips', summary: 'The user asked how to feed a starter.', messageCount: 2 })
+    assert.equal(provider.requests[0]!.model, 'claude-mini')
+    assert.ok(!JSON.stringify(provider.requests[0]!.messages).includes('secret output'))
+
+    await assert.rejects(summarizeSession(events, provider, 'claude-mini'), /Session summary failed: not valid JSON/)
+
+    assert.equal(summaryDue(1, undefined, 10), false)
+    assert.equal(summaryDue(2, undefined, 10), true)
+    assert.equal(summaryDue(11, 2, 10), false)
+    assert.equal(summaryDue(12, 2, 10), true)
+  })
+
+  it('titles, summarizes and indexes a session after its first exchange', async () => {
+    const workspacePath = join(tmpDir, 'workspace')
+    await mkdir(join(workspacePath, 'sessions'), { recursive: true })
+    await writeFile(join(workspacePath, 'AGENTS.md'), '## assistant\nModel: anthropic/claude-test\n')
+
+    const provider = new ScriptedProvider([
+      '{"title": "Kayak trip packing", "summary": "The user is packing for a three day kayak trip on the Ardèche."}',
+      '{"title": "Kayak trip food", "summary": "The user planned meals for the kayak trip."}',
+    ])
+    const sessionManager = new SessionManager(join(workspacePath, 'sessions'))
+    const session = await sessionManager.create('assistant')
+    const workspaceWatcher = new WorkspaceWatcher(workspacePath)
+    await workspaceWatcher.reload()
+    const memoryDb = openMemoryDb(join(tmpDir, 'memory.db'))
+
+    let finished: () => void = () => {}
+    let summarized: (data: unknown) => void = () => {}
+    const ctx = {
+      sendEvent: (name: string, data: unknown) => {
+        if (name === 'chat.final') finished()
+        if (name === 'session.summarized') summarized(data)
+      },
+      config: ConfigSchema.parse({
+        providers: { retry: { maxRetries: 0 } },
+        sessions: { summaries: { enabled: true, model: 'anthropic/claude-mini', refreshEvery: 4 } },
+      }),
+      token: 'test',
+      providers: new Map([['anthropic', provider]]),
+      circuitBreaker: new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 }),
+      workspacePath,
+      workspaceWatcher,
+      sessionManager,
+      activeRuns: new Map(),
+      toolRegistry: new ToolRegistry(),
+      approvalManager: new ApprovalManager(),
+      auditLogger: new AuditLogger(join(tmpDir, 'audit.jsonl'), false),
+      browserSessionManager: new BrowserSessionManager(),
+      memoryDb,
+      embedder: null,
+      scheduler: null,
+      usageTracker: null,
+      janitor: null,
+      hub: null,
+      clientId: 'test',
+    } satisfies MethodContext
+
+    const send = async (message: string) => {
+      const done = new Promise<void>((resolve) => { finished = resolve })
+      await chatSend({ sessionKey: session.meta.key, message }, ctx)
+      await done
+    }
+    const nextSummary = () => new Promise<unknown>((resolve) => { summarized = resolve })
+
+    let pending = nextSummary()
+    await send('What should I pack for three days of kayaking?')
+    assert.deepEqual(await pending, {
+      sessionKey: session.meta.key,
+      label: 'Kayak trip packing',
+      summary: 'The user is packing for a three day kayak trip on the Ardèche.',
+    })
+    assert.equal(provider.requests.at(-1)!.model, 'claude-mini')
+    assert.equal(session.meta.summaryMessageCount, 2)
+    const results = await hybridSearch(memoryDb, null, 'Ardèche', 5)
+    assert.ok(results.some((r) => r.content.includes('[session summary] Kayak trip packing')))
+
+    // Not due again until four more messages; a name the user chose is kept
+    await send('And food?')
+    assert.equal(provider.requests.filter((r) => r.responseSchema).length, 1)
+    await sessionsRename({ sessionKey: session.meta.key, label: 'Ardèche' }, ctx)
+    pending = nextSummary()
+    await send('Water?')
+    await pending
+    assert.equal(session.meta.label, 'Ardèche')
+    assert.equal(session.meta.summary, 'The user planned meals for the kayak trip.')
+    assert.equal(session.meta.summaryMessageCount, 6)
+
+    await sessionManager.close()
+    memoryDb.close()
+  })
+})
@@ -0,0 +1,174 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { SessionHub, type EventFrame, type ResumeResult } from '../src/gateway/session-hub.js'
+import { chatResume, chatSend } from '../src/gateway/methods/chat.js'
+import { RpcError } from '../src/gateway/methods/registry.js'
+import type { MethodContext } from '../src/gateway/methods/types.js'
+import { SessionManager } from '../src/sessions/manager.js'
+import { CircuitBreaker } from '../src/agents/failover.js'
+import { WorkspaceWatcher } from '../src/agents/workspace-watcher.js'
+import { ConfigSchema } from '../src/config/schema.js'
+import { ToolRegistry } from '../src/tools/registry.js'
+import { ApprovalManager } from '../src/tools/approval.js'
+import { BrowserSessionManager } from '../src/tools/browser-session.js'
+import { AuditLogger } from '../src/security/audit.js'
+import type { ChatEvent, ModelProvider } from '../src/agents/providers/types.js'
+
+/** Streams "Hel", waits to be released, then streams "lo" and finishes. */
+class PausingProvider implements ModelProvider {
+  readonly id = 'anthropic'
+  release: () => void = () => {}
+  private gate = new Promise<void>((resolve) => { this.release = resolve })
+
+  async *chat(): AsyncIterable<ChatEvent> {
+    yield { type: 'delta', text: 'Hel' }
+    await this.gate
+    yield { type: 'delta', text: 'lo' }
+    yield { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } }
+  }
+}
+
+function recorder(hub: SessionHub, clientId: string): EventFrame[] {
+  const frames: EventFrame[] = []
+  hub.addClient(clientId, (frame) => frames.push(frame))
+  return frames
+}
+
+describe('session sync', () => {
+  let tmpDir: string
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-sync-'))
+  })
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('numbers session events, sends them to viewers and replays what was missed', async () => {
+    const hub = new SessionHub({ maxEvents: 3, retainMs: 0 })
+    const a = recorder(hub, 'a')
+    const b = recorder(hub, 'b')
+    hub.watch('a', 's1')
+    hub.watch('b', 's2')
+
+    hub.startRun('s1', 'run-1')
+    hub.publish('s1', 'chat.delta', { runId: 'run-1', text: 'one' })
+    hub.publish('s2', 'chat.delta', { runId: 'run-2', text: 'other' })
+    hub.publish('s1', 'exec.approval_request', { approvalId: 'ap-1', runId: 'run-1' })
+    assert.deepEqual(a.map((f) => [f.sessionKey, f.seq, f.event]), [['s1', 1, 'chat.delta'], ['s1', 2, 'exec.approval_request']])
+    assert.deepEqual(b.map((f) => [f.sessionKey, f.seq]), [['s2', 1]])
+
+    // Answering in one client tells every viewer
+    hub.watch('b', 's1')
+    hub.settleApprovals(['ap-1', 'unknown'], true)
+    assert.deepEqual(b.at(-1), {
+      event: 'exec.approval_resolved', data: { approvalIds: ['ap-1'], approved: true }, sessionKey: 's1', seq: 3,
+    })
+
+    const replay = (r: ResumeResult) => r.events.map((e) => e.seq)
+    const fresh = hub.resume('s1')
+    assert.deepEqual([fresh.runs, replay(fresh), fresh.complete], [['run-1'], [1, 2, 3], true])
+    const caughtUp = hub.resume('s1', 1, hub.epoch)
+    assert.deepEqual([replay(caughtUp), caughtUp.seq, caughtUp.complete], [[2, 3], 3, true])
+
+    // Dropped events, another gateway's numbering or an unknown seq can't be replayed
+    hub.publish('s1', 'chat.delta', { runId: 'run-1', text: 'two' })
+    assert.deepEqual([replay(hub.resume('s1', 1)), hub.resume('s1', 1).complete], [[2, 3, 4], true])
+    hub.publish('s1', 'chat.delta', { runId: 'run-1', text: 'three' })
+    assert.equal(hub.resume('s1', 1).complete, false)
+    assert.equal(hub.resume('s1').complete, false)
+    assert.equal(hub.resume('s1', 4, 'other-epoch').complete, false)
+    assert.equal(hub.resume('s1', 9).complete, false)
+
+    // Ended runs are kept for retainMs; sequence numbers carry on afterwards
+    hub.endRun('s1', 'run-1')
+    assert.deepEqual(hub.resume('s1').runs, [])
+    assert.deepEqual(replay(hub.resume('s1', 4)), [5])
+    await sleep(10)
+    assert.deepEqual([hub.resume('s1', 5).complete, hub.resume('s1', 4).complete], [true, false])
+    hub.publish('s1', 'chat.delta', { runId: 'run-3', text: 'next' })
+    assert.equal(a.at(-1)!.seq, 6)
+
+    hub.removeClient('a')
+    hub.broadcast('agents.changed', {})
+    assert.equal(a.at(-1)!.seq, 6)
+    assert.deepEqual(b.at(-1), { event: 'agents.changed', data: {} })
+
+    // A deleted session leaves nothing behind
+    hub.forgetSessions(['s1', 's2'])
+    assert.deepEqual([hub.resume('s1').seq, hub.resume('s2').seq], [0, 0])
+  })
+
+  it('lets a second client pick up a run in flight and follow it to the end', async () => {
+    const workspacePath = join(tmpDir, 'workspace')
+    await mkdir(join(workspacePath, 'sessions'), { recursive: true })
+    await writeFile(join(workspacePath, 'AGENTS.md'), '## assistant\nModel: anthropic/claude-test\n')
+
+    const sessionManager = new SessionManager(join(workspacePath, 'sessions'))
+    const session = await sessionManager.create('assistant')
+    const workspaceWatcher = new WorkspaceWatcher(workspacePath)
+    await workspaceWatcher.reload()
+    const provider = new PausingProvider()
+    const hub = new SessionHub({ maxEvents: 100, retainMs: 1000 })
+    const sender = recorder(hub, 'sender')
+    const viewer = recorder(hub, 'viewer')
+
+    const context = (clientId: string, withHub = true) => ({
+      sendEvent: () => assert.fail('run events go through the hub'),
+      config: ConfigSchema.parse({ providers: { retry: { maxRetries: 0 } } }),
+      token: 'test',
+      providers: new Map([['anthropic', provider]]),
+      circuitBreaker: new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 }),
+      workspacePath,
+      workspaceWatcher,
+      sessionManager,
+      activeRuns: new Map(),
+      toolRegistry: new ToolRegistry(),
+      approvalManager: new ApprovalManager(),
+      auditLogger: new AuditLogger(join(tmpDir, 'audit.jsonl'), false),
+      browserSessionManager: new BrowserSessionManager(),
+      memoryDb: null,
+      embedder: null,
+      scheduler: null,
+      usageTracker: null,
+      janitor: null,
+      hub: withHub ? hub : null,
+      clientId,
+    } satisfies MethodContext)
+
+    const sessionKey = session.meta.key
+    const { runId } = await chatSend({ sessionKey, message: 'hello' }, context('sender')) as { runId: string }
+    while (sender.length === 0) await sleep(5)
+    assert.equal(viewer.length, 0)
+
+    // The viewer opens the session mid-run and replays it from the start
+    const opened = await chatResume({ sessionKey }, context('viewer')) as ResumeResult
+    assert.deepEqual(opened.runs, [runId])
+    assert.deepEqual(opened.events.map((e) => [e.event, e.data]), [['chat.delta', { runId, text: 'Hel' }]])
+
+    provider.release()
+    while (!viewer.some((f) => f.event === 'chat.final')) await sleep(5)
+    assert.deepEqual(viewer.map((f) => f.event), ['chat.delta', 'chat.final'])
+    assert.deepEqual(sender.map((f) => f.seq), [1, 2, 3])
+    assert.deepEqual(viewer.map((f) => f.seq), [2, 3])
+
+    // A client that dropped after the first delta catches up on the rest
+    const reconnected = await chatResume({ sessionKey, afterSeq: 1, epoch: opened.epoch }, context('viewer')) as ResumeResult
+    assert.deepEqual([reconnected.events.map((e) => e.seq), reconnected.complete], [[2, 3], true])
+    while (hub.resume(sessionKey).runs.length > 0) await sleep(5)
+
+    await assert.rejects(
+      chatResume({ sessionKey: '00000000-0000-4000-8000-000000000000' }, context('viewer')),
+      (err: RpcError) => err.code === -32603,
+    )
+    await assert.rejects(chatResume({ sessionKey }, context('viewer', false)), (err: RpcError) => err.code === -32603)
+    await assert.rejects(chatResume({ sessionKey, afterSeq: -1 }, context('viewer')), (err: RpcError) => err.code === -32602)
+
+    await sessionManager.close()
+  })
+})
@@ -0,0 +1,198 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, mkdir, rm, readdir } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import {
+  sessionsArchive,
+  sessionsDelete,
+  sessionsDuplicate,
+  sessionsExport,
+  sessionsImport,
+  sessionsList,
+  sessionsPin,
+  sessionsRename,
+} from '../src/gateway/methods/sessions.js'
+import { RpcError } from '../src/gateway/methods/registry.js'
+import type { MethodContext } from '../src/gateway/methods/types.js'
+import { SessionManager } from '../src/sessions/manager.js'
+import { openMemoryDb, type MemoryDb } from '../src/memory/db.js'
+import { IndexManager } from '../src/memory/indexer.js'
+import { indexSessionTranscripts } from '../src/memory/session-files.js'
+import type { SessionMeta } from '../src/sessions/session.js'
+import type { SessionBundle } from '../src/sessions/export.js'
+
+describe('session lifecycle RPC methods', () => {
+  let tmpDir: string
+  let sessionsDir: string
+  let memoryDb: MemoryDb
+  let ctx: MethodContext
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-sessions-rpc-'))
+    sessionsDir = join(tmpDir, 'sessions')
+    await mkdir(sessionsDir, { recursive: true })
+    memoryDb = openMemoryDb(join(tmpDir, 'memory.db'))
+    // Only the fields the sessions methods use
+    ctx = {
+      sessionManager: new SessionManager(sessionsDir),
+      memoryDb,
+    } as unknown as MethodContext
+  })
+
+  after(async () => {
+    await ctx.sessionManager.close()
+    memoryDb.close()
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  const list = async (params: unknown = {}) =>
+    ((await sessionsList(params, ctx)) as { sessions: SessionMeta[] }).sessions.map((s) => s.label)
+
+  it('renames, pins and archives sessions', async () => {
+    const first = await ctx.sessionManager.create('assistant')
+    const second = await ctx.sessionManager.create('assistant')
+    await sessionsRename({ sessionKey: first.meta.key, label: '  Trip plans ' }, ctx)
+    await sessionsRename({ sessionKey: second.meta.key, label: 'Taxes' }, ctx)
+
+    await sessionsPin({ sessionKey: first.meta.key }, ctx)
+    assert.deepEqual(await list(), ['Trip plans', 'Taxes'])
+
+    await sessionsArchive({ sessionKey: first.meta.key }, ctx)
+    assert.deepEqual(await list(), ['Taxes'])
+    assert.deepEqual(await list({ includeArchived: true }), ['Trip plans', 'Taxes'])
+
+    const { session } = await sessionsArchive({ sessionKey: first.meta.key, archived: false }, ctx) as { session: SessionMeta }
+    assert.equal(session.archived, undefined)
+    assert.equal(session.pinned, true)
+
+    await assert.rejects(
+      sessionsRename({ sessionKey: '00000000-0000-4000-8000-000000000000', label: 'x' }, ctx),
+      (err: RpcError) => err.code === -32603,
+    )
+    await assert.rejects(sessionsRename({ sessionKey: first.meta.key, label: '  ' }, ctx), (err: RpcError) => err.code === -32602)
+  })
+
+  it('duplicates a session with its transcript and attachments', async () => {
+    const source = await ctx.sessionManager.create('assistant')
+    await ctx.sessionManager.update(source.meta.key, { label: 'Recipes' })
+    const ref = await source.saveAttachment({ name: 'a.txt', mimeType: 'text/plain', data: Buffer.from('hi') })
+    await source.appendEvent({ role: 'user', content: 'Soup?', timestamp: 1, attachments: [ref] })
+    await source.appendEvent({ role: 'assistant', content: 'Leek.', timestamp: 2 })
+
+    const { sessionKey, meta } = await sessionsDuplicate({ sessionKey: source.meta.key }, ctx) as {
+      sessionKey: string
+      meta: SessionMeta
+    }
+    assert.notEqual(sessionKey, source.meta.key)
+    assert.equal(meta.label, 'Recipes (copy)')
+
+    const copy = (await ctx.sessionManager.get(sessionKey))!
+    const events = await copy.readEvents()
+    assert.deepEqual(events.map((e) => e.content), ['Soup?', 'Leek.'])
+    assert.equal((await copy.readAttachment(events[0]!.attachments![0]!)).toString(), 'hi')
+  })
+
+  it('deletes a session, its sub-agent sessions and their memory', async () => {
+    const parent = await ctx.sessionManager.create('assistant')
+    await parent.saveAttachment({ name: 'a.txt', mimeType: 'text/plain', data: Buffer.from('hi') })
+    await parent.appendEvent({ role: 'user', content: 'remember the zebra', timestamp: 1 })
+    const child = await ctx.sessionManager.create('helper', { parent: { sessionKey: parent.meta.key, runId: 'run-1' } })
+    await child.appendEvent({ role: 'assistant', content: 'zebra noted', timestamp: 2 })
+    const keep = await ctx.sessionManager.create('assistant')
+    await keep.appendEvent({ role: 'user', content: 'keep this one', timestamp: 3 })
+
+    await indexSessionTranscripts(new IndexManager(memoryDb, null), ctx.sessionManager)
+    const indexed = () => (memoryDb.prepare('SELECT path FROM files').all() as Array<{ path: string }>)
+      .map((row) => row.path)
+    assert.ok(indexed().some((path) => path.includes(parent.meta.key)))
+
+    const { deleted } = await sessionsDelete({ sessionKey: parent.meta.key }, ctx) as { deleted: string[] }
+    assert.deepEqual(deleted, [parent.meta.key, child.meta.key])
+
+    const left = await readdir(sessionsDir)
+    assert.ok(!left.some((f) => f.startsWith(parent.meta.key) || f.startsWith(child.meta.key)), left.join(', '))
+    assert.ok(left.includes(`${keep.meta.key}.memory.txt`))
+    assert.equal(await ctx.sessionManager.get(parent.meta.key), null)
+    assert.ok(!indexed().some((path) => path.includes(parent.meta.key) || path.includes(child.meta.key)))
+    assert.ok(indexed().some((path) => path.includes(keep.meta.key)))
+    const chunks = memoryDb.prepare('SELECT content FROM chunks').all() as Array<{ content: string }>
+    assert.ok(!chunks.some((c) => c.content.includes('zebra')))
+
+    await assert.rejects(sessionsDelete({ sessionKey: parent.meta.key }, ctx), (err: RpcError) => err.code === -32603)
+  })
+
+  it('exports a session as Markdown, HTML and a bundle that imports losslessly', async () => {
+    const source = await ctx.sessionManager.create('assistant')
+    await ctx.sessionManager.update(source.meta.key, { label: 'Bug <repro>', pinned: true })
+    const png = Buffer.from('89504e470d0a1a0a', 'hex')
+    const shot = await source.saveAttachment({ name: 'shot.png', mimeType: 'image/png', data: png })
+    const first = await source.appendEvent({ role: 'user', content: 'Clean up /tmp', timestamp: 1 })
+    await source.appendEvent({
+      role: 'tool_use',
+      content: 'Checking first.',
+      timestamp: 2,
+      toolCalls: [{ id: 'call-1', name: 'bash', input: { command: 'rm -rf /tmp/*' } }],
+    })
+    await source.appendEvent({
+      role: 'tool_result',
+      content: 'Command denied by user.',
+      timestamp: 3,
+      toolName: 'bash',
+      toolCallId: 'call-1',
+      approval: 'denied',
+      attachments: [shot],
+    })
+    await source.appendEvent({ role: 'assistant', content: 'Left <b>/tmp</b> alone.', timestamp: 4, model: 'anthropic/claude-test' })
+    // An edit on a second branch, then back to the first
+    await source.branchFrom(null)
+    await source.appendEvent({ role: 'user', content: 'Never mind', timestamp: 5 })
+    await source.selectBranch(first)
+
+    const markdown = await sessionsExport({ sessionKey: source.meta.key }, ctx) as { filename: string; content: string }
+    assert.equal(markdown.filename, 'bug-repro.md')
+    assert.match(markdown.content, /^# Bug <repro>/)
+    assert.match(markdown.content, /\*\*Tool call:\*\* `bash`\n\n```json\n\{\n {2}"command": "rm -rf \/tmp\/\*"\n\}\n```/)
+    assert.match(markdown.content, /#### Result: bash \(denied by user\)/)
+    assert.ok(markdown.content.includes(`![shot.png](data:image/png;base64,${png.toString('base64')})`))
+    assert.ok(!markdown.content.includes('Never mind'))
+
+    const page = await sessionsExport({ sessionKey: source.meta.key, format: 'html' }, ctx) as { content: string }
+    assert.ok(page.content.includes('<title>Bug &lt;repro&gt;</title>'))
+    assert.ok(page.content.includes('Left &lt;b&gt;/tmp&lt;/b&gt; alone.'))
+    assert.ok(page.content.includes('<span class="badge denied">denied by user</span>'))
+    assert.ok(page.content.includes(`src="data:image/png;base64,${png.toString('base64')}"`))
+
+    const { bundle } = await sessionsExport({ sessionKey: source.meta.key, format: 'json' }, ctx) as { bundle: SessionBundle }
+    // Through JSON, as it would travel between machines
+    const { sessionKey, meta } = await sessionsImport({ bundle: JSON.parse(JSON.stringify(bundle)) }, ctx) as {
+      sessionKey: string
+      meta: SessionMeta
+    }
+    assert.notEqual(sessionKey, source.meta.key)
+    assert.equal(meta.label, 'Bug <repro>')
+    assert.equal(meta.pinned, true)
+    assert.equal(meta.selectedBranch, first)
+
+    const restored = (await ctx.sessionManager.get(sessionKey))!
+    assert.deepEqual((await restored.readTree()).events, (await source.readTree()).events)
+    assert.deepEqual((await restored.readEvents()).map((e) => e.content), (await source.readEvents()).map((e) => e.content))
+    assert.deepEqual(await restored.readAttachment(shot), png)
+
+    const tampered = { ...bundle, attachments: [{ ...bundle.attachments[0]!, id: '../../escape' }] }
+    await assert.rejects(sessionsImport({ bundle: tampered }, ctx), (err: RpcError) => err.code === -32602)
+
+    // Two events naming each other as parent would never reach a root
+    const cyclic = {
+      ...bundle,
+      events: [
+        { role: 'user', content: 'a', timestamp: 1, id: 'a', parentId: 'b' },
+        { role: 'assistant', content: 'b', timestamp: 2, id: 'b', parentId: 'a' },
+      ],
+      attachments: [],
+    }
+    await assert.rejects(sessionsImport({ bundle: cyclic }, ctx), (err: RpcError) => err.code === -32602)
+    const duplicate = { ...cyclic, events: [{ ...cyclic.events[0]!, parentId: null }, { ...cyclic.events[0]!, parentId: null }] }
+    await assert.rejects(sessionsImport({ bundle: duplicate }, ctx), (err: RpcError) => err.code === -32602)
+  })
+})
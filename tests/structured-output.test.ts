@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { validateJsonSchema } from '../src/agents/json-schema.js'
+import { ResponseSchemaParam, parseStructuredAnswer } from '../src/agents/structured-output.js'
+import { runAgentTurn } from '../src/agents/runner.js'
+import type { ChatEvent, ChatParams, ModelProvider } from '../src/agents/providers/types.js'
+
+const REPORT_SCHEMA = {
+  type: 'object',
+  properties: {
+    status: { enum: ['ok', 'degraded'] },
+    items: {
+      type: 'array',
+      items: { $ref: '#/$defs/item' },
+    },
+  },
+  required: ['status', 'items'],
+  additionalProperties: false,
+  $defs: {
+    item: {
+      type: 'object',
+      properties: { name: { type: 'string', minLength: 1 }, price: { type: 'number', minimum: 0 } },
+      required: ['name'],
+    },
+  },
+}
+
+describe('validateJsonSchema', () => {
+  it('accepts a matching value', () => {
+    assert.deepEqual(validateJsonSchema({ status: 'ok', items: [{ name: 'a', price: 1.5 }] }, REPORT_SCHEMA), [])
+  })
+
+  it('reports every mismatch with its path', () => {
+    const errors = validateJsonSchema(
+      { status: 'down', items: [{ name: '', price: 'free' }], extra: true },
+      REPORT_SCHEMA,
+    )
+    assert.deepEqual(errors, [
+      'status: must be one of "ok", "degraded"',
+      'items[0].name: must be at least 1 characters',
+      'items[0].price: expected number, got string',
+      'extra: is not allowed',
+    ])
+  })
+
+  it('handles anyOf and oneOf', () => {
+    const schema = { oneOf: [{ type: 'integer' }, { type: 'number', minimum: 1 }] }
+    assert.deepEqual(validateJsonSchema(0, schema), [])
+    assert.match(validateJsonSchema(2, schema)[0]!, /exactly one/)
+    assert.match(validateJsonSchema('x', { anyOf: [{ type: 'null' }, { type: 'integer' }] })[0]!, /at least one/)
+  })
+})
+
+describe('parseStructuredAnswer', () => {
+  it('parses JSON, tolerating a code fence', () => {
+    const answer = parseStructuredAnswer('```json\n{"status":"ok","items":[]}\n```', REPORT_SCHEMA)
+    assert.deepEqual(answer, { ok: true, value: { status: 'ok', items: [] } })
+  })
+
+  it('explains invalid JSON and schema mismatches', () => {
+    const notJson = parseStructuredAnswer('Sure! Here it is.', REPORT_SCHEMA)
+    assert.equal(notJson.ok, false)
+    assert.match(!notJson.ok ? notJson.error : '', /^not valid JSON/)
+
+    assert.deepEqual(parseStructuredAnswer('{"status":"ok"}', REPORT_SCHEMA), { ok: false, error: 'items: is required' })
+  })
+
+  it('only accepts object schemas as params', () => {
+    assert.equal(ResponseSchemaParam.safeParse(REPORT_SCHEMA).success, true)
+    assert.equal(ResponseSchemaParam.safeParse({ type: 'array' }).success, false)
+  })
+})
+
+describe('runAgentTurn with a response schema', () => {
+  function scripted(answers: string[]): { provider: ModelProvider; requests: ChatParams[] } {
+    const requests: ChatParams[] = []
+    const provider: ModelProvider = {
+      id: 'stub',
+      async *chat(params) {
+        requests.push(params)
+        yield { type: 'delta', text: answers[requests.length - 1] ?? '' }
+        yield { type: 'final', usage: { inputTokens: 1, outputTokens: 1 } }
+      },
+    }
+    return { provider, requests }
+  }
+
+  it('passes the schema to the provider and asks once for a repair', async () => {
+    const { provider, requests } = scripted(['{"status":"ok"}', '{"status":"ok","items":[]}'])
+    const events: ChatEvent[] = []
+    const repairs: string[] = []
+
+    await runAgentTurn({
+      provider,
+      model: 'test-model',
+      systemPrompt: 'system',
+      messages: [{ role: 'user', content: 'Report' }],
+      tools: [],
+      responseSchema: REPORT_SCHEMA,
+      onRepair: (error) => repairs.push(error),
+      onEvent: (event) => events.push(event),
+    })
+
+    assert.deepEqual(repairs, ['items: is required'])
+    assert.equal(requests.length, 2)
+    assert.deepEqual(requests[0]!.responseSchema, REPORT_SCHEMA)
+    assert.deepEqual(requests[1]!.messages.slice(1).map((m) => m.role), ['assistant', 'user'])
+    assert.match(String(requests[1]!.messages[2]!.content), /items: is required/)
+    assert.deepEqual(events.map((e) => e.type), ['delta', 'delta', 'final'])
+  })
+
+  it('gives up after one repair attempt', async () => {
+    const { provider, requests } = scripted(['nope', 'still nope', 'never asked'])
+    const events: ChatEvent[] = []
+
+    await runAgentTurn({
+      provider,
+      model: 'test-model',
+      systemPrompt: 'system',
+      messages: [{ role: 'user', content: 'Report' }],
+      tools: [],
+      responseSchema: REPORT_SCHEMA,
+      onEvent: (event) => events.push(event),
+    })
+
+    assert.equal(requests.length, 2)
+    assert.equal(events.at(-1)?.type, 'final')
+  })
+})
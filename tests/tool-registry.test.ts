@@ -11,6 +11,7 @@ class StubTool implements Tool {
   description = 'A stub tool'
   inputSchema = z.object({ echo: z.string() })
   requiresApproval = false
+  parallelSafe = true
 
   toDefinition(): ToolDefinition {
     return {
@@ -53,4 +54,12 @@ describe('ToolRegistry', () => {
     assert.equal(defs[0]!.name, 'stub')
     assert.equal(typeof defs[0]!.inputSchema, 'object')
   })
+
+  it('reports parallel safety, treating unknown tools as unsafe', () => {
+    const reg = new ToolRegistry()
+    reg.register(new StubTool())
+
+    assert.equal(reg.isParallelSafe('stub'), true)
+    assert.equal(reg.isParallelSafe('nonexistent'), false)
+  })
 })
@@ -0,0 +1,170 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm, mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { z } from 'zod'
+import { chatSend } from '../src/gateway/methods/chat.js'
+import type { MethodContext } from '../src/gateway/methods/types.js'
+import { CircuitBreaker } from '../src/agents/failover.js'
+import { ConfigSchema } from '../src/config/schema.js'
+import { SessionManager } from '../src/sessions/manager.js'
+import { toolOutputForTranscript } from '../src/sessions/transcript.js'
+import { ToolRegistry } from '../src/tools/registry.js'
+import { ApprovalManager } from '../src/tools/approval.js'
+import { BrowserSessionManager } from '../src/tools/browser-session.js'
+import { AuditLogger } from '../src/security/audit.js'
+import { WorkspaceWatcher } from '../src/agents/workspace-watcher.js'
+import type { Tool } from '../src/tools/types.js'
+import type { ChatEvent, ChatParams, ModelProvider } from '../src/agents/providers/types.js'
+
+class ScriptedProvider implements ModelProvider {
+  readonly id = 'anthropic'
+  requests: ChatParams[] = []
+
+  constructor(private script: ChatEvent[][]) {}
+
+  async *chat(params: ChatParams): AsyncIterable<ChatEvent> {
+    this.requests.push(structuredClone(params))
+    for (const event of this.script[this.requests.length - 1] ?? []) {
+      yield event
+    }
+  }
+}
+
+const echoTool: Tool = {
+  name: 'echo',
+  description: 'Echo the input',
+  requiresApproval: false,
+  parallelSafe: true,
+  inputSchema: z.object({ text: z.string() }),
+  toDefinition: () => ({ name: 'echo', description: 'Echo the input', inputSchema: { type: 'object' } }),
+  execute: async (input) => ({ output: `echo: ${(input as { text: string }).text}` }),
+}
+
+const defaults = ConfigSchema.parse({}).tools.transcript
+const policy = { ...defaults, bashOutput: 'full' as const }
+
+describe('toolOutputForTranscript', () => {
+  it('leaves bash output out by default', () => {
+    const stored = toolOutputForTranscript('bash', 'total 0', defaults, { exitCode: 2 })
+    assert.equal(stored, 'Bash command executed (exit 2, output 7 chars). Raw output not persisted.')
+    assert.equal(toolOutputForTranscript('read_file', 'text', defaults), 'text')
+  })
+
+  it('stores bash output in full when opted in', () => {
+    assert.equal(toolOutputForTranscript('bash', 'total 0', policy, { exitCode: 0 }), 'total 0')
+  })
+
+  it('masks redact patterns', () => {
+    const stored = toolOutputForTranscript('bash', 'user=alice id=42 user=bob', { ...policy, redact: ['user=\\w+'] })
+    assert.equal(stored, '[REDACTED] id=42 [REDACTED]')
+  })
+
+  it('keeps the head and tail of long output', () => {
+    const output = 'a'.repeat(400) + 'b'.repeat(200)
+    const stored = toolOutputForTranscript('bash', output, { ...policy, maxChars: 300 })
+    assert.equal(stored, `${'a'.repeat(200)}\n[… 300 characters not stored …]\n${'b'.repeat(100)}`)
+  })
+})
+
+describe('tool call replay', () => {
+  let tmpDir: string
+  let workspacePath: string
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-transcript-'))
+    workspacePath = join(tmpDir, 'workspace')
+    await mkdir(join(workspacePath, 'sessions'), { recursive: true })
+    await writeFile(join(workspacePath, 'AGENTS.md'), '## assistant\nModel: anthropic/claude-test\nTools: echo\n')
+  })
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('replays earlier tool calls and results to the model on the next turn', async () => {
+    const provider = new ScriptedProvider([
+      [
+        { type: 'delta', text: 'Let me check.' },
+        { type: 'tool_call', name: 'echo', input: { text: 'hi' }, callId: 'call-1' },
+        { type: 'tool_call', name: 'missing', input: {}, callId: 'call-2' },
+        { type: 'final', usage: { inputTokens: 10, outputTokens: 5 } },
+      ],
+      [
+        { type: 'delta', text: 'The echo said hi.' },
+        { type: 'final', usage: { inputTokens: 20, outputTokens: 5 } },
+      ],
+      [
+        { type: 'delta', text: 'It said hi.' },
+        { type: 'final', usage: { inputTokens: 30, outputTokens: 5 } },
+      ],
+    ])
+    const toolRegistry = new ToolRegistry()
+    toolRegistry.register(echoTool)
+    const sessionManager = new SessionManager(join(workspacePath, 'sessions'))
+    const session = await sessionManager.create('assistant')
+    const workspaceWatcher = new WorkspaceWatcher(workspacePath)
+    await workspaceWatcher.reload()
+
+    const send = (message: string) => new Promise<void>((resolve, reject) => {
+      const ctx = {
+        sendEvent: (event: string, data: unknown) => {
+          if (event === 'chat.final') resolve()
+          if (event === 'chat.error') reject(new Error((data as { message: string }).message))
+        },
+        config: ConfigSchema.parse({ providers: { retry: { maxRetries: 0 } } }),
+        token: 'test',
+        providers: new Map([['anthropic', provider]]),
+        circuitBreaker: new CircuitBreaker({ failureThreshold: 3, cooldownMs: 1000 }),
+        workspacePath,
+        workspaceWatcher,
+        sessionManager,
+        activeRuns: new Map(),
+        toolRegistry,
+        approvalManager: new ApprovalManager(),
+        auditLogger: new AuditLogger(join(tmpDir, 'audit.jsonl'), false),
+        browserSessionManager: new BrowserSessionManager(),
+        memoryDb: null,
+        embedder: null,
+        scheduler: null,
+        usageTracker: null,
+        janitor: null,
+        hub: null,
+        clientId: 'test',
+      } satisfies MethodContext
+      chatSend({ sessionKey: session.meta.key, message }, ctx).catch(reject)
+    })
+
+    await send('Echo hi')
+    const events = await session.readEvents()
+    assert.deepEqual(
+      events.filter((e) => e.role !== 'usage').map((e) => e.role),
+      ['user', 'tool_use', 'tool_result', 'tool_result', 'assistant'],
+    )
+    assert.equal(events[1]!.content, 'Let me check.')
+    assert.equal(events[4]!.content, 'The echo said hi.')
+
+    await send('What did it say?')
+    assert.deepEqual(provider.requests[2]!.messages, [
+      { role: 'user', content: 'Echo hi' },
+      {
+        role: 'assistant',
+        content: [
+          { type: 'text', text: 'Let me check.' },
+          { type: 'tool_use', id: 'call-1', name: 'echo', input: { text: 'hi' } },
+          { type: 'tool_use', id: 'call-2', name: 'missing', input: {} },
+        ],
+      },
+      {
+        role: 'user',
+        content: [
+          { type: 'tool_result', toolUseId: 'call-1', content: 'echo: hi' },
+          { type: 'tool_result', toolUseId: 'call-2', content: 'Error: Unknown tool "missing"' },
+        ],
+      },
+      { role: 'assistant', content: 'The echo said hi.' },
+      { role: 'user', content: 'What did it say?' },
+    ])
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { openMemoryDb, type MemoryDb } from '../src/memory/db.js'
+import { costFor, priceFor } from '../src/usage/pricing.js'
+import { RunUsage, UsageTracker, usageRecordsToCsv } from '../src/usage/tracker.js'
+
+const DAY = 86_400_000
+const MAR_31 = Date.UTC(2026, 2, 31, 12)
+const APR_2 = Date.UTC(2026, 3, 2, 12)
+
+describe('priceFor / costFor', () => {
+  it('matches model prefixes and honours overrides', () => {
+    assert.equal(priceFor('openai/gpt-4o-mini-2024-07-18')?.input, 0.15)
+    assert.equal(priceFor('openai/gpt-4o')?.input, 2.5)
+    assert.equal(priceFor('local/llama3'), null)
+    assert.deepEqual(priceFor('local/llama3', { llama3: { input: 0, output: 0 } }), { input: 0, output: 0 })
+  })
+
+  it('prices cache reads and writes separately', () => {
+    const cost = costFor('anthropic/claude-sonnet-4-5', {
+      inputTokens: 1_000_000,
+      outputTokens: 100_000,
+      cacheReadTokens: 1_000_000,
+      cacheWriteTokens: 1_000_000,
+    })
+    assert.ok(Math.abs(cost! - (3 + 1.5 + 0.3 + 3.75)) < 1e-9, String(cost))
+    assert.equal(costFor('local/llama3', { inputTokens: 10, outputTokens: 10 }), null)
+  })
+})
+
+describe('UsageTracker', () => {
+  let tmpDir: string
+  let db: MemoryDb
+  let now = MAR_31
+  let tracker: UsageTracker
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-usage-'))
+    db = openMemoryDb(join(tmpDir, 'test.db'))
+    tracker = new UsageTracker(db, { monthly: 0.6, agents: { researcher: 0.5 } }, () => now)
+
+    // March: one interactive run with two model calls
+    const march = new RunUsage({ runId: 'r1', sessionKey: 's1', agentId: 'assistant' }, {}, tracker)
+    march.add('openai/gpt-4o', { inputTokens: 100_000, outputTokens: 10_000 })
+    march.add('openai/gpt-4o', { inputTokens: 100_000, outputTokens: 10_000 })
+
+    // April: a scheduled job and an unpriced local model call
+    now = APR_2
+    const job = new RunUsage({ runId: 'r2', sessionKey: 's2', agentId: 'researcher', jobId: 'j1' }, {}, tracker)
+    job.add('openai/gpt-4o', { inputTokens: 200_000, outputTokens: 0 })
+    new RunUsage({ runId: 'r3', sessionKey: 's3', agentId: 'assistant' }, {}, tracker)
+      .add('local/llama3', { inputTokens: 5, outputTokens: 5 })
+  })
+
+  after(async () => {
+    try { db.close() } catch { /* ok */ }
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('aggregates by agent and by day', () => {
+    const byAgent = tracker.summary({}, 'agent')
+    assert.equal(byAgent.totals.runs, 3)
+    assert.equal(byAgent.totals.calls, 4)
+    assert.equal(byAgent.totals.unpricedCalls, 1)
+    assert.ok(Math.abs(byAgent.totals.costUsd - 1.2) < 1e-9)
+    assert.deepEqual(byAgent.groups.map((g) => [g.key, g.runs, g.calls]), [
+      ['assistant', 2, 3],
+      ['researcher', 1, 1],
+    ])
+
+    const byDay = tracker.summary({ from: MAR_31 - DAY }, 'day')
+    assert.deepEqual(byDay.groups.map((g) => g.key), ['2026-03-31', '2026-04-02'])
+
+    const aprilJobs = tracker.summary({ from: Date.UTC(2026, 3, 1) }, 'job')
+    assert.deepEqual(aprilJobs.groups.map((g) => g.key), ['j1', null])
+  })
+
+  it('only counts the current month against budgets', () => {
+    assert.ok(Math.abs(tracker.spentThisMonth() - 0.5) < 1e-9)
+    assert.equal(tracker.checkBudget('assistant'), null)
+    assert.match(tracker.checkBudget('researcher') ?? '', /budget of \$0\.50 for agent "researcher" reached/)
+
+    now = MAR_31
+    assert.match(tracker.checkBudget('assistant') ?? '', /Monthly budget of \$0\.60 reached/)
+    now = APR_2
+  })
+
+  it('exports records as CSV', () => {
+    const csv = usageRecordsToCsv(tracker.records({ to: Date.UTC(2026, 3, 1) })).trim().split('\n')
+    assert.equal(csv.length, 3)
+    assert.match(csv[0]!, /^created_at,run_id,/)
+    assert.equal(csv[1], '2026-03-31T12:00:00.000Z,r1,s1,assistant,,openai/gpt-4o,100000,10000,0,0,0.350000')
+  })
+})
+
+describe('RunUsage', () => {
+  it('sums a run into one transcript event', () => {
+    const run = new RunUsage({ runId: 'r1', sessionKey: null, agentId: 'assistant' }, {}, null)
+    assert.equal(run.toEvent(), null)
+
+    run.add('anthropic/claude-haiku-4-5', { inputTokens: 1_000, outputTokens: 100, cacheReadTokens: 2_000 })
+    run.add('local/llama3', { inputTokens: 10, outputTokens: 10 })
+
+    const event = run.toEvent()!
+    assert.equal(event.role, 'usage')
+    assert.equal(event.model, 'local/llama3')
+    assert.deepEqual(event.usage, { inputTokens: 1_010, outputTokens: 110, cacheReadTokens: 2_000 })
+    assert.ok(Math.abs(event.costUsd! - 0.0017) < 1e-9, String(event.costUsd))
+    assert.match(event.content, /tokens: in 1010, out 110, cache read 2000 \/ write 0, \$0\.0017/)
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, before, after } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtemp, mkdir, rm, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { tmpdir } from 'node:os'
+import { setTimeout as sleep } from 'node:timers/promises'
+import { WorkspaceWatcher, type AgentsSnapshot } from '../src/agents/workspace-watcher.js'
+import { buildSystemPrompt } from '../src/agents/prompt-builder.js'
+
+const AGENTS_MD = [
+  '## assistant',
+  'Model: anthropic/claude-opus-4-6',
+  '',
+  '## researcher',
+  'Model: openai/gpt-4o',
+  'Prompts: RESEARCHER.md',
+].join('\n')
+
+describe('WorkspaceWatcher', () => {
+  let tmpDir: string
+
+  before(async () => {
+    tmpDir = await mkdtemp(join(tmpdir(), 'jarvis-watcher-'))
+  })
+
+  after(async () => {
+    await rm(tmpDir, { recursive: true, force: true })
+  })
+
+  it('keeps the last valid version of an agent whose section breaks', async () => {
+    const workspacePath = await mkdtemp(join(tmpDir, 'stale-'))
+    await writeFile(join(workspacePath, 'AGENTS.md'), AGENTS_MD)
+    await writeFile(join(workspacePath, 'RESEARCHER.md'), 'Research.')
+
+    const watcher = new WorkspaceWatcher(workspacePath)
+    const changes: AgentsSnapshot[] = []
+    watcher.setBroadcast((event, data) => {
+      if (event === 'agents.changed') changes.push(data as AgentsSnapshot)
+    })
+
+    await watcher.reload()
+    assert.equal(changes.length, 1)
+    assert.equal(watcher.getAgent('researcher').model, 'openai/gpt-4o')
+
+    // Reloading unchanged files does not notify clients again
+    await watcher.reload()
+    assert.equal(changes.length, 1)
+
+    await writeFile(join(workspacePath, 'AGENTS.md'), AGENTS_MD.replace('openai/gpt-4o', 'gpt-4o'))
+    const broken = await watcher.reload()
+    assert.equal(changes.length, 2)
+    assert.deepEqual(broken.stale, ['researcher'])
+    assert.match(broken.errors[0]!.errors[0]!, /^Model:/)
+    assert.equal(watcher.getAgent('researcher').model, 'openai/gpt-4o')
+
+    // Removing the section drops the agent
+    await writeFile(join(workspacePath, 'AGENTS.md'), AGENTS_MD.split('\n\n')[0]!)
+    await watcher.reload()
+    assert.throws(() => watcher.getAgent('researcher'), /No model configured for agent "researcher"/)
+  })
+
+  it('reports an agent that was never valid', async () => {
+    const watcher = new WorkspaceWatcher(tmpDir)
+    await writeFile(join(tmpDir, 'AGENTS.md'), '## bad\nModel: gpt-4o\n')
+    await watcher.reload()
+    assert.throws(() => watcher.getAgent('bad'), /Agent "bad" in AGENTS.md is invalid: Model:/)
+  })
+
+  it('reports missing prompt files and broken includes', async () => {
+    const workspacePath = await mkdtemp(join(tmpDir, 'prompts-'))
+    await writeFile(join(workspacePath, 'AGENTS.md'), AGENTS_MD)
+    await writeFile(join(workspacePath, 'SOUL.md'), '{{> MISSING.md}}\n{{#scheduler}}unclosed')
+
+    const { promptErrors } = await new WorkspaceWatcher(workspacePath).reload()
+    assert.deepEqual(promptErrors, {
+      'SOUL.md': ['Ignoring missing include: MISSING.md', 'Unmatched section tag {{#scheduler}}'],
+      'RESEARCHER.md': ['file "RESEARCHER.md" not found in the workspace'],
+    })
+  })
+
+  it('reloads when a workspace file changes on disk', async () => {
+    const workspacePath = await mkdtemp(join(tmpDir, 'watch-'))
+    await writeFile(join(workspacePath, 'AGENTS.md'), AGENTS_MD)
+
+    const watcher = new WorkspaceWatcher(workspacePath)
+    await watcher.start()
+    try {
+      const changed = new Promise<AgentsSnapshot>((resolve) => {
+        watcher.setBroadcast((_event, data) => resolve(data as AgentsSnapshot))
+      })
+      await writeFile(join(workspacePath, 'AGENTS.md'), `${AGENTS_MD}\n\n## writer\nModel: anthropic/claude-test\n`)
+      const snapshot = await changed
+      assert.deepEqual(snapshot.agents.map((a) => a.id), ['assistant', 'researcher', 'writer'])
+    } finally {
+      watcher.stop()
+    }
+  })
+
+  it('caches expanded prompts until an included file in a subdirectory changes', { timeout: 10_000 }, async () => {
+    const workspacePath = await mkdtemp(join(tmpDir, 'cache-'))
+    await mkdir(join(workspacePath, 'parts'))
+    await writeFile(join(workspacePath, 'SOUL.md'), 'Style: {{> parts/style.md}}')
+    await writeFile(join(workspacePath, 'parts', 'style.md'), 'brief')
+
+    const watcher = new WorkspaceWatcher(workspacePath)
+    await watcher.start()
+    try {
+      const prompt = () => buildSystemPrompt(workspacePath, ['SOUL.md'], undefined, undefined, watcher.loadPrompt)
+      assert.equal(await prompt(), 'Style: brief')
+      assert.equal(watcher.loadPrompt(workspacePath, 'SOUL.md'), watcher.loadPrompt(workspacePath, 'SOUL.md'))
+
+      await writeFile(join(workspacePath, 'parts', 'style.md'), 'thorough')
+      while (await prompt() === 'Style: brief') await sleep(20)
+      assert.equal(await prompt(), 'Style: thorough')
+    } finally {
+      watcher.stop()
+    }
+  })
+})
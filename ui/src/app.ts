@@ -2,13 +2,24 @@ import { LitElement, html, css } from 'lit'
 import { customElement, state } from 'lit/decorators.js'
 import { WsClient } from './ws-client.js'
 import { getToken, setToken, clearToken } from './auth-store.js'
-import type { SessionMeta } from './components/session-list.js'
+import type { ExportFormat, Project, ProjectAction, SessionAction, SessionMeta } from './components/session-list.js'
 import './components/session-list.js'
 import './components/chat-view.js'
+import './components/agent-manager.js'
 import './components/jarvis-hud.js'
 
 type HudMode = 'blue' | 'green' | 'red'
 
+/** Save text as a file through the browser's download prompt. */
+function downloadFile(filename: string, body: string, type: string) {
+  const url = URL.createObjectURL(new Blob([body], { type }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
 @customElement('jarvis-app')
 export class JarvisApp extends LitElement {
   static styles = css`
@@ -415,9 +426,18 @@ export class JarvisApp extends LitElement {
   @state()
   private sessions: SessionMeta[] = []
 
+  @state()
+  private projects: Project[] = []
+
   @state()
   private activeSessionKey: string | null = null
 
+  @state()
+  private showAgents = false
+
+  @state()
+  private showArchived = false
+
   @state()
   private showSplash = true
 
@@ -507,6 +527,9 @@ export class JarvisApp extends LitElement {
         client.on('scheduler.run_completed', () => {
           this.loadSessions().catch((err) => console.error('Failed to refresh sessions:', err))
         }),
+        client.on('session.summarized', () => {
+          this.loadSessions().catch((err) => console.error('Failed to refresh sessions:', err))
+        }),
       )
       await this.loadSessions(client)
 
@@ -546,8 +569,14 @@ export class JarvisApp extends LitElement {
     if (!client) return
 
     try {
-      const res = await client.request<{ sessions: SessionMeta[] }>('sessions.list')
-      this.sessions = res.sessions.sort((a, b) => b.updatedAt - a.updatedAt)
+      const [res, projects] = await Promise.all([
+        client.request<{ sessions: SessionMeta[] }>('sessions.list', { includeArchived: this.showArchived }),
+        client.request<{ projects: Project[] }>('projects.list'),
+      ])
+      this.projects = projects.projects
+      this.sessions = res.sessions.sort(
+        (a, b) => Number(b.pinned ?? false) - Number(a.pinned ?? false) || b.updatedAt - a.updatedAt,
+      )
     } catch (err) {
       console.error('Failed to load sessions:', err)
     }
@@ -562,14 +591,16 @@ export class JarvisApp extends LitElement {
     await this.tryConnect(token, input)
   }
 
-  private async handleNewSession() {
+  private async handleNewSession(e: CustomEvent<{ projectId?: string }>) {
     if (!this.client) return
     try {
       const res = await this.client.request<{ sessionKey: string; meta: SessionMeta }>(
         'sessions.create',
+        e.detail.projectId ? { projectId: e.detail.projectId } : undefined,
       )
       this.sessions = [res.meta, ...this.sessions]
       this.activeSessionKey = res.sessionKey
+      this.showAgents = false
     } catch (err) {
       console.error('Failed to create session:', err)
     }
@@ -577,6 +608,99 @@ export class JarvisApp extends LitElement {
 
   private handleSelectSession(e: CustomEvent<{ sessionKey: string }>) {
     this.activeSessionKey = e.detail.sessionKey
+    this.showAgents = false
+  }
+
+  private async handleSessionAction(
+    e: CustomEvent<{ sessionKey: string; action: SessionAction; label?: string; format?: ExportFormat }>,
+  ) {
+    if (!this.client) return
+    const { sessionKey, action, label, format } = e.detail
+    try {
+      switch (action) {
+        case 'rename':
+          await this.client.request('sessions.rename', { sessionKey, label })
+          break
+        case 'pin':
+        case 'unpin':
+          await this.client.request('sessions.pin', { sessionKey, pinned: action === 'pin' })
+          break
+        case 'archive':
+        case 'unarchive':
+          await this.client.request('sessions.archive', { sessionKey, archived: action === 'archive' })
+          if (action === 'archive' && !this.showArchived && this.activeSessionKey === sessionKey) {
+            this.activeSessionKey = null
+          }
+          break
+        case 'duplicate': {
+          const res = await this.client.request<{ sessionKey: string }>('sessions.duplicate', { sessionKey })
+          this.activeSessionKey = res.sessionKey
+          break
+        }
+        case 'export': {
+          const res = await this.client.request<{ filename: string; content?: string; bundle?: unknown }>(
+            'sessions.export',
+            { sessionKey, format },
+          )
+          const body = res.bundle !== undefined ? JSON.stringify(res.bundle, null, 2) : res.content ?? ''
+          const type = format === 'html' ? 'text/html' : format === 'json' ? 'application/json' : 'text/markdown'
+          downloadFile(res.filename, body, type)
+          return
+        }
+        case 'delete':
+          await this.client.request('sessions.delete', { sessionKey })
+          if (this.activeSessionKey === sessionKey) this.activeSessionKey = null
+          break
+      }
+    } catch (err) {
+      console.error(`Failed to ${action} session:`, err)
+    }
+    await this.loadSessions()
+  }
+
+  private async handleSessionImport(e: CustomEvent<{ bundle: unknown }>) {
+    if (!this.client) return
+    try {
+      const res = await this.client.request<{ sessionKey: string }>('sessions.import', { bundle: e.detail.bundle })
+      this.showAgents = false
+      this.activeSessionKey = res.sessionKey
+    } catch (err) {
+      console.error('Failed to import session:', err)
+      window.alert(`Import failed: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    await this.loadSessions()
+  }
+
+  private async handleNewProject(e: CustomEvent<{ name: string; rootDir: string }>) {
+    if (!this.client) return
+    try {
+      await this.client.request('projects.create', e.detail)
+    } catch (err) {
+      console.error('Failed to create project:', err)
+      window.alert(`Could not create project: ${err instanceof Error ? err.message : String(err)}`)
+    }
+    await this.loadSessions()
+  }
+
+  private async handleProjectAction(e: CustomEvent<{ projectId: string; action: ProjectAction; name?: string }>) {
+    if (!this.client) return
+    const { projectId, action, name } = e.detail
+    try {
+      if (action === 'rename') await this.client.request('projects.update', { projectId, name })
+      if (action === 'delete') await this.client.request('projects.delete', { projectId })
+    } catch (err) {
+      console.error(`Failed to ${action} project:`, err)
+    }
+    await this.loadSessions()
+  }
+
+  private async handleArchivedToggle(e: CustomEvent<{ showArchived: boolean }>) {
+    this.showArchived = e.detail.showArchived
+    await this.loadSessions()
+  }
+
+  private handleOpenAgents() {
+    this.showAgents = !this.showAgents
   }
 
   render() {
@@ -633,12 +757,23 @@ export class JarvisApp extends LitElement {
           <jarvis-session-list
             .sessions=${this.sessions}
             .activeKey=${this.activeSessionKey}
+            .agentsOpen=${this.showAgents}
+            .showArchived=${this.showArchived}
+            .projects=${this.projects}
             @session-new=${this.handleNewSession}
+            @project-new=${this.handleNewProject}
+            @project-action=${this.handleProjectAction}
             @session-select=${this.handleSelectSession}
+            @session-action=${this.handleSessionAction}
+            @session-import=${this.handleSessionImport}
+            @archived-toggle=${this.handleArchivedToggle}
+            @agents-open=${this.handleOpenAgents}
           ></jarvis-session-list>
         </div>
         <div class="main">
-          ${this.activeSessionKey && this.client
+          ${this.showAgents && this.client
+            ? html`<jarvis-agent-manager .client=${this.client}></jarvis-agent-manager>`
+            : this.activeSessionKey && this.client
             ? html`
                 <jarvis-chat-view
                   .client=${this.client}
@@ -0,0 +1,498 @@
+import { LitElement, html, css } from 'lit'
+import { customElement, property, state } from 'lit/decorators.js'
+import { repeat } from 'lit/directives/repeat.js'
+import type { WsClient } from '../ws-client.js'
+
+export interface AgentInfo {
+  id: string
+  model: string
+  description: string
+  fallback: string[]
+  thinking?: number
+  tools?: string[]
+  temperature?: number
+  maxOutputTokens?: number
+  maxToolTurns: number
+  prompts?: string[]
+  approval: 'ask' | 'auto' | 'deny'
+  warnings?: string[]
+}
+
+interface AgentError {
+  agentId: string
+  line: number
+  errors: string[]
+}
+
+interface ProviderInfo {
+  id: string
+  models: string[]
+}
+
+interface AgentsListResult {
+  agents: AgentInfo[]
+  errors: AgentError[]
+  providers: ProviderInfo[]
+  readError?: string
+}
+
+/** Form values, kept as strings so half-typed numbers and lists survive re-renders. */
+interface Draft {
+  id: string
+  provider: string
+  model: string
+  description: string
+  fallback: string
+  thinking: string
+  tools: string
+  temperature: string
+  maxOutputTokens: string
+  maxToolTurns: string
+  prompts: string
+  approval: string
+}
+
+const EMPTY_DRAFT: Draft = {
+  id: '',
+  provider: '',
+  model: '',
+  description: '',
+  fallback: '',
+  thinking: '',
+  tools: '',
+  temperature: '',
+  maxOutputTokens: '',
+  maxToolTurns: '',
+  prompts: '',
+  approval: 'ask',
+}
+
+function toDraft(agent: AgentInfo): Draft {
+  const slash = agent.model.indexOf('/')
+  return {
+    id: agent.id,
+    provider: agent.model.slice(0, slash),
+    model: agent.model.slice(slash + 1),
+    description: agent.description,
+    fallback: agent.fallback.join(', '),
+    thinking: agent.thinking?.toString() ?? '',
+    tools: agent.tools ? (agent.tools.length > 0 ? agent.tools.join(', ') : 'none') : '',
+    temperature: agent.temperature?.toString() ?? '',
+    maxOutputTokens: agent.maxOutputTokens?.toString() ?? '',
+    maxToolTurns: agent.maxToolTurns === 10 ? '' : String(agent.maxToolTurns),
+    prompts: agent.prompts?.join(', ') ?? '',
+    approval: agent.approval,
+  }
+}
+
+function list(value: string): string[] | null {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  if (trimmed.toLowerCase() === 'none') return []
+  return trimmed.split(',').map((item) => item.trim()).filter(Boolean)
+}
+
+function number(value: string): number | null {
+  return value.trim() ? Number(value) : null
+}
+
+/**
+ * Lists the agents from AGENTS.md and edits them through agents.create /
+ * update / duplicate / delete. Refreshes on `agents.changed`, so edits made
+ * in a text editor show up too.
+ */
+@customElement('jarvis-agent-manager')
+export class AgentManager extends LitElement {
+  static styles = css`
+    :host {
+      display: flex;
+      height: 100%;
+      min-height: 0;
+      color: #ddd;
+      font-size: 14px;
+    }
+    .list {
+      width: 220px;
+      flex-shrink: 0;
+      border-right: 1px solid #1f2733;
+      overflow-y: auto;
+      padding: 12px 8px;
+    }
+    .list button.new {
+      width: 100%;
+      margin-bottom: 8px;
+      padding: 8px 12px;
+      border: 1px dashed #444;
+      border-radius: 8px;
+      background: transparent;
+      color: #aaa;
+      cursor: pointer;
+    }
+    .agent-item {
+      padding: 8px 10px;
+      border-radius: 8px;
+      cursor: pointer;
+      margin-bottom: 4px;
+    }
+    .agent-item:hover {
+      background: #1e1e2e;
+    }
+    .agent-item.active {
+      background: #1e3a5f;
+    }
+    .agent-item .model {
+      font-size: 11px;
+      color: #777;
+      margin-top: 2px;
+    }
+    .agent-item.invalid .id {
+      color: #ff8a80;
+    }
+    .editor {
+      flex: 1;
+      overflow-y: auto;
+      padding: 20px 24px;
+    }
+    .notice {
+      margin-bottom: 12px;
+      padding: 8px 12px;
+      border-radius: 6px;
+      font-size: 13px;
+    }
+    .notice.error {
+      background: rgba(255, 82, 82, 0.12);
+      color: #ff8a80;
+    }
+    .notice.warning {
+      background: rgba(255, 165, 0, 0.1);
+      color: #ffc266;
+    }
+    form {
+      display: grid;
+      grid-template-columns: 160px 1fr;
+      gap: 10px 14px;
+      align-items: center;
+      max-width: 640px;
+    }
+    label {
+      color: #888;
+      font-size: 12px;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+    input,
+    select {
+      padding: 7px 10px;
+      border: 1px solid #333;
+      border-radius: 6px;
+      background: #0f0f0f;
+      color: #e0e0e0;
+      font-size: 14px;
+    }
+    .model-row {
+      display: flex;
+      gap: 8px;
+    }
+    .model-row input {
+      flex: 1;
+    }
+    .hint {
+      grid-column: 2;
+      margin-top: -6px;
+      font-size: 11px;
+      color: #666;
+    }
+    .actions {
+      grid-column: 1 / -1;
+      display: flex;
+      gap: 8px;
+      margin-top: 8px;
+    }
+    .actions button {
+      padding: 8px 16px;
+      border: 1px solid #333;
+      border-radius: 6px;
+      background: #1e1e2e;
+      color: #ddd;
+      cursor: pointer;
+    }
+    .actions button.primary {
+      background: #1e3a5f;
+      border-color: #2f5b8f;
+    }
+    .actions button.danger {
+      margin-left: auto;
+      color: #ff8a80;
+    }
+    .actions button:disabled {
+      opacity: 0.5;
+      cursor: default;
+    }
+  `
+
+  @property({ attribute: false })
+  client: WsClient | null = null
+
+  @state() private agents: AgentInfo[] = []
+  @state() private errors: AgentError[] = []
+  @state() private providers: ProviderInfo[] = []
+  @state() private readError = ''
+  /** Agent being edited, or null for a new one. */
+  @state() private selectedId: string | null = null
+  @state() private draft: Draft = { ...EMPTY_DRAFT }
+  @state() private saving = false
+  @state() private formError = ''
+
+  private unsubscribe: (() => void) | null = null
+
+  connectedCallback(): void {
+    super.connectedCallback()
+    if (!this.client) return
+    this.unsubscribe = this.client.on('agents.changed', () => {
+      this.load().catch((err) => console.error('Failed to refresh agents:', err))
+    })
+    this.load().catch((err) => console.error('Failed to load agents:', err))
+  }
+
+  disconnectedCallback(): void {
+    super.disconnectedCallback()
+    this.unsubscribe?.()
+    this.unsubscribe = null
+  }
+
+  private async load() {
+    if (!this.client) return
+    const res = await this.client.request<AgentsListResult>('agents.list')
+    this.agents = res.agents
+    this.errors = res.errors
+    this.providers = res.providers
+    this.readError = res.readError ?? ''
+    if (this.selectedId === null && !this.draft.provider) {
+      this.draft = { ...this.draft, provider: res.providers[0]?.id ?? '' }
+    }
+  }
+
+  private select(agent: AgentInfo | null) {
+    this.selectedId = agent?.id ?? null
+    this.draft = agent ? toDraft(agent) : { ...EMPTY_DRAFT, provider: this.providers[0]?.id ?? '' }
+    this.formError = ''
+  }
+
+  private setField(field: keyof Draft, e: Event) {
+    this.draft = { ...this.draft, [field]: (e.target as HTMLInputElement).value }
+  }
+
+  /** Form values as RPC fields; blank optional fields are null (removed on update). */
+  private fields(): Record<string, unknown> {
+    const d = this.draft
+    return {
+      model: `${d.provider}/${d.model.trim()}`,
+      description: d.description.trim() || null,
+      fallback: list(d.fallback),
+      thinking: number(d.thinking),
+      tools: list(d.tools),
+      temperature: number(d.temperature),
+      maxOutputTokens: number(d.maxOutputTokens),
+      maxToolTurns: number(d.maxToolTurns),
+      prompts: list(d.prompts),
+      approval: d.approval === 'ask' ? null : d.approval,
+    }
+  }
+
+  private async run(action: () => Promise<void>) {
+    this.saving = true
+    this.formError = ''
+    try {
+      await action()
+      await this.load()
+    } catch (err) {
+      this.formError = (err as Error).message
+    } finally {
+      this.saving = false
+    }
+  }
+
+  private async handleSave(e: Event) {
+    e.preventDefault()
+    const client = this.client
+    if (!client) return
+    const fields = this.fields()
+
+    await this.run(async () => {
+      if (this.selectedId === null) {
+        // Create takes only the fields that are set
+        const set = Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== null))
+        await client.request('agents.create', { id: this.draft.id.trim(), ...set })
+        this.selectedId = this.draft.id.trim()
+      } else {
+        await client.request('agents.update', { id: this.selectedId, fields })
+      }
+    })
+  }
+
+  private async handleDuplicate() {
+    const client = this.client
+    const id = this.selectedId
+    if (!client || !id) return
+    const newId = window.prompt(`Copy "${id}" as:`, `${id}-copy`)?.trim()
+    if (!newId) return
+
+    await this.run(async () => {
+      const res = await client.request<{ agent: AgentInfo }>('agents.duplicate', { id, newId })
+      this.select(res.agent)
+    })
+  }
+
+  private async handleDelete() {
+    const client = this.client
+    const id = this.selectedId
+    if (!client || !id) return
+    if (!window.confirm(`Delete agent "${id}" from AGENTS.md?`)) return
+
+    await this.run(async () => {
+      await client.request('agents.delete', { id })
+      this.select(null)
+    })
+  }
+
+  render() {
+    const selected = this.agents.find((a) => a.id === this.selectedId)
+    const invalid = this.errors.find((e) => e.agentId === this.selectedId)
+    const models = this.providers.find((p) => p.id === this.draft.provider)?.models ?? []
+
+    return html`
+      <div class="list">
+        <button class="new" @click=${() => this.select(null)}>+ New Agent</button>
+        ${repeat(this.agents, (a) => a.id, (a) => html`
+          <div
+            class="agent-item ${a.id === this.selectedId ? 'active' : ''}"
+            @click=${() => this.select(a)}
+          >
+            <div class="id">${a.id}</div>
+            <div class="model">${a.model}</div>
+          </div>
+        `)}
+        ${this.errors
+          .filter((e) => !this.agents.some((a) => a.id === e.agentId))
+          .map((e) => html`
+            <div class="agent-item invalid" title=${e.errors.join('\n')}>
+              <div class="id">${e.agentId}</div>
+              <div class="model">Invalid (line ${e.line})</div>
+            </div>
+          `)}
+      </div>
+      <div class="editor">
+        ${this.readError
+          ? html`<div class="notice error">Can't read AGENTS.md: ${this.readError}</div>`
+          : ''}
+        ${invalid
+          ? html`<div class="notice error">Line ${invalid.line}: ${invalid.errors.join('; ')}</div>`
+          : ''}
+        ${selected?.warnings?.map((w) => html`<div class="notice warning">${w}</div>`)}
+        <form @submit=${this.handleSave}>
+          <label>Id</label>
+          <input
+            .value=${this.draft.id}
+            ?disabled=${this.selectedId !== null}
+            required
+            pattern="[\\w-]+"
+            @input=${(e: Event) => this.setField('id', e)}
+          />
+
+          <label>Model</label>
+          <div class="model-row">
+            <select .value=${this.draft.provider} @change=${(e: Event) => this.setField('provider', e)}>
+              ${this.providers.map((p) => html`
+                <option value=${p.id} ?selected=${p.id === this.draft.provider}>${p.id}</option>
+              `)}
+            </select>
+            <input
+              list="models"
+              required
+              .value=${this.draft.model}
+              @input=${(e: Event) => this.setField('model', e)}
+            />
+            <datalist id="models">
+              ${models.map((m) => html`<option value=${m}></option>`)}
+            </datalist>
+          </div>
+          ${this.providers.length === 0
+            ? html`<div class="hint">No providers are configured on the gateway</div>`
+            : ''}
+
+          <label>Description</label>
+          <input .value=${this.draft.description} @input=${(e: Event) => this.setField('description', e)} />
+
+          <label>Fallback</label>
+          <input
+            placeholder="openai/gpt-4o, local/llama3"
+            .value=${this.draft.fallback}
+            @input=${(e: Event) => this.setField('fallback', e)}
+          />
+
+          <label>Tools</label>
+          <input
+            placeholder="All tools"
+            .value=${this.draft.tools}
+            @input=${(e: Event) => this.setField('tools', e)}
+          />
+          <div class="hint">Comma-separated tool names, or "none"</div>
+
+          <label>Thinking budget</label>
+          <input type="number" min="1" placeholder="Off" .value=${this.draft.thinking}
+            @input=${(e: Event) => this.setField('thinking', e)} />
+
+          <label>Temperature</label>
+          <input type="number" min="0" max="2" step="0.1" placeholder="Provider default"
+            .value=${this.draft.temperature} @input=${(e: Event) => this.setField('temperature', e)} />
+
+          <label>Max output tokens</label>
+          <input type="number" min="1" placeholder="Provider default" .value=${this.draft.maxOutputTokens}
+            @input=${(e: Event) => this.setField('maxOutputTokens', e)} />
+
+          <label>Max tool turns</label>
+          <input type="number" min="1" max="100" placeholder="10" .value=${this.draft.maxToolTurns}
+            @input=${(e: Event) => this.setField('maxToolTurns', e)} />
+
+          <label>Prompts</label>
+          <input
+            placeholder="AGENTS.md, SOUL.md, TOOLS.md, SCHEDULER.md"
+            .value=${this.draft.prompts}
+            @input=${(e: Event) => this.setField('prompts', e)}
+          />
+
+          <label>Approval</label>
+          <select .value=${this.draft.approval} @change=${(e: Event) => this.setField('approval', e)}>
+            ${['ask', 'auto', 'deny'].map((a) => html`
+              <option value=${a} ?selected=${a === this.draft.approval}>${a}</option>
+            `)}
+          </select>
+
+          ${this.formError
+            ? html`<div class="notice error" style="grid-column: 1 / -1">${this.formError}</div>`
+            : ''}
+
+          <div class="actions">
+            <button class="primary" type="submit" ?disabled=${this.saving}>
+              ${this.selectedId === null ? 'Create' : 'Save'}
+            </button>
+            ${this.selectedId !== null
+              ? html`
+                  <button type="button" ?disabled=${this.saving} @click=${this.handleDuplicate}>Duplicate</button>
+                  <button type="button" class="danger" ?disabled=${this.saving} @click=${this.handleDelete}>
+                    Delete
+                  </button>
+                `
+              : ''}
+          </div>
+        </form>
+      </div>
+    `
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'jarvis-agent-manager': AgentManager
+  }
+}
@@ -1,6 +1,13 @@
 import { LitElement, html, css } from 'lit'
 import { customElement, property } from 'lit/decorators.js'
 
+export interface ApprovalRequest {
+  approvalId: string
+  runId?: string
+  toolName: string
+  summary: string
+}
+
 @customElement('jarvis-approval-dialog')
 export class ApprovalDialog extends LitElement {
   static styles = css`
@@ -60,6 +67,20 @@ export class ApprovalDialog extends LitElement {
       white-space: pre-wrap;
       word-break: break-all;
     }
+    .item {
+      border-top: 1px solid #2a2a2a;
+      padding-top: 10px;
+      margin-top: 10px;
+    }
+    .item-actions {
+      display: flex;
+      gap: 8px;
+      justify-content: flex-end;
+    }
+    .item-actions button {
+      padding: 4px 12px;
+      font-size: 12px;
+    }
     .actions {
       display: flex;
       gap: 10px;
@@ -90,51 +111,63 @@ export class ApprovalDialog extends LitElement {
     }
   `
 
-  @property({ type: String })
-  approvalId = ''
-
-  @property({ type: String })
-  toolName = ''
-
-  @property({ type: String })
-  summary = ''
+  /** Pending requests; parallel tool calls arrive together and can be settled as a batch. */
+  @property({ type: Array })
+  requests: ApprovalRequest[] = []
 
-  @property({ type: Boolean })
-  visible = false
-
-  private approve() {
+  private emit(type: 'approve' | 'deny', approvalIds: string[]) {
     this.dispatchEvent(
-      new CustomEvent('approve', {
-        detail: { approvalId: this.approvalId },
+      new CustomEvent(type, {
+        detail: { approvalIds },
         bubbles: true,
         composed: true,
       }),
     )
   }
 
-  private deny() {
-    this.dispatchEvent(
-      new CustomEvent('deny', {
-        detail: { approvalId: this.approvalId },
-        bubbles: true,
-        composed: true,
-      }),
-    )
+  private allIds(): string[] {
+    return this.requests.map((r) => r.approvalId)
   }
 
   render() {
-    if (!this.visible) return html``
+    if (this.requests.length === 0) return html``
+
+    if (this.requests.length === 1) {
+      const req = this.requests[0]!
+      return html`
+        <div class="overlay">
+          <div class="dialog">
+            <h3>⚠ Approval Required</h3>
+            <div class="tool-label">Tool: ${req.toolName}</div>
+            <p>The assistant wants to execute:</p>
+            <pre><code>${req.summary}</code></pre>
+            <div class="actions">
+              <button class="btn-deny" @click=${() => this.emit('deny', [req.approvalId])} autofocus>Deny</button>
+              <button class="btn-approve" @click=${() => this.emit('approve', [req.approvalId])}>Approve</button>
+            </div>
+          </div>
+        </div>
+      `
+    }
 
     return html`
       <div class="overlay">
         <div class="dialog">
-          <h3>⚠ Approval Required</h3>
-          <div class="tool-label">Tool: ${this.toolName}</div>
-          <p>The assistant wants to execute:</p>
-          <pre><code>${this.summary}</code></pre>
+          <h3>⚠ Approval Required (${this.requests.length})</h3>
+          <p>The assistant wants to run these in parallel:</p>
+          ${this.requests.map((req) => html`
+            <div class="item">
+              <div class="tool-label">Tool: ${req.toolName}</div>
+              <pre><code>${req.summary}</code></pre>
+              <div class="item-actions">
+                <button class="btn-deny" @click=${() => this.emit('deny', [req.approvalId])}>Deny</button>
+                <button class="btn-approve" @click=${() => this.emit('approve', [req.approvalId])}>Approve</button>
+              </div>
+            </div>
+          `)}
           <div class="actions">
-            <button class="btn-deny" @click=${this.deny} autofocus>Deny</button>
-            <button class="btn-approve" @click=${this.approve}>Approve</button>
+            <button class="btn-deny" @click=${() => this.emit('deny', this.allIds())} autofocus>Deny all</button>
+            <button class="btn-approve" @click=${() => this.emit('approve', this.allIds())}>Approve all</button>
           </div>
         </div>
       </div>
@@ -1,24 +1,91 @@
 import { LitElement, html, css } from 'lit'
 import type { PropertyValues } from 'lit'
 import { customElement, property, state, query } from 'lit/decorators.js'
-import type { WsClient } from '../ws-client.js'
+import type { EventMeta, WsClient } from '../ws-client.js'
 import type { MessageList, ChatMessage } from './message-list.js'
+import type { OutgoingAttachment } from './input-bar.js'
 import './message-list.js'
 import './input-bar.js'
+import type { ApprovalRequest } from './approval-dialog.js'
 import './approval-dialog.js'
 
-interface ApprovalRequest {
-  approvalId: string
-  toolName: string
-  summary: string
-}
-
 interface HistoryMessage {
-  role: 'user' | 'assistant' | 'tool_result'
+  id?: string
+  parentId?: string | null
+  /** Alternatives to this event left by edits or regenerations. */
+  siblings?: string[]
+  role: 'user' | 'assistant' | 'tool_use' | 'tool_result' | 'summary'
   content: string
   timestamp: number
   runId?: string
   toolName?: string
+  model?: string
+  thinking?: string
+  attachments?: Array<{ name: string }>
+  stopReason?: string
+}
+
+/** A page of chat.history; pass `nextCursor` back as `before` for the page before it. */
+interface HistoryPage {
+  messages: HistoryMessage[]
+  nextCursor: string | null
+}
+
+const TRUNCATED_NOTE = '\n\n_[Answer truncated at the output token limit]_'
+
+/**
+ * Text a run wrote before calling tools is stored with the calls; fold it
+ * into the run's answer so history reads like the streamed bubble did.
+ */
+function mergeToolTurnText(messages: HistoryMessage[]): HistoryMessage[] {
+  const merged: HistoryMessage[] = []
+  // Index of the bubble holding the current run's pre-tool text, if any
+  let open = -1
+
+  for (const m of messages) {
+    if (m.role === 'tool_result') continue
+    const target = open >= 0 && merged[open]!.runId === m.runId ? merged[open]! : null
+
+    if (m.role === 'tool_use') {
+      if (!m.content) continue
+      if (target) {
+        target.content = `${target.content}\n\n${m.content}`
+      } else {
+        open = merged.push({ ...m, role: 'assistant' }) - 1
+      }
+      continue
+    }
+    if (target && m.role === 'assistant') {
+      merged[open] = { ...m, content: m.content ? `${target.content}\n\n${m.content}` : target.content }
+    } else {
+      merged.push(m)
+    }
+    open = -1
+  }
+  return merged
+}
+
+/** A session event with its place in the session's sequence. */
+interface SessionEvent {
+  event: string
+  data: unknown
+  seq: number
+}
+
+/** chat.resume: what the client missed, or the runs in flight when it opens a session. */
+interface ResumeResult {
+  epoch: string
+  seq: number
+  runs: string[]
+  events: SessionEvent[]
+  complete: boolean
+}
+
+interface ProviderSwitchedEvent {
+  runId: string
+  from: string
+  to: string
+  reason: string
 }
 
 interface SchedulerRunCompletedEvent {
@@ -43,6 +110,41 @@ function nextMsgId(): string {
   return `msg-${++msgIdCounter}`
 }
 
+/** Turn history messages into list messages, with the branch controls each needs. */
+function toChatMessages(messages: HistoryMessage[]): ChatMessage[] {
+  // Alternatives by the event they follow: a user message's fork is under
+  // its parent, a reply's under the user message it answers
+  const forks = new Map<string | null, HistoryMessage>()
+  for (const m of messages) {
+    if (m.siblings) forks.set(m.parentId ?? null, m)
+  }
+  let lastUserId: string | undefined
+
+  return mergeToolTurnText(messages)
+    .filter((m) => m.role === 'user' || m.role === 'assistant' || m.role === 'summary')
+    .map((m) => {
+      const msg: ChatMessage = {
+        id: nextMsgId(),
+        role: m.role as 'user' | 'assistant' | 'summary',
+        content: m.stopReason === 'max_tokens' ? m.content + TRUNCATED_NOTE : m.content,
+        runId: m.runId,
+        model: m.model,
+        thinking: m.thinking,
+        attachments: m.role === 'user' ? m.attachments?.map((a) => a.name) : undefined,
+      }
+      if (m.role === 'user' && m.id) {
+        lastUserId = m.id
+        const fork = forks.get(m.parentId ?? null)
+        return { ...msg, parentEventId: m.parentId ?? null, siblings: fork?.siblings, siblingId: m.id }
+      }
+      if (m.role === 'assistant' && lastUserId) {
+        const fork = forks.get(lastUserId)
+        return { ...msg, parentEventId: lastUserId, siblings: fork?.siblings, siblingId: fork?.id }
+      }
+      return msg
+    })
+}
+
 @customElement('jarvis-chat-view')
 export class ChatView extends LitElement {
   static styles = css`
@@ -70,7 +172,7 @@ export class ChatView extends LitElement {
   private streaming = false
 
   @state()
-  private pendingApproval: ApprovalRequest | null = null
+  private pendingApprovals: ApprovalRequest[] = []
 
   @state()
   private progressMessage = ''
@@ -82,11 +184,27 @@ export class ChatView extends LitElement {
   private currentRunId = ''
   private hasStreamingAssistant = false
   private historyRequestId = 0
+  /** Cursor for the page before the oldest loaded message; null when it is the first. */
+  @state()
+  private nextCursor: string | null = null
+  /** A branch was started; reload history when the run ends to show its alternatives. */
+  private reloadAfterRun = false
+  /** Session event handlers by event name; see receive(). */
+  private sessionHandlers = new Map<string, (data: unknown) => void>()
+  /** Sequence number of the last session event handled, or null before the first chat.resume. */
+  private lastSeq: number | null = null
+  private epoch: string | undefined
+  /** Live events held back while chat.resume is in flight, handled after its replay. */
+  private held: SessionEvent[] | null = null
+  private resumeRequestId = 0
+  /** Runs that finished here, so a late or replayed event doesn't reopen them. */
+  private endedRuns = new Set<string>()
 
   async connectedCallback() {
     super.connectedCallback()
-    await this.loadHistory()
     this.subscribeEvents()
+    await this.loadHistory()
+    await this.catchUp()
   }
 
   disconnectedCallback() {
@@ -98,16 +216,20 @@ export class ChatView extends LitElement {
   protected updated(changed: PropertyValues<this>) {
     if (changed.has('sessionKey')) {
       this.resetViewState()
-      void this.loadHistory()
+      void this.loadHistory().then(() => this.catchUp())
     }
   }
 
   private resetViewState() {
     this.streaming = false
-    this.pendingApproval = null
+    this.pendingApprovals = []
     this.progressMessage = ''
     this.currentRunId = ''
     this.hasStreamingAssistant = false
+    this.nextCursor = null
+    this.lastSeq = null
+    this.held = null
+    this.endedRuns.clear()
     this.messageList?.setMessages([])
   }
 
@@ -116,7 +238,7 @@ export class ChatView extends LitElement {
     const targetSession = this.sessionKey
 
     try {
-      const res = await this.client.request<{ messages: HistoryMessage[] }>(
+      const res = await this.client.request<HistoryPage>(
         'chat.history',
         { sessionKey: targetSession },
       )
@@ -126,85 +248,214 @@ export class ChatView extends LitElement {
         return
       }
 
-      const msgs: ChatMessage[] = res.messages
-        .filter((m) => m.role === 'user' || m.role === 'assistant')
-        .map((m) => ({
-          id: nextMsgId(),
-          role: m.role as 'user' | 'assistant',
-          content: m.content,
-          runId: m.runId,
-        }))
-
+      this.nextCursor = res.nextCursor
       // Wait for first render so messageList exists
       await this.updateComplete
-      this.messageList?.setMessages(msgs)
+      this.messageList?.setMessages(toChatMessages(res.messages))
     } catch (err) {
       console.error('Failed to load history:', err)
     }
   }
 
-  private subscribeEvents() {
-    this.unsubscribers.push(
-      this.client.on('chat.delta', (data) => {
-        const { runId, text } = data as { runId: string; text: string }
-        if (!this.currentRunId && this.streaming) {
-          this.currentRunId = runId
-          this.ensureStreamingAssistant(runId)
-        }
-        if (runId === this.currentRunId) {
-          this.messageList?.addDelta(runId, text)
-        }
-      }),
-    )
+  /**
+   * Follow the session through chat.resume and replay what was missed: the
+   * events since the last one handled, or on opening the session those of
+   * the runs still in flight. If the gateway no longer has them, start over
+   * from history.
+   */
+  private async catchUp() {
+    const requestId = ++this.resumeRequestId
+    const targetSession = this.sessionKey
+    const since = this.lastSeq
+    this.held = []
 
-    this.unsubscribers.push(
-      this.client.on('chat.final', (data) => {
-        const { runId } = data as { runId: string }
-        if (!this.currentRunId && this.streaming) {
-          this.currentRunId = runId
-          this.ensureStreamingAssistant(runId)
-        }
-        if (runId === this.currentRunId) {
-          this.messageList?.finishRun(runId)
-          this.streaming = false
-          this.progressMessage = ''
-          this.currentRunId = ''
-          this.hasStreamingAssistant = false
-        }
-      }),
-    )
+    try {
+      const res = await this.client.request<ResumeResult>(
+        'chat.resume',
+        { sessionKey: targetSession, ...(since !== null ? { afterSeq: since, epoch: this.epoch } : {}) },
+      )
+      if (requestId !== this.resumeRequestId || targetSession !== this.sessionKey) {
+        return
+      }
+
+      this.epoch = res.epoch
+      if (!res.complete && since !== null) {
+        this.resetViewState()
+        await this.loadHistory()
+        await this.catchUp()
+        return
+      }
+      if (res.complete && since === null && res.runs.length > 0) {
+        // The replay redraws what the runs in flight have stored so far
+        const messages = this.messageList?.messages ?? []
+        this.messageList?.setMessages(messages.filter((m) => !m.runId || !res.runs.includes(m.runId)))
+      }
+
+      const held = this.held ?? []
+      this.held = null
+      for (const e of [...res.events, ...held]) this.receive(e)
+      this.lastSeq = Math.max(this.lastSeq ?? 0, res.seq)
+      for (const runId of res.runs) this.adopt(runId)
+    } catch (err) {
+      if (requestId === this.resumeRequestId) this.held = null
+      console.error('Failed to resume session:', err)
+    }
+  }
 
+  /** Handle a session event once, in sequence order; held back while catching up. */
+  private receive(e: SessionEvent) {
+    if (this.held) {
+      this.held.push(e)
+      return
+    }
+    if (this.lastSeq !== null && e.seq <= this.lastSeq) return
+    this.lastSeq = e.seq
+    this.sessionHandlers.get(e.event)?.(e.data)
+  }
+
+  /** Subscribe to a session event; events of other sessions are ignored. */
+  private onSessionEvent(event: string, handler: (data: unknown) => void) {
+    this.sessionHandlers.set(event, handler)
     this.unsubscribers.push(
-      this.client.on('chat.error', (data) => {
-        const { runId, message } = data as { runId: string; message: string }
-        if (!this.currentRunId && this.streaming) {
-          this.currentRunId = runId
-          this.ensureStreamingAssistant(runId)
-        }
-        if (runId === this.currentRunId) {
-          this.messageList?.addDelta(runId, `\n\n**Error:** ${message}`)
-          this.messageList?.finishRun(runId)
-          this.streaming = false
-          this.progressMessage = ''
-          this.currentRunId = ''
-          this.hasStreamingAssistant = false
+      this.client.on(event, (data, meta: EventMeta) => {
+        // Without a sequence number the event comes straight from the run's caller
+        if (meta.seq === undefined) {
+          handler(data)
+          return
         }
+        if (meta.sessionKey === this.sessionKey) this.receive({ event, data, seq: meta.seq })
       }),
     )
+  }
 
-    this.unsubscribers.push(
-      this.client.on('exec.approval_request', (data) => {
-        const req = data as ApprovalRequest
-        this.pendingApproval = req
-      }),
-    )
+  /** Show a run of this session as streaming, whichever client started it. */
+  private adopt(runId: string) {
+    if (this.currentRunId || this.endedRuns.has(runId)) return
+    this.streaming = true
+    this.currentRunId = runId
+    this.ensureStreamingAssistant(runId)
+  }
 
-    this.unsubscribers.push(
-      this.client.on('tool.progress', (data) => {
-        const { message } = data as { message: string }
-        this.progressMessage = message
-      }),
-    )
+  /** Fetch the page of history before the oldest message shown. */
+  private async loadEarlier() {
+    const before = this.nextCursor
+    if (!before) return
+    const requestId = this.historyRequestId
+    const targetSession = this.sessionKey
+
+    try {
+      const res = await this.client.request<HistoryPage>(
+        'chat.history',
+        { sessionKey: targetSession, before },
+      )
+      if (requestId !== this.historyRequestId || targetSession !== this.sessionKey) {
+        return
+      }
+
+      this.nextCursor = res.nextCursor
+      this.messageList?.prependMessages(toChatMessages(res.messages))
+    } catch (err) {
+      console.error('Failed to load earlier messages:', err)
+    }
+  }
+
+  private subscribeEvents() {
+    // Replay what was missed while the connection was down
+    this.unsubscribers.push(this.client.onReconnect(() => void this.catchUp()))
+
+    this.onSessionEvent('chat.delta', (data) => {
+      const { runId, text } = data as { runId: string; text: string }
+      this.adopt(runId)
+      if (runId === this.currentRunId) {
+        this.messageList?.addDelta(runId, text)
+      }
+    })
+
+    this.onSessionEvent('chat.thinking', (data) => {
+      const { runId, text } = data as { runId: string; text: string }
+      this.adopt(runId)
+      if (runId === this.currentRunId) {
+        this.messageList?.addThinking(runId, text)
+      }
+    })
+
+    this.onSessionEvent('chat.final', (data) => {
+      const { runId, model, stopReason } = data as { runId: string; model?: string; stopReason?: string }
+      this.adopt(runId)
+      if (runId === this.currentRunId) {
+        if (model) this.messageList?.setRunModel(runId, model)
+        if (stopReason === 'max_tokens') this.messageList?.addDelta(runId, TRUNCATED_NOTE)
+        this.messageList?.finishRun(runId)
+        this.endedRuns.add(runId)
+        this.streaming = false
+        this.progressMessage = ''
+        this.currentRunId = ''
+        this.hasStreamingAssistant = false
+        this.reloadBranches()
+      }
+    })
+
+    this.onSessionEvent('chat.error', (data) => {
+      const { runId, message } = data as { runId: string; message: string }
+      this.adopt(runId)
+      if (runId === this.currentRunId) {
+        this.messageList?.addDelta(runId, `\n\n**Error:** ${message}`)
+        this.messageList?.finishRun(runId)
+        this.endedRuns.add(runId)
+        this.streaming = false
+        this.progressMessage = ''
+        this.currentRunId = ''
+        this.hasStreamingAssistant = false
+        this.reloadBranches()
+      }
+    })
+
+    this.onSessionEvent('chat.provider_switched', (data) => {
+      const evt = data as ProviderSwitchedEvent
+      this.adopt(evt.runId)
+      if (evt.runId === this.currentRunId) {
+        this.messageList?.setRunModel(evt.runId, evt.to)
+        this.progressMessage = `Switched from ${evt.from} to ${evt.to}: ${evt.reason}`
+      }
+    })
+
+    this.onSessionEvent('chat.continued', (data) => {
+      const { runId, continuation } = data as { runId: string; continuation: number }
+      if (runId === this.currentRunId) {
+        this.progressMessage = `Answer reached the output limit; continuing (${continuation})`
+      }
+    })
+
+    this.onSessionEvent('chat.repair', (data) => {
+      const { runId, error } = data as { runId: string; error: string }
+      if (runId === this.currentRunId) {
+        this.messageList?.resetRun(runId)
+        this.progressMessage = `Answer did not match the response schema (${error}); retrying`
+      }
+    })
+
+    this.onSessionEvent('chat.compacted', (data) => {
+      const { sessionKey, summarizedMessages } = data as { sessionKey: string; summarizedMessages: number }
+      if (sessionKey === this.sessionKey) {
+        this.progressMessage = `Summarized ${summarizedMessages} earlier messages to fit the context window`
+      }
+    })
+
+    this.onSessionEvent('exec.approval_request', (data) => {
+      const req = data as ApprovalRequest
+      this.pendingApprovals = [...this.pendingApprovals, req]
+    })
+
+    // Answered here or in another client viewing the session
+    this.onSessionEvent('exec.approval_resolved', (data) => {
+      const { approvalIds } = data as { approvalIds: string[] }
+      this.settleApprovals(approvalIds)
+    })
+
+    this.onSessionEvent('tool.progress', (data) => {
+      const { message } = data as { message: string }
+      this.progressMessage = message
+    })
 
     this.unsubscribers.push(
       this.client.on('scheduler.run_completed', (data) => {
@@ -212,22 +463,17 @@ export class ChatView extends LitElement {
       }),
     )
 
-    this.unsubscribers.push(
-      this.client.on('chat.tool_result', (data) => {
-        const evt = data as ChatToolResultEvent
-        if (!this.currentRunId && this.streaming) {
-          this.currentRunId = evt.runId
-          this.ensureStreamingAssistant(evt.runId)
-        }
+    this.onSessionEvent('chat.tool_result', (data) => {
+      const evt = data as ChatToolResultEvent
+      this.adopt(evt.runId)
 
-        if (evt.runId !== this.currentRunId) return
-        if (evt.tool !== 'bash') return
+      if (evt.runId !== this.currentRunId) return
+      if (evt.tool !== 'bash') return
 
-        const header = `\n\n**Bash Output** (exit ${evt.exitCode ?? 'n/a'}):\n`
-        const body = `\`\`\`\n${evt.output}\n\`\`\``
-        this.messageList?.addDelta(evt.runId, `${header}${body}`)
-      }),
-    )
+      const header = `\n\n**Bash Output** (exit ${evt.exitCode ?? 'n/a'}):\n`
+      const body = `\`\`\`\n${evt.output}\n\`\`\``
+      this.messageList?.addDelta(evt.runId, `${header}${body}`)
+    })
   }
 
   private async handleSchedulerRunCompleted(evt: SchedulerRunCompletedEvent): Promise<void> {
@@ -270,33 +516,76 @@ export class ChatView extends LitElement {
     })
   }
 
-  private async handleSend(e: CustomEvent<{ message: string }>) {
-    const { message } = e.detail
+  private async handleSend(e: CustomEvent<{ message: string; attachments: OutgoingAttachment[] }>) {
+    const { message, attachments } = e.detail
+    await this.startRun({ message, attachments }, {
+      id: nextMsgId(),
+      role: 'user',
+      content: message,
+      attachments: attachments.map((a) => a.name),
+    })
+  }
+
+  /** Resend an edited user message as a new branch from the event before it. */
+  private async handleEdit(e: CustomEvent<{ parentEventId: string | null; content: string }>) {
+    const { parentEventId, content } = e.detail
+    this.dropFrom('user', parentEventId)
+    this.reloadAfterRun = true
+    await this.startRun({ message: content, parentEventId }, { id: nextMsgId(), role: 'user', content })
+  }
+
+  /** Answer a user message again as a new branch beside the current reply. */
+  private async handleRegenerate(e: CustomEvent<{ parentEventId: string }>) {
+    const { parentEventId } = e.detail
+    this.dropFrom('assistant', parentEventId)
+    this.reloadAfterRun = true
+    await this.startRun({ parentEventId, regenerate: true }, null)
+  }
+
+  private async handleBranchSelect(e: CustomEvent<{ eventId: string }>) {
+    try {
+      await this.client.request('sessions.selectBranch', { sessionKey: this.sessionKey, eventId: e.detail.eventId })
+      await this.loadHistory()
+    } catch (err) {
+      console.error('Failed to switch branch:', err)
+    }
+  }
+
+  /** Remove the message being replaced by an edit or regeneration, and everything after it. */
+  private dropFrom(role: 'user' | 'assistant', parentEventId: string | null) {
+    const messages = this.messageList?.messages ?? []
+    const index = messages.findIndex((m) => m.role === role && m.parentEventId === parentEventId)
+    if (index >= 0) this.messageList?.setMessages(messages.slice(0, index))
+  }
+
+  private async startRun(params: Record<string, unknown>, user: ChatMessage | null) {
     this.streaming = true
     this.currentRunId = ''
     this.hasStreamingAssistant = false
 
     // Add user message optimistically
-    this.messageList?.addMessage({
-      id: nextMsgId(),
-      role: 'user',
-      content: message,
-    })
+    if (user) this.messageList?.addMessage(user)
 
     try {
-      const res = await this.client.request<{ runId: string }>(
+      const res = await this.client.request<{ runId: string; userEvent?: { id: string; parentId: string | null } }>(
         'chat.send',
-        { sessionKey: this.sessionKey, message },
+        { sessionKey: this.sessionKey, ...params },
       )
       if (!this.currentRunId) {
         this.currentRunId = res.runId
       }
       this.ensureStreamingAssistant(this.currentRunId)
+      // Lets the new messages be edited and regenerated without reloading history
+      if (user && res.userEvent) {
+        this.messageList?.updateMessage(user.id, { parentEventId: res.userEvent.parentId, siblingId: res.userEvent.id })
+        this.messageList?.setRunParent(res.runId, res.userEvent.id)
+      }
     } catch (err) {
       this.streaming = false
       this.progressMessage = ''
       this.currentRunId = ''
       this.hasStreamingAssistant = false
+      this.reloadAfterRun = false
       const message = err instanceof Error ? err.message : 'Failed to send message'
       this.messageList?.addMessage({
         id: nextMsgId(),
@@ -307,6 +596,12 @@ export class ChatView extends LitElement {
     }
   }
 
+  private reloadBranches() {
+    if (!this.reloadAfterRun) return
+    this.reloadAfterRun = false
+    void this.loadHistory()
+  }
+
   private ensureStreamingAssistant(runId: string) {
     if (this.hasStreamingAssistant) return
     this.messageList?.addMessage({
@@ -319,29 +614,40 @@ export class ChatView extends LitElement {
     this.hasStreamingAssistant = true
   }
 
-  private async handleApprove(e: CustomEvent<{ approvalId: string }>) {
-    const { approvalId } = e.detail
-    this.pendingApproval = null
+  private async handleApprove(e: CustomEvent<{ approvalIds: string[] }>) {
+    const { approvalIds } = e.detail
+    this.settleApprovals(approvalIds)
     try {
-      await this.client.request('exec.approve', { approvalId })
+      await this.client.request('exec.approve', { approvalIds })
     } catch (err) {
       console.error('Failed to approve:', err)
     }
   }
 
-  private async handleDeny(e: CustomEvent<{ approvalId: string }>) {
-    const { approvalId } = e.detail
-    this.pendingApproval = null
+  private async handleDeny(e: CustomEvent<{ approvalIds: string[] }>) {
+    const { approvalIds } = e.detail
+    this.settleApprovals(approvalIds)
     try {
-      await this.client.request('exec.deny', { approvalId })
+      await this.client.request('exec.deny', { approvalIds })
     } catch (err) {
       console.error('Failed to deny:', err)
     }
   }
 
+  private settleApprovals(approvalIds: string[]) {
+    this.pendingApprovals = this.pendingApprovals.filter((r) => !approvalIds.includes(r.approvalId))
+  }
+
   render() {
     return html`
-      <jarvis-message-list></jarvis-message-list>
+      <jarvis-message-list
+        .busy=${this.streaming}
+        .hasEarlier=${this.nextCursor !== null}
+        @load-earlier=${this.loadEarlier}
+        @message-edit=${this.handleEdit}
+        @message-regenerate=${this.handleRegenerate}
+        @branch-select=${this.handleBranchSelect}
+      ></jarvis-message-list>
       ${this.progressMessage
         ? html`<div class="progress-bar">⏳ ${this.progressMessage}</div>`
         : ''}
@@ -350,10 +656,7 @@ export class ChatView extends LitElement {
         @send=${this.handleSend}
       ></jarvis-input-bar>
       <jarvis-approval-dialog
-        .visible=${this.pendingApproval !== null}
-        .approvalId=${this.pendingApproval?.approvalId ?? ''}
-        .toolName=${this.pendingApproval?.toolName ?? ''}
-        .summary=${this.pendingApproval?.summary ?? ''}
+        .requests=${this.pendingApprovals}
         @approve=${this.handleApprove}
         @deny=${this.handleDeny}
       ></jarvis-approval-dialog>
@@ -1,5 +1,37 @@
 import { LitElement, html, css } from 'lit'
-import { customElement, property, query } from 'lit/decorators.js'
+import { customElement, property, query, state } from 'lit/decorators.js'
+
+export interface OutgoingAttachment {
+  name: string
+  mimeType: string
+  data: string // base64
+}
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024
+const MAX_ATTACHMENTS_TOTAL_BYTES = 50 * 1024 * 1024
+const ACCEPTED_TYPES = 'image/png,image/jpeg,image/gif,image/webp,application/pdf,text/*,.md,.json,.csv,.yaml,.yml'
+
+/** Browsers report an empty type for many text formats; fall back on the extension. */
+function guessMimeType(file: File): string {
+  if (file.type) return file.type
+  const ext = file.name.split('.').pop()?.toLowerCase()
+  if (ext === 'md') return 'text/markdown'
+  if (ext === 'json') return 'application/json'
+  if (ext === 'yaml' || ext === 'yml') return 'application/x-yaml'
+  return 'text/plain'
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => {
+      const url = reader.result as string
+      resolve(url.slice(url.indexOf(',') + 1))
+    }
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
 
 @customElement('jarvis-input-bar')
 export class InputBar extends LitElement {
@@ -54,6 +86,44 @@ export class InputBar extends LitElement {
       opacity: 0.5;
       cursor: not-allowed;
     }
+    .attach {
+      padding: 10px 12px;
+      background: #222;
+      color: #aaa;
+    }
+    .attach:hover:not(:disabled) {
+      background: #2a2a2a;
+    }
+    input[type='file'] {
+      display: none;
+    }
+    .chips {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      margin-bottom: 8px;
+    }
+    .chip {
+      display: inline-flex;
+      align-items: center;
+      gap: 6px;
+      padding: 3px 8px;
+      border-radius: 6px;
+      background: #1e1e2e;
+      color: #bbb;
+      font-size: 12px;
+    }
+    .chip button {
+      padding: 0 2px;
+      background: none;
+      color: #888;
+      font-size: 12px;
+    }
+    .error {
+      color: #e57373;
+      font-size: 12px;
+      margin-bottom: 6px;
+    }
   `
 
   @property({ type: Boolean })
@@ -62,6 +132,15 @@ export class InputBar extends LitElement {
   @query('textarea')
   private textarea!: HTMLTextAreaElement
 
+  @query('input[type="file"]')
+  private fileInput!: HTMLInputElement
+
+  @state()
+  private attachments: OutgoingAttachment[] = []
+
+  @state()
+  private attachError = ''
+
   private handleKeydown(e: KeyboardEvent) {
     // Submit on Enter (without Shift), newline on Shift+Enter
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -77,17 +156,58 @@ export class InputBar extends LitElement {
 
   private submit() {
     const message = this.textarea.value.trim()
-    if (!message || this.disabled) return
+    if ((!message && this.attachments.length === 0) || this.disabled) return
 
     this.dispatchEvent(
       new CustomEvent('send', {
-        detail: { message },
+        detail: { message, attachments: this.attachments },
         bubbles: true,
         composed: true,
       }),
     )
     this.textarea.value = ''
     this.textarea.style.height = 'auto'
+    this.attachments = []
+    this.attachError = ''
+  }
+
+  private async addFiles(files: FileList | File[]) {
+    this.attachError = ''
+    const added: OutgoingAttachment[] = []
+    // Decoded size of what is already attached; base64 is 4 characters per 3 bytes
+    let total = this.attachments.reduce((sum, a) => sum + a.data.length * 3 / 4, 0)
+    for (const file of Array.from(files)) {
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        this.attachError = `${file.name} is larger than 10 MB`
+        continue
+      }
+      if (total + file.size > MAX_ATTACHMENTS_TOTAL_BYTES) {
+        this.attachError = `Attachments can add up to 50 MB; ${file.name} doesn't fit`
+        continue
+      }
+      total += file.size
+      added.push({ name: file.name, mimeType: guessMimeType(file), data: await readAsBase64(file) })
+    }
+    this.attachments = [...this.attachments, ...added]
+  }
+
+  private handleFileChange() {
+    if (this.fileInput.files) {
+      void this.addFiles(this.fileInput.files)
+    }
+    this.fileInput.value = ''
+  }
+
+  private handlePaste(e: ClipboardEvent) {
+    const files = Array.from(e.clipboardData?.files ?? [])
+    if (files.length > 0) {
+      e.preventDefault()
+      void this.addFiles(files)
+    }
+  }
+
+  private removeAttachment(index: number) {
+    this.attachments = this.attachments.filter((_, i) => i !== index)
   }
 
   private handleInput() {
@@ -99,11 +219,33 @@ export class InputBar extends LitElement {
 
   render() {
     return html`
+      ${this.attachError ? html`<div class="error">${this.attachError}</div>` : ''}
+      ${this.attachments.length > 0
+        ? html`
+          <div class="chips">
+            ${this.attachments.map((a, i) => html`
+              <span class="chip">
+                📎 ${a.name}
+                <button type="button" title="Remove" @click=${() => this.removeAttachment(i)}>✕</button>
+              </span>
+            `)}
+          </div>
+        `
+        : ''}
       <form @submit=${this.handleSubmit}>
+        <input type="file" multiple accept=${ACCEPTED_TYPES} @change=${this.handleFileChange} />
+        <button
+          type="button"
+          class="attach"
+          title="Attach files"
+          ?disabled=${this.disabled}
+          @click=${() => this.fileInput.click()}
+        >📎</button>
         <textarea
           placeholder="Message..."
           @keydown=${this.handleKeydown}
           @input=${this.handleInput}
+          @paste=${this.handlePaste}
           ?disabled=${this.disabled}
           rows="1"
         ></textarea>
@@ -1,5 +1,5 @@
 import { LitElement, html, css } from 'lit'
-import { customElement, property } from 'lit/decorators.js'
+import { customElement, property, state } from 'lit/decorators.js'
 import './markdown-renderer.js'
 
 @customElement('jarvis-message-item')
@@ -32,6 +32,96 @@ export class MessageItem extends LitElement {
       margin-bottom: 4px;
       font-weight: 600;
     }
+    .thinking {
+      margin-bottom: 8px;
+      border-left: 2px solid #333;
+      padding-left: 10px;
+      color: #999;
+      font-size: 13px;
+    }
+    .thinking summary {
+      cursor: pointer;
+      font-size: 11px;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      color: #777;
+      user-select: none;
+    }
+    .thinking-body {
+      white-space: pre-wrap;
+      margin-top: 6px;
+    }
+    .attachments {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      margin-bottom: 6px;
+    }
+    .attachment {
+      padding: 2px 8px;
+      border-radius: 6px;
+      background: rgba(255, 255, 255, 0.08);
+      color: #bbb;
+      font-size: 12px;
+    }
+    .summary {
+      margin: 0 auto;
+      max-width: 85%;
+      border-top: 1px dashed #333;
+      border-bottom: 1px dashed #333;
+      padding: 6px 0;
+      color: #888;
+      font-size: 13px;
+    }
+    .summary summary {
+      cursor: pointer;
+      text-align: center;
+      font-size: 11px;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+      user-select: none;
+    }
+    .actions {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      margin-top: 4px;
+      font-size: 12px;
+      color: #777;
+    }
+    .message--user + .actions {
+      justify-content: flex-end;
+    }
+    .actions button {
+      padding: 2px 6px;
+      border: none;
+      border-radius: 4px;
+      background: transparent;
+      color: #888;
+      font-size: 12px;
+      cursor: pointer;
+    }
+    .actions button:hover:not(:disabled) {
+      background: rgba(255, 255, 255, 0.08);
+      color: #ccc;
+    }
+    .actions button:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+    .edit textarea {
+      width: 100%;
+      box-sizing: border-box;
+      min-height: 60px;
+      padding: 8px 10px;
+      border: 1px solid #333;
+      border-radius: 8px;
+      background: #1a1a1a;
+      color: #e0e0e0;
+      font-family: inherit;
+      font-size: 14px;
+      resize: vertical;
+    }
     .cursor {
       display: inline-block;
       animation: blink 1s step-end infinite;
@@ -45,7 +135,7 @@ export class MessageItem extends LitElement {
   `
 
   @property({ type: String })
-  role: 'user' | 'assistant' = 'user'
+  role: 'user' | 'assistant' | 'summary' = 'user'
 
   @property({ type: String })
   content = ''
@@ -53,15 +143,119 @@ export class MessageItem extends LitElement {
   @property({ type: Boolean })
   streaming = false
 
+  @property({ type: String })
+  model = ''
+
+  @property({ type: String })
+  thinking = ''
+
+  @property({ type: Array })
+  attachments: string[] = []
+
+  /**
+   * Transcript event an edit (user) or regeneration (assistant) continues
+   * from; undefined for messages not loaded from history yet.
+   */
+  @property({ attribute: false })
+  parentEventId: string | null | undefined = undefined
+
+  /** Alternatives to this message left by edits or regenerations, oldest first. */
+  @property({ type: Array })
+  siblings: string[] = []
+
+  /** Which of `siblings` is shown. */
+  @property({ type: String })
+  siblingId = ''
+
+  /** Disables editing and regenerating while a reply is streaming. */
+  @property({ type: Boolean })
+  busy = false
+
+  @state()
+  private editing = false
+
+  private emit(type: string, detail: unknown) {
+    this.dispatchEvent(new CustomEvent(type, { detail, bubbles: true, composed: true }))
+  }
+
+  private flip(step: number) {
+    const target = this.siblings[this.siblings.indexOf(this.siblingId) + step]
+    if (target) this.emit('branch-select', { eventId: target })
+  }
+
+  private saveEdit() {
+    const content = this.renderRoot.querySelector('textarea')?.value.trim() ?? ''
+    if (!content) return
+    this.editing = false
+    this.emit('message-edit', { parentEventId: this.parentEventId, content })
+  }
+
+  private renderActions() {
+    if (this.streaming || this.parentEventId === undefined) return ''
+    const index = this.siblings.indexOf(this.siblingId)
+
+    return html`
+      <div class="actions">
+        ${this.siblings.length > 1
+          ? html`
+            <button ?disabled=${this.busy || index <= 0} @click=${() => this.flip(-1)} title="Previous version">‹</button>
+            <span>${index + 1} / ${this.siblings.length}</span>
+            <button ?disabled=${this.busy || index >= this.siblings.length - 1} @click=${() => this.flip(1)} title="Next version">›</button>
+          `
+          : ''}
+        ${this.role === 'user'
+          ? html`<button ?disabled=${this.busy} @click=${() => { this.editing = true }} title="Edit and resend">✎ Edit</button>`
+          : html`<button ?disabled=${this.busy} @click=${() => this.emit('message-regenerate', { parentEventId: this.parentEventId })} title="Answer again">↻ Regenerate</button>`}
+      </div>
+    `
+  }
+
   render() {
-    const roleLabel = this.role === 'assistant' ? 'jarvis' : this.role
+    if (this.role === 'summary') {
+      return html`
+        <details class="summary">
+          <summary>Earlier conversation summarized</summary>
+          <jarvis-markdown .content=${this.content}></jarvis-markdown>
+        </details>
+      `
+    }
+
+    const roleLabel = this.role === 'assistant'
+      ? (this.model ? `jarvis · ${this.model}` : 'jarvis')
+      : this.role
 
     return html`
       <div class="message message--${this.role}">
         <div class="role-label">${roleLabel}</div>
-        <jarvis-markdown .content=${this.content}></jarvis-markdown>
+        ${this.thinking
+          ? html`
+            <details class="thinking" ?open=${this.streaming && !this.content}>
+              <summary>${this.streaming && !this.content ? 'Thinking…' : 'Thought process'}</summary>
+              <div class="thinking-body">${this.thinking}</div>
+            </details>
+          `
+          : ''}
+        ${this.attachments.length > 0
+          ? html`
+            <div class="attachments">
+              ${this.attachments.map((name) => html`<span class="attachment">📎 ${name}</span>`)}
+            </div>
+          `
+          : ''}
+        ${this.editing
+          ? html`
+            <div class="edit">
+              <textarea .value=${this.content}></textarea>
+              <div class="actions">
+                <button @click=${this.saveEdit}>Send</button>
+                <button @click=${() => { this.editing = false }}>Cancel</button>
+              </div>
+            </div>
+          `
+          : html`<jarvis-markdown .content=${this.content}></jarvis-markdown>`}
         ${this.streaming ? html`<span class="cursor">▋</span>` : ''}
       </div>
+      ${this.editing ? '' : this.renderActions()}
     `
   }
 }
@@ -1,14 +1,30 @@
 import { LitElement, html, css } from 'lit'
-import { customElement, state } from 'lit/decorators.js'
+import { customElement, property, state } from 'lit/decorators.js'
 import { repeat } from 'lit/directives/repeat.js'
 import './message-item.js'
 
 export interface ChatMessage {
   id: string
-  role: 'user' | 'assistant'
+  /** 'summary' marks where older turns were compacted into a summary. */
+  role: 'user' | 'assistant' | 'summary'
   content: string
   streaming?: boolean
   runId?: string
+  /** "provider/model" that answered, for assistant messages. */
+  model?: string
+  /** Model reasoning, shown collapsed above the answer. */
+  thinking?: string
+  /** Names of files sent with a user message. */
+  attachments?: string[]
+  /**
+   * Transcript event that editing (user) or regenerating (assistant) this
+   * message continues from; set for messages loaded from history.
+   */
+  parentEventId?: string | null
+  /** Alternatives left by earlier edits or regenerations, oldest first. */
+  siblings?: string[]
+  /** Which of `siblings` this message is on. */
+  siblingId?: string
 }
 
 @customElement('jarvis-message-list')
@@ -26,11 +42,37 @@ export class MessageList extends LitElement {
       margin-top: 40%;
       font-size: 15px;
     }
+    .earlier {
+      display: block;
+      margin: 0 auto 12px;
+      padding: 4px 12px;
+      border: 1px solid #333;
+      border-radius: 12px;
+      background: transparent;
+      color: #888;
+      font-size: 12px;
+      cursor: pointer;
+    }
+    .earlier:hover {
+      color: #ddd;
+      border-color: #555;
+    }
   `
 
   @state()
   messages: ChatMessage[] = []
 
+  /** A reply is streaming; edits, regenerations and branch flips wait. */
+  @property({ type: Boolean })
+  busy = false
+
+  /** More history exists before the first message; shows a button to load it. */
+  @property({ type: Boolean })
+  hasEarlier = false
+
+  /** Distance from the bottom to restore once earlier messages are added above. */
+  private keepFromBottom: number | null = null
+
   /**
    * Set all messages (e.g. from history load).
    */
@@ -38,6 +80,15 @@ export class MessageList extends LitElement {
     this.messages = [...msgs]
   }
 
+  /**
+   * Add a page of earlier history above the current messages without
+   * moving what is on screen.
+   */
+  prependMessages(msgs: ChatMessage[]) {
+    this.keepFromBottom = this.scrollHeight - this.scrollTop
+    this.messages = [...msgs, ...this.messages]
+  }
+
   /**
    * Add a message to the list.
    */
@@ -45,6 +96,13 @@ export class MessageList extends LitElement {
     this.messages = [...this.messages, msg]
   }
 
+  /**
+   * Update fields of one message.
+   */
+  updateMessage(id: string, patch: Partial<ChatMessage>) {
+    this.messages = this.messages.map((m) => (m.id === id ? { ...m, ...patch } : m))
+  }
+
   /**
    * Append streaming text to the assistant message for the given runId.
    */
@@ -56,6 +114,28 @@ export class MessageList extends LitElement {
     )
   }
 
+  /**
+   * Append streaming reasoning to the assistant message for the given runId.
+   */
+  addThinking(runId: string, text: string) {
+    this.messages = this.messages.map((m) =>
+      m.runId === runId && m.role === 'assistant'
+        ? { ...m, thinking: (m.thinking ?? '') + text }
+        : m,
+    )
+  }
+
+  /**
+   * Discard the streamed text for the given runId so a retried answer can replace it.
+   */
+  resetRun(runId: string) {
+    this.messages = this.messages.map((m) =>
+      m.runId === runId && m.role === 'assistant'
+        ? { ...m, content: '' }
+        : m,
+    )
+  }
+
   /**
    * Mark the streaming message for the given runId as complete.
    */
@@ -67,17 +147,51 @@ export class MessageList extends LitElement {
     )
   }
 
+  /**
+   * Record the user message the given runId answers, so it can be regenerated.
+   */
+  setRunParent(runId: string, parentEventId: string) {
+    this.messages = this.messages.map((m) =>
+      m.runId === runId && m.role === 'assistant'
+        ? { ...m, parentEventId }
+        : m,
+    )
+  }
+
+  /**
+   * Record which model is answering the given runId.
+   */
+  setRunModel(runId: string, model: string) {
+    this.messages = this.messages.map((m) =>
+      m.runId === runId && m.role === 'assistant'
+        ? { ...m, model }
+        : m,
+    )
+  }
+
   updated() {
+    if (this.keepFromBottom !== null) {
+      this.scrollTop = this.scrollHeight - this.keepFromBottom
+      this.keepFromBottom = null
+      return
+    }
     // Auto-scroll to bottom
     this.scrollTop = this.scrollHeight
   }
 
+  private handleEarlier() {
+    this.dispatchEvent(new CustomEvent('load-earlier', { bubbles: true, composed: true }))
+  }
+
   render() {
     if (this.messages.length === 0) {
       return html`<div class="empty">Start a conversation...</div>`
     }
 
     return html`
+      ${this.hasEarlier
+        ? html`<button class="earlier" @click=${this.handleEarlier}>Load earlier messages</button>`
+        : ''}
       ${repeat(
         this.messages,
         (m) => m.id,
@@ -85,7 +199,14 @@ export class MessageList extends LitElement {
           <jarvis-message-item
             .role=${m.role}
             .content=${m.content}
+            .model=${m.model ?? ''}
+            .thinking=${m.thinking ?? ''}
+            .attachments=${m.attachments ?? []}
             .streaming=${m.streaming ?? false}
+            .parentEventId=${m.parentEventId}
+            .siblings=${m.siblings ?? []}
+            .siblingId=${m.siblingId ?? ''}
+            .busy=${this.busy}
           ></jarvis-message-item>
         `,
       )}
@@ -1,5 +1,5 @@
 import { LitElement, html, css } from 'lit'
-import { customElement, property } from 'lit/decorators.js'
+import { customElement, property, state } from 'lit/decorators.js'
 import { repeat } from 'lit/directives/repeat.js'
 
 export interface SessionMeta {
@@ -8,8 +8,29 @@ export interface SessionMeta {
   createdAt: number
   updatedAt: number
   label?: string
+  archived?: boolean
+  pinned?: boolean
+  /** Model-written description of the conversation, when summaries are enabled. */
+  summary?: string
+  projectId?: string
+  messageCount?: number
+  lastMessage?: { role: 'user' | 'assistant'; content: string; timestamp: number }
 }
 
+export interface Project {
+  id: string
+  name: string
+  rootDir: string
+  promptDir?: string
+  defaultAgentId?: string
+}
+
+export type ProjectAction = 'rename' | 'delete'
+
+export type SessionAction = 'rename' | 'pin' | 'unpin' | 'duplicate' | 'export' | 'archive' | 'unarchive' | 'delete'
+
+export type ExportFormat = 'markdown' | 'html' | 'json'
+
 @customElement('jarvis-session-list')
 export class SessionList extends LitElement {
   static styles = css`
@@ -45,11 +66,72 @@ export class SessionList extends LitElement {
       border-color: #666;
       color: #ddd;
     }
+    .agents-btn {
+      width: 100%;
+      margin-top: 6px;
+      padding: 6px 12px;
+      border: 1px solid transparent;
+      border-radius: 8px;
+      background: transparent;
+      color: #777;
+      font-size: 12px;
+      cursor: pointer;
+    }
+    .agents-btn:hover,
+    .agents-btn.active {
+      border-color: #333;
+      color: #ddd;
+    }
     .list {
       flex: 1;
       overflow-y: auto;
       padding: 8px;
     }
+    .project-header {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      padding: 8px 6px 4px;
+      font-size: 11px;
+      color: #888;
+      text-transform: uppercase;
+      letter-spacing: 0.5px;
+    }
+    .project-header .name {
+      flex: 1;
+      cursor: pointer;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    .project-header .name:hover {
+      color: #ddd;
+    }
+    .project-header button {
+      padding: 2px 6px;
+      border: none;
+      border-radius: 4px;
+      background: transparent;
+      color: #666;
+      font-size: 11px;
+      cursor: pointer;
+      text-transform: none;
+    }
+    .project-header button:hover {
+      background: rgba(255, 255, 255, 0.08);
+      color: #ddd;
+    }
+    .project-header .actions {
+      display: none;
+    }
+    .project-header:hover .actions {
+      display: inline;
+    }
+    .project-empty {
+      padding: 2px 12px 8px;
+      font-size: 12px;
+      color: #555;
+    }
     .session-item {
       padding: 10px 12px;
       border-radius: 8px;
@@ -73,6 +155,83 @@ export class SessionList extends LitElement {
       color: #666;
       margin-top: 2px;
     }
+    .session-item .preview {
+      font-size: 12px;
+      color: #888;
+      margin-top: 2px;
+      white-space: nowrap;
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    .session-item .summary {
+      font-size: 12px;
+      color: #888;
+      margin-top: 2px;
+      display: -webkit-box;
+      -webkit-line-clamp: 2;
+      -webkit-box-orient: vertical;
+      overflow: hidden;
+    }
+    .session-item.archived .agent {
+      color: #888;
+      font-style: italic;
+    }
+    .session-actions {
+      display: none;
+      gap: 2px;
+      margin-top: 6px;
+    }
+    .session-item:hover .session-actions,
+    .session-item.active .session-actions {
+      display: flex;
+    }
+    .session-actions button {
+      padding: 2px 6px;
+      border: none;
+      border-radius: 4px;
+      background: transparent;
+      color: #888;
+      font-size: 11px;
+      cursor: pointer;
+    }
+    .session-actions button:hover {
+      background: rgba(255, 255, 255, 0.08);
+      color: #ddd;
+    }
+    .session-actions .danger:hover {
+      color: #f88;
+    }
+    .footer {
+      padding: 8px 16px;
+      border-top: 1px solid #222;
+      font-size: 12px;
+      color: #777;
+    }
+    .footer {
+      display: flex;
+      align-items: center;
+      justify-content: space-between;
+    }
+    .footer label {
+      cursor: pointer;
+      user-select: none;
+    }
+    .import-btn {
+      padding: 2px 8px;
+      border: 1px solid #333;
+      border-radius: 4px;
+      background: transparent;
+      color: #888;
+      font-size: 11px;
+      cursor: pointer;
+    }
+    .import-btn:hover {
+      color: #ddd;
+      border-color: #555;
+    }
+    .import-btn input {
+      display: none;
+    }
   `
 
   @property({ type: Array })
@@ -81,9 +240,69 @@ export class SessionList extends LitElement {
   @property({ type: String })
   activeKey: string | null = null
 
-  private handleNew() {
+  @property({ type: Boolean })
+  agentsOpen = false
+
+  @property({ type: Boolean })
+  showArchived = false
+
+  @property({ type: Array })
+  projects: Project[] = []
+
+  /** Projects whose sessions are hidden. */
+  @state()
+  private collapsed = new Set<string>()
+
+  private handleNew(projectId?: string) {
+    this.dispatchEvent(
+      new CustomEvent('session-new', {
+        detail: { projectId },
+        bubbles: true,
+        composed: true,
+      }),
+    )
+  }
+
+  private handleNewProject() {
+    const name = window.prompt('Project name:')?.trim()
+    if (!name) return
+    const rootDir = window.prompt(`Working directory for "${name}" (absolute path):`)?.trim()
+    if (!rootDir) return
+    this.dispatchEvent(
+      new CustomEvent('project-new', {
+        detail: { name, rootDir },
+        bubbles: true,
+        composed: true,
+      }),
+    )
+  }
+
+  private handleProjectAction(project: Project, action: ProjectAction) {
+    let name: string | undefined
+    if (action === 'rename') {
+      name = window.prompt('Rename project:', project.name)?.trim()
+      if (!name) return
+    }
+    if (action === 'delete' && !window.confirm(`Delete project "${project.name}"? Its sessions are kept.`)) return
+
     this.dispatchEvent(
-      new CustomEvent('session-new', { bubbles: true, composed: true }),
+      new CustomEvent('project-action', {
+        detail: { projectId: project.id, action, name },
+        bubbles: true,
+        composed: true,
+      }),
+    )
+  }
+
+  private toggleProject(id: string) {
+    const collapsed = new Set(this.collapsed)
+    if (!collapsed.delete(id)) collapsed.add(id)
+    this.collapsed = collapsed
+  }
+
+  private handleAgents() {
+    this.dispatchEvent(
+      new CustomEvent('agents-open', { bubbles: true, composed: true }),
     )
   }
 
@@ -97,6 +316,67 @@ export class SessionList extends LitElement {
     )
   }
 
+  private handleAction(e: Event, session: SessionMeta, action: SessionAction) {
+    e.stopPropagation()
+    const name = session.label?.trim() || session.agentId
+    let label: string | undefined
+    let format: ExportFormat | undefined
+    if (action === 'rename') {
+      label = window.prompt('Rename session:', name)?.trim()
+      if (!label) return
+    }
+    if (action === 'export') {
+      const answer = window.prompt('Export as markdown, html or json:', 'markdown')?.trim().toLowerCase()
+      if (!answer) return
+      if (answer !== 'markdown' && answer !== 'html' && answer !== 'json') {
+        window.alert(`Unknown format "${answer}"`)
+        return
+      }
+      format = answer
+    }
+    if (action === 'delete' && !window.confirm(`Delete "${name}" and its history? This cannot be undone.`)) return
+
+    this.dispatchEvent(
+      new CustomEvent('session-action', {
+        detail: { sessionKey: session.key, action, label, format },
+        bubbles: true,
+        composed: true,
+      }),
+    )
+  }
+
+  private async handleImport(e: Event) {
+    const input = e.target as HTMLInputElement
+    const file = input.files?.[0]
+    input.value = ''
+    if (!file) return
+
+    let bundle: unknown
+    try {
+      bundle = JSON.parse(await file.text())
+    } catch {
+      window.alert(`${file.name} is not a session export (expected a .jarvis.json file)`)
+      return
+    }
+    this.dispatchEvent(
+      new CustomEvent('session-import', {
+        detail: { bundle },
+        bubbles: true,
+        composed: true,
+      }),
+    )
+  }
+
+  private handleShowArchived(e: Event) {
+    this.dispatchEvent(
+      new CustomEvent('archived-toggle', {
+        detail: { showArchived: (e.target as HTMLInputElement).checked },
+        bubbles: true,
+        composed: true,
+      }),
+    )
+  }
+
   private formatDate(ts: number): string {
     const d = new Date(ts)
     const now = new Date()
@@ -115,26 +395,94 @@ export class SessionList extends LitElement {
     return key.slice(0, 8)
   }
 
+  /** Sessions outside any project, including ones whose project is gone. */
+  private ungrouped(): SessionMeta[] {
+    const ids = new Set(this.projects.map((p) => p.id))
+    return this.sessions.filter((s) => !s.projectId || !ids.has(s.projectId))
+  }
+
+  private renderProject(project: Project) {
+    const sessions = this.sessions.filter((s) => s.projectId === project.id)
+    const collapsed = this.collapsed.has(project.id)
+    return html`
+      <div class="project-header" title=${project.rootDir}>
+        <span class="name" @click=${() => this.toggleProject(project.id)}>
+          ${collapsed ? '▸' : '▾'} ${project.name}
+        </span>
+        <span class="actions">
+          <button @click=${() => this.handleProjectAction(project, 'rename')}>Rename</button>
+          <button @click=${() => this.handleProjectAction(project, 'delete')}>Delete</button>
+        </span>
+        <button title="New session in ${project.name}" @click=${() => this.handleNew(project.id)}>+</button>
+      </div>
+      ${collapsed
+        ? ''
+        : sessions.length === 0
+          ? html`<div class="project-empty">No sessions yet</div>`
+          : repeat(sessions, (s) => s.key, (s) => this.renderSession(s))}
+    `
+  }
+
+  private renderSession(s: SessionMeta) {
+    return html`
+      <div
+        class="session-item ${s.key === this.activeKey ? 'active' : ''} ${s.archived ? 'archived' : ''}"
+        title=${s.summary ?? ''}
+        @click=${() => this.handleSelect(s.key)}
+      >
+        <div class="agent">${s.pinned ? '📌 ' : ''}${s.label?.trim() || s.agentId}</div>
+        ${s.summary
+          ? html`<div class="summary">${s.summary}</div>`
+          : s.lastMessage
+            ? html`<div class="preview">${s.lastMessage.role === 'user' ? 'You: ' : ''}${s.lastMessage.content}</div>`
+            : ''}
+        <div class="date">
+          ${this.formatDate(s.updatedAt)} · ${s.messageCount
+            ? `${s.messageCount} message${s.messageCount === 1 ? '' : 's'}`
+            : this.shortKey(s.key)}
+        </div>
+        <div class="session-actions">
+          <button @click=${(e: Event) => this.handleAction(e, s, 'rename')}>Rename</button>
+          <button @click=${(e: Event) => this.handleAction(e, s, s.pinned ? 'unpin' : 'pin')}>
+            ${s.pinned ? 'Unpin' : 'Pin'}
+          </button>
+          <button @click=${(e: Event) => this.handleAction(e, s, 'duplicate')}>Duplicate</button>
+          <button @click=${(e: Event) => this.handleAction(e, s, 'export')}>Export</button>
+          <button @click=${(e: Event) => this.handleAction(e, s, s.archived ? 'unarchive' : 'archive')}>
+            ${s.archived ? 'Unarchive' : 'Archive'}
+          </button>
+          <button class="danger" @click=${(e: Event) => this.handleAction(e, s, 'delete')}>Delete</button>
+        </div>
+      </div>
+    `
+  }
+
   render() {
     return html`
       <div class="header">
         <h2>Sessions</h2>
-        <button class="new-btn" @click=${this.handleNew}>+ New Session</button>
+        <button class="new-btn" @click=${() => this.handleNew()}>+ New Session</button>
+        <button class="agents-btn" @click=${this.handleNewProject}>+ New Project</button>
+        <button class="agents-btn ${this.agentsOpen ? 'active' : ''}" @click=${this.handleAgents}>
+          Manage Agents
+        </button>
       </div>
       <div class="list">
-        ${repeat(
-          this.sessions,
-          (s) => s.key,
-          (s) => html`
-            <div
-              class="session-item ${s.key === this.activeKey ? 'active' : ''}"
-              @click=${() => this.handleSelect(s.key)}
-            >
-              <div class="agent">${s.label?.trim() || s.agentId}</div>
-              <div class="date">${this.formatDate(s.updatedAt)} · ${this.shortKey(s.key)}</div>
-            </div>
-          `,
-        )}
+        ${this.projects.map((project) => this.renderProject(project))}
+        ${this.projects.length > 0 && this.ungrouped().length > 0
+          ? html`<div class="project-header"><span class="name">Other sessions</span></div>`
+          : ''}
+        ${repeat(this.ungrouped(), (s) => s.key, (s) => this.renderSession(s))}
+      </div>
+      <div class="footer">
+        <label>
+          <input type="checkbox" .checked=${this.showArchived} @change=${this.handleShowArchived} />
+          Show archived
+        </label>
+        <label class="import-btn" title="Import a session exported as JSON">
+          Import…
+          <input type="file" accept=".json,application/json" @change=${this.handleImport} />
+        </label>
       </div>
     `
   }
@@ -1,4 +1,10 @@
-export type EventHandler = (data: unknown) => void
+/** Session events say which session they belong to and where they fall in its sequence. */
+export interface EventMeta {
+  sessionKey?: string
+  seq?: number
+}
+
+export type EventHandler = (data: unknown, meta: EventMeta) => void
 
 interface PendingRequest {
   resolve: (value: unknown) => void
@@ -14,6 +20,7 @@ export class WsClient {
   private nextId = 1
   private pending = new Map<string, PendingRequest>()
   private listeners = new Map<string, Set<EventHandler>>()
+  private reconnectListeners = new Set<() => void>()
   private intentionalClose = false
   private reconnectDelay = 1000
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null
@@ -79,9 +86,13 @@ export class WsClient {
         if (msg.event && typeof msg.event === 'string') {
           const handlers = this.listeners.get(msg.event)
           if (handlers) {
+            const meta: EventMeta = {
+              sessionKey: typeof msg.sessionKey === 'string' ? msg.sessionKey : undefined,
+              seq: typeof msg.seq === 'number' ? msg.seq : undefined,
+            }
             for (const handler of handlers) {
               try {
-                handler(msg.data)
+                handler(msg.data, meta)
               } catch {
                 // Swallow handler errors
               }
@@ -147,6 +158,17 @@ export class WsClient {
     }
   }
 
+  /**
+   * Run a handler each time the connection comes back after a drop, e.g. to
+   * catch up on missed session events. Returns an unsubscribe function.
+   */
+  onReconnect(handler: () => void): () => void {
+    this.reconnectListeners.add(handler)
+    return () => {
+      this.reconnectListeners.delete(handler)
+    }
+  }
+
   /**
    * Intentionally close the connection (no reconnect).
    */
@@ -166,7 +188,9 @@ export class WsClient {
     console.log(`[ws] Reconnecting in ${this.reconnectDelay}ms...`)
     this.reconnectTimer = setTimeout(() => {
       this.reconnectTimer = null
-      this.connect().catch(() => {
+      this.connect().then(() => {
+        for (const handler of this.reconnectListeners) handler()
+      }, () => {
         // Exponential backoff
         this.reconnectDelay = Math.min(this.reconnectDelay * 2, 30_000)
       })